@@ -1,30 +1,96 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { TrendingUp, TrendingDown, Activity, DollarSign } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import OptionsChain from '../components/OptionsChain';
+import type { QuoteSelection } from '../components/OptionsChain';
+import OrderTicket from '../components/OrderTicket';
+import OrderBlotter from '../components/OrderBlotter';
+import PaperFillsChart from '../components/PaperFillsChart';
+import ParameterSweep from '../components/ParameterSweep';
+import PortfolioView from '../components/PortfolioView';
+import RiskLimitsPanel from '../components/RiskLimitsPanel';
+import ScenarioPanel from '../components/ScenarioPanel';
 import StrategyBuilder from '../components/StrategyBuilder';
+import VolatilityPanel from '../components/VolatilityPanel';
+import ConnectionStatus from '../components/ConnectionStatus';
 import MarketDataService from '../services/MarketDataService';
+import type { ConnectionState } from '../services/MarketDataService';
+import PaperTradingEngine from '../services/PaperTradingEngine';
+import type { PaperFill, PaperOrder } from '../lib/paperTrading';
+import { deltaRangeFromParameters } from '../lib/chainTable';
+import { DEFAULT_RISK_LIMITS, limitsFromConfig } from '../lib/risk';
+import type { ScenarioBook } from '../lib/scenarios';
 
 export default function Dashboard() {
   const [selectedSymbol, setSelectedSymbol] = useState('SPY');
-  const [connected, setConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const marketServiceRef = useRef<MarketDataService | null>(null);
+  // Parameters of the strategy being edited, so the chain screens for what it would trade
+  const [strategyParameters, setStrategyParameters] = useState<Record<string, unknown>>({});
+  const [strategyConfig, setStrategyConfig] = useState<Record<string, unknown> | null>(null);
+  const [strategyProposal, setStrategyProposal] = useState<ScenarioBook | null>(null);
+  const [paperEngine, setPaperEngine] = useState<PaperTradingEngine | null>(null);
+  const [paperOrders, setPaperOrders] = useState<PaperOrder[]>([]);
+  const [paperFills, setPaperFills] = useState<PaperFill[]>([]);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<QuoteSelection | null>(null);
 
   useEffect(() => {
-    const marketService = new MarketDataService('http://localhost:5002');
-    
-    marketService.connect().then(() => {
-      setConnected(true);
-    }).catch((error: Error) => {
+    const marketService = new MarketDataService();
+    marketServiceRef.current = marketService;
+    const removeListener = marketService.onStateChange(setConnectionState);
+
+    marketService.connect().catch((error: Error) => {
       console.error('Failed to connect:', error);
     });
 
     // Cleanup on unmount
     return () => {
+      removeListener();
       marketService.disconnect();
+      marketServiceRef.current = null;
+    };
+  }, []);
+
+  // Created after mount since the account lives in localStorage
+  useEffect(() => {
+    const engine = new PaperTradingEngine();
+    const sync = () => {
+      setPaperOrders(engine.orders);
+      setPaperFills(engine.fills);
+    };
+    sync();
+    setPaperEngine(engine);
+    const removeListener = engine.onChange(sync);
+    engine.start();
+    return () => {
+      removeListener();
+      engine.stop();
     };
   }, []);
 
+  const closeTicket = useCallback(() => setTicket(null), []);
+
+  // The strategy being edited sets the limits when its config declares any
+  const configuredLimits = limitsFromConfig(strategyConfig);
+  const riskLimits = configuredLimits ?? DEFAULT_RISK_LIMITS;
+  const riskLimitsSource = configuredLimits
+    ? 'Limits from the strategy config being edited'
+    : 'Default limits from configs/straddle_ivrv.yaml';
+
+  // Tracked by the service, so it is re-subscribed after reconnects
+  useEffect(() => {
+    const marketService = marketServiceRef.current;
+    marketService?.subscribeToSymbol(selectedSymbol).catch((error: Error) => {
+      console.error(`Failed to subscribe to ${selectedSymbol}:`, error);
+    });
+    return () => {
+      marketService?.unsubscribeFromSymbol(selectedSymbol).catch((error: Error) => {
+        console.error(`Failed to unsubscribe from ${selectedSymbol}:`, error);
+      });
+    };
+  }, [selectedSymbol]);
+
   const popularSymbols = ['SPY', 'QQQ', 'AAPL', 'MSFT', 'TSLA', 'NVDA'];
 
   return (
@@ -37,12 +103,10 @@ export default function Dashboard() {
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
                 Optx Trading Dashboard
               </h1>
-              <div className="ml-4 flex items-center">
-                <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">
-                  {connected ? 'Connected' : 'Disconnected'}
-                </span>
-              </div>
+              <ConnectionStatus
+                state={connectionState}
+                getLastMessageAt={() => marketServiceRef.current?.lastMessageAt ?? null}
+              />
             </div>
             <div className="flex items-center space-x-4">
               <select 
@@ -61,102 +125,9 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-        {/* Demo Notice */}
-        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-6">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
-            </div>
-            <div className="ml-3">
-              <p className="text-sm text-blue-800 dark:text-blue-200">
-                <span className="font-medium">Demo Mode:</span> Portfolio values below are sample data for demonstration. 
-                Real portfolio integration requires connecting your brokerage API.
-              </p>
-            </div>
-          </div>
-        </div>
-
-        {/* Market Overview Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
-            <div className="p-5">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <DollarSign className="h-6 w-6 text-gray-400" />
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                      Portfolio Value
-                    </dt>
-                    <dd className="text-lg font-medium text-gray-900 dark:text-white">
-                      $127,482.50
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
-            <div className="p-5">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <TrendingUp className="h-6 w-6 text-green-400" />
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                      P&L Today
-                    </dt>
-                    <dd className="text-lg font-medium text-green-600">
-                      +$2,431.20
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
-            <div className="p-5">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <Activity className="h-6 w-6 text-blue-400" />
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                      Portfolio Delta
-                    </dt>
-                    <dd className="text-lg font-medium text-gray-900 dark:text-white">
-                      +127.3
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
-            <div className="p-5">
-              <div className="flex items-center">
-                <div className="flex-shrink-0">
-                  <TrendingDown className="h-6 w-6 text-purple-400" />
-                </div>
-                <div className="ml-5 w-0 flex-1">
-                  <dl>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
-                      Portfolio Theta
-                    </dt>
-                    <dd className="text-lg font-medium text-gray-900 dark:text-white">
-                      -$45.20
-                    </dd>
-                  </dl>
-                </div>
-              </div>
-            </div>
-          </div>
+        {/* Portfolio */}
+        <div className="mb-8">
+          <PortfolioView engine={paperEngine} />
         </div>
 
         {/* Main Dashboard Grid */}
@@ -170,7 +141,11 @@ export default function Dashboard() {
                 </h2>
               </div>
               <div className="p-6">
-                <OptionsChain symbol={selectedSymbol} />
+                <OptionsChain
+                  symbol={selectedSymbol}
+                  strategyDeltaRange={deltaRangeFromParameters(strategyParameters)}
+                  onSelectQuote={paperEngine ? setTicket : undefined}
+                />
               </div>
             </div>
           </div>
@@ -184,12 +159,96 @@ export default function Dashboard() {
                 </h2>
               </div>
               <div className="p-6">
-                <StrategyBuilder />
+                <StrategyBuilder
+                  symbol={selectedSymbol}
+                  onParametersChange={setStrategyParameters}
+                  onConfigChange={setStrategyConfig}
+                  onProposalChange={setStrategyProposal}
+                />
               </div>
             </div>
           </div>
         </div>
+
+        {/* Paper Trading */}
+        <div className="mt-8 bg-white dark:bg-gray-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Paper Trading
+            </h2>
+          </div>
+          <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 space-y-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Fills - {selectedSymbol}</h3>
+                <PaperFillsChart
+                  symbol={selectedSymbol}
+                  fills={paperFills}
+                  selectedOrderId={selectedOrderId}
+                  onSelectOrder={setSelectedOrderId}
+                />
+              </div>
+              <OrderBlotter
+                orders={paperOrders}
+                fills={paperFills}
+                onCancel={(orderId) => paperEngine?.cancel(orderId)}
+                selectedOrderId={selectedOrderId}
+                onSelectOrder={setSelectedOrderId}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Risk Limits</h3>
+              <RiskLimitsPanel engine={paperEngine} limits={riskLimits} source={riskLimitsSource} />
+            </div>
+          </div>
+        </div>
+
+        {/* Scenario Analysis */}
+        <div className="mt-8 bg-white dark:bg-gray-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Scenario Analysis
+            </h2>
+          </div>
+          <div className="p-6">
+            <ScenarioPanel engine={paperEngine} proposal={strategyProposal} />
+          </div>
+        </div>
+
+        {/* Parameter Sweep */}
+        <div className="mt-8 bg-white dark:bg-gray-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Parameter Sweep - {selectedSymbol}
+            </h2>
+          </div>
+          <div className="p-6">
+            <ParameterSweep config={strategyConfig} symbol={selectedSymbol} />
+          </div>
+        </div>
+
+        {/* Volatility Structure */}
+        <div className="mt-8 bg-white dark:bg-gray-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Volatility Smile &amp; Surface - {selectedSymbol}
+            </h2>
+          </div>
+          <div className="p-6">
+            <VolatilityPanel symbol={selectedSymbol} />
+          </div>
+        </div>
       </main>
+
+      {ticket && paperEngine && (
+        <OrderTicket
+          key={`${ticket.spec.contract}-${ticket.side}`}
+          selection={ticket}
+          engine={paperEngine}
+          riskLimits={riskLimits}
+          onClose={closeTicket}
+        />
+      )}
     </div>
   );
 }
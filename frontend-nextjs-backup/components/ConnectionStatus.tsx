@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ConnectionState } from '../services/MarketDataService';
+
+interface ConnectionStatusProps {
+  state: ConnectionState;
+  /** Read on every refresh rather than passed as state, since it changes per message. */
+  getLastMessageAt: () => number | null;
+}
+
+const STATE_STYLES: Record<ConnectionState, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Connecting' },
+  connected: { dot: 'bg-green-500', label: 'Connected' },
+  reconnecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Reconnecting' },
+  disconnected: { dot: 'bg-red-500', label: 'Disconnected' },
+};
+
+// A connected feed with nothing for this long is shown as stale
+const STALE_AFTER_MS = 10000;
+
+const formatAge = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+};
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, getLastMessageAt }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const lastMessageAt = getLastMessageAt();
+  const age = lastMessageAt === null ? null : Math.max(0, now - lastMessageAt);
+  const stale = state === 'connected' && age !== null && age > STALE_AFTER_MS;
+  const { dot, label } = STATE_STYLES[state];
+
+  return (
+    <div className="ml-4 flex items-center" title={stale ? 'Connected, but no recent market data' : undefined}>
+      <div className={`w-2 h-2 rounded-full ${stale ? 'bg-orange-400' : dot}`}></div>
+      <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">{label}</span>
+      <span className={`ml-2 text-xs ${stale ? 'text-orange-600 dark:text-orange-400' : 'text-gray-400 dark:text-gray-500'}`}>
+        {age === null ? 'no data yet' : `last message ${formatAge(age)}`}
+      </span>
+    </div>
+  );
+};
+
+export default ConnectionStatus;
@@ -1,163 +1,151 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import MarketDataService from '../services/MarketDataService';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Columns, RotateCcw } from 'lucide-react';
+import { dataMode } from '../lib/config';
+import { contractSpec } from '../lib/optionsChain';
+import type { ContractQuote, OptionData, OptionsChainData } from '../lib/optionsChain';
+import type { ContractSpec, OrderSide } from '../lib/paperTrading';
+import type { OptionType } from '../lib/pricing';
+import {
+  CHAIN_COLUMNS,
+  DEFAULT_COLUMNS,
+  DEFAULT_FILTERS,
+  DEFAULT_SORT,
+  atmStrike,
+  filterRows,
+  loadColumns,
+  saveColumns,
+  sortRows,
+} from '../lib/chainTable';
+import type { ChainColumn, ChainColumnId, ChainFilters, ChainSort, ColumnFormat } from '../lib/chainTable';
+import { loadOptionChains } from '../services/optionChains';
 
 interface OptionsChainProps {
   symbol: string;
+  /** Delta range of the active strategy; the delta filter resets to it whenever it changes. */
+  strategyDeltaRange?: { minDelta: number; maxDelta: number } | null;
+  /** Clicking a bid sells at it, clicking an ask buys at it. */
+  onSelectQuote?: (selection: QuoteSelection) => void;
 }
 
-interface OptionData {
-  strike: number;
-  calls: {
-    bid: number;
-    ask: number;
-    iv: number;
-    delta: number;
-    gamma: number;
-    volume?: number;
-  };
-  puts: {
-    bid: number;
-    ask: number;
-    iv: number;
-    delta: number;
-    gamma: number;
-    volume?: number;
-  };
+export interface QuoteSelection {
+  spec: ContractSpec;
+  side: OrderSide;
+  quote: ContractQuote;
+  underlyingPrice: number;
 }
 
-interface OptionsChainData {
-  symbol: string;
-  timestamp: string;
-  strikes: OptionData[];
-}
+const formatExpiry = (expiry: string) =>
+  new Date(`${expiry}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatValue = (value: number, format: ColumnFormat) => {
+  if (Number.isNaN(value)) return '—';
+  switch (format) {
+    case 'currency':
+      return `$${value.toFixed(2)}`;
+    case 'percent':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'greek':
+      return value > 0 ? `+${value.toFixed(3)}` : value.toFixed(3);
+    case 'count':
+      return value.toLocaleString();
+  }
+};
+
+// Bid, ask and mark keep the large tinted cells; everything else is secondary
+const PRICE_COLUMNS = new Set<ChainColumnId>(['bid', 'ask', 'mid']);
 
-const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
-  const [chainData, setChainData] = useState<OptionsChainData | null>(null);
+const MONEYNESS_BANDS = [
+  { label: 'All strikes', value: null },
+  { label: '±5%', value: 0.05 },
+  { label: '±10%', value: 0.1 },
+  { label: '±20%', value: 0.2 },
+];
+
+const inputClass = 'w-20 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1';
+
+const OptionsChain: React.FC<OptionsChainProps> = ({ symbol, strategyDeltaRange, onSelectQuote }) => {
+  const [chains, setChains] = useState<OptionsChainData[]>([]);
   const [loading, setLoading] = useState(false);
-  const [selectedExpiry, setSelectedExpiry] = useState('30D');
-  const [currentStockPrice, setCurrentStockPrice] = useState<number | null>(null);
-  const [stockPriceLoading, setStockPriceLoading] = useState(false);
-
-  const fetchCurrentStockPrice = useCallback(async () => {
-    setStockPriceLoading(true);
-    try {
-      const marketService = new MarketDataService('http://localhost:5002');
-      const response = await marketService.getStockPrice(symbol);
-      
-      if (response.success) {
-        setCurrentStockPrice(response.price);
-      } else {
-        console.error('Failed to fetch stock price:', response);
-        // Fallback to hardcoded price
-        setCurrentStockPrice(getBasePrice(symbol));
-      }
-    } catch (error) {
-      console.error('Error fetching current stock price:', error);
-      // Fallback to hardcoded price
-      setCurrentStockPrice(getBasePrice(symbol));
-    } finally {
-      setStockPriceLoading(false);
-    }
-  }, [symbol]);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedExpiry, setSelectedExpiry] = useState<string | null>(null);
+  const [filters, setFilters] = useState<ChainFilters>(DEFAULT_FILTERS);
+  const [sort, setSort] = useState<ChainSort>(DEFAULT_SORT);
+  const [columnIds, setColumnIds] = useState<ChainColumnId[]>(DEFAULT_COLUMNS);
+  const [columnsLoaded, setColumnsLoaded] = useState(false);
+  const offline = dataMode() === 'offline';
 
   const fetchOptionsChain = useCallback(async () => {
     setLoading(true);
-    try {
-      // Generate mock strikes inline to avoid circular dependencies
-      const basePrice = currentStockPrice || getBasePrice(symbol);
-      const daysToExpiry = getDaysFromExpiry(selectedExpiry);
-      const timeDecayFactor = Math.max(0.1, daysToExpiry / 30);
-      const strikes = [];
-      
-      // Generate strikes around current price
-      for (let i = -10; i <= 10; i++) {
-        const strike = Math.round((basePrice + i * 5) * 100) / 100;
-        const isITM = i < 0;
-        const isOTM = i > 0;
-        const distance = Math.abs(i);
-        
-        // Adjust pricing based on time to expiry  
-        const callIntrinsic = Math.max(0, basePrice - strike);
-        const putIntrinsic = Math.max(0, strike - basePrice);
-        const timeValue = timeDecayFactor * (1.5 + Math.random() * 2);
-        
-        // Add base premium for all options to ensure visibility
-        const basePremium = 0.15 + (timeDecayFactor * 0.3);
-        
-        strikes.push({
-          strike,
-          calls: {
-            bid: Math.max(0.05, callIntrinsic + timeValue + basePremium - 0.15),
-            ask: Math.max(0.10, callIntrinsic + timeValue + basePremium + 0.15),
-            iv: 0.15 + distance * 0.02 + (daysToExpiry / 100) * 0.1 + (Math.random() - 0.5) * 0.05,
-            delta: isITM ? 0.8 + Math.random() * 0.15 : Math.max(0.05, 0.5 - distance * 0.05),
-            gamma: Math.max(0.005, (0.05 - distance * 0.005) * timeDecayFactor),
-            volume: Math.floor(Math.random() * 1000 * (timeDecayFactor + 0.2))
-          },
-          puts: {
-            bid: Math.max(0.05, putIntrinsic + timeValue + basePremium - 0.15),
-            ask: Math.max(0.10, putIntrinsic + timeValue + basePremium + 0.15),
-            iv: 0.18 + distance * 0.025 + (daysToExpiry / 100) * 0.1 + (Math.random() - 0.5) * 0.05,
-            delta: isOTM ? -(0.8 + Math.random() * 0.15) : Math.min(-0.05, -0.5 + distance * 0.05),
-            gamma: Math.max(0.005, (0.05 - distance * 0.005) * timeDecayFactor),
-            volume: Math.floor(Math.random() * 800 * (timeDecayFactor + 0.2))
-          }
-        });
-      }
-
-      const mockData: OptionsChainData = {
-        symbol,
-        timestamp: new Date().toISOString(),
-        strikes
-      };
-      
-      setChainData(mockData);
-    } catch (error) {
-      console.error('Error fetching options chain:', error);
-    } finally {
-      setLoading(false);
+    const result = await loadOptionChains(symbol);
+    if (result.ok) {
+      setChains(result.data);
+      setError(null);
+      // Keep the chosen expiry across refreshes, otherwise start at the first one 30+ days out
+      setSelectedExpiry(prev =>
+        prev && result.data.some(chain => chain.expiry === prev)
+          ? prev
+          : (result.data.find(chain => chain.daysToExpiry >= 30) ?? result.data[0])?.expiry ?? null);
+    } else {
+      setChains([]);
+      setError(result.error.message);
     }
-  }, [symbol, selectedExpiry, currentStockPrice]);
-
-  useEffect(() => {
-    fetchCurrentStockPrice();
-  }, [fetchCurrentStockPrice]);
+    setLoading(false);
+  }, [symbol]);
 
   useEffect(() => {
     fetchOptionsChain();
   }, [fetchOptionsChain]);
 
-  const getDaysFromExpiry = (expiry: string): number => {
-    const days = parseInt(expiry.replace('D', ''));
-    return days;
-  };
+  // Stored columns are read after mount so the server render matches the first client render
+  useEffect(() => {
+    setColumnIds(loadColumns());
+    setColumnsLoaded(true);
+  }, []);
 
-  const getBasePrice = (symbol: string): number => {
-    const prices: { [key: string]: number } = {
-      'SPY': 450,
-      'QQQ': 380,
-      'AAPL': 190,
-      'MSFT': 410,
-      'TSLA': 250,
-      'NVDA': 900
-    };
-    return prices[symbol] || 100;
-  };
+  useEffect(() => {
+    if (columnsLoaded) saveColumns(columnIds);
+  }, [columnIds, columnsLoaded]);
+
+  const strategyMinDelta = strategyDeltaRange?.minDelta ?? DEFAULT_FILTERS.minDelta;
+  const strategyMaxDelta = strategyDeltaRange?.maxDelta ?? DEFAULT_FILTERS.maxDelta;
+  useEffect(() => {
+    setFilters(prev => ({ ...prev, minDelta: strategyMinDelta, maxDelta: strategyMaxDelta }));
+  }, [strategyMinDelta, strategyMaxDelta]);
+
+  const chainData = chains.find(chain => chain.expiry === selectedExpiry) ?? chains[0] ?? null;
+  const columns = CHAIN_COLUMNS.filter(column => columnIds.includes(column.id));
+
+  const rows = useMemo(
+    () => (chainData ? sortRows(filterRows(chainData, filters), chainData, sort) : []),
+    [chainData, filters, sort],
+  );
 
-  const formatCurrency = (value: number) => {
-    return `$${value.toFixed(2)}`;
+  const updateFilter = <K extends keyof ChainFilters>(key: K, value: ChainFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
   };
 
-  const formatPercent = (value: number) => {
-    return `${(value * 100).toFixed(1)}%`;
+  const toggleColumn = (id: ChainColumnId) => {
+    // At least one column stays, so both sides of the table keep a cell
+    setColumnIds(prev => (prev.includes(id) ? (prev.length > 1 ? prev.filter(existing => existing !== id) : prev) : [...prev, id]));
   };
 
-  const formatDelta = (value: number) => {
-    return value > 0 ? `+${value.toFixed(3)}` : value.toFixed(3);
+  const toggleSort = (column: ChainSort['column'], side: OptionType) => {
+    setSort(prev =>
+      prev.column === column && prev.side === side
+        ? { ...prev, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, side, direction: 'asc' });
   };
 
+  const sortIndicator = (column: ChainSort['column'], side: OptionType) =>
+    sort.column === column && (column === 'strike' || sort.side === side) ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : '';
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -166,6 +154,20 @@ const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
     );
   }
 
+  if (error) {
+    return (
+      <div className="text-center py-8 space-y-3">
+        <p className="text-sm text-red-700 dark:text-red-300">Could not load the {symbol} options chain: {error}</p>
+        <button
+          onClick={fetchOptionsChain}
+          className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
   if (!chainData) {
     return (
       <div className="text-center text-gray-500 dark:text-gray-400 py-8">
@@ -174,6 +176,57 @@ const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
     );
   }
 
+  const atm = atmStrike(chainData);
+
+  const renderHeader = (column: ChainColumn, side: OptionType) => {
+    const tone = side === 'call' ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300';
+    return (
+      <th key={`${side}-${column.id}`} className={`px-2 py-1 ${PRICE_COLUMNS.has(column.id) ? `font-bold ${tone}` : ''}`}>
+        <button onClick={() => toggleSort(column.id, side)} className="whitespace-nowrap hover:underline">
+          {column.label}{sortIndicator(column.id, side)}
+        </button>
+      </th>
+    );
+  };
+
+  // ITM contracts get a deeper tint; a side that fails the filters stays in place, dimmed
+  const renderCell = (column: ChainColumn, quote: ContractQuote, row: OptionData, side: OptionType, itm: boolean, visible: boolean) => {
+    const strike = row.strike;
+    const text = formatValue(column.value(quote, strike, chainData, side), column.format);
+    const dimmed = visible ? '' : 'opacity-30';
+    if (!PRICE_COLUMNS.has(column.id)) {
+      return (
+        <td
+          key={`${side}-${column.id}`}
+          className={`px-2 py-2 ${column.format === 'count' ? 'text-xs text-gray-500' : 'text-sm'} ${itm ? 'bg-gray-100 dark:bg-gray-800' : ''} ${dimmed}`}
+        >
+          {text}
+        </td>
+      );
+    }
+    const mark = column.id === 'mid';
+    const background = side === 'call'
+      ? (itm ? 'bg-green-200 dark:bg-green-900/70' : mark ? 'bg-green-100 dark:bg-green-900/50' : 'bg-green-50 dark:bg-green-900/30')
+      : (itm ? 'bg-red-200 dark:bg-red-900/70' : mark ? 'bg-red-100 dark:bg-red-900/50' : 'bg-red-50 dark:bg-red-900/30');
+    const color = side === 'call'
+      ? (itm ? 'text-green-900 dark:text-green-100' : 'text-green-700 dark:text-green-300')
+      : (itm ? 'text-red-900 dark:text-red-100' : 'text-red-700 dark:text-red-300');
+    const orderSide: OrderSide | null = column.id === 'bid' ? 'sell' : column.id === 'ask' ? 'buy' : null;
+    return (
+      <td key={`${side}-${column.id}`} className={`px-2 py-2 text-lg ${mark ? 'font-extrabold' : 'font-bold'} ${background} ${color} ${dimmed}`}>
+        {orderSide && onSelectQuote ? (
+          <button
+            onClick={() => onSelectQuote({ spec: contractSpec(chainData, row, side), side: orderSide, quote, underlyingPrice: chainData.underlyingPrice })}
+            title={`${orderSide === 'buy' ? 'Buy' : 'Sell'} at ${text}`}
+            className="hover:underline"
+          >
+            {text}
+          </button>
+        ) : text}
+      </td>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Header with stock price, timestamp and expiry selector */}
@@ -187,11 +240,7 @@ const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
               </h3>
               <div className="flex items-center space-x-4 mt-1">
                 <span className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                  {stockPriceLoading ? (
-                    <span className="animate-pulse">Loading...</span>
-                  ) : (
-                    `$${(currentStockPrice || getBasePrice(chainData.symbol)).toFixed(2)}`
-                  )}
+                  {formatValue(chainData.underlyingPrice, 'currency')}
                 </span>
                 <span className="text-sm text-green-600 dark:text-green-400">
                   +$2.45 (+0.54%) Today
@@ -201,7 +250,7 @@ const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
             <div className="text-right">
               <div className="text-sm text-gray-600 dark:text-gray-400">
                 <div><span className="font-medium">Last Updated:</span> {new Date(chainData.timestamp).toLocaleString()}</div>
-                <div className="text-xs text-gray-500 mt-1">⚠️ Demo Data</div>
+                {offline && <div className="text-xs text-gray-500 mt-1">⚠️ Offline mode: generated data</div>}
               </div>
             </div>
           </div>
@@ -213,21 +262,122 @@ const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
             Options Chain for {chainData.symbol}
           </div>
           <div className="flex flex-col items-end space-y-1">
-            <label className="text-xs text-gray-600 dark:text-gray-400">Days to Expiry</label>
-            <select 
-              value={selectedExpiry}
+            <label className="text-xs text-gray-600 dark:text-gray-400">Expiration</label>
+            <select
+              value={chainData.expiry}
               onChange={(e) => setSelectedExpiry(e.target.value)}
               className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-sm rounded px-3 py-1"
             >
-              <option value="1D">1 Day</option>
-              <option value="7D">7 Days</option>
-              <option value="14D">14 Days</option>
-              <option value="30D">30 Days</option>
-              <option value="60D">60 Days</option>
-              <option value="90D">90 Days</option>
+              {chains.map(chain => (
+                <option key={chain.expiry} value={chain.expiry}>
+                  {formatExpiry(chain.expiry)} ({chain.daysToExpiry}D{chain.cycle === 'monthly' ? ', monthly' : ''})
+                </option>
+              ))}
             </select>
           </div>
         </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-4 text-xs text-gray-600 dark:text-gray-400">
+          <div>
+            <label className="block mb-1">Delta{strategyDeltaRange ? ' (from strategy)' : ''}</label>
+            <div className="flex items-center space-x-1">
+              <input
+                type="number"
+                step={0.05}
+                min={-1}
+                max={1}
+                value={filters.minDelta}
+                onChange={(e) => !Number.isNaN(parseFloat(e.target.value)) && updateFilter('minDelta', parseFloat(e.target.value))}
+                aria-label="Minimum delta"
+                className={inputClass}
+              />
+              <span>to</span>
+              <input
+                type="number"
+                step={0.05}
+                min={-1}
+                max={1}
+                value={filters.maxDelta}
+                onChange={(e) => !Number.isNaN(parseFloat(e.target.value)) && updateFilter('maxDelta', parseFloat(e.target.value))}
+                aria-label="Maximum delta"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block mb-1">Moneyness</label>
+            <select
+              value={filters.moneynessBand ?? ''}
+              onChange={(e) => updateFilter('moneynessBand', e.target.value === '' ? null : parseFloat(e.target.value))}
+              className="text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
+            >
+              {MONEYNESS_BANDS.map(band => (
+                <option key={band.label} value={band.value ?? ''}>{band.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block mb-1">Min Vol</label>
+            <input
+              type="number"
+              min={0}
+              value={filters.minVolume}
+              onChange={(e) => updateFilter('minVolume', Math.max(0, parseInt(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block mb-1">Min OI</label>
+            <input
+              type="number"
+              min={0}
+              value={filters.minOpenInterest}
+              onChange={(e) => updateFilter('minOpenInterest', Math.max(0, parseInt(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block mb-1">Max Spread %</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={filters.maxSpreadPercent === null ? '' : Math.round(filters.maxSpreadPercent * 1000) / 10}
+              placeholder="Any"
+              onChange={(e) => updateFilter('maxSpreadPercent', e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value)) / 100)}
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={() => setFilters({ ...DEFAULT_FILTERS, minDelta: strategyMinDelta, maxDelta: strategyMaxDelta })}
+            className="flex items-center px-2 py-1 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </button>
+          <details className="relative">
+            <summary className="flex items-center px-2 py-1 border border-gray-300 dark:border-gray-600 rounded cursor-pointer list-none hover:bg-gray-50 dark:hover:bg-gray-700">
+              <Columns className="h-3 w-3 mr-1" />
+              Columns
+            </summary>
+            <div className="absolute z-10 mt-1 w-40 p-2 space-y-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded shadow">
+              {CHAIN_COLUMNS.map(column => (
+                <label key={column.id} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={columnIds.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </details>
+          <div className="ml-auto">
+            Showing {rows.length} of {chainData.strikes.length} strikes
+          </div>
+        </div>
       </div>
 
       {/* Options Chain Table */}
@@ -235,86 +385,64 @@ const OptionsChain: React.FC<OptionsChainProps> = ({ symbol }) => {
         <table className="min-w-full text-sm">
           <thead>
             <tr className="border-b border-gray-200 dark:border-gray-700">
-              <th colSpan={6} className="px-3 py-3 text-center font-bold text-lg text-green-800 dark:text-green-200 bg-green-100 dark:bg-green-900/40 border-r border-green-300">
+              <th colSpan={columns.length} className="px-3 py-3 text-center font-bold text-lg text-green-800 dark:text-green-200 bg-green-100 dark:bg-green-900/40 border-r border-green-300">
                 📈 CALLS - OPTIONS PRICES
               </th>
               <th className="px-3 py-3 text-center font-bold text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700">
                 Strike Price
               </th>
-              <th colSpan={6} className="px-3 py-3 text-center font-bold text-lg text-red-800 dark:text-red-200 bg-red-100 dark:bg-red-900/40 border-l border-red-300">
+              <th colSpan={columns.length} className="px-3 py-3 text-center font-bold text-lg text-red-800 dark:text-red-200 bg-red-100 dark:bg-red-900/40 border-l border-red-300">
                 📉 PUTS - OPTIONS PRICES
               </th>
             </tr>
             <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
-              <th className="px-2 py-1 font-bold text-green-700 dark:text-green-300">Bid</th>
-              <th className="px-2 py-1 font-bold text-green-700 dark:text-green-300">Ask</th>
-              <th className="px-2 py-1 font-bold text-green-700 dark:text-green-300">Mark</th>
-              <th className="px-2 py-1">IV</th>
-              <th className="px-2 py-1">Delta</th>
-              <th className="px-2 py-1">Vol</th>
-              <th className="px-2 py-1 font-medium">Strike</th>
-              <th className="px-2 py-1 font-bold text-red-700 dark:text-red-300">Bid</th>
-              <th className="px-2 py-1 font-bold text-red-700 dark:text-red-300">Ask</th>
-              <th className="px-2 py-1 font-bold text-red-700 dark:text-red-300">Mark</th>
-              <th className="px-2 py-1">IV</th>
-              <th className="px-2 py-1">Delta</th>
-              <th className="px-2 py-1">Vol</th>
+              {columns.map(column => renderHeader(column, 'call'))}
+              <th className="px-2 py-1 font-medium">
+                <button onClick={() => toggleSort('strike', 'call')} className="hover:underline">
+                  Strike{sortIndicator('strike', 'call')}
+                </button>
+              </th>
+              {columns.map(column => renderHeader(column, 'put'))}
             </tr>
           </thead>
           <tbody>
-            {chainData.strikes.map((option) => {
-              const currentPrice = currentStockPrice || getBasePrice(chainData.symbol);
-              const isITMCall = option.strike < currentPrice;
-              const isITMPut = option.strike > currentPrice;
-              
+            {rows.map(({ row: option, callVisible, putVisible }) => {
+              const isITMCall = option.strike < chainData.underlyingPrice;
+              const isITMPut = option.strike > chainData.underlyingPrice;
+              const isATM = option.strike === atm;
+
               return (
                 <tr key={option.strike} className={`border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 ${
-                  Math.abs(option.strike - currentPrice) <= 10 ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''
+                  isATM ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''
                 }`}>
                   {/* Calls */}
-                  <td className={`px-2 py-2 text-lg font-bold bg-green-50 dark:bg-green-900/30 ${isITMCall ? 'text-green-800 dark:text-green-200' : 'text-green-700 dark:text-green-300'}`}>
-                    {formatCurrency(option.calls.bid)}
-                  </td>
-                  <td className={`px-2 py-2 text-lg font-bold bg-green-50 dark:bg-green-900/30 ${isITMCall ? 'text-green-800 dark:text-green-200' : 'text-green-700 dark:text-green-300'}`}>
-                    {formatCurrency(option.calls.ask)}
-                  </td>
-                  <td className={`px-2 py-2 text-lg font-extrabold bg-green-100 dark:bg-green-900/50 ${isITMCall ? 'text-green-900 dark:text-green-100' : 'text-green-800 dark:text-green-200'}`}>
-                    {formatCurrency((option.calls.bid + option.calls.ask) / 2)}
-                  </td>
-                  <td className="px-2 py-2 text-sm">{formatPercent(option.calls.iv)}</td>
-                  <td className="px-2 py-2 text-sm">{formatDelta(option.calls.delta)}</td>
-                  <td className="px-2 py-2 text-xs text-gray-500">{option.calls.volume}</td>
-                  
+                  {columns.map(column => renderCell(column, option.calls, option, 'call', isITMCall, callVisible))}
+
                   {/* Strike */}
                   <td className={`px-2 py-2 text-center font-bold ${
-                    Math.abs(option.strike - currentPrice) <= 5 
-                      ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30' 
+                    isATM
+                      ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30'
                       : 'text-gray-900 dark:text-white'
                   }`}>
-                    {formatCurrency(option.strike)}
+                    {formatValue(option.strike, 'currency')}
+                    {isATM && <span className="ml-1 text-xs font-medium">ATM</span>}
                   </td>
-                  
+
                   {/* Puts */}
-                  <td className={`px-2 py-2 text-lg font-bold bg-red-50 dark:bg-red-900/30 ${isITMPut ? 'text-red-800 dark:text-red-200' : 'text-red-700 dark:text-red-300'}`}>
-                    {formatCurrency(option.puts.bid)}
-                  </td>
-                  <td className={`px-2 py-2 text-lg font-bold bg-red-50 dark:bg-red-900/30 ${isITMPut ? 'text-red-800 dark:text-red-200' : 'text-red-700 dark:text-red-300'}`}>
-                    {formatCurrency(option.puts.ask)}
-                  </td>
-                  <td className={`px-2 py-2 text-lg font-extrabold bg-red-100 dark:bg-red-900/50 ${isITMPut ? 'text-red-900 dark:text-red-100' : 'text-red-800 dark:text-red-200'}`}>
-                    {formatCurrency((option.puts.bid + option.puts.ask) / 2)}
-                  </td>
-                  <td className="px-2 py-2 text-sm">{formatPercent(option.puts.iv)}</td>
-                  <td className="px-2 py-2 text-sm">{formatDelta(option.puts.delta)}</td>
-                  <td className="px-2 py-2 text-xs text-gray-500">{option.puts.volume}</td>
+                  {columns.map(column => renderCell(column, option.puts, option, 'put', isITMPut, putVisible))}
                 </tr>
               );
             })}
           </tbody>
         </table>
+        {rows.length === 0 && (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">
+            No strikes match the current filters.
+          </p>
+        )}
       </div>
     </div>
   );
 };
 
-export default OptionsChain;
\ No newline at end of file
+export default OptionsChain;
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { describeContract, isWorking } from '../lib/paperTrading';
+import type { PaperFill, PaperOrder } from '../lib/paperTrading';
+
+interface OrderBlotterProps {
+  orders: PaperOrder[];
+  fills: PaperFill[];
+  onCancel: (orderId: string) => void;
+  /** Highlighted, with its tab shown; set by clicking a row or a fill marker. */
+  selectedOrderId?: string | null;
+  onSelectOrder?: (orderId: string) => void;
+}
+
+type BlotterTab = 'working' | 'filled' | 'canceled';
+
+const TABS: { id: BlotterTab; label: string }[] = [
+  { id: 'working', label: 'Working' },
+  { id: 'filled', label: 'Filled' },
+  { id: 'canceled', label: 'Cancelled' },
+];
+
+// Rejected orders never worked, so they sit with the cancelled ones
+const tabFor = (order: PaperOrder): BlotterTab =>
+  isWorking(order) ? 'working' : order.status === 'filled' ? 'filled' : 'canceled';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const formatPrice = (order: PaperOrder) =>
+  order.type === 'market' ? 'MKT' : `$${order.limitPrice?.toFixed(2)}`;
+
+const OrderBlotter: React.FC<OrderBlotterProps> = ({ orders, fills, onCancel, selectedOrderId = null, onSelectOrder }) => {
+  const [tab, setTab] = useState<BlotterTab>('working');
+  // Switch to the tab of a newly selected order
+  const [shownSelection, setShownSelection] = useState(selectedOrderId);
+  if (selectedOrderId !== shownSelection) {
+    setShownSelection(selectedOrderId);
+    const selected = orders.find(order => order.orderId === selectedOrderId);
+    if (selected) setTab(tabFor(selected));
+  }
+  const visible = orders.filter(order => tabFor(order) === tab);
+  const counts = TABS.map(({ id }) => orders.filter(order => tabFor(order) === id).length);
+
+  const fillsFor = (orderId: string) => fills.filter(fill => fill.orderId === orderId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-1 border-b border-gray-200 dark:border-gray-700">
+        {TABS.map(({ id, label }, index) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+              tab === id
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+            }`}
+          >
+            {label} ({counts[index]})
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">
+          {orders.length === 0 ? 'No paper orders yet. Click a bid or ask in the chain to open a ticket.' : 'Nothing here.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-left text-gray-600 dark:text-gray-400">
+                <th className="px-2 py-1">Time</th>
+                <th className="px-2 py-1">Order</th>
+                <th className="px-2 py-1">Contract</th>
+                <th className="px-2 py-1">Side</th>
+                <th className="px-2 py-1 text-right">Filled / Qty</th>
+                <th className="px-2 py-1 text-right">Price</th>
+                <th className="px-2 py-1 text-right">Avg Fill</th>
+                <th className="px-2 py-1 text-right">Comm.</th>
+                <th className="px-2 py-1">TIF</th>
+                <th className="px-2 py-1">{tab === 'working' ? '' : 'Status'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(order => (
+                <tr
+                  key={order.orderId}
+                  onClick={onSelectOrder ? () => onSelectOrder(order.orderId) : undefined}
+                  className={`border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white ${
+                    order.orderId === selectedOrderId ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                  } ${onSelectOrder ? 'cursor-pointer' : ''}`}
+                  title={fillsFor(order.orderId).map(fill => `${fill.fillId}: ${fill.quantity} @ $${fill.price.toFixed(2)}`).join('\n') || undefined}
+                >
+                  <td className="px-2 py-2 text-xs text-gray-500">{formatTime(order.updatedAt)}</td>
+                  <td className="px-2 py-2 text-xs font-mono">{order.orderId}</td>
+                  <td className="px-2 py-2 whitespace-nowrap">{describeContract(order.spec)}</td>
+                  <td className={`px-2 py-2 font-medium ${order.side === 'buy' ? 'text-green-600' : 'text-red-600'}`}>
+                    {order.side.toUpperCase()}
+                  </td>
+                  <td className="px-2 py-2 text-right">{order.filledQuantity} / {order.quantity}</td>
+                  <td className="px-2 py-2 text-right">{formatPrice(order)}</td>
+                  <td className="px-2 py-2 text-right">{order.averagePrice === null ? '—' : `$${order.averagePrice.toFixed(2)}`}</td>
+                  <td className="px-2 py-2 text-right">${order.commission.toFixed(2)}</td>
+                  <td className="px-2 py-2 text-xs uppercase">{order.tif}</td>
+                  <td className="px-2 py-2 text-xs">
+                    {tab === 'working' ? (
+                      <button
+                        onClick={() => onCancel(order.orderId)}
+                        className="px-2 py-1 text-xs font-medium text-red-700 dark:text-red-300 border border-red-300 dark:border-red-700 rounded hover:bg-red-50 dark:hover:bg-red-900/30"
+                      >
+                        Cancel
+                      </button>
+                    ) : (
+                      <span title={order.reason} className={order.status === 'rejected' ? 'text-red-600' : 'text-gray-500'}>
+                        {order.status.replace('_', ' ')}{order.reason ? ` — ${order.reason}` : ''}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderBlotter;
@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import {
+  CONTRACT_MULTIPLIER,
+  commissionFor,
+  describeContract,
+  orderNotional,
+  validateOrder,
+} from '../lib/paperTrading';
+import type { BookQuote, OrderRequest, OrderSide, OrderType, PaperOrder, TimeInForce } from '../lib/paperTrading';
+import { paperSnapshot } from '../lib/portfolio';
+import { checkOrder, hypotheticalFill, overallStatus } from '../lib/risk';
+import type { RiskLimits } from '../lib/risk';
+import type PaperTradingEngine from '../services/PaperTradingEngine';
+import type { QuoteSelection } from './OptionsChain';
+
+interface OrderTicketProps {
+  selection: QuoteSelection;
+  engine: PaperTradingEngine;
+  riskLimits: RiskLimits;
+  onClose: () => void;
+}
+
+const TIF_OPTIONS: { value: TimeInForce; label: string }[] = [
+  { value: 'gtc', label: 'GTC - good till cancel' },
+  { value: 'ioc', label: 'IOC - immediate or cancel' },
+  { value: 'fok', label: 'FOK - fill or kill' },
+];
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const describeResult = (order: PaperOrder) => {
+  switch (order.status) {
+    case 'filled':
+      return `Filled ${order.filledQuantity} @ $${order.averagePrice?.toFixed(2)}`;
+    case 'partially_filled':
+      return `Filled ${order.filledQuantity} of ${order.quantity}; the rest is working`;
+    case 'accepted':
+      return 'Working';
+    default:
+      return `${order.status === 'rejected' ? 'Rejected' : 'Canceled'}: ${order.reason ?? 'no reason given'}`;
+  }
+};
+
+const fieldClass = 'w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-sm rounded px-2 py-1';
+
+const OrderTicket: React.FC<OrderTicketProps> = ({ selection, engine, riskLimits, onClose }) => {
+  const { spec } = selection;
+  const [side, setSide] = useState<OrderSide>(selection.side);
+  const [type, setType] = useState<OrderType>('limit');
+  const [quantity, setQuantity] = useState(1);
+  const [limitPrice, setLimitPrice] = useState(() => (selection.side === 'buy' ? selection.quote.ask : selection.quote.bid).toFixed(2));
+  const [tif, setTif] = useState<TimeInForce>('gtc');
+  const [result, setResult] = useState<PaperOrder | null>(null);
+  const [quote, setQuote] = useState<BookQuote | undefined>(() => engine.quote(spec.contract));
+
+  // The chain snapshot stands in until (or unless) the hub streams this contract
+  useEffect(() => {
+    engine.seedQuote(spec.contract, {
+      bid: selection.quote.bid,
+      ask: selection.quote.ask,
+      bidSize: selection.quote.bidSize,
+      askSize: selection.quote.askSize,
+      receivedAt: Date.now(),
+    });
+    engine.seedPrice(spec.underlying, selection.underlyingPrice);
+    setQuote(engine.quote(spec.contract));
+    return engine.onChange(() => setQuote(engine.quote(spec.contract)));
+  }, [engine, spec.contract, spec.underlying, selection.quote, selection.underlyingPrice]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const request: OrderRequest = {
+    spec,
+    side,
+    type,
+    quantity,
+    limitPrice: type === 'limit' ? parseFloat(limitPrice) : undefined,
+    tif,
+  };
+  const problem = validateOrder(request);
+
+  // Estimate at the limit, or at the touch for a market order
+  const touch = quote ? (side === 'buy' ? quote.ask : quote.bid) : NaN;
+  const estimatePrice = type === 'limit' ? request.limitPrice ?? NaN : touch;
+  const premium = orderNotional(side, quantity, estimatePrice);
+  const commission = commissionFor(quantity, engine.commissionRate);
+  // Commission adds to a debit and comes out of a credit
+  const netAmount = side === 'buy' ? premium + commission : -premium - commission;
+
+  // Checked against the account as it would stand once this order fills at the estimate
+  const quoteFor = (contract: string) => engine.quote(contract);
+  const spotFor = (underlying: string) => engine.lastPrice(underlying);
+  const riskChecks = problem === null && Number.isFinite(estimatePrice)
+    ? checkOrder(
+        request,
+        estimatePrice,
+        paperSnapshot(engine.fills, quoteFor, spotFor),
+        paperSnapshot([...engine.fills, hypotheticalFill(request, estimatePrice)], quoteFor, spotFor),
+        riskLimits,
+      )
+    : [];
+  const riskStatus = overallStatus(riskChecks);
+  const flagged = riskChecks.filter(check => check.status !== 'approved');
+
+  const submit = () => {
+    setResult(engine.submit(request));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Order ticket"
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{describeContract(spec)}</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{spec.contract} · paper trading</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          {/* Live market */}
+          <div className="grid grid-cols-2 gap-2 text-center">
+            <div className="rounded bg-red-50 dark:bg-red-900/30 py-2">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Bid{quote?.bidSize !== undefined ? ` × ${quote.bidSize}` : ''}</div>
+              <div className="font-bold text-red-700 dark:text-red-300">{quote ? `$${quote.bid.toFixed(2)}` : '—'}</div>
+            </div>
+            <div className="rounded bg-green-50 dark:bg-green-900/30 py-2">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Ask{quote?.askSize !== undefined ? ` × ${quote.askSize}` : ''}</div>
+              <div className="font-bold text-green-700 dark:text-green-300">{quote ? `$${quote.ask.toFixed(2)}` : '—'}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['buy', 'sell'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setSide(option)}
+                className={`py-1 rounded font-medium ${
+                  side === option
+                    ? option === 'buy' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {option === 'buy' ? 'Buy' : 'Sell'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Type</span>
+              <select value={type} onChange={(e) => setType(e.target.value as OrderType)} className={fieldClass}>
+                <option value="limit">Limit</option>
+                <option value="market">Market</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Contracts</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                className={fieldClass}
+              />
+            </label>
+            {type === 'limit' && (
+              <label className="block">
+                <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Limit price</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={limitPrice}
+                  onChange={(e) => setLimitPrice(e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+            )}
+            <label className={`block ${type === 'limit' ? '' : 'col-span-2'}`}>
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Time in force</span>
+              <select value={tif} onChange={(e) => setTif(e.target.value as TimeInForce)} className={fieldClass}>
+                {TIF_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <dl className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+            <div className="flex justify-between">
+              <dt>Premium ({quantity} × {CONTRACT_MULTIPLIER} × {Number.isFinite(estimatePrice) ? `$${estimatePrice.toFixed(2)}` : '—'})</dt>
+              <dd>{Number.isFinite(premium) ? formatCurrency(premium) : '—'}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Commission (${engine.commissionRate.toFixed(2)}/contract)</dt>
+              <dd>{formatCurrency(commission)}</dd>
+            </div>
+            <div className="flex justify-between font-medium text-gray-900 dark:text-white">
+              <dt>Estimated {side === 'buy' ? 'cost' : 'credit'}</dt>
+              <dd>{Number.isFinite(netAmount) ? formatCurrency(netAmount) : '—'}</dd>
+            </div>
+          </dl>
+
+          {flagged.length > 0 && (
+            <ul className={`space-y-1 rounded p-2 text-xs ${
+              riskStatus === 'rejected'
+                ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                : 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200'
+            }`}>
+              {flagged.map(check => (
+                <li key={check.limit} className="flex items-start">
+                  <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                  <span>{check.status === 'rejected' ? 'Rejected' : 'Warning'}: {check.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {problem && <p className="text-xs text-red-700 dark:text-red-300">{problem}</p>}
+          {result && (
+            <p className={`text-xs ${result.status === 'rejected' || result.status === 'canceled' ? 'text-red-700 dark:text-red-300' : 'text-green-700 dark:text-green-300'}`}>
+              {result.orderId}: {describeResult(result)}
+            </p>
+          )}
+
+          <button
+            onClick={submit}
+            disabled={problem !== null || riskStatus === 'rejected'}
+            className={`w-full py-2 rounded font-medium text-white disabled:opacity-50 ${side === 'buy' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+          >
+            {side === 'buy' ? 'Buy' : 'Sell'} {quantity} {type === 'market' ? 'at market' : `at ${Number.isFinite(estimatePrice) ? `$${estimatePrice.toFixed(2)}` : '—'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTicket;
@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { apiClient } from '../services/ApiClient';
+import { FILL_CHART_BARS, fillChartInterval, fillMarkers } from '../lib/fillMarkers';
+import type { FillEffect, FillMarker, PriceBar } from '../lib/fillMarkers';
+import { describeContract } from '../lib/paperTrading';
+import type { PaperFill } from '../lib/paperTrading';
+
+interface PaperFillsChartProps {
+  symbol: string;
+  /** Fills on any underlying; those of `symbol` are drawn. */
+  fills: PaperFill[];
+  selectedOrderId: string | null;
+  onSelectOrder: (orderId: string) => void;
+}
+
+const EFFECT_STYLES: Record<FillEffect, { label: string; color: string }> = {
+  entry: { label: 'Entry', color: '#16a34a' },
+  exit: { label: 'Exit', color: '#dc2626' },
+};
+
+const NO_BARS: PriceBar[] = [];
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+const PaperFillsChart: React.FC<PaperFillsChartProps> = ({ symbol, fills, selectedOrderId, onSelectOrder }) => {
+  const [history, setHistory] = useState<{ symbol: string; bars: PriceBar[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<FillMarker | null>(null);
+
+  const symbolFills = useMemo(() => fills.filter(fill => fill.spec.underlying === symbol), [fills, symbol]);
+  const oldestFill = symbolFills.reduce((oldest, fill) => Math.min(oldest, fill.timestamp), Infinity);
+  const latestFill = symbolFills.reduce((latest, fill) => Math.max(latest, fill.timestamp), 0);
+
+  // Refetched when a fill lands, so the bar it belongs to is on the chart
+  useEffect(() => {
+    if (latestFill === 0) return;
+    let cancelled = false;
+    const interval = fillChartInterval(oldestFill, Date.now());
+    apiClient.getHistory(symbol, interval, FILL_CHART_BARS).then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setHistory({ symbol, bars: result.data.bars });
+        setError(null);
+      } else {
+        setError(result.error.message);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, oldestFill, latestFill]);
+
+  const bars = history?.symbol === symbol ? history.bars : NO_BARS;
+  const markers = useMemo(() => fillMarkers(symbolFills, bars), [symbolFills, bars]);
+
+  if (symbolFills.length === 0) {
+    return (
+      <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">
+        No paper fills on {symbol} yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-xs text-red-600">Could not load {symbol} history: {error}</p>}
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={bars} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 11 }}
+              tickFormatter={(time: number) =>
+                new Date(time * 1000).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+            />
+            <YAxis domain={['auto', 'auto']} tick={{ fontSize: 11 }} tickFormatter={(value: number) => `$${value.toFixed(0)}`} />
+            <Line type="linear" dataKey="close" name={symbol} stroke="#111827" dot={false} isAnimationActive={false} />
+            <Scatter
+              data={markers}
+              dataKey="price"
+              isAnimationActive={false}
+              shape={(point: { cx?: number; cy?: number; payload?: FillMarker }) => {
+                const marker = point.payload;
+                if (!marker || point.cx === undefined || point.cy === undefined) return <g />;
+                const selected = marker.orderId === selectedOrderId;
+                return (
+                  <circle
+                    cx={point.cx}
+                    cy={point.cy}
+                    r={selected ? 7 : 4}
+                    fill={EFFECT_STYLES[marker.effect].color}
+                    stroke={selected ? '#111827' : 'none'}
+                    className="cursor-pointer"
+                    onMouseEnter={() => setHovered(marker)}
+                    onMouseLeave={() => setHovered(null)}
+                    onClick={() => onSelectOrder(marker.orderId)}
+                  />
+                );
+              }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="min-h-12 text-xs text-gray-600 dark:text-gray-400">
+        {hovered ? (
+          <>
+            <div className="font-medium text-gray-900 dark:text-white">
+              {EFFECT_STYLES[hovered.effect].label} · order {hovered.orderId} · {formatTime(hovered.time)}
+            </div>
+            <ul>
+              {hovered.fills.map(fill => (
+                <li key={fill.fillId}>
+                  {fill.side === 'buy' ? 'Buy' : 'Sell'} {fill.quantity} {describeContract(fill.spec)} @ ${fill.price.toFixed(2)}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          'Hover a marker for its fills; click it to select the order in the blotter.'
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaperFillsChart;
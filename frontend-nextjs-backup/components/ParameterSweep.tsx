@@ -0,0 +1,333 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  MAX_SWEEP_CELLS,
+  SWEEP_METRICS,
+  SWEEP_PARAMETERS,
+  axisValues,
+  buildSweep,
+  defaultAxis,
+  metricValue,
+  robustness,
+  sweepMetrics,
+  sweepStrategyType,
+} from '../lib/sweep';
+import type { SweepAxis, SweepCell, SweepMetric, SweepParameter } from '../lib/sweep';
+import BacktestService from '../services/BacktestService';
+
+interface ParameterSweepProps {
+  /** The strategy config as parsed from the builder. */
+  config: Record<string, unknown> | null;
+  symbol: string;
+}
+
+type SweepView = 'raw' | 'robustness';
+
+interface SweepState {
+  xAxis: SweepAxis;
+  yAxis: SweepAxis;
+  cells: SweepCell[];
+}
+
+const parameterLabel = (parameter: SweepParameter) =>
+  SWEEP_PARAMETERS.find(candidate => candidate.key === parameter)?.label ?? parameter;
+
+const formatMetric = (value: number, metric: SweepMetric) => {
+  if (!Number.isFinite(value)) return '—';
+  return metric === 'sharpeRatio' ? value.toFixed(2) : `${(value * 100).toFixed(1)}%`;
+};
+
+// Red at the worst finished cell, green at the best
+const heatColor = (value: number, low: number, high: number) => {
+  if (!Number.isFinite(value)) return 'transparent';
+  const position = high > low ? (value - low) / (high - low) : 0.5;
+  return `hsla(${Math.round(position * 140)}, 65%, 50%, 0.45)`;
+};
+
+const inputClass = 'w-20 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1';
+
+const ParameterSweep: React.FC<ParameterSweepProps> = ({ config, symbol }) => {
+  const [xAxis, setXAxis] = useState<SweepAxis>(() => defaultAxis('min_delta'));
+  const [yAxis, setYAxis] = useState<SweepAxis>(() => defaultAxis('dte'));
+  const [metric, setMetric] = useState<SweepMetric>('sharpeRatio');
+  const [view, setView] = useState<SweepView>('raw');
+  const [sweep, setSweep] = useState<SweepState | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const serviceRef = useRef<BacktestService | null>(null);
+  const runIdRef = useRef<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => () => {
+    cancelledRef.current = true;
+    void serviceRef.current?.disconnect();
+  }, []);
+
+  const strategyType = sweepStrategyType(config);
+  const cellCount = axisValues(xAxis).length * axisValues(yAxis).length;
+
+  const columns = sweep ? axisValues(sweep.xAxis).length : 0;
+  const scores = useMemo(
+    () => (sweep ? robustness(sweep.cells, columns, metric) : []),
+    [sweep, columns, metric],
+  );
+  const shown = sweep
+    ? sweep.cells.map((cell, index) => (view === 'raw' ? metricValue(cell, metric) : scores[index].smoothed))
+    : [];
+  const finite = shown.filter(Number.isFinite);
+  const low = Math.min(...finite);
+  const high = Math.max(...finite);
+
+  const bestIndex = (values: number[]) =>
+    values.reduce<number | null>((best, value, index) =>
+      Number.isFinite(value) && (best === null || value > values[best]) ? index : best, null);
+  const rawBest = sweep ? bestIndex(sweep.cells.map(cell => metricValue(cell, metric))) : null;
+  const robustBest = bestIndex(scores.map(score => score.smoothed));
+  const peaks = scores.filter(score => score.isolatedPeak).length;
+
+  const updateCell = (index: number, update: Partial<SweepCell>) => {
+    setSweep(prev => prev && {
+      ...prev,
+      cells: prev.cells.map((cell, i) => (i === index ? { ...cell, ...update } : cell)),
+    });
+  };
+
+  const runSweep = async () => {
+    if (!config || !strategyType) return;
+    if (xAxis.parameter === yAxis.parameter) {
+      setError('Pick two different parameters.');
+      return;
+    }
+    const { cells, configs } = buildSweep(config, strategyType, symbol, xAxis, yAxis);
+    if (cells.length === 0 || cells.length > MAX_SWEEP_CELLS) {
+      setError(`The grid must have between 1 and ${MAX_SWEEP_CELLS} cells; this one has ${cells.length}.`);
+      return;
+    }
+
+    setError(null);
+    setSweep({ xAxis, yAxis, cells });
+    setRunning(true);
+    cancelledRef.current = false;
+    serviceRef.current ??= new BacktestService();
+
+    // One run at a time so a sweep does not swamp the backtest hub
+    for (let index = 0; index < configs.length && !cancelledRef.current; index++) {
+      const backtest = configs[index];
+      if (!backtest) continue;
+      updateCell(index, { status: 'running' });
+      try {
+        const result = await serviceRef.current.run(backtest, runId => {
+          runIdRef.current = runId;
+        });
+        updateCell(index, { status: 'done', metrics: sweepMetrics(result.equityCurve ?? [], backtest.initialCapital) });
+      } catch (err) {
+        updateCell(index, cancelledRef.current
+          ? { status: 'cancelled' }
+          : { status: 'failed', message: (err as Error).message });
+      } finally {
+        runIdRef.current = null;
+      }
+    }
+    if (cancelledRef.current) {
+      setSweep(prev => prev && {
+        ...prev,
+        cells: prev.cells.map(cell => (cell.status === 'queued' ? { ...cell, status: 'cancelled' } : cell)),
+      });
+    }
+    setRunning(false);
+  };
+
+  const cancelSweep = () => {
+    cancelledRef.current = true;
+    const runId = runIdRef.current;
+    if (runId) {
+      serviceRef.current?.stop(runId).catch((err: Error) => console.error('Failed to stop backtest:', err));
+    }
+  };
+
+  const axisControls = (axis: SweepAxis, setAxis: (axis: SweepAxis) => void, label: string) => {
+    const numberInput = (key: 'from' | 'to' | 'step', caption: string) => (
+      <label className="block">
+        <span className="block mb-1">{caption}</span>
+        <input
+          type="number"
+          value={axis[key]}
+          step={key === 'step' ? 'any' : axis.step}
+          disabled={running}
+          onChange={(e) => {
+            const parsed = parseFloat(e.target.value);
+            if (!Number.isNaN(parsed)) setAxis({ ...axis, [key]: parsed });
+          }}
+          className={inputClass}
+        />
+      </label>
+    );
+    return (
+      <div className="flex items-end gap-2">
+        <label className="block">
+          <span className="block mb-1">{label}</span>
+          <select
+            value={axis.parameter}
+            disabled={running}
+            onChange={(e) => setAxis(defaultAxis(e.target.value as SweepParameter))}
+            className="text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
+          >
+            {SWEEP_PARAMETERS.map(({ key, label: name }) => <option key={key} value={key}>{name}</option>)}
+          </select>
+        </label>
+        {numberInput('from', 'From')}
+        {numberInput('to', 'To')}
+        {numberInput('step', 'Step')}
+      </div>
+    );
+  };
+
+  const done = sweep?.cells.filter(cell => cell.status === 'done').length ?? 0;
+  const failed = sweep?.cells.filter(cell => cell.status === 'failed').length ?? 0;
+  const cancelled = sweep?.cells.filter(cell => cell.status === 'cancelled').length ?? 0;
+  const runnable = sweep?.cells.filter(cell => cell.status !== 'skipped').length ?? 0;
+
+  const describeCell = (index: number | null) => {
+    if (!sweep || index === null) return '—';
+    const cell = sweep.cells[index];
+    return `${parameterLabel(sweep.xAxis.parameter)} ${cell.x}, ${parameterLabel(sweep.yAxis.parameter)} ${cell.y}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-6 text-xs text-gray-600 dark:text-gray-400">
+        {axisControls(xAxis, setXAxis, 'Columns')}
+        {axisControls(yAxis, setYAxis, 'Rows')}
+        <div className="flex items-center space-x-2">
+          {running ? (
+            <button
+              onClick={cancelSweep}
+              className="px-4 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => void runSweep()}
+              disabled={!strategyType}
+              className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Run {cellCount} backtest{cellCount === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!strategyType && (
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          The backtest hub runs covered call and cash-secured put configs; pick one of those templates in the Strategy Builder.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {sweep && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+            <div className="flex items-center space-x-2">
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as SweepMetric)}
+                className="text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
+              >
+                {SWEEP_METRICS.map(({ key, label }) => <option key={key} value={key}>{label}</option>)}
+              </select>
+              {(['raw', 'robustness'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 rounded-md font-medium ${
+                    view === option
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  {option === 'raw' ? 'Raw' : 'Robustness'}
+                </button>
+              ))}
+            </div>
+            <span className="text-gray-600 dark:text-gray-400">
+              {done} of {runnable} complete{failed > 0 && `, ${failed} failed`}
+              {cancelled > 0 && `, ${cancelled} cancelled`}
+              {runnable < sweep.cells.length && `, ${sweep.cells.length - runnable} skipped`}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs text-center">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">
+                    {parameterLabel(sweep.yAxis.parameter)} \ {parameterLabel(sweep.xAxis.parameter)}
+                  </th>
+                  {axisValues(sweep.xAxis).map(x => (
+                    <th key={x} className="px-2 py-1 font-medium text-gray-600 dark:text-gray-400">{x}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {axisValues(sweep.yAxis).map((y, row) => (
+                  <tr key={y}>
+                    <th className="px-2 py-1 text-left font-medium text-gray-600 dark:text-gray-400">{y}</th>
+                    {sweep.cells.slice(row * columns, (row + 1) * columns).map((cell, column) => {
+                      const index = row * columns + column;
+                      const peak = view === 'robustness' && scores[index].isolatedPeak;
+                      return (
+                        <td
+                          key={cell.x}
+                          title={cell.message}
+                          className={`px-2 py-2 font-mono text-gray-900 dark:text-white ${
+                            peak ? 'ring-2 ring-inset ring-amber-500' : index === rawBest && view === 'raw' ? 'ring-1 ring-inset ring-gray-500' : ''
+                          }`}
+                          style={{ backgroundColor: heatColor(shown[index], low, high) }}
+                        >
+                          {cell.status === 'done'
+                            ? formatMetric(shown[index], metric)
+                            : cell.status === 'running'
+                              ? '…'
+                              : cell.status === 'failed'
+                                ? '✕'
+                                : cell.status === 'skipped'
+                                  ? 'n/a'
+                                  : cell.status === 'cancelled' ? '—' : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {view === 'raw'
+                ? 'Each cell is one backtest. Combinations with the minimum above the maximum are skipped.'
+                : 'Each cell averages itself with its finished neighbours. Outlined cells beat every neighbour by more than the grid’s standard deviation and are likely overfit.'}
+            </p>
+          </div>
+
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Best cell</dt>
+              <dd className="text-gray-900 dark:text-white">{describeCell(rawBest)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Best neighbourhood</dt>
+              <dd className="text-gray-900 dark:text-white">{describeCell(robustBest)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Isolated peaks</dt>
+              <dd className={peaks > 0 ? 'text-amber-700 dark:text-amber-400' : 'text-gray-900 dark:text-white'}>{peaks}</dd>
+            </div>
+          </dl>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ParameterSweep;
@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import * as Slider from '@radix-ui/react-slider';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { horizonDays, payoffCurve, summarizeAtExpiry } from '../lib/payoff';
+import type { StrategyLeg } from '../lib/payoff';
+import { describeLeg } from '../lib/strategyLegs';
+
+interface PayoffDiagramProps {
+  legs: StrategyLeg[];
+  underlyingPrice: number;
+}
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const PayoffDiagram: React.FC<PayoffDiagramProps> = ({ legs, underlyingPrice }) => {
+  const horizon = horizonDays(legs);
+  const [daysForward, setDaysForward] = useState(0);
+  const clampedDays = Math.min(daysForward, horizon);
+
+  const summary = useMemo(() => summarizeAtExpiry(legs, underlyingPrice), [legs, underlyingPrice]);
+  const curve = useMemo(
+    () => payoffCurve(legs, underlyingPrice * 0.7, underlyingPrice * 1.3, clampedDays),
+    [legs, underlyingPrice, clampedDays],
+  );
+
+  if (legs.length === 0) {
+    return (
+      <div className="text-center text-sm text-gray-500 dark:text-gray-400 py-4">
+        No legs to chart for this strategy
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+        {legs.map((leg, index) => (
+          <li key={index}>{describeLeg(leg)}</li>
+        ))}
+      </ul>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={curve} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="price" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 11 }} />
+            <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => `$${value.toFixed(0)}`} />
+            <Tooltip
+              formatter={(value, name) => [formatCurrency(Number(value)), name]}
+              labelFormatter={(price) => `Underlying $${Number(price).toFixed(2)}`}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <ReferenceLine x={underlyingPrice} stroke="#2563eb" strokeDasharray="4 4" label={{ value: 'Spot', fontSize: 10 }} />
+            {summary.breakEvens.map(breakEven => (
+              <ReferenceLine key={breakEven} x={breakEven} stroke="#f59e0b" strokeDasharray="2 2" label={{ value: 'BE', fontSize: 10 }} />
+            ))}
+            <Line type="linear" dataKey="expiry" name="At expiry" stroke="#111827" dot={false} strokeWidth={2} />
+            <Line type="monotone" dataKey="current" name={`T+${clampedDays}`} stroke="#8b5cf6" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+          <span>Days forward: T+{clampedDays}</span>
+          <span>{horizon - clampedDays} DTE remaining</span>
+        </div>
+        <Slider.Root
+          value={[clampedDays]}
+          onValueChange={([value]) => setDaysForward(value)}
+          min={0}
+          max={Math.max(horizon, 1)}
+          step={1}
+          disabled={horizon === 0}
+          className="relative flex items-center select-none touch-none w-full h-5"
+        >
+          <Slider.Track className="bg-gray-200 dark:bg-gray-700 relative grow rounded-full h-1">
+            <Slider.Range className="absolute bg-purple-500 rounded-full h-full" />
+          </Slider.Track>
+          <Slider.Thumb className="block w-4 h-4 bg-white border-2 border-purple-500 rounded-full shadow" aria-label="Days forward" />
+        </Slider.Root>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Max Profit</dt>
+          <dd className="font-medium text-green-600">
+            {summary.unlimitedProfit ? 'Unlimited' : formatCurrency(summary.maxProfit)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Max Risk</dt>
+          <dd className="font-medium text-red-600">
+            {summary.unlimitedLoss ? 'Unlimited' : formatCurrency(summary.maxLoss)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Break-even</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">
+            {summary.breakEvens.length > 0 ? summary.breakEvens.map(value => `$${value.toFixed(2)}`).join(', ') : '—'}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
+
+export default PayoffDiagram;
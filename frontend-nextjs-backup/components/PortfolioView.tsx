@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TrendingUp, TrendingDown, Activity, DollarSign, Upload } from 'lucide-react';
+import { describeContract } from '../lib/paperTrading';
+import { marketValue, paperSnapshot, parsePortfolioSnapshot } from '../lib/portfolio';
+import type { PortfolioSnapshot } from '../lib/portfolio';
+import type PaperTradingEngine from '../services/PaperTradingEngine';
+
+interface PortfolioViewProps {
+  /** Null until the paper account has loaded. */
+  engine: PaperTradingEngine | null;
+}
+
+type PortfolioSource = 'paper' | 'backtest';
+
+const formatCurrency = (value: number, signed = false) => {
+  const sign = value < 0 ? '-' : signed && value > 0 ? '+' : '';
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatGreek = (value: number) =>
+  Number.isNaN(value) ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+const pnlColor = (value: number) =>
+  value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-900 dark:text-white';
+
+interface SummaryCardProps {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  valueClass?: string;
+  detail: string;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ icon, label, value, valueClass, detail }) => (
+  <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+    <div className="p-5">
+      <div className="flex items-center">
+        <div className="flex-shrink-0">{icon}</div>
+        <div className="ml-5 w-0 flex-1">
+          <dl>
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">{label}</dt>
+            <dd className={`text-lg font-medium ${valueClass ?? 'text-gray-900 dark:text-white'}`}>{value}</dd>
+            <dd className="text-xs text-gray-500 dark:text-gray-400 truncate">{detail}</dd>
+          </dl>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+const PortfolioView: React.FC<PortfolioViewProps> = ({ engine }) => {
+  const [source, setSource] = useState<PortfolioSource>('paper');
+  const [backtest, setBacktest] = useState<{ name: string; snapshot: PortfolioSnapshot } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [paper, setPaper] = useState<PortfolioSnapshot | null>(null);
+
+  // Re-marked whenever the account sees a fill, quote or trade
+  useEffect(() => {
+    if (!engine) return;
+    const mark = () => setPaper(paperSnapshot(
+      engine.fills,
+      contract => engine.quote(contract),
+      underlying => engine.lastPrice(underlying),
+    ));
+    mark();
+    return engine.onChange(mark);
+  }, [engine]);
+
+  const importSnapshot = async (file: File) => {
+    try {
+      setBacktest({ name: file.name, snapshot: parsePortfolioSnapshot(await file.text()) });
+      setImportError(null);
+      setSource('backtest');
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const snapshot = source === 'paper' ? paper : backtest?.snapshot ?? null;
+  const positions = snapshot?.positions ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-1 text-sm">
+          {(['paper', 'backtest'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              className={`px-3 py-1 rounded-md font-medium ${
+                source === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600'
+              }`}
+            >
+              {option === 'paper' ? 'Paper account' : 'Backtest snapshot'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-3 text-xs text-gray-500 dark:text-gray-400">
+          {snapshot && snapshot.timestampNs > 0 && (
+            <span>As of {new Date(snapshot.timestampNs / 1_000_000).toLocaleString()}</span>
+          )}
+          {source === 'backtest' && backtest && <span>{backtest.name}</span>}
+          <label className="flex items-center px-2 py-1 border border-gray-300 dark:border-gray-600 rounded cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+            <Upload className="h-3 w-3 mr-1" />
+            Import snapshot
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importSnapshot(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {importError && (
+        <p className="text-sm text-red-700 dark:text-red-300">Could not read the snapshot: {importError}</p>
+      )}
+
+      {!snapshot ? (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+          {source === 'paper'
+            ? 'Loading the paper account…'
+            : 'Import a PortfolioSnapshot JSON exported from a backtest to see its positions.'}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <SummaryCard
+              icon={<DollarSign className="h-6 w-6 text-gray-400" />}
+              label="Market Value"
+              value={formatCurrency(marketValue(snapshot))}
+              detail={`${positions.length} open position${positions.length === 1 ? '' : 's'}`}
+            />
+            <SummaryCard
+              icon={<TrendingUp className="h-6 w-6 text-green-400" />}
+              label="Total P&L"
+              value={formatCurrency(snapshot.totalPnl, true)}
+              valueClass={pnlColor(snapshot.totalPnl)}
+              detail={`Unrealized ${formatCurrency(snapshot.unrealizedPnl, true)} · Realized ${formatCurrency(snapshot.realizedPnl, true)}`}
+            />
+            <SummaryCard
+              icon={<Activity className="h-6 w-6 text-blue-400" />}
+              label="Net Delta"
+              value={formatGreek(snapshot.netDelta)}
+              detail={`Gamma ${formatGreek(snapshot.netGamma)} (shares)`}
+            />
+            <SummaryCard
+              icon={<TrendingDown className="h-6 w-6 text-purple-400" />}
+              label="Net Theta"
+              value={`${formatCurrency(snapshot.netTheta, true)}/day`}
+              detail={`Vega ${formatCurrency(snapshot.netVega, true)} per vol pt`}
+            />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-x-auto">
+            {positions.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">No open positions.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-left text-gray-600 dark:text-gray-400">
+                    <th className="px-4 py-2">Position</th>
+                    <th className="px-4 py-2 text-right">Qty</th>
+                    <th className="px-4 py-2 text-right">Avg Price</th>
+                    <th className="px-4 py-2 text-right">Market Value</th>
+                    <th className="px-4 py-2 text-right">Unrealized P&amp;L</th>
+                    <th className="px-4 py-2 text-right">Delta</th>
+                    <th className="px-4 py-2 text-right">Gamma</th>
+                    <th className="px-4 py-2 text-right">Theta</th>
+                    <th className="px-4 py-2 text-right">Vega</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positions.map(position => (
+                    <tr key={position.symbol} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                      <td className="px-4 py-2 whitespace-nowrap" title={position.symbol}>
+                        {position.spec ? describeContract(position.spec) : position.symbol}
+                      </td>
+                      <td className={`px-4 py-2 text-right font-medium ${position.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {position.quantity > 0 ? `+${position.quantity}` : position.quantity}
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(position.avgPrice)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(position.marketValue)}</td>
+                      <td className={`px-4 py-2 text-right ${pnlColor(position.unrealizedPnl)}`}>
+                        {formatCurrency(position.unrealizedPnl, true)}
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatGreek(position.delta)}</td>
+                      <td className="px-4 py-2 text-right">{formatGreek(position.gamma)}</td>
+                      <td className="px-4 py-2 text-right">{formatGreek(position.theta)}</td>
+                      <td className="px-4 py-2 text-right">{formatGreek(position.vega)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioView;
@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { paperSnapshot } from '../lib/portfolio';
+import type { PortfolioSnapshot } from '../lib/portfolio';
+import { RISK_LIMIT_LABELS, WARNING_UTILIZATION, limitUtilization } from '../lib/risk';
+import type { RiskLimits } from '../lib/risk';
+import type PaperTradingEngine from '../services/PaperTradingEngine';
+
+interface RiskLimitsPanelProps {
+  engine: PaperTradingEngine | null;
+  limits: RiskLimits;
+  /** Where the limits came from, e.g. the active strategy config. */
+  source: string;
+}
+
+const barColor = (utilization: number) =>
+  utilization > 1 ? 'bg-red-500' : utilization >= WARNING_UTILIZATION ? 'bg-yellow-400' : 'bg-green-500';
+
+const RiskLimitsPanel: React.FC<RiskLimitsPanelProps> = ({ engine, limits, source }) => {
+  const [snapshot, setSnapshot] = useState<PortfolioSnapshot | null>(null);
+
+  useEffect(() => {
+    if (!engine) return;
+    const mark = () => setSnapshot(paperSnapshot(
+      engine.fills,
+      contract => engine.quote(contract),
+      underlying => engine.lastPrice(underlying),
+    ));
+    mark();
+    return engine.onChange(mark);
+  }, [engine]);
+
+  const rows = snapshot ? limitUtilization(snapshot, limits) : [];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">{source}</p>
+      {rows.map(row => (
+        <div key={row.limit}>
+          <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span>{RISK_LIMIT_LABELS[row.limit]}</span>
+            <span className={row.utilization > 1 ? 'font-medium text-red-600' : ''}>
+              {row.limit === 'maxPositions' ? row.metric : row.metric.toFixed(1)} / {row.riskLimit}
+            </span>
+          </div>
+          <div className="h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className={`h-2 ${barColor(row.utilization)}`}
+              style={{ width: `${Math.min(row.utilization, 1) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      {limits.maxNotionalPerTrade !== undefined && (
+        <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+          <span>{RISK_LIMIT_LABELS.maxNotionalPerTrade}</span>
+          <span>${limits.maxNotionalPerTrade.toLocaleString()} max</span>
+        </div>
+      )}
+      {rows.length === 0 && limits.maxNotionalPerTrade === undefined && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No risk limits configured.</p>
+      )}
+    </div>
+  );
+};
+
+export default RiskLimitsPanel;
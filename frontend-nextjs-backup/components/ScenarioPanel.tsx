@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { STRESS_SCENARIOS, booksFromPaperAccount, scenarioGrid, scenarioPnl, shiftSteps } from '../lib/scenarios';
+import type { Scenario, ScenarioBook } from '../lib/scenarios';
+import { describeLeg } from '../lib/strategyLegs';
+import type PaperTradingEngine from '../services/PaperTradingEngine';
+
+interface ScenarioPanelProps {
+  engine: PaperTradingEngine | null;
+  /** The strategy being edited, once validated. */
+  proposal: ScenarioBook | null;
+}
+
+type ScenarioSource = 'positions' | 'strategy';
+
+const formatPnl = (value: number) =>
+  `${value < 0 ? '-' : value > 0 ? '+' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const formatShift = (value: number, unit: string) =>
+  `${value > 0 ? '+' : ''}${Math.round(value * 1000) / 10}${unit}`;
+
+// Red for losses, green for gains, stronger with size relative to the worst cell
+const pnlColor = (value: number, scale: number) => {
+  if (scale <= 0 || Math.abs(value) < 0.005) return 'transparent';
+  const strength = Math.min(Math.abs(value) / scale, 1);
+  return value < 0
+    ? `hsla(0, 75%, 55%, ${0.1 + 0.6 * strength})`
+    : `hsla(140, 60%, 45%, ${0.1 + 0.6 * strength})`;
+};
+
+const inputClass = 'w-16 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1';
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ engine, proposal }) => {
+  const [source, setSource] = useState<ScenarioSource>('positions');
+  const [spotRange, setSpotRange] = useState(20);
+  const [spotStep, setSpotStep] = useState(5);
+  const [volRange, setVolRange] = useState(10);
+  const [volStep, setVolStep] = useState(5);
+  const [daysForward, setDaysForward] = useState(0);
+  const [positions, setPositions] = useState<{ books: ScenarioBook[]; unpriced: string[] }>({ books: [], unpriced: [] });
+
+  useEffect(() => {
+    if (!engine) return;
+    const refresh = () => setPositions(booksFromPaperAccount(
+      engine.fills,
+      contract => engine.quote(contract),
+      underlying => engine.lastPrice(underlying),
+    ));
+    refresh();
+    return engine.onChange(refresh);
+  }, [engine]);
+
+  const books = useMemo(
+    () => (source === 'positions' ? positions.books : proposal ? [proposal] : []),
+    [source, positions, proposal],
+  );
+
+  const grid = useMemo(
+    () => scenarioGrid(books, shiftSteps(spotRange / 100, spotStep / 100), shiftSteps(volRange / 100, volStep / 100), daysForward),
+    [books, spotRange, spotStep, volRange, volStep, daysForward],
+  );
+  const scale = Math.max(...grid.pnl.flat().map(Math.abs), 0);
+  const stress = STRESS_SCENARIOS.map(scenario => ({ scenario, pnl: scenarioPnl(books, scenario) }));
+
+  const applyScenario = (scenario: Scenario) => {
+    // Widen the grid so the preset's cell is on it
+    setSpotRange(prev => Math.max(prev, Math.abs(scenario.spotShift * 100)));
+    setVolRange(prev => Math.max(prev, Math.abs(scenario.volShift * 100)));
+    setDaysForward(scenario.daysForward);
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, label: string, min = 0) => (
+    <label className="block">
+      <span className="block mb-1">{label}</span>
+      <input
+        type="number"
+        min={min}
+        value={value}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (!Number.isNaN(parsed)) onChange(Math.max(min, parsed));
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const legCount = books.reduce((total, book) => total + book.legs.length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4 text-xs text-gray-600 dark:text-gray-400">
+        <div className="flex items-center space-x-1 text-sm">
+          {(['positions', 'strategy'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              className={`px-3 py-1 rounded-md font-medium ${
+                source === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600'
+              }`}
+            >
+              {option === 'positions' ? 'Paper positions' : 'Proposed strategy'}
+            </button>
+          ))}
+        </div>
+        {numberInput(spotRange, setSpotRange, 'Spot ± %')}
+        {numberInput(spotStep, setSpotStep, 'Step %', 0.5)}
+        {numberInput(volRange, setVolRange, 'IV ± pts')}
+        {numberInput(volStep, setVolStep, 'Step pts', 0.5)}
+        {numberInput(daysForward, setDaysForward, 'Days forward')}
+      </div>
+
+      {legCount === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">
+          {source === 'positions'
+            ? 'No open paper positions to stress.'
+            : 'Validate a strategy in the Strategy Builder to stress the legs it would open.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 overflow-x-auto">
+            <table className="min-w-full text-xs text-center">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">IV \ Spot</th>
+                  {grid.spotShifts.map(shift => (
+                    <th key={shift} className="px-2 py-1 font-medium text-gray-600 dark:text-gray-400">{formatShift(shift, '%')}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.volShifts.map((volShift, row) => (
+                  <tr key={volShift}>
+                    <th className="px-2 py-1 text-left font-medium text-gray-600 dark:text-gray-400">{formatShift(volShift, ' pts')}</th>
+                    {grid.pnl[row].map((pnl, column) => (
+                      <td
+                        key={grid.spotShifts[column]}
+                        className={`px-2 py-2 font-mono text-gray-900 dark:text-white ${
+                          volShift === 0 && grid.spotShifts[column] === 0 ? 'ring-1 ring-inset ring-gray-500' : ''
+                        }`}
+                        style={{ backgroundColor: pnlColor(pnl, scale) }}
+                      >
+                        {formatPnl(pnl)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              P&amp;L against today&apos;s value, {daysForward} day{daysForward === 1 ? '' : 's'} forward, across {legCount} leg{legCount === 1 ? '' : 's'}.
+              {source === 'positions' && positions.unpriced.length > 0 && (
+                <> Left out for want of an underlying price: {positions.unpriced.join(', ')}.</>
+              )}
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white">Stress Scenarios</h3>
+            <ul className="space-y-2">
+              {stress.map(({ scenario, pnl }) => (
+                <li key={scenario.name}>
+                  <button
+                    onClick={() => applyScenario(scenario)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-left rounded border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900 dark:text-white">{scenario.name}</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{scenario.description}</span>
+                    </span>
+                    <span className={`text-sm font-mono ${pnl < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatPnl(pnl)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {source === 'strategy' && proposal && (
+              <ul className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                {proposal.legs.map((leg, index) => <li key={index}>{describeLeg(leg)}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -1,123 +1,156 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Play, Settings, TrendingUp, AlertTriangle } from 'lucide-react';
+import PayoffDiagram from './PayoffDiagram';
+import { apiClient } from '../services/ApiClient';
+import type { StrategyAnalysis, StrategyTemplates, StrategyValidation } from '../services/ApiClient';
+import { loadOptionChains } from '../services/optionChains';
+import { getBasePrice } from '../lib/optionsChain';
+import type { OptionsChainData } from '../lib/optionsChain';
+import { legsForStrategy } from '../lib/strategyLegs';
+import type { ScenarioBook } from '../lib/scenarios';
+import { TEMPLATE_FAMILIES, hasErrors, parseConfig, setYamlValue, toYaml } from '../lib/configSchema';
+import YamlEditor from './YamlEditor';
 
-interface StrategyTemplate {
-  name: string;
-  description: string;
-  template: Record<string, unknown>;
+interface StrategyBuilderProps {
+  symbol: string;
+  /** Strategy parameters as currently parsed from the editor, before server validation. */
+  onParametersChange?: (parameters: Record<string, unknown>) => void;
+  /** The whole parsed config, or null while the editor does not hold a YAML mapping. */
+  onConfigChange?: (config: Record<string, unknown> | null) => void;
+  /** Legs the validated strategy would open, for what-if analysis elsewhere on the page. */
+  onProposalChange?: (proposal: ScenarioBook | null) => void;
 }
 
-interface StrategyValidation {
-  isValid: boolean;
-  errors: string[];
-  config: Record<string, unknown> | null;
-}
+const strategyParameters = (config: Record<string, unknown> | null | undefined): Record<string, unknown> =>
+  ((config?.strategy as Record<string, unknown> | undefined)?.parameters as Record<string, unknown> | undefined) || {};
+
+const QUICK_PARAMS = [
+  { key: 'min_delta', label: 'Min Delta', step: 0.01, min: -1, max: 1 },
+  { key: 'max_delta', label: 'Max Delta', step: 0.01, min: -1, max: 1 },
+  { key: 'min_dte', label: 'Min DTE', step: 1, min: 1, max: 365 },
+  { key: 'max_dte', label: 'Max DTE', step: 1, min: 1, max: 365 },
+];
 
-const StrategyBuilder: React.FC = () => {
+const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ symbol, onParametersChange, onConfigChange, onProposalChange }) => {
   const [selectedStrategy, setSelectedStrategy] = useState('covered-call');
-  const [templates, setTemplates] = useState<{ [key: string]: StrategyTemplate }>({});
+  const [templates, setTemplates] = useState<StrategyTemplates>({});
+  const [templatesError, setTemplatesError] = useState<string | null>(null);
   const [configYaml, setConfigYaml] = useState('');
   const [validation, setValidation] = useState<StrategyValidation | null>(null);
   const [loading, setLoading] = useState(false);
-  const [quickParams, setQuickParams] = useState({
-    minDelta: 0.25,
-    maxDelta: 0.35,
-    minDte: 30,
-    maxDte: 45
-  });
-
-  const formatYaml = useCallback((obj: Record<string, unknown>): string => {
-    // Simple YAML formatter for demo
-    const formatObject = (obj: Record<string, unknown>, indent = 0): string => {
-      let result = '';
-      const spacing = '  '.repeat(indent);
-      
-      for (const [key, value] of Object.entries(obj)) {
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          result += `${spacing}${key}:\n${formatObject(value as Record<string, unknown>, indent + 1)}`;
-        } else {
-          result += `${spacing}${key}: ${value}\n`;
-        }
-      }
-      
-      return result;
-    };
-    
-    return formatObject(obj);
-  }, []);
-
-  const updateConfigWithParams = useCallback((template: Record<string, unknown>) => {
-    const updatedTemplate = JSON.parse(JSON.stringify(template)); // Deep clone
-    
-    // Update parameters based on quickParams
-    if (updatedTemplate.strategy && typeof updatedTemplate.strategy === 'object') {
-      const strategy = updatedTemplate.strategy as Record<string, unknown>;
-      if (strategy.parameters && typeof strategy.parameters === 'object') {
-        const params = strategy.parameters as Record<string, unknown>;
-        params.min_delta = quickParams.minDelta;
-        params.max_delta = quickParams.maxDelta;
-        params.min_dte = quickParams.minDte;
-        params.max_dte = quickParams.maxDte;
-      }
-    }
-    
-    setConfigYaml(formatYaml(updatedTemplate));
-  }, [quickParams, formatYaml]);
-
+  const [analysis, setAnalysis] = useState<StrategyAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [underlyingPrice, setUnderlyingPrice] = useState(() => getBasePrice(symbol));
+  const [priceNotice, setPriceNotice] = useState<string | null>(null);
+  // Listed expiries and strikes the proposed legs are picked from
+  const [chains, setChains] = useState<OptionsChainData[]>([]);
+  const [chainNotice, setChainNotice] = useState<string | null>(null);
   const fetchTemplates = useCallback(async () => {
-    try {
-      const response = await fetch('http://localhost:5002/api/strategy/templates');
-      const data = await response.json();
-      setTemplates(data);
-    } catch (error) {
-      console.error('Error fetching templates:', error);
+    const result = await apiClient.getStrategyTemplates();
+    if (result.ok) {
+      setTemplates(result.data);
+      setTemplatesError(null);
+    } else {
+      setTemplatesError(result.error.message);
     }
   }, []);
 
-  const updateQuickParam = (key: keyof typeof quickParams, value: number) => {
-    setQuickParams(prev => ({ ...prev, [key]: value }));
+  const parsed = useMemo(
+    () => parseConfig(configYaml, TEMPLATE_FAMILIES[selectedStrategy] ?? null),
+    [configYaml, selectedStrategy],
+  );
+  const localErrors = hasErrors(parsed.issues);
+  const parameters = strategyParameters(parsed.value);
+
+  const updateQuickParam = (key: string, value: number) => {
+    if (Number.isNaN(value)) return;
+    setConfigYaml(setYamlValue(configYaml, ['strategy', 'parameters', key], value));
   };
 
   useEffect(() => {
     fetchTemplates();
   }, [fetchTemplates]);
 
+  useEffect(() => {
+    onParametersChange?.(strategyParameters(parsed.value));
+  }, [parsed.value, onParametersChange]);
+
+  useEffect(() => {
+    onConfigChange?.(parsed.value);
+  }, [parsed.value, onConfigChange]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUnderlyingPrice(getBasePrice(symbol));
+    setPriceNotice(null);
+    apiClient.getStockPrice(symbol).then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setUnderlyingPrice(result.data.price);
+      } else {
+        setPriceNotice(`Using a reference price for ${symbol}: ${result.error.message}`);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChains([]);
+    setChainNotice(null);
+    loadOptionChains(symbol).then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setChains(result.data);
+      } else {
+        setChainNotice(`No listed ${symbol} options to build legs from: ${result.error.message}`);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  useEffect(() => {
+    setValidation(null);
+  }, [selectedStrategy, configYaml]);
+
+  useEffect(() => {
+    setAnalysis(null);
+    setAnalysisError(null);
+  }, [selectedStrategy, configYaml, symbol]);
+
+  const legs = useMemo(
+    () => legsForStrategy(selectedStrategy, strategyParameters(validation?.config), underlyingPrice, chains),
+    [selectedStrategy, validation, underlyingPrice, chains],
+  );
+
+  useEffect(() => {
+    onProposalChange?.(legs.length > 0 ? { underlying: symbol, spot: underlyingPrice, legs } : null);
+  }, [legs, symbol, underlyingPrice, onProposalChange]);
+
   useEffect(() => {
     if (templates[selectedStrategy]) {
-      updateConfigWithParams(templates[selectedStrategy].template);
+      setConfigYaml(toYaml(templates[selectedStrategy].template));
     }
-  }, [selectedStrategy, templates, updateConfigWithParams]);
+  }, [selectedStrategy, templates]);
 
   const validateConfig = async () => {
-    if (!configYaml.trim()) return;
+    // The server only sees configs that already pass the local schema
+    if (!configYaml.trim() || localErrors) return;
     
     setLoading(true);
-    try {
-      const response = await fetch('http://localhost:5002/api/strategy/validate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          strategyType: selectedStrategy,
-          configYaml: configYaml
-        }),
-      });
-      
-      const result = await response.json();
-      setValidation(result);
-    } catch (error) {
-      console.error('Error validating strategy:', error);
-      setValidation({
-        isValid: false,
-        errors: ['Failed to validate configuration'],
-        config: null
-      });
-    } finally {
-      setLoading(false);
-    }
+    const result = await apiClient.validateStrategy(selectedStrategy, configYaml);
+    setValidation(result.ok ? result.data : {
+      isValid: false,
+      errors: [`Failed to validate configuration: ${result.error.message}`],
+      config: null
+    });
+    setLoading(false);
   };
 
   const analyzeStrategy = async () => {
@@ -126,25 +159,18 @@ const StrategyBuilder: React.FC = () => {
       return;
     }
 
-    try {
-      const response = await fetch('http://localhost:5002/api/strategy/analyze', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          strategyType: selectedStrategy,
-          underlyingSymbol: 'SPY',
-          underlyingPrice: 450,
-          allocation: 10000,
-          parameters: ((validation.config as Record<string, unknown>)?.strategy as Record<string, unknown>)?.parameters || {}
-        }),
-      });
-      
-      const analysis = await response.json();
-      console.log('Strategy analysis:', analysis);
-    } catch (error) {
-      console.error('Error analyzing strategy:', error);
+    const result = await apiClient.analyzeStrategy({
+      strategyType: selectedStrategy,
+      underlyingSymbol: symbol,
+      underlyingPrice,
+      allocation: 10000,
+      parameters: strategyParameters(validation.config)
+    });
+    if (result.ok) {
+      setAnalysis(result.data);
+      setAnalysisError(null);
+    } else {
+      setAnalysisError(result.error.message);
     }
   };
 
@@ -169,6 +195,11 @@ const StrategyBuilder: React.FC = () => {
             {templates[selectedStrategy].description}
           </p>
         )}
+        {templatesError && (
+          <p className="mt-1 text-sm text-red-700 dark:text-red-300">
+            Could not load strategy templates: {templatesError}
+          </p>
+        )}
       </div>
 
       {/* Configuration Editor */}
@@ -176,13 +207,24 @@ const StrategyBuilder: React.FC = () => {
         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
           Configuration (YAML)
         </label>
-        <textarea
+        <YamlEditor
           value={configYaml}
-          onChange={(e) => setConfigYaml(e.target.value)}
-          rows={12}
-          className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white text-xs font-mono rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-3"
+          onChange={setConfigYaml}
+          issues={parsed.issues}
           placeholder="Enter your strategy configuration in YAML format..."
         />
+        {parsed.issues.length > 0 && (
+          <ul className="mt-2 space-y-0.5 text-xs">
+            {parsed.issues.map((issue, index) => (
+              <li
+                key={index}
+                className={issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-yellow-700 dark:text-yellow-300'}
+              >
+                Line {issue.line}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Validation Results */}
@@ -215,7 +257,7 @@ const StrategyBuilder: React.FC = () => {
       <div className="flex space-x-3">
         <button
           onClick={validateConfig}
-          disabled={loading || !configYaml.trim()}
+          disabled={loading || !configYaml.trim() || localErrors}
           className="flex-1 flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <Settings className="h-4 w-4 mr-2" />
@@ -232,56 +274,59 @@ const StrategyBuilder: React.FC = () => {
         </button>
       </div>
 
+      {analysisError && (
+        <p className="text-sm text-red-700 dark:text-red-300">Analysis failed: {analysisError}</p>
+      )}
+
+      {/* Payoff */}
+      {analysis && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Payoff — {symbol} @ ${underlyingPrice.toFixed(2)}
+          </h4>
+          {priceNotice && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-300">{priceNotice}</p>
+          )}
+          {chainNotice && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-300">{chainNotice}</p>
+          )}
+          <PayoffDiagram legs={legs} underlyingPrice={underlyingPrice} />
+          <dl className="grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Expected Return</dt>
+              <dd className="font-medium text-gray-900 dark:text-white">{(analysis.expectedReturn * 100).toFixed(1)}%</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Probability of Profit</dt>
+              <dd className="font-medium text-gray-900 dark:text-white">{(analysis.probabilityOfProfit * 100).toFixed(0)}%</dd>
+            </div>
+          </dl>
+        </div>
+      )}
+
       {/* Quick Parameters */}
       <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
         <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Quick Parameters</h4>
         <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min Delta</label>
-            <input 
-              type="number" 
-              step="0.01" 
-              min="0" 
-              max="1" 
-              value={quickParams.minDelta}
-              onChange={(e) => updateQuickParam('minDelta', parseFloat(e.target.value))}
-              className="w-full text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
-            />
-          </div>
-          <div>
-            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Max Delta</label>
-            <input 
-              type="number" 
-              step="0.01" 
-              min="0" 
-              max="1" 
-              value={quickParams.maxDelta}
-              onChange={(e) => updateQuickParam('maxDelta', parseFloat(e.target.value))}
-              className="w-full text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
-            />
-          </div>
-          <div>
-            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min DTE</label>
-            <input 
-              type="number" 
-              min="1" 
-              max="365" 
-              value={quickParams.minDte}
-              onChange={(e) => updateQuickParam('minDte', parseInt(e.target.value))}
-              className="w-full text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
-            />
-          </div>
-          <div>
-            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Max DTE</label>
-            <input 
-              type="number" 
-              min="1" 
-              max="365" 
-              value={quickParams.maxDte}
-              onChange={(e) => updateQuickParam('maxDte', parseInt(e.target.value))}
-              className="w-full text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1"
-            />
-          </div>
+          {QUICK_PARAMS.map(({ key, label, step, min, max }) => {
+            const value = parameters[key];
+            const editable = parsed.value !== null && typeof value === 'number';
+            return (
+              <div key={key}>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  min={min}
+                  max={max}
+                  value={editable ? value : ''}
+                  disabled={!editable}
+                  onChange={(e) => updateQuickParam(key, step < 1 ? parseFloat(e.target.value) : parseInt(e.target.value))}
+                  className="w-full text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 disabled:opacity-50"
+                />
+              </div>
+            );
+          })}
         </div>
       </div>
     </div>
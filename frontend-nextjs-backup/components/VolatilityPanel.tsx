@@ -0,0 +1,267 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { loadOptionChains } from '../services/optionChains';
+import { buildSmile, skewMetrics } from '../lib/volatility';
+import type { ExpirySmile } from '../lib/volatility';
+import type { OptionType } from '../lib/pricing';
+
+interface VolatilityPanelProps {
+  symbol: string;
+}
+
+interface SmileRow {
+  strike: number;
+  callIv?: number;
+  putIv?: number;
+  callDelta?: number;
+  putDelta?: number;
+}
+
+const formatVol = (value: number | undefined) =>
+  value === undefined || Number.isNaN(value) ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const formatVolPoints = (value: number) =>
+  Number.isNaN(value) ? '—' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}`;
+
+// Blue (low IV) through red (high IV)
+const heatColor = (value: number, min: number, max: number) => {
+  if (Number.isNaN(value)) return 'transparent';
+  const ratio = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsl(${Math.round(220 - 220 * ratio)}, 75%, 80%)`;
+};
+
+const toSmileRows = (smile: ExpirySmile): SmileRow[] => {
+  const rows = new Map<number, SmileRow>();
+  smile.calls.forEach(point => {
+    rows.set(point.strike, { ...rows.get(point.strike), strike: point.strike, callIv: point.iv, callDelta: point.delta });
+  });
+  smile.puts.forEach(point => {
+    rows.set(point.strike, { ...rows.get(point.strike), strike: point.strike, putIv: point.iv, putDelta: point.delta });
+  });
+  return [...rows.values()].sort((a, b) => a.strike - b.strike);
+};
+
+const VolatilityPanel: React.FC<VolatilityPanelProps> = ({ symbol }) => {
+  const [smiles, setSmiles] = useState<ExpirySmile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedExpiry, setSelectedExpiry] = useState<string | null>(null);
+  const [surfaceSide, setSurfaceSide] = useState<OptionType>('put');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSurface = useCallback(async () => {
+    setLoading(true);
+    try {
+      const chains = await loadOptionChains(symbol);
+      if (!chains.ok) {
+        setSmiles([]);
+        setError(chains.error.message);
+        return;
+      }
+      setError(null);
+      const built = chains.data.map(buildSmile);
+      setSmiles(built);
+      setSelectedExpiry(prev =>
+        prev && built.some(smile => smile.expiry === prev) ? prev : built.find(s => s.daysToExpiry >= 30)?.expiry ?? null);
+    } catch (error) {
+      console.error('Error building volatility surface:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    fetchSurface();
+  }, [fetchSurface]);
+
+  const selectedSmile = smiles.find(smile => smile.expiry === selectedExpiry) ?? smiles[0];
+  const smileRows = useMemo(() => (selectedSmile ? toSmileRows(selectedSmile) : []), [selectedSmile]);
+  const metrics = useMemo(() => smiles.map(skewMetrics), [smiles]);
+
+  const surface = useMemo(() => {
+    const strikes = [...new Set(smiles.flatMap(smile => [...smile.calls, ...smile.puts].map(p => p.strike)))]
+      .sort((a, b) => b - a);
+    const cells = smiles.map(smile => {
+      const points = surfaceSide === 'call' ? smile.calls : smile.puts;
+      return new Map(points.map(point => [point.strike, point.iv]));
+    });
+    const values = cells.flatMap(cell => [...cell.values()]);
+    return {
+      strikes,
+      cells,
+      min: Math.min(...values),
+      max: Math.max(...values),
+    };
+  }, [smiles, surfaceSide]);
+
+  if (loading && smiles.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center text-red-700 dark:text-red-300 py-8">
+        Could not load the {symbol} options chain: {error}
+      </div>
+    );
+  }
+
+  if (!selectedSmile) {
+    return (
+      <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+        No volatility data available
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Smile */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            IV Smile — {selectedSmile.expiry} ({selectedSmile.daysToExpiry}D)
+          </h3>
+          <select
+            value={selectedSmile.expiry}
+            onChange={(e) => setSelectedExpiry(e.target.value)}
+            className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-sm rounded px-3 py-1"
+          >
+            {smiles.map(smile => (
+              <option key={smile.expiry} value={smile.expiry}>
+                {smile.expiry} ({smile.daysToExpiry}D)
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={smileRows} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="strike" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`} tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
+              <Tooltip
+                formatter={(value, name) => [formatVol(Number(value)), name]}
+                labelFormatter={(strike) => `Strike $${Number(strike).toFixed(2)}`}
+              />
+              <Legend />
+              <ReferenceLine x={selectedSmile.underlyingPrice} stroke="#6b7280" strokeDasharray="4 4" label={{ value: 'Spot', fontSize: 11 }} />
+              <Line type="monotone" dataKey="callIv" name="Call IV" stroke="#16a34a" dot={false} connectNulls />
+              <Line type="monotone" dataKey="putIv" name="Put IV" stroke="#dc2626" dot={false} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Skew metrics */}
+      <div className="overflow-x-auto">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Skew by Expiry</h3>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+              <th className="px-2 py-1 text-left">Expiry</th>
+              <th className="px-2 py-1 text-right">DTE</th>
+              <th className="px-2 py-1 text-right">ATM IV</th>
+              <th className="px-2 py-1 text-right">25Δ Call</th>
+              <th className="px-2 py-1 text-right">25Δ Put</th>
+              <th className="px-2 py-1 text-right">25Δ RR</th>
+              <th className="px-2 py-1 text-right">25Δ BF</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.map(row => (
+              <tr
+                key={row.expiry}
+                onClick={() => setSelectedExpiry(row.expiry)}
+                className={`border-b border-gray-100 dark:border-gray-800 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 ${
+                  row.expiry === selectedSmile.expiry ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+              >
+                <td className="px-2 py-1">{row.expiry}</td>
+                <td className="px-2 py-1 text-right">{row.daysToExpiry}</td>
+                <td className="px-2 py-1 text-right">{formatVol(row.atmIv)}</td>
+                <td className="px-2 py-1 text-right">{formatVol(row.call25Iv)}</td>
+                <td className="px-2 py-1 text-right">{formatVol(row.put25Iv)}</td>
+                <td className={`px-2 py-1 text-right ${row.riskReversal25 < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatVolPoints(row.riskReversal25)}
+                </td>
+                <td className="px-2 py-1 text-right">{formatVolPoints(row.butterfly25)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-1 text-xs text-gray-500">RR and BF in vol points.</p>
+      </div>
+
+      {/* Surface heatmap */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">IV Surface (strike × expiry)</h3>
+          <div className="flex rounded-md border border-gray-300 dark:border-gray-600 text-xs overflow-hidden">
+            {(['call', 'put'] as OptionType[]).map(side => (
+              <button
+                key={side}
+                onClick={() => setSurfaceSide(side)}
+                className={`px-3 py-1 ${surfaceSide === side ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {side === 'call' ? 'Calls' : 'Puts'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-gray-600 dark:text-gray-400">
+                <th className="px-2 py-1 text-left">Strike</th>
+                {smiles.map(smile => (
+                  <th key={smile.expiry} className="px-2 py-1 text-center">{smile.daysToExpiry}D</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {surface.strikes.map(strike => (
+                <tr key={strike}>
+                  <td className={`px-2 py-0.5 font-medium ${
+                    Math.abs(strike - selectedSmile.underlyingPrice) < 2.5 ? 'text-blue-600 dark:text-blue-400' : 'text-gray-900 dark:text-white'
+                  }`}>
+                    ${strike.toFixed(2)}
+                  </td>
+                  {surface.cells.map((cell, index) => {
+                    const iv = cell.get(strike) ?? NaN;
+                    return (
+                      <td
+                        key={smiles[index].expiry}
+                        className="px-2 py-0.5 text-center text-gray-900"
+                        style={{ backgroundColor: heatColor(iv, surface.min, surface.max) }}
+                      >
+                        {formatVol(iv)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VolatilityPanel;
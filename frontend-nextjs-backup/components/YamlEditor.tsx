@@ -0,0 +1,72 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import type { ConfigIssue } from '../lib/configSchema';
+
+interface YamlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  issues: ConfigIssue[];
+  rows?: number;
+  placeholder?: string;
+}
+
+// Shared by the gutter and the textarea so line numbers stay aligned
+const LINE_CLASSES = 'text-xs font-mono leading-5 py-3';
+
+const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange, issues, rows = 12, placeholder }) => {
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const lineCount = value.split('\n').length;
+  const severityByLine = useMemo(() => {
+    const lines = new Map<number, ConfigIssue['severity']>();
+    issues.forEach(issue => {
+      if (lines.get(issue.line) !== 'error') {
+        lines.set(issue.line, issue.severity);
+      }
+    });
+    return lines;
+  }, [issues]);
+
+  return (
+    <div className="flex w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden focus-within:ring-1 focus-within:ring-blue-500">
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className={`${LINE_CLASSES} select-none overflow-hidden text-right text-gray-400 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700`}
+        style={{ height: `calc(${rows} * 1.25rem + 1.5rem)` }}
+      >
+        {Array.from({ length: lineCount }, (_, index) => {
+          const severity = severityByLine.get(index + 1);
+          return (
+            <div
+              key={index}
+              className={`px-2 ${
+                severity === 'error' ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+                  : severity === 'warning' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300' : ''
+              }`}
+            >
+              {index + 1}
+            </div>
+          );
+        })}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (gutterRef.current) {
+            gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }
+        }}
+        rows={rows}
+        spellCheck={false}
+        wrap="off"
+        className={`${LINE_CLASSES} flex-1 px-3 bg-transparent text-gray-900 dark:text-white resize-none focus:outline-none`}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+};
+
+export default YamlEditor;
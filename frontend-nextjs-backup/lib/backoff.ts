@@ -0,0 +1,26 @@
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Fraction of each delay randomized, so clients don't retry in lockstep. */
+  jitter: number;
+  /** Consecutive failed attempts before giving up; null retries forever. */
+  maxAttempts: number | null;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: null,
+};
+
+/** Delay before retry number `attempt` (0-based), or null to give up. */
+export function backoffDelay(options: BackoffOptions, attempt: number): number | null {
+  if (options.maxAttempts !== null && attempt >= options.maxAttempts) {
+    return null;
+  }
+  const delay = Math.min(options.maxDelayMs, options.initialDelayMs * options.multiplier ** attempt);
+  return Math.round(delay * (1 - options.jitter + 2 * options.jitter * Math.random()));
+}
@@ -0,0 +1,202 @@
+import type { OptionType } from './pricing';
+import type { ContractQuote, OptionData, OptionsChainData } from './optionsChain';
+
+export type ChainColumnId =
+  | 'bid'
+  | 'ask'
+  | 'mid'
+  | 'iv'
+  | 'delta'
+  | 'gamma'
+  | 'theta'
+  | 'vega'
+  | 'rho'
+  | 'volume'
+  | 'openInterest'
+  | 'spreadPercent'
+  | 'breakeven'
+  | 'annualizedYield';
+
+export type ColumnFormat = 'currency' | 'percent' | 'greek' | 'count';
+
+export interface ChainColumn {
+  id: ChainColumnId;
+  label: string;
+  format: ColumnFormat;
+  value: (quote: ContractQuote, strike: number, chain: OptionsChainData, side: OptionType) => number;
+}
+
+export const midPrice = (quote: ContractQuote) => (quote.bid + quote.ask) / 2;
+
+/** Bid-ask spread as a fraction of the mid; NaN without a two-sided market. */
+export const spreadPercent = (quote: ContractQuote) => {
+  const mid = midPrice(quote);
+  return mid > 0 ? (quote.ask - quote.bid) / mid : NaN;
+};
+
+/** Underlying price at expiry where a long position at the mid breaks even. */
+export const breakeven = (quote: ContractQuote, strike: number, side: OptionType) =>
+  side === 'call' ? strike + midPrice(quote) : strike - midPrice(quote);
+
+/**
+ * Premium at the mid, annualized over the days to expiry, against the capital
+ * the short position ties up: the shares for a covered call, the strike for
+ * a cash-secured put.
+ */
+export const annualizedYield = (quote: ContractQuote, strike: number, chain: OptionsChainData, side: OptionType) => {
+  const capital = side === 'call' ? chain.underlyingPrice : strike;
+  return capital > 0 ? (midPrice(quote) / capital) * (365 / Math.max(chain.daysToExpiry, 1)) : NaN;
+};
+
+export const CHAIN_COLUMNS: ChainColumn[] = [
+  { id: 'bid', label: 'Bid', format: 'currency', value: quote => quote.bid },
+  { id: 'ask', label: 'Ask', format: 'currency', value: quote => quote.ask },
+  { id: 'mid', label: 'Mark', format: 'currency', value: midPrice },
+  { id: 'iv', label: 'IV', format: 'percent', value: quote => quote.iv },
+  { id: 'delta', label: 'Delta', format: 'greek', value: quote => quote.delta },
+  { id: 'gamma', label: 'Gamma', format: 'greek', value: quote => quote.gamma },
+  { id: 'theta', label: 'Theta', format: 'greek', value: quote => quote.theta },
+  { id: 'vega', label: 'Vega', format: 'greek', value: quote => quote.vega },
+  { id: 'rho', label: 'Rho', format: 'greek', value: quote => quote.rho },
+  { id: 'volume', label: 'Vol', format: 'count', value: quote => quote.volume ?? NaN },
+  { id: 'openInterest', label: 'OI', format: 'count', value: quote => quote.openInterest ?? NaN },
+  { id: 'spreadPercent', label: 'Spread %', format: 'percent', value: spreadPercent },
+  { id: 'breakeven', label: 'Breakeven', format: 'currency', value: (quote, strike, _chain, side) => breakeven(quote, strike, side) },
+  { id: 'annualizedYield', label: 'Ann. Yield', format: 'percent', value: annualizedYield },
+];
+
+export const DEFAULT_COLUMNS: ChainColumnId[] = ['bid', 'ask', 'mid', 'iv', 'delta', 'volume', 'openInterest'];
+
+export interface ChainFilters {
+  /** Signed, so a put range reads e.g. -0.35 to -0.25. */
+  minDelta: number;
+  maxDelta: number;
+  /** Strikes within this fraction of the underlying price; null for all. */
+  moneynessBand: number | null;
+  minVolume: number;
+  minOpenInterest: number;
+  /** Fraction of the mid; null for no limit. */
+  maxSpreadPercent: number | null;
+}
+
+export const DEFAULT_FILTERS: ChainFilters = {
+  minDelta: -1,
+  maxDelta: 1,
+  moneynessBand: null,
+  minVolume: 0,
+  minOpenInterest: 0,
+  maxSpreadPercent: null,
+};
+
+/**
+ * Delta range from a strategy's `min_delta`/`max_delta` parameters, so the
+ * chain screens for the contracts the strategy would trade; null when the
+ * strategy does not select by delta.
+ */
+export function deltaRangeFromParameters(parameters: Record<string, unknown>): { minDelta: number; maxDelta: number } | null {
+  const { min_delta: min, max_delta: max } = parameters;
+  if (typeof min !== 'number' || typeof max !== 'number' || min > max) {
+    return null;
+  }
+  return { minDelta: Math.max(-1, min), maxDelta: Math.min(1, max) };
+}
+
+/** Delta, volume, open interest and spread checks for one contract. */
+export function contractPasses(quote: ContractQuote, filters: ChainFilters): boolean {
+  const deltaFiltered = filters.minDelta > -1 || filters.maxDelta < 1;
+  if (deltaFiltered && !(quote.delta >= filters.minDelta && quote.delta <= filters.maxDelta)) {
+    return false;
+  }
+  if ((quote.volume ?? 0) < filters.minVolume || (quote.openInterest ?? 0) < filters.minOpenInterest) {
+    return false;
+  }
+  if (filters.maxSpreadPercent !== null && !(spreadPercent(quote) <= filters.maxSpreadPercent)) {
+    return false;
+  }
+  return true;
+}
+
+export interface ChainRowView {
+  row: OptionData;
+  callVisible: boolean;
+  putVisible: boolean;
+}
+
+/** Rows inside the moneyness band where at least one side passes the contract filters. */
+export function filterRows(chain: OptionsChainData, filters: ChainFilters): ChainRowView[] {
+  const spot = chain.underlyingPrice;
+  return chain.strikes
+    .filter(row => filters.moneynessBand === null || Math.abs(row.strike / spot - 1) <= filters.moneynessBand)
+    .map(row => ({
+      row,
+      callVisible: contractPasses(row.calls, filters),
+      putVisible: contractPasses(row.puts, filters),
+    }))
+    .filter(view => view.callVisible || view.putVisible);
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ChainSort {
+  /** Strike, or a column on one side of the chain. */
+  column: 'strike' | ChainColumnId;
+  side: OptionType;
+  direction: SortDirection;
+}
+
+export const DEFAULT_SORT: ChainSort = { column: 'strike', side: 'call', direction: 'asc' };
+
+/** Sorted copy; rows without a value for the sort column go last either way. */
+export function sortRows(rows: ChainRowView[], chain: OptionsChainData, sort: ChainSort): ChainRowView[] {
+  const column = CHAIN_COLUMNS.find(candidate => candidate.id === sort.column);
+  const key = (view: ChainRowView) => {
+    if (!column) return view.row.strike;
+    const quote = sort.side === 'call' ? view.row.calls : view.row.puts;
+    return column.value(quote, view.row.strike, chain, sort.side);
+  };
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    const left = key(a);
+    const right = key(b);
+    if (Number.isNaN(left) || Number.isNaN(right)) {
+      return Number(Number.isNaN(left)) - Number(Number.isNaN(right));
+    }
+    return sign * (left - right) || a.row.strike - b.row.strike;
+  });
+}
+
+/** Listed strike nearest the underlying price. */
+export function atmStrike(chain: OptionsChainData): number | null {
+  return chain.strikes.reduce<number | null>(
+    (best, row) =>
+      best === null || Math.abs(row.strike - chain.underlyingPrice) < Math.abs(best - chain.underlyingPrice)
+        ? row.strike
+        : best,
+    null,
+  );
+}
+
+const COLUMNS_KEY = 'optx.chainColumns';
+
+export function loadColumns(): ChainColumnId[] {
+  try {
+    const raw = localStorage.getItem(COLUMNS_KEY);
+    if (raw === null) return DEFAULT_COLUMNS;
+    const ids: unknown = JSON.parse(raw);
+    return Array.isArray(ids)
+      ? CHAIN_COLUMNS.map(column => column.id).filter(id => ids.includes(id))
+      : DEFAULT_COLUMNS;
+  } catch (error) {
+    console.warn('Ignoring unreadable chain columns:', error);
+    return DEFAULT_COLUMNS;
+  }
+}
+
+export function saveColumns(columns: ChainColumnId[]): void {
+  try {
+    localStorage.setItem(COLUMNS_KEY, JSON.stringify(columns));
+  } catch (error) {
+    console.warn('Could not save chain columns:', error);
+  }
+}
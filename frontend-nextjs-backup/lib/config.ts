@@ -0,0 +1,36 @@
+/**
+ * Endpoint configuration. NEXT_PUBLIC_* variables are inlined at build time;
+ * a deployment can override them without rebuilding by defining
+ * `window.__OPTX_CONFIG__ = { apiBaseUrl: '...' }` before the app loads.
+ */
+
+export type DataMode = 'live' | 'offline';
+
+export interface RuntimeConfig {
+  apiBaseUrl?: string;
+  dataMode?: DataMode;
+}
+
+declare global {
+  interface Window {
+    __OPTX_CONFIG__?: RuntimeConfig;
+  }
+}
+
+const DEFAULT_API_BASE_URL = 'http://localhost:5002';
+
+const runtimeConfig = (): RuntimeConfig | undefined =>
+  typeof window === 'undefined' ? undefined : window.__OPTX_CONFIG__;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** Base URL of the Optx.Web host, serving both the REST API and the SignalR hubs. */
+export function apiBaseUrl(): string {
+  return trimSlash(runtimeConfig()?.apiBaseUrl || process.env.NEXT_PUBLIC_API_BASE_URL || DEFAULT_API_BASE_URL);
+}
+
+/** 'offline' replaces backend option chains with locally generated ones, for working without a server. */
+export function dataMode(): DataMode {
+  const mode = runtimeConfig()?.dataMode || process.env.NEXT_PUBLIC_DATA_MODE;
+  return mode === 'offline' ? 'offline' : 'live';
+}
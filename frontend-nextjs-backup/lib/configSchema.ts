@@ -0,0 +1,504 @@
+import { Document, LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Node } from 'yaml';
+
+/**
+ * Client-side schema for the YAML config families under `configs/`. Issues
+ * carry 1-based line numbers so the editor can flag them before anything is
+ * sent to `/api/strategy/validate`. Configs use snake_case keys, except
+ * covered_call_real_data.yaml, which has its own camelCase family.
+ */
+
+export type ConfigFamily =
+  | 'covered_call'
+  | 'covered_call_real_data'
+  | 'cash_secured_put'
+  | 'straddle'
+  | 'straddle_ivrv'
+  | 'engine';
+
+export interface ConfigIssue {
+  line: number;
+  column: number;
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ParsedConfig {
+  document: Document;
+  value: Record<string, unknown> | null;
+  family: ConfigFamily | null;
+  issues: ConfigIssue[];
+}
+
+interface BaseField {
+  required?: boolean;
+}
+
+interface NumberField extends BaseField {
+  type: 'number';
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  exclusiveMax?: boolean;
+}
+
+interface StringField extends BaseField {
+  type: 'string';
+  enum?: string[];
+  pattern?: RegExp;
+  patternHint?: string;
+}
+
+interface BooleanField extends BaseField {
+  type: 'boolean';
+}
+
+interface ListField extends BaseField {
+  type: 'list';
+  items?: FieldSchema;
+}
+
+interface MapField extends BaseField {
+  type: 'map';
+  fields: Record<string, FieldSchema>;
+  /** Accept keys not listed in `fields`. */
+  open?: boolean;
+}
+
+type FieldSchema = NumberField | StringField | BooleanField | ListField | MapField;
+
+interface CrossFieldRule {
+  path: string[];
+  check: (value: Record<string, unknown>) => string | null;
+}
+
+interface FamilySchema {
+  root: MapField;
+  rules: CrossFieldRule[];
+}
+
+const num = (options: Omit<NumberField, 'type'> = {}): NumberField => ({ type: 'number', ...options });
+const int = (options: Omit<NumberField, 'type' | 'integer'> = {}): NumberField => ({ type: 'number', integer: true, ...options });
+const str = (options: Omit<StringField, 'type'> = {}): StringField => ({ type: 'string', ...options });
+const bool = (options: BaseField = {}): BooleanField => ({ type: 'boolean', ...options });
+const list = (items?: FieldSchema, options: BaseField = {}): ListField => ({ type: 'list', items, ...options });
+const map = (fields: Record<string, FieldSchema>, options: Omit<MapField, 'type' | 'fields'> = {}): MapField =>
+  ({ type: 'map', fields, ...options });
+
+const positive = { min: 0, exclusiveMin: true };
+const nonNegative = { min: 0 };
+const isoDate = str({ pattern: /^\d{4}-\d{2}-\d{2}$/, patternHint: 'a YYYY-MM-DD date' });
+const orderType = str({ enum: ['LIMIT', 'MARKET'] });
+
+const backtestSection = map({
+  start_date: isoDate,
+  end_date: isoDate,
+  initial_capital: num(positive),
+  commission_per_contract: num(nonNegative),
+  option_multiplier: int(positive),
+});
+
+const reportingSection = map({
+  output_path: str(),
+  generate_plots: bool(),
+  detailed_trades: bool(),
+  metrics: list(),
+});
+
+const marketDataSection = map({
+  symbols: list(str()),
+  tick_size: num(positive),
+  option_chains: bool(),
+});
+
+const strategySection = (parameters: Record<string, FieldSchema>) => map({
+  name: str({ required: true }),
+  description: str(),
+  parameters: map(parameters, { required: true }),
+}, { required: true });
+
+const getPath = (value: Record<string, unknown>, path: string[]): unknown =>
+  path.reduce<unknown>((node, key) =>
+    (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), value);
+
+/** `lower` must be strictly below `upper` when both are set. */
+const ordered = (section: string[], lower: string, upper: string): CrossFieldRule => ({
+  path: [...section, lower],
+  check: value => {
+    const low = getPath(value, [...section, lower]);
+    const high = getPath(value, [...section, upper]);
+    if (typeof low === 'number' && typeof high === 'number' && low >= high) {
+      return `${lower} must be less than ${upper}`;
+    }
+    return null;
+  },
+});
+
+const PARAMS = ['strategy', 'parameters'];
+
+const SCHEMAS: Record<ConfigFamily, FamilySchema> = {
+  covered_call: {
+    root: map({
+      strategy: strategySection({
+        min_delta: num({ required: true, min: 0, max: 1, exclusiveMin: true, exclusiveMax: true }),
+        max_delta: num({ required: true, min: 0, max: 1, exclusiveMin: true, exclusiveMax: true }),
+        min_dte: int({ required: true, ...positive }),
+        max_dte: int({ required: true, ...positive }),
+        roll_at_pnl_percent: num({ min: 0, max: 100 }),
+        roll_at_dte: int(nonNegative),
+        lot_size: int(positive),
+        max_positions: int(positive),
+      }),
+      risk: map({
+        max_portfolio_delta: num(nonNegative),
+        max_single_position: num(nonNegative),
+        max_daily_loss: num(nonNegative),
+      }),
+      execution: map({
+        order_type: orderType,
+        price_improvement: num(nonNegative),
+        timeout_seconds: int(positive),
+      }),
+      market_data: marketDataSection,
+      backtest: backtestSection,
+      reporting: reportingSection,
+    }),
+    rules: [ordered(PARAMS, 'min_delta', 'max_delta'), ordered(PARAMS, 'min_dte', 'max_dte')],
+  },
+  covered_call_real_data: {
+    root: map({
+      strategy: strategySection({
+        minDelta: num({ required: true, min: 0, max: 1, exclusiveMin: true, exclusiveMax: true }),
+        maxDelta: num({ required: true, min: 0, max: 1, exclusiveMin: true, exclusiveMax: true }),
+        targetDaysToExpiry: int({ required: true, ...positive }),
+        rollAtDaysToExpiry: int(nonNegative),
+        rollAtPnLPercent: num({ min: 0, max: 100 }),
+        lotSize: int(positive),
+        maxPositions: int(positive),
+        symbols: list(str()),
+      }),
+      risk: map({
+        maxOrderSize: num(positive),
+        maxPositionValue: num(positive),
+        maxPortfolioDelta: num(nonNegative),
+      }),
+      backtest: map({
+        initialCash: num(positive),
+        commission: num(nonNegative),
+        slippage: num(nonNegative),
+        enableProgressReporting: bool(),
+      }),
+      data: map({
+        useRealData: bool(),
+        dataSource: str(),
+        timeframe: str(),
+        priority: str({ enum: ['real', 'synthetic'] }),
+      }),
+    }),
+    rules: [ordered(PARAMS, 'minDelta', 'maxDelta')],
+  },
+  cash_secured_put: {
+    root: map({
+      strategy: strategySection({
+        min_delta: num({ required: true, min: -1, max: 0, exclusiveMin: true, exclusiveMax: true }),
+        max_delta: num({ required: true, min: -1, max: 0, exclusiveMin: true, exclusiveMax: true }),
+        min_dte: int({ required: true, ...positive }),
+        max_dte: int({ required: true, ...positive }),
+        cash_requirement_multiplier: num(positive),
+        max_positions: int(positive),
+      }),
+      backtest: backtestSection,
+    }),
+    rules: [ordered(PARAMS, 'min_delta', 'max_delta'), ordered(PARAMS, 'min_dte', 'max_dte')],
+  },
+  straddle: {
+    root: map({
+      strategy: strategySection({
+        target_dte: int({ required: true, ...positive }),
+        min_implied_volatility: num({ min: 0, max: 5 }),
+        max_implied_volatility: num({ min: 0, max: 5 }),
+        profit_target_percent: num(nonNegative),
+      }),
+      backtest: backtestSection,
+    }),
+    rules: [ordered(PARAMS, 'min_implied_volatility', 'max_implied_volatility')],
+  },
+  straddle_ivrv: {
+    root: map({
+      strategy: strategySection({
+        iv_rv_threshold: num({ required: true }),
+        min_iv: num({ min: 0, max: 5 }),
+        max_iv: num({ min: 0, max: 5 }),
+        max_moneyness_deviation: num({ min: 0, max: 1 }),
+        min_dte: int(positive),
+        max_dte: int(positive),
+        hedge_threshold: num({ min: 0, max: 1 }),
+        rehedge_frequency: str({ enum: ['INTRADAY', 'DAILY', 'WEEKLY'] }),
+        hedge_instrument: str({ enum: ['UNDERLYING', 'FUTURES'] }),
+        max_hold_days: int(positive),
+        profit_target: num(positive),
+        stop_loss: num(positive),
+        iv_expansion_target: num(nonNegative),
+      }),
+      realized_vol: map({
+        lookback_days: int({ required: true, min: 2 }),
+        annualization_factor: num(positive),
+        method: str({ enum: ['CLOSE_TO_CLOSE', 'PARKINSON', 'GARMAN_KLASS', 'YANG_ZHANG'] }),
+      }, { required: true }),
+      risk: map({
+        max_positions: int(positive),
+        max_portfolio_vega: num(nonNegative),
+        max_portfolio_gamma: num(nonNegative),
+        max_notional_per_trade: num(positive),
+      }),
+      execution: map({
+        order_type: orderType,
+        spread_crossing: num({ min: 0, max: 1 }),
+        timeout_seconds: int(positive),
+      }),
+      market_data: marketDataSection,
+      backtest: backtestSection,
+      reporting: reportingSection,
+    }),
+    rules: [ordered(PARAMS, 'min_iv', 'max_iv'), ordered(PARAMS, 'min_dte', 'max_dte')],
+  },
+  engine: {
+    root: map({
+      engine: map({
+        name: str({ required: true }),
+        version: str(),
+        deterministic: bool(),
+        enable_checkpointing: bool(),
+        checkpoint_interval: int(positive),
+        checkpoint_path: str(),
+      }, { required: true }),
+      performance: map({
+        enable_metrics: bool(),
+        enable_latency_tracking: bool(),
+        gc_mode: str({ enum: ['SERVER', 'WORKSTATION'] }),
+        thread_pool_size: int(positive),
+      }),
+      memory: map({
+        initial_heap_size: str({ pattern: /^\d+(KB|MB|GB)$/, patternHint: 'a size such as 512MB' }),
+        max_heap_size: str({ pattern: /^\d+(KB|MB|GB)$/, patternHint: 'a size such as 2GB' }),
+        enable_pooling: bool(),
+        pool_sizes: map({}, { open: true }),
+      }),
+      serialization: map({
+        codec: str({ enum: ['PROTOBUF', 'MESSAGEPACK'] }),
+        compression: bool(),
+        wire_protocol_version: str(),
+      }),
+      fill_model: map({
+        type: str({ enum: ['REALISTIC', 'AGGRESSIVE'] }),
+        parameters: map({}, { open: true }),
+      }),
+      risk: map({
+        max_portfolio_delta: num(nonNegative),
+        max_portfolio_gamma: num(nonNegative),
+        max_portfolio_vega: num(nonNegative),
+        max_portfolio_theta: num(),
+        max_order_size: num(positive),
+        max_daily_notional: num(positive),
+        max_price_deviation: num({ min: 0, max: 1 }),
+      }, { open: true }),
+      market_data: map({}, { open: true }),
+      logging: map({
+        level: str({ enum: ['DEBUG', 'INFO', 'WARN', 'ERROR'] }),
+      }, { open: true }),
+      output: map({}, { open: true }),
+      simulation: map({
+        time_multiplier: num(positive),
+        market_open: str({ pattern: /^\d{2}:\d{2}$/, patternHint: 'HH:MM' }),
+        market_close: str({ pattern: /^\d{2}:\d{2}$/, patternHint: 'HH:MM' }),
+      }, { open: true }),
+    }),
+    rules: [],
+  },
+};
+
+const STRATEGY_NAMES: Record<string, ConfigFamily> = {
+  CoveredCall: 'covered_call',
+  CashSecuredPut: 'cash_secured_put',
+  LongStraddle: 'straddle',
+  StraddleIVvsRV: 'straddle_ivrv',
+};
+
+/** StrategyBuilder template keys and the schema each one is checked against. */
+export const TEMPLATE_FAMILIES: Record<string, ConfigFamily> = {
+  'covered-call': 'covered_call',
+  'cash-secured-put': 'cash_secured_put',
+  'straddle': 'straddle',
+};
+
+const isCamelCase = (key: string) => /^[a-z]+[A-Z]/.test(key);
+
+const snakeCase = (key: string) => key.replace(/[A-Z]+/g, match => `_${match.toLowerCase()}`);
+
+const camelCase = (key: string) => key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/** Work out which config family a parsed document belongs to. */
+export function detectFamily(value: unknown): ConfigFamily | null {
+  if (!value || typeof value !== 'object') return null;
+  const root = value as Record<string, unknown>;
+  if ('engine' in root) return 'engine';
+
+  const name = getPath(root, ['strategy', 'name']);
+  const family = typeof name === 'string' ? STRATEGY_NAMES[name] ?? null : null;
+  const parameters = getPath(root, ['strategy', 'parameters']);
+  if (family === 'covered_call' && parameters && typeof parameters === 'object') {
+    // Go by the majority, so one misspelt key is reported rather than switching dialects
+    const keys = Object.keys(parameters);
+    const camel = keys.filter(isCamelCase).length;
+    if (camel > keys.filter(key => key.includes('_')).length) return 'covered_call_real_data';
+  }
+  return family;
+}
+
+class IssueCollector {
+  readonly issues: ConfigIssue[] = [];
+
+  constructor(private readonly lineCounter: LineCounter) {}
+
+  add(node: Node | null | undefined, path: string[], message: string, severity: ConfigIssue['severity'] = 'error') {
+    const offset = node?.range?.[0] ?? 0;
+    const { line, col } = this.lineCounter.linePos(offset);
+    this.issues.push({ line, column: col, path: path.join('.'), message, severity });
+  }
+}
+
+function checkField(node: unknown, schema: FieldSchema, path: string[], issues: IssueCollector, parent: Node | null) {
+  const name = path[path.length - 1] ?? 'document';
+  const at = (node as Node | null) ?? parent;
+
+  switch (schema.type) {
+    case 'map': {
+      if (!isMap(node)) {
+        issues.add(at, path, `${name} must be a mapping`);
+        return;
+      }
+      const seen = new Set<string>();
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        seen.add(key);
+        const child = schema.fields[key];
+        if (child) {
+          checkField(pair.value, child, [...path, key], issues, pair.key as Node);
+        } else if (!schema.open) {
+          // Usually a key written in the other config dialect
+          const other = isCamelCase(key) ? snakeCase(key) : camelCase(key);
+          const hint = other !== key && schema.fields[other] ? `; this config spells it '${other}'` : '';
+          issues.add(pair.key as Node, [...path, key], `Unknown key '${key}'${hint}`, 'warning');
+        }
+      }
+      for (const [key, child] of Object.entries(schema.fields)) {
+        if (child.required && !seen.has(key)) {
+          issues.add(node, [...path, key], `Missing required key '${key}'${path.length ? ` in ${name}` : ''}`);
+        }
+      }
+      return;
+    }
+    case 'list': {
+      if (!isSeq(node)) {
+        issues.add(at, path, `${name} must be a list`);
+        return;
+      }
+      if (schema.items) {
+        node.items.forEach((item, index) => checkField(item, schema.items!, [...path, String(index)], issues, node));
+      }
+      return;
+    }
+    default:
+      break;
+  }
+
+  if (!isScalar(node)) {
+    issues.add(at, path, `${name} must be a ${schema.type}`);
+    return;
+  }
+  const value = node.value;
+
+  if (schema.type === 'boolean' && typeof value !== 'boolean') {
+    issues.add(node, path, `${name} must be true or false`);
+  } else if (schema.type === 'string') {
+    if (typeof value !== 'string') {
+      issues.add(node, path, `${name} must be a string`);
+    } else if (schema.enum && !schema.enum.includes(value)) {
+      issues.add(node, path, `${name} must be one of ${schema.enum.join(', ')}`);
+    } else if (schema.pattern && !schema.pattern.test(value)) {
+      issues.add(node, path, `${name} must be ${schema.patternHint ?? `in the form ${schema.pattern}`}`);
+    }
+  } else if (schema.type === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.add(node, path, `${name} must be a number`);
+    } else if (schema.integer && !Number.isInteger(value)) {
+      issues.add(node, path, `${name} must be a whole number`);
+    } else if (schema.min !== undefined && (schema.exclusiveMin ? value <= schema.min : value < schema.min)) {
+      issues.add(node, path, `${name} must be ${schema.exclusiveMin ? 'greater than' : 'at least'} ${schema.min}`);
+    } else if (schema.max !== undefined && (schema.exclusiveMax ? value >= schema.max : value > schema.max)) {
+      issues.add(node, path, `${name} must be ${schema.exclusiveMax ? 'less than' : 'at most'} ${schema.max}`);
+    }
+  }
+}
+
+const cleanMessage = (message: string) => message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+
+/**
+ * Parse YAML text and check it against the schema for its config family.
+ * The family comes from the document itself, falling back to `fallback`.
+ */
+export function parseConfig(text: string, fallback: ConfigFamily | null = null): ParsedConfig {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter });
+  const issues = new IssueCollector(lineCounter);
+
+  for (const error of document.errors) {
+    const { line, col } = error.linePos?.[0] ?? lineCounter.linePos(error.pos[0]);
+    issues.issues.push({ line, column: col, path: '', message: cleanMessage(error.message), severity: 'error' });
+  }
+  if (document.errors.length > 0) {
+    return { document, value: null, family: fallback, issues: issues.issues };
+  }
+
+  const value = document.toJS() as unknown;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.add(document.contents, [], 'Configuration must be a YAML mapping');
+    return { document, value: null, family: fallback, issues: issues.issues };
+  }
+
+  const root = value as Record<string, unknown>;
+  const family = detectFamily(root) ?? fallback;
+  if (family) {
+    const schema = SCHEMAS[family];
+    checkField(document.contents, schema.root, [], issues, null);
+    for (const rule of schema.rules) {
+      const message = rule.check(root);
+      if (message) {
+        issues.add(document.getIn(rule.path, true) as Node | undefined, rule.path, message);
+      }
+    }
+  }
+
+  issues.issues.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { document, value: root, family, issues: issues.issues };
+}
+
+/** Serialize a plain object (e.g. a server template) as YAML. */
+export function toYaml(value: unknown): string {
+  return new Document(value).toString();
+}
+
+/**
+ * Set a scalar inside YAML text, keeping comments and layout elsewhere.
+ * Returns the text unchanged if it does not parse.
+ */
+export function setYamlValue(text: string, path: string[], value: unknown): string {
+  const document = parseDocument(text);
+  if (document.errors.length > 0) return text;
+  document.setIn(path, value);
+  return document.toString();
+}
+
+export const hasErrors = (issues: ConfigIssue[]) => issues.some(issue => issue.severity === 'error');
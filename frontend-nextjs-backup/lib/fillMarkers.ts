@@ -0,0 +1,84 @@
+/**
+ * Paper fills placed on the underlying's price history, for the fills chart.
+ * Fills are grouped by order and bar, and each group is marked as an entry or
+ * an exit from the position its contract held before it.
+ */
+
+import type { PaperFill } from './paperTrading';
+
+/** Opens or adds to a position, or reduces or closes one. */
+export type FillEffect = 'entry' | 'exit';
+
+export interface PriceBar {
+  /** Bar start, Unix seconds. */
+  time: number;
+  close: number;
+}
+
+export interface FillMarker {
+  /** Unique within one set of markers. */
+  id: string;
+  orderId: string;
+  /** Start of the bar the fills landed in, Unix seconds. */
+  time: number;
+  /** Underlying close of that bar. */
+  price: number;
+  effect: FillEffect;
+  fills: PaperFill[];
+}
+
+/** Bars a fills chart asks for. */
+export const FILL_CHART_BARS = 500;
+
+// Bar sizes tried, finest first, until FILL_CHART_BARS of them reach the oldest fill
+const INTERVALS = [60, 5 * 60, 15 * 60, 60 * 60, 24 * 60 * 60];
+
+/** Seconds per bar so history up to `now` reaches back to the `oldest` fill; both in ms. */
+export function fillChartInterval(oldest: number, now: number): number {
+  const span = Math.max(0, now - oldest) / 1000;
+  return INTERVALS.find(interval => interval * FILL_CHART_BARS >= span) ?? INTERVALS[INTERVALS.length - 1];
+}
+
+/**
+ * Places each order's fills on the last bar starting at or before them. Fills
+ * before the first bar are left out, but still count towards positions.
+ */
+export function fillMarkers(fills: readonly PaperFill[], bars: readonly PriceBar[]): FillMarker[] {
+  const positions = new Map<string, number>();
+  const markers: FillMarker[] = [];
+  const byKey = new Map<string, FillMarker>();
+  let barIndex = 0;
+
+  [...fills]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(fill => {
+      const held = positions.get(fill.spec.contract) ?? 0;
+      const signed = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+      positions.set(fill.spec.contract, held + signed);
+
+      const time = fill.timestamp / 1000;
+      while (barIndex + 1 < bars.length && bars[barIndex + 1].time <= time) {
+        barIndex++;
+      }
+      const bar = bars[barIndex];
+      if (!bar || bar.time > time) return;
+
+      const key = `${fill.orderId}@${bar.time}`;
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.fills.push(fill);
+        return;
+      }
+      const marker: FillMarker = {
+        id: `fill-${markers.length}`,
+        orderId: fill.orderId,
+        time: bar.time,
+        price: bar.close,
+        effect: held === 0 || Math.sign(held) === Math.sign(signed) ? 'entry' : 'exit',
+        fills: [fill],
+      };
+      byKey.set(key, marker);
+      markers.push(marker);
+    });
+  return markers;
+}
@@ -0,0 +1,226 @@
+import {
+  DEFAULT_DIVIDEND_YIELD,
+  DEFAULT_RISK_FREE_RATE,
+  greeks,
+  impliedVolatilityFromQuote,
+} from './pricing';
+import type { OptionType } from './pricing';
+import type { ContractSpec } from './paperTrading';
+import type { ChainContract, OptionsChainResponse } from '../services/ApiClient';
+
+export interface ContractQuote {
+  bid: number;
+  ask: number;
+  iv: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+  volume?: number;
+  openInterest?: number;
+  bidSize?: number;
+  askSize?: number;
+  /** OCC contract symbol, when the source provides one. */
+  contract?: string;
+}
+
+export interface OptionData {
+  strike: number;
+  calls: ContractQuote;
+  puts: ContractQuote;
+}
+
+export type ExpiryCycle = 'weekly' | 'monthly';
+
+export interface OptionsChainData {
+  symbol: string;
+  timestamp: string;
+  /** Expiration date (YYYY-MM-DD). */
+  expiry: string;
+  daysToExpiry: number;
+  /** As the server lists it; generated chains have none. */
+  cycle?: ExpiryCycle;
+  underlyingPrice: number;
+  strikes: OptionData[];
+}
+
+const FALLBACK_PRICES: { [key: string]: number } = {
+  'SPY': 450,
+  'QQQ': 380,
+  'AAPL': 190,
+  'MSFT': 410,
+  'TSLA': 250,
+  'NVDA': 900
+};
+
+/** Last-resort underlying price when the backend has none. */
+export const getBasePrice = (symbol: string): number => FALLBACK_PRICES[symbol] || 100;
+
+// Implied vol and Greeks are solved from the bid/ask midpoint so every number
+// in the chain is consistent with the quote it is shown next to.
+export const quoteContract = (
+  bid: number,
+  ask: number,
+  activity: Pick<ContractQuote, 'volume' | 'openInterest' | 'bidSize' | 'askSize' | 'contract'>,
+  spot: number,
+  strike: number,
+  timeToExpiry: number,
+  optionType: OptionType,
+): ContractQuote => {
+  const inputs = {
+    spot,
+    strike,
+    timeToExpiry,
+    riskFreeRate: DEFAULT_RISK_FREE_RATE,
+    dividendYield: DEFAULT_DIVIDEND_YIELD,
+    optionType,
+  };
+  const iv = impliedVolatilityFromQuote(bid, ask, inputs);
+  const contractGreeks = Number.isNaN(iv)
+    ? { delta: NaN, gamma: NaN, theta: NaN, vega: NaN, rho: NaN }
+    : greeks({ ...inputs, volatility: iv });
+
+  return { bid, ask, iv, ...contractGreeks, ...activity };
+};
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Years from `now` to the 16:00 New York close on `expiry`, taken as 20:00
+ * UTC; the daylight-saving hour is noise at these horizons.
+ */
+export const yearsToExpiry = (expiry: string, now: Date): number =>
+  Math.max(Date.parse(`${expiry}T20:00:00Z`) - now.getTime(), 0) / MS_PER_DAY / 365.25;
+
+/** OCC contract symbol, e.g. SPY261120C00450000. */
+export const occSymbol = (underlying: string, expiry: string, optionType: OptionType, strike: number): string => {
+  const date = expiry.slice(2).replace(/-/g, '');
+  const strikeCode = String(Math.round(strike * 1000)).padStart(8, '0');
+  return `${underlying}${date}${optionType === 'call' ? 'C' : 'P'}${strikeCode}`;
+};
+
+/** The contract behind one side of a chain row. */
+export const contractSpec = (chain: OptionsChainData, row: OptionData, optionType: OptionType): ContractSpec => ({
+  contract: (optionType === 'call' ? row.calls : row.puts).contract ?? occSymbol(chain.symbol, chain.expiry, optionType, row.strike),
+  underlying: chain.symbol,
+  optionType,
+  strike: row.strike,
+  expiry: chain.expiry,
+});
+
+/**
+ * Chains from the backend, one per expiry, nearest first. Implied vol and
+ * Greeks are re-solved from each quote rather than taken from the server.
+ */
+export const fromChainResponse = (response: OptionsChainResponse, now = new Date()): OptionsChainData[] =>
+  response.expirations
+    .map(expiration => {
+      const timeToExpiry = yearsToExpiry(expiration.expiry, now);
+      const contract = (quote: ChainContract, strike: number, optionType: OptionType) =>
+        quoteContract(
+          quote.bid,
+          quote.ask,
+          {
+            volume: quote.volume,
+            openInterest: quote.openInterest,
+            bidSize: quote.bidSize,
+            askSize: quote.askSize,
+            contract: quote.symbol,
+          },
+          response.underlyingPrice,
+          strike,
+          timeToExpiry,
+          optionType,
+        );
+
+      return {
+        symbol: response.symbol,
+        timestamp: response.timestamp,
+        expiry: expiration.expiry,
+        daysToExpiry: expiration.daysToExpiry,
+        cycle: expiration.cycle === 'monthly' ? 'monthly' : 'weekly',
+        underlyingPrice: response.underlyingPrice,
+        strikes: expiration.strikes
+          .map(row => ({
+            strike: row.strike,
+            calls: contract(row.calls, row.strike, 'call'),
+            puts: contract(row.puts, row.strike, 'put'),
+          }))
+          .sort((a, b) => a.strike - b.strike),
+      } satisfies OptionsChainData;
+    })
+    .sort((a, b) => a.expiry.localeCompare(b.expiry));
+
+/** Days out of the chains generated in offline mode; no listing calendar is modelled. */
+export const MOCK_EXPIRY_DAYS = [1, 7, 14, 30, 60, 90];
+
+/** Offline mode only: a synthetic chain of 21 strikes at $5 spacing around `basePrice`. */
+export const generateMockChain = (
+  symbol: string,
+  basePrice: number,
+  daysToExpiry: number,
+  now = new Date(),
+): OptionsChainData => {
+  const expiry = new Date(now.getTime() + daysToExpiry * MS_PER_DAY).toISOString().slice(0, 10);
+  const timeToExpiry = yearsToExpiry(expiry, now);
+  const timeDecayFactor = Math.max(0.1, daysToExpiry / 30);
+  const strikes: OptionData[] = [];
+
+  // Generate strikes around current price
+  for (let i = -10; i <= 10; i++) {
+    const strike = Math.round((basePrice + i * 5) * 100) / 100;
+    if (strike <= 0) continue;
+
+    // Adjust pricing based on time to expiry
+    const callIntrinsic = Math.max(0, basePrice - strike);
+    const putIntrinsic = Math.max(0, strike - basePrice);
+    const timeValue = timeDecayFactor * (1.5 + Math.random() * 2);
+
+    // Add base premium for all options to ensure visibility
+    const basePremium = 0.15 + (timeDecayFactor * 0.3);
+
+    strikes.push({
+      strike,
+      calls: quoteContract(
+        Math.max(0.05, callIntrinsic + timeValue + basePremium - 0.15),
+        Math.max(0.10, callIntrinsic + timeValue + basePremium + 0.15),
+        {
+          volume: Math.floor(Math.random() * 1000 * (timeDecayFactor + 0.2)),
+          openInterest: Math.floor(Math.random() * 5000 * (timeDecayFactor + 0.2)),
+          contract: occSymbol(symbol, expiry, 'call', strike),
+        },
+        basePrice,
+        strike,
+        timeToExpiry,
+        'call',
+      ),
+      puts: quoteContract(
+        Math.max(0.05, putIntrinsic + timeValue + basePremium - 0.15),
+        Math.max(0.10, putIntrinsic + timeValue + basePremium + 0.15),
+        {
+          volume: Math.floor(Math.random() * 800 * (timeDecayFactor + 0.2)),
+          openInterest: Math.floor(Math.random() * 4000 * (timeDecayFactor + 0.2)),
+          contract: occSymbol(symbol, expiry, 'put', strike),
+        },
+        basePrice,
+        strike,
+        timeToExpiry,
+        'put',
+      ),
+    });
+  }
+
+  return {
+    symbol,
+    timestamp: now.toISOString(),
+    expiry,
+    daysToExpiry,
+    underlyingPrice: basePrice,
+    strikes,
+  };
+};
+
+/** Offline mode only: one synthetic chain per MOCK_EXPIRY_DAYS entry, nearest first. */
+export const generateMockChains = (symbol: string, basePrice: number, now = new Date()): OptionsChainData[] =>
+  MOCK_EXPIRY_DAYS.map(days => generateMockChain(symbol, basePrice, days, now));
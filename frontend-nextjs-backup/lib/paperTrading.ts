@@ -0,0 +1,129 @@
+import type { OptionType } from './pricing';
+
+/**
+ * Order model for paper trading. Names follow the NewOrder / OrderAck / Fill
+ * messages in optx.proto, with the enums as lower-case string unions.
+ */
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit';
+/** Good till cancel, immediate or cancel, fill or kill. */
+export type TimeInForce = 'gtc' | 'ioc' | 'fok';
+export type OrderStatus = 'pending' | 'accepted' | 'rejected' | 'filled' | 'partially_filled' | 'canceled';
+
+/** Shares per equity option contract. */
+export const CONTRACT_MULTIPLIER = 100;
+
+/** Per contract, as MatchingEngine.CalculateCommission charges. */
+export const DEFAULT_COMMISSION_PER_CONTRACT = 0.65;
+
+export interface ContractSpec {
+  /** OCC symbol, e.g. SPY261120C00450000; streamed quotes are keyed by it. */
+  contract: string;
+  underlying: string;
+  optionType: OptionType;
+  strike: number;
+  /** YYYY-MM-DD */
+  expiry: string;
+}
+
+export interface BookQuote {
+  bid: number;
+  ask: number;
+  bidSize?: number;
+  askSize?: number;
+  /** `Date.now()` when the quote was seen. */
+  receivedAt: number;
+}
+
+export interface OrderRequest {
+  spec: ContractSpec;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  /** Required for limit orders. */
+  limitPrice?: number;
+  tif: TimeInForce;
+}
+
+export interface PaperOrder extends OrderRequest {
+  orderId: string;
+  status: OrderStatus;
+  filledQuantity: number;
+  /** Volume-weighted over fills; null until the first. */
+  averagePrice: number | null;
+  commission: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Why the order was rejected or canceled by the engine. */
+  reason?: string;
+}
+
+export interface PaperFill {
+  orderId: string;
+  fillId: string;
+  spec: ContractSpec;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  leavesQuantity: number;
+  commission: number;
+  timestamp: number;
+}
+
+export const isWorking = (order: PaperOrder) => order.status === 'accepted' || order.status === 'partially_filled';
+
+export const remainingQuantity = (order: PaperOrder) => order.quantity - order.filledQuantity;
+
+/** Reason the request cannot be accepted, or null. */
+export function validateOrder(request: OrderRequest): string | null {
+  if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+    return 'Quantity must be a whole number of contracts';
+  }
+  if (request.type === 'limit' && !(request.limitPrice !== undefined && request.limitPrice > 0)) {
+    return 'Limit orders need a positive limit price';
+  }
+  return null;
+}
+
+/**
+ * What the order can take from `quote` right now, following MatchingEngine:
+ * market orders fill in full at the touch (or 1% through the other side when
+ * the touch is empty); limit orders fill at the touch when marketable, up to
+ * the displayed size when the quote has one.
+ */
+export function executableFill(order: PaperOrder, quote: BookQuote): { quantity: number; price: number } | null {
+  const remaining = remainingQuantity(order);
+  const buying = order.side === 'buy';
+  if (remaining <= 0) return null;
+
+  if (order.type === 'market') {
+    const price = buying
+      ? (quote.ask > 0 ? quote.ask : quote.bid * 1.01)
+      : (quote.bid > 0 ? quote.bid : quote.ask * 0.99);
+    return price > 0 ? { quantity: remaining, price: Math.round(price * 100) / 100 } : null;
+  }
+
+  const touch = buying ? quote.ask : quote.bid;
+  const limit = order.limitPrice ?? NaN;
+  if (!(touch > 0) || (buying ? limit < touch : limit > touch)) {
+    return null;
+  }
+  const quantity = Math.min(remaining, (buying ? quote.askSize : quote.bidSize) ?? remaining);
+  // A displayed size of zero leaves nothing to trade against
+  return quantity > 0 ? { quantity, price: touch } : null;
+}
+
+export const commissionFor = (quantity: number, perContract: number) => Math.round(quantity * perContract * 100) / 100;
+
+/** Premium paid (positive) or received (negative), before commission. */
+export const orderNotional = (side: OrderSide, quantity: number, price: number) =>
+  (side === 'buy' ? 1 : -1) * quantity * price * CONTRACT_MULTIPLIER;
+
+/** e.g. "SPY Nov 20 '26 450 C" */
+export function describeContract(spec: ContractSpec): string {
+  const date = new Date(`${spec.expiry}T00:00:00Z`);
+  const month = date.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
+  const year = String(date.getUTCFullYear()).slice(2);
+  return `${spec.underlying} ${month} ${date.getUTCDate()} '${year} ${spec.strike} ${spec.optionType === 'call' ? 'C' : 'P'}`;
+}
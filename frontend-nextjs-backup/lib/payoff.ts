@@ -0,0 +1,143 @@
+import { DEFAULT_DIVIDEND_YIELD, DEFAULT_RISK_FREE_RATE, price } from './pricing';
+import type { OptionType } from './pricing';
+
+export const CONTRACT_MULTIPLIER = 100;
+
+export interface StockLeg {
+  kind: 'stock';
+  /** Shares; negative for short. */
+  quantity: number;
+  entryPrice: number;
+}
+
+export interface OptionLeg {
+  kind: 'option';
+  optionType: OptionType;
+  strike: number;
+  daysToExpiry: number;
+  /** Contracts; negative for short. */
+  quantity: number;
+  /** Premium per share. */
+  entryPrice: number;
+  volatility: number;
+}
+
+export type StrategyLeg = StockLeg | OptionLeg;
+
+export interface PayoffPoint {
+  price: number;
+  expiry: number;
+  current: number;
+}
+
+export interface PayoffSummary {
+  breakEvens: number[];
+  maxProfit: number;
+  maxLoss: number;
+  unlimitedProfit: boolean;
+  unlimitedLoss: boolean;
+}
+
+const intrinsic = (optionType: OptionType, strike: number, underlying: number) =>
+  optionType === 'call' ? Math.max(0, underlying - strike) : Math.max(0, strike - underlying);
+
+/** Days until the first option leg expires; 0 for stock-only positions. */
+export function horizonDays(legs: StrategyLeg[]): number {
+  const days = legs.flatMap(leg => (leg.kind === 'option' ? [leg.daysToExpiry] : []));
+  return days.length > 0 ? Math.min(...days) : 0;
+}
+
+/**
+ * Mark-to-model value of one leg `daysForward` days from now. Options past
+ * their expiry are worth intrinsic; the rest are repriced with Black-Scholes
+ * at the leg's volatility plus `volShift`.
+ */
+export function legValue(leg: StrategyLeg, underlying: number, daysForward: number, volShift = 0): number {
+  if (leg.kind === 'stock') {
+    return leg.quantity * underlying;
+  }
+
+  const remainingDays = leg.daysToExpiry - daysForward;
+  const perShare = remainingDays <= 0
+    ? intrinsic(leg.optionType, leg.strike, underlying)
+    : price({
+      spot: underlying,
+      strike: leg.strike,
+      timeToExpiry: remainingDays / 365.25,
+      volatility: Math.max(0.001, leg.volatility + volShift),
+      riskFreeRate: DEFAULT_RISK_FREE_RATE,
+      dividendYield: DEFAULT_DIVIDEND_YIELD,
+      optionType: leg.optionType,
+    });
+
+  return leg.quantity * CONTRACT_MULTIPLIER * perShare;
+}
+
+/** Cash paid to open the position (negative when it takes in a credit). */
+export function entryCost(legs: StrategyLeg[]): number {
+  return legs.reduce((total, leg) =>
+    total + leg.quantity * leg.entryPrice * (leg.kind === 'option' ? CONTRACT_MULTIPLIER : 1), 0);
+}
+
+export function strategyPnl(legs: StrategyLeg[], underlying: number, daysForward: number, volShift = 0): number {
+  const value = legs.reduce((total, leg) => total + legValue(leg, underlying, daysForward, volShift), 0);
+  return value - entryCost(legs);
+}
+
+/** P&L at the first expiry and at `daysForward`, across an underlying price range. */
+export function payoffCurve(
+  legs: StrategyLeg[],
+  low: number,
+  high: number,
+  daysForward: number,
+  steps = 120,
+): PayoffPoint[] {
+  const horizon = horizonDays(legs);
+  const points: PayoffPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const underlying = low + (high - low) * (i / steps);
+    points.push({
+      price: Math.round(underlying * 100) / 100,
+      expiry: strategyPnl(legs, underlying, horizon),
+      current: strategyPnl(legs, underlying, daysForward),
+    });
+  }
+  return points;
+}
+
+/**
+ * Break-evens and extremes of the at-expiry payoff. Sampled from zero to
+ * three times the highest strike or price; a payoff still sloping at the top
+ * of that range is reported as unlimited.
+ */
+export function summarizeAtExpiry(legs: StrategyLeg[], spot: number): PayoffSummary {
+  const horizon = horizonDays(legs);
+  const strikes = legs.flatMap(leg => (leg.kind === 'option' ? [leg.strike] : []));
+  const upper = 3 * Math.max(spot, ...strikes);
+  const steps = 3000;
+
+  const prices = [...new Set([
+    ...Array.from({ length: steps + 1 }, (_, i) => (upper * i) / steps),
+    ...strikes,
+  ])].sort((a, b) => a - b);
+  const pnl = prices.map(underlying => strategyPnl(legs, underlying, horizon));
+
+  const breakEvens: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    const [a, b] = [pnl[i - 1], pnl[i]];
+    if (a === 0 && (breakEvens.length === 0 || breakEvens[breakEvens.length - 1] !== prices[i - 1])) {
+      breakEvens.push(prices[i - 1]);
+    } else if ((a < 0 && b > 0) || (a > 0 && b < 0)) {
+      breakEvens.push(prices[i - 1] + (prices[i] - prices[i - 1]) * (-a / (b - a)));
+    }
+  }
+
+  const tailSlope = pnl[pnl.length - 1] - pnl[pnl.length - 2];
+  return {
+    breakEvens: breakEvens.map(value => Math.round(value * 100) / 100),
+    maxProfit: Math.max(...pnl),
+    maxLoss: Math.min(...pnl),
+    unlimitedProfit: tailSlope > 1e-9,
+    unlimitedLoss: tailSlope < -1e-9,
+  };
+}
@@ -0,0 +1,211 @@
+import {
+  DEFAULT_DIVIDEND_YIELD,
+  DEFAULT_RISK_FREE_RATE,
+  greeks,
+  impliedVolatilityFromQuote,
+} from './pricing';
+import { yearsToExpiry } from './optionsChain';
+import { CONTRACT_MULTIPLIER } from './paperTrading';
+import type { BookQuote, ContractSpec, PaperFill } from './paperTrading';
+import { ValidationError, array, number, object, optional, string } from './validate';
+import type { Validator } from './validate';
+
+/**
+ * Portfolio state shaped like the PortfolioSnapshot / Position messages in
+ * optx.proto. Position Greeks are totals for the whole position: delta and
+ * gamma in shares of the underlying, theta in dollars per day, vega in
+ * dollars per vol point.
+ */
+
+export interface Position {
+  /** OCC contract symbol. */
+  symbol: string;
+  /** Contracts; negative for short. */
+  quantity: number;
+  avgPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  /** Known for paper positions; a backtest snapshot only carries the symbol. */
+  spec?: ContractSpec;
+}
+
+export interface PortfolioSnapshot {
+  timestampNs: number;
+  positions: Position[];
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+  netDelta: number;
+  netGamma: number;
+  netTheta: number;
+  netVega: number;
+}
+
+/** An open position before it is marked. */
+export interface OpenLot {
+  spec: ContractSpec;
+  quantity: number;
+  avgPrice: number;
+}
+
+/**
+ * Replays fills oldest first with average-cost accounting: adding to a
+ * position moves its average price, reducing it realizes P&L against that
+ * average, and a fill through zero opens the remainder at the fill price.
+ * Realized P&L is net of all commission paid.
+ */
+export function lotsFromFills(fills: PaperFill[]): { lots: OpenLot[]; realizedPnl: number } {
+  const lots = new Map<string, OpenLot>();
+  let realizedPnl = 0;
+
+  [...fills].sort((a, b) => a.timestamp - b.timestamp).forEach(fill => {
+    const signed = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+    const lot = lots.get(fill.spec.contract) ?? { spec: fill.spec, quantity: 0, avgPrice: 0 };
+    realizedPnl -= fill.commission;
+
+    if (lot.quantity === 0 || Math.sign(lot.quantity) === Math.sign(signed)) {
+      const quantity = lot.quantity + signed;
+      lot.avgPrice = (lot.avgPrice * Math.abs(lot.quantity) + fill.price * fill.quantity) / Math.abs(quantity);
+      lot.quantity = quantity;
+    } else {
+      const closed = Math.min(Math.abs(lot.quantity), fill.quantity);
+      realizedPnl += (fill.price - lot.avgPrice) * closed * Math.sign(lot.quantity) * CONTRACT_MULTIPLIER;
+      lot.quantity += signed;
+      if (Math.sign(lot.quantity) === Math.sign(signed)) {
+        lot.avgPrice = fill.price;
+      }
+    }
+    lots.set(fill.spec.contract, lot);
+  });
+
+  return { lots: [...lots.values()].filter(lot => lot.quantity !== 0), realizedPnl };
+}
+
+const quoteMid = (quote: BookQuote) =>
+  quote.bid > 0 && quote.ask > 0 ? (quote.bid + quote.ask) / 2 : Math.max(quote.bid, quote.ask);
+
+/**
+ * Marks a lot at the quote mid, falling back to its average price when the
+ * contract has no quote. Greeks come from the implied vol of that quote, so
+ * they are NaN without both a quote and an underlying price.
+ */
+export function markLot(lot: OpenLot, quote: BookQuote | undefined, spot: number | undefined, now: Date): Position {
+  const mark = quote ? quoteMid(quote) : lot.avgPrice;
+  const scale = lot.quantity * CONTRACT_MULTIPLIER;
+
+  let contractGreeks = { delta: NaN, gamma: NaN, theta: NaN, vega: NaN };
+  if (quote && spot !== undefined && spot > 0) {
+    const inputs = {
+      spot,
+      strike: lot.spec.strike,
+      timeToExpiry: yearsToExpiry(lot.spec.expiry, now),
+      riskFreeRate: DEFAULT_RISK_FREE_RATE,
+      dividendYield: DEFAULT_DIVIDEND_YIELD,
+      optionType: lot.spec.optionType,
+    };
+    const iv = impliedVolatilityFromQuote(quote.bid, quote.ask, inputs);
+    if (!Number.isNaN(iv)) {
+      contractGreeks = greeks({ ...inputs, volatility: iv });
+    }
+  }
+
+  return {
+    symbol: lot.spec.contract,
+    quantity: lot.quantity,
+    avgPrice: lot.avgPrice,
+    marketValue: mark * scale,
+    unrealizedPnl: (mark - lot.avgPrice) * scale,
+    delta: contractGreeks.delta * scale,
+    gamma: contractGreeks.gamma * scale,
+    theta: contractGreeks.theta * scale,
+    vega: contractGreeks.vega * scale,
+    spec: lot.spec,
+  };
+}
+
+// Positions that could not be priced add nothing to the net Greeks
+const sumOf = (positions: Position[], field: 'unrealizedPnl' | 'delta' | 'gamma' | 'theta' | 'vega') =>
+  positions.reduce((total, position) => total + (Number.isNaN(position[field]) ? 0 : position[field]), 0);
+
+export function summarize(positions: Position[], realizedPnl: number, timestampNs: number): PortfolioSnapshot {
+  const unrealizedPnl = sumOf(positions, 'unrealizedPnl');
+  return {
+    timestampNs,
+    positions,
+    unrealizedPnl,
+    realizedPnl,
+    totalPnl: unrealizedPnl + realizedPnl,
+    netDelta: sumOf(positions, 'delta'),
+    netGamma: sumOf(positions, 'gamma'),
+    netTheta: sumOf(positions, 'theta'),
+    netVega: sumOf(positions, 'vega'),
+  };
+}
+
+/** Snapshot of the paper account, marked to the latest quotes. */
+export function paperSnapshot(
+  fills: PaperFill[],
+  quoteFor: (contract: string) => BookQuote | undefined,
+  spotFor: (underlying: string) => number | undefined,
+  now = new Date(),
+): PortfolioSnapshot {
+  const { lots, realizedPnl } = lotsFromFills(fills);
+  const positions = lots.map(lot => markLot(lot, quoteFor(lot.spec.contract), spotFor(lot.spec.underlying), now));
+  return summarize(positions, realizedPnl, now.getTime() * 1_000_000);
+}
+
+export const marketValue = (snapshot: PortfolioSnapshot) =>
+  snapshot.positions.reduce((total, position) => total + position.marketValue, 0);
+
+// The proto JSON mapping writes uint64 fields as strings
+const uint64: Validator<number> = (value, path) => {
+  const parsed = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+  return number(parsed, path);
+};
+
+// Proto3 JSON omits fields at their default value
+const numberOrZero: Validator<number> = (value, path) => optional(number)(value, path) ?? 0;
+
+const positionMessage = object({
+  symbol: string,
+  quantity: numberOrZero,
+  avgPrice: numberOrZero,
+  marketValue: numberOrZero,
+  unrealizedPnl: numberOrZero,
+  delta: numberOrZero,
+  gamma: numberOrZero,
+  theta: numberOrZero,
+  vega: numberOrZero,
+});
+
+const snapshotMessage = object({
+  timestampNs: optional(uint64),
+  positions: optional(array(positionMessage)),
+  unrealizedPnl: numberOrZero,
+  realizedPnl: numberOrZero,
+  totalPnl: numberOrZero,
+  netDelta: numberOrZero,
+  netGamma: numberOrZero,
+  netTheta: numberOrZero,
+  netVega: numberOrZero,
+});
+
+/**
+ * Reads a PortfolioSnapshot in the proto JSON mapping (lowerCamelCase
+ * fields), e.g. one exported from a backtest. Throws a ValidationError
+ * naming the first bad field.
+ */
+export function parsePortfolioSnapshot(json: string): PortfolioSnapshot {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new ValidationError('snapshot', 'JSON', json);
+  }
+  const message = snapshotMessage(value, 'snapshot');
+  return { ...message, timestampNs: message.timestampNs ?? 0, positions: message.positions ?? [] };
+}
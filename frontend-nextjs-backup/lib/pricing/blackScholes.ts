@@ -0,0 +1,211 @@
+/**
+ * Black-Scholes-Merton pricing with continuous dividend yield.
+ *
+ * Mirrors Optx.Pricing.BlackScholes so numbers computed in the browser line up
+ * with the engine: theta is per calendar day (365.25), vega and rho are per
+ * 1% move in volatility and rates. Put delta is e^(-qT) * (N(d1) - 1); the
+ * C# version currently subtracts 1 from N(-d1) instead.
+ */
+
+export type OptionType = 'call' | 'put';
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+export interface OptionInputs {
+  spot: number;
+  strike: number;
+  /** Time to expiry in years. */
+  timeToExpiry: number;
+  volatility: number;
+  riskFreeRate: number;
+  /** Continuous dividend yield. */
+  dividendYield: number;
+  optionType: OptionType;
+}
+
+export const DEFAULT_RISK_FREE_RATE = 0.05;
+export const DEFAULT_DIVIDEND_YIELD = 0.01;
+
+export const MIN_VOLATILITY = 0.001;
+export const MAX_VOLATILITY = 5.0;
+const MIN_TIME_TO_EXPIRY = 1e-6;
+const DAYS_PER_YEAR = 365.25;
+const INV_SQRT_TWO_PI = 0.3989422804014326779;
+
+export const ZERO_GREEKS: Greeks = { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+
+/** Cumulative normal distribution (Abramowitz and Stegun, as in MathUtils.NormalCdf). */
+export function normalCdf(x: number): number {
+  if (x > 6.0) return 1.0;
+  if (x < -6.0) return 0.0;
+
+  const a1 = 0.254829592;
+  const a2 = -0.284496736;
+  const a3 = 1.421413741;
+  const a4 = -1.453152027;
+  const a5 = 1.061405429;
+  const p = 0.3275911;
+
+  const sign = x < 0 ? -1 : 1;
+  const z = Math.abs(x) / Math.SQRT2;
+
+  const t = 1.0 / (1.0 + p * z);
+  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-z * z);
+
+  return 0.5 * (1.0 + sign * y);
+}
+
+export function normalPdf(x: number): number {
+  return INV_SQRT_TWO_PI * Math.exp(-0.5 * x * x);
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/** Year fraction between now and expiry, matching OptionContract.GetTimeToExpiry. */
+export function yearsToExpiry(expiry: Date | string, now: Date = new Date()): number {
+  const expiryTime = typeof expiry === 'string' ? new Date(expiry).getTime() : expiry.getTime();
+  const days = (expiryTime - now.getTime()) / 86_400_000;
+  return Math.max(0, days / DAYS_PER_YEAR);
+}
+
+function isPriceable({ spot, strike, volatility }: OptionInputs): boolean {
+  return spot > 0 && strike > 0 && volatility > 0;
+}
+
+interface Terms {
+  sqrtT: number;
+  t: number;
+  vol: number;
+  d1: number;
+  d2: number;
+  discountedSpot: number;
+  discountedStrike: number;
+  dividendDiscount: number;
+}
+
+function terms(inputs: OptionInputs): Terms {
+  const t = Math.max(inputs.timeToExpiry, MIN_TIME_TO_EXPIRY);
+  const vol = clamp(inputs.volatility, MIN_VOLATILITY, MAX_VOLATILITY);
+  const sqrtT = Math.sqrt(t);
+  const d1 = (Math.log(inputs.spot / inputs.strike)
+    + (inputs.riskFreeRate - inputs.dividendYield + 0.5 * vol * vol) * t) / (vol * sqrtT);
+  const dividendDiscount = Math.exp(-inputs.dividendYield * t);
+
+  return {
+    sqrtT,
+    t,
+    vol,
+    d1,
+    d2: d1 - vol * sqrtT,
+    discountedSpot: inputs.spot * dividendDiscount,
+    discountedStrike: inputs.strike * Math.exp(-inputs.riskFreeRate * t),
+    dividendDiscount,
+  };
+}
+
+/** Theoretical option price. */
+export function price(inputs: OptionInputs): number {
+  if (!isPriceable(inputs)) return 0;
+
+  const { d1, d2, discountedSpot, discountedStrike } = terms(inputs);
+  if (inputs.optionType === 'call') {
+    return discountedSpot * normalCdf(d1) - discountedStrike * normalCdf(d2);
+  }
+  return discountedStrike * normalCdf(-d2) - discountedSpot * normalCdf(-d1);
+}
+
+export function delta(inputs: OptionInputs): number {
+  if (!isPriceable(inputs)) return 0;
+
+  const { d1, dividendDiscount } = terms(inputs);
+  return inputs.optionType === 'call'
+    ? dividendDiscount * normalCdf(d1)
+    : dividendDiscount * (normalCdf(d1) - 1.0);
+}
+
+export function gamma(inputs: Omit<OptionInputs, 'optionType'>): number {
+  const full: OptionInputs = { ...inputs, optionType: 'call' };
+  if (!isPriceable(full)) return 0;
+
+  const { d1, dividendDiscount, vol, sqrtT } = terms(full);
+  return dividendDiscount * normalPdf(d1) / (inputs.spot * vol * sqrtT);
+}
+
+/** Time decay per calendar day. */
+export function theta(inputs: OptionInputs): number {
+  if (!isPriceable(inputs)) return 0;
+
+  const { d1, d2, vol, sqrtT, discountedSpot, discountedStrike } = terms(inputs);
+  const decay = -discountedSpot * normalPdf(d1) * vol / (2.0 * sqrtT);
+  const q = inputs.dividendYield;
+  const r = inputs.riskFreeRate;
+
+  const annual = inputs.optionType === 'call'
+    ? decay + q * discountedSpot * normalCdf(d1) - r * discountedStrike * normalCdf(d2)
+    : decay - q * discountedSpot * normalCdf(-d1) + r * discountedStrike * normalCdf(-d2);
+
+  return annual / DAYS_PER_YEAR;
+}
+
+/** Price change per 1 vol point (0.01). */
+export function vega(inputs: Omit<OptionInputs, 'optionType'>): number {
+  const full: OptionInputs = { ...inputs, optionType: 'call' };
+  if (!isPriceable(full)) return 0;
+
+  const { d1, sqrtT, discountedSpot } = terms(full);
+  return discountedSpot * normalPdf(d1) * sqrtT / 100.0;
+}
+
+/** Price change per 1% move in the risk-free rate. */
+export function rho(inputs: OptionInputs): number {
+  if (!isPriceable(inputs)) return 0;
+
+  const { d2, t, discountedStrike } = terms(inputs);
+  return inputs.optionType === 'call'
+    ? t * discountedStrike * normalCdf(d2) / 100.0
+    : -t * discountedStrike * normalCdf(-d2) / 100.0;
+}
+
+/** All Greeks from a single set of d1/d2 terms. */
+export function greeks(inputs: OptionInputs): Greeks {
+  if (!isPriceable(inputs)) return { ...ZERO_GREEKS };
+
+  const { d1, d2, t, vol, sqrtT, discountedSpot, discountedStrike, dividendDiscount } = terms(inputs);
+  const isCall = inputs.optionType === 'call';
+  const pdf = normalPdf(d1);
+  const nd1 = normalCdf(isCall ? d1 : -d1);
+  const nd2 = normalCdf(isCall ? d2 : -d2);
+  const decay = -discountedSpot * pdf * vol / (2.0 * sqrtT);
+  const q = inputs.dividendYield;
+  const r = inputs.riskFreeRate;
+
+  return {
+    delta: isCall ? dividendDiscount * nd1 : -dividendDiscount * nd1,
+    gamma: dividendDiscount * pdf / (inputs.spot * vol * sqrtT),
+    theta: (isCall
+      ? decay + q * discountedSpot * nd1 - r * discountedStrike * nd2
+      : decay - q * discountedSpot * nd1 + r * discountedStrike * nd2) / DAYS_PER_YEAR,
+    vega: discountedSpot * pdf * sqrtT / 100.0,
+    rho: (isCall ? 1.0 : -1.0) * t * discountedStrike * nd2 / 100.0,
+  };
+}
+
+/** Deviation of observed call - put from the theoretical forward difference. */
+export function putCallParity(
+  callPrice: number,
+  putPrice: number,
+  inputs: Omit<OptionInputs, 'optionType' | 'volatility'>,
+): number {
+  const t = inputs.timeToExpiry;
+  const discountedSpot = inputs.spot * Math.exp(-inputs.dividendYield * t);
+  const discountedStrike = inputs.strike * Math.exp(-inputs.riskFreeRate * t);
+  return (callPrice - putPrice) - (discountedSpot - discountedStrike);
+}
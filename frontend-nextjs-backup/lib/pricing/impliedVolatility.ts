@@ -0,0 +1,100 @@
+/**
+ * Implied volatility solver: Newton-Raphson from a Brenner-Subrahmanyam seed,
+ * falling back to bisection when vega is too flat for Newton to be stable.
+ * Mirrors Optx.Pricing.ImpliedVolatility, returning NaN when no volatility
+ * reproduces the price.
+ */
+
+import { MAX_VOLATILITY, MIN_VOLATILITY, clamp, price, vega } from './blackScholes';
+import type { OptionInputs } from './blackScholes';
+
+const TOLERANCE = 1e-7;
+const MAX_ITERATIONS = 100;
+const MIN_VEGA = 1e-10;
+
+export type IvInputs = Omit<OptionInputs, 'volatility'>;
+
+function intrinsic(inputs: IvInputs): number {
+  const t = inputs.timeToExpiry;
+  const discountedSpot = inputs.spot * Math.exp(-inputs.dividendYield * t);
+  const discountedStrike = inputs.strike * Math.exp(-inputs.riskFreeRate * t);
+  return inputs.optionType === 'call'
+    ? Math.max(0, discountedSpot - discountedStrike)
+    : Math.max(0, discountedStrike - discountedSpot);
+}
+
+function estimateInitialVolatility(optionPrice: number, inputs: IvInputs): number {
+  const estimate = Math.sqrt(2.0 * Math.PI) * optionPrice / (inputs.spot * Math.sqrt(inputs.timeToExpiry));
+  return clamp(estimate, 0.1, 1.0);
+}
+
+function solveNewtonRaphson(targetPrice: number, inputs: IvInputs, initialVol: number): number {
+  let vol = initialVol;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const at = { ...inputs, volatility: vol };
+    const priceDiff = price(at) - targetPrice;
+    const volVega = vega(at) * 100.0; // Per unit of volatility
+
+    if (Math.abs(volVega) < MIN_VEGA) return NaN;
+    if (Math.abs(priceDiff) < TOLERANCE) return vol;
+
+    const adjustment = priceDiff / volVega;
+    vol = clamp(vol - adjustment, MIN_VOLATILITY, MAX_VOLATILITY);
+
+    if (i > 10 && Math.abs(adjustment) < 1e-8) return vol;
+  }
+
+  return NaN;
+}
+
+function solveBisection(targetPrice: number, inputs: IvInputs): number {
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+
+  if (targetPrice < price({ ...inputs, volatility: low }) || targetPrice > price({ ...inputs, volatility: high })) {
+    return NaN;
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (low + high) * 0.5;
+    const midPrice = price({ ...inputs, volatility: mid });
+
+    if (Math.abs(midPrice - targetPrice) < TOLERANCE || Math.abs(high - low) < 1e-10) return mid;
+
+    if (midPrice < targetPrice) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) * 0.5;
+}
+
+/** Volatility that reprices `optionPrice`, or NaN if it is outside arbitrage bounds. */
+export function impliedVolatility(optionPrice: number, inputs: IvInputs, initialGuess = NaN): number {
+  if (optionPrice <= 0 || inputs.spot <= 0 || inputs.strike <= 0 || inputs.timeToExpiry <= 0) {
+    return NaN;
+  }
+  if (optionPrice < intrinsic(inputs)) return NaN;
+
+  const seed = Number.isNaN(initialGuess) ? estimateInitialVolatility(optionPrice, inputs) : initialGuess;
+  const result = solveNewtonRaphson(optionPrice, inputs, clamp(seed, MIN_VOLATILITY, MAX_VOLATILITY));
+
+  return Number.isNaN(result) ? solveBisection(optionPrice, inputs) : result;
+}
+
+/**
+ * Implied volatility of the bid/ask midpoint. One-sided markets fall back to
+ * whichever side is quoted.
+ */
+export function impliedVolatilityFromQuote(bid: number, ask: number, inputs: IvInputs): number {
+  const mid = bid > 0 && ask > 0 ? (bid + ask) / 2 : Math.max(bid, ask);
+  return impliedVolatility(mid, inputs);
+}
+
+export function isValidImpliedVol(impliedVol: number, optionPrice: number, inputs: IvInputs): boolean {
+  if (Number.isNaN(impliedVol) || impliedVol <= 0) return false;
+  return Math.abs(price({ ...inputs, volatility: impliedVol }) - optionPrice) < TOLERANCE * 10;
+}
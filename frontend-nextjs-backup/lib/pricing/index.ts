@@ -0,0 +1,2 @@
+export * from './blackScholes';
+export * from './impliedVolatility';
@@ -0,0 +1,170 @@
+import { orderNotional } from './paperTrading';
+import type { OrderRequest, PaperFill } from './paperTrading';
+import type { PortfolioSnapshot } from './portfolio';
+
+/**
+ * Pre-trade risk checks shaped like the RiskCheck message in optx.proto.
+ * Exposure limits are measured on the portfolio as it would stand after the
+ * order fills, in the units of PortfolioSnapshot: delta and gamma in shares,
+ * vega in dollars per vol point.
+ */
+
+export type RiskStatus = 'approved' | 'rejected' | 'warning';
+
+export interface RiskCheck {
+  /** Which limit this check measured. */
+  limit: RiskLimitId;
+  status: RiskStatus;
+  reason: string;
+  riskMetric: number;
+  riskLimit: number;
+}
+
+export type RiskLimitId = 'maxPositions' | 'maxPortfolioDelta' | 'maxPortfolioGamma' | 'maxPortfolioVega' | 'maxNotionalPerTrade';
+
+/** Limits left undefined are not enforced. */
+export type RiskLimits = Partial<Record<RiskLimitId, number>>;
+
+/** The `risk` section of configs/straddle_ivrv.yaml. */
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxPositions: 5,
+  maxPortfolioVega: 500,
+  maxPortfolioGamma: 100,
+  maxNotionalPerTrade: 5000,
+};
+
+/** Share of a limit past which an order draws a warning. */
+export const WARNING_UTILIZATION = 0.8;
+
+export const RISK_LIMIT_LABELS: Record<RiskLimitId, string> = {
+  maxPositions: 'Open positions',
+  maxPortfolioDelta: 'Portfolio delta',
+  maxPortfolioGamma: 'Portfolio gamma',
+  maxPortfolioVega: 'Portfolio vega',
+  maxNotionalPerTrade: 'Notional per trade',
+};
+
+const CONFIG_KEYS: Record<RiskLimitId, string> = {
+  maxPositions: 'max_positions',
+  maxPortfolioDelta: 'max_portfolio_delta',
+  maxPortfolioGamma: 'max_portfolio_gamma',
+  maxPortfolioVega: 'max_portfolio_vega',
+  maxNotionalPerTrade: 'max_notional_per_trade',
+};
+
+const section = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+/**
+ * Limits declared by a strategy config: its `risk` section, plus
+ * `strategy.parameters.max_positions` where the family keeps it there.
+ * Null when the config declares none.
+ */
+export function limitsFromConfig(config: Record<string, unknown> | null): RiskLimits | null {
+  const risk = section(config?.risk);
+  const parameters = section(section(config?.strategy).parameters);
+  const limits: RiskLimits = {};
+
+  (Object.keys(CONFIG_KEYS) as RiskLimitId[]).forEach(id => {
+    const value = risk[CONFIG_KEYS[id]] ?? (id === 'maxPositions' ? parameters.max_positions : undefined);
+    if (typeof value === 'number' && value >= 0) {
+      limits[id] = value;
+    }
+  });
+  return Object.keys(limits).length > 0 ? limits : null;
+}
+
+const exposure = (snapshot: PortfolioSnapshot, id: RiskLimitId): number => {
+  switch (id) {
+    case 'maxPositions':
+      return snapshot.positions.length;
+    case 'maxPortfolioDelta':
+      return Math.abs(snapshot.netDelta);
+    case 'maxPortfolioGamma':
+      return Math.abs(snapshot.netGamma);
+    case 'maxPortfolioVega':
+      return Math.abs(snapshot.netVega);
+    case 'maxNotionalPerTrade':
+      return 0;
+  }
+};
+
+export interface LimitUtilization {
+  limit: RiskLimitId;
+  metric: number;
+  riskLimit: number;
+  /** metric / riskLimit; Infinity for a zero limit with any exposure. */
+  utilization: number;
+}
+
+const utilizationOf = (metric: number, limit: number) => (limit > 0 ? metric / limit : metric > 0 ? Infinity : 0);
+
+/** How much of each portfolio-level limit the snapshot uses; per-trade limits are left out. */
+export function limitUtilization(snapshot: PortfolioSnapshot, limits: RiskLimits): LimitUtilization[] {
+  return (Object.keys(CONFIG_KEYS) as RiskLimitId[])
+    .filter(id => id !== 'maxNotionalPerTrade' && limits[id] !== undefined)
+    .map(id => {
+      const metric = exposure(snapshot, id);
+      const riskLimit = limits[id]!;
+      return { limit: id, metric, riskLimit, utilization: utilizationOf(metric, riskLimit) };
+    });
+}
+
+/** The order as a fill at `price`, for projecting the post-trade portfolio. */
+export const hypotheticalFill = (request: OrderRequest, price: number): PaperFill => ({
+  orderId: 'pre-trade',
+  fillId: 'pre-trade',
+  spec: request.spec,
+  side: request.side,
+  quantity: request.quantity,
+  price,
+  leavesQuantity: 0,
+  commission: 0,
+  timestamp: Date.now(),
+});
+
+const formatMetric = (id: RiskLimitId, value: number) =>
+  id === 'maxNotionalPerTrade' ? `$${value.toFixed(2)}` : id === 'maxPositions' ? String(value) : value.toFixed(1);
+
+/**
+ * Checks an order expected to fill at `price` against every configured
+ * limit. Breaching a limit rejects the order unless the order shrinks that
+ * exposure, which only warns: a book already over its limit can still be
+ * traded down. Passing WARNING_UTILIZATION of a limit also warns.
+ */
+export function checkOrder(
+  request: OrderRequest,
+  price: number,
+  current: PortfolioSnapshot,
+  projected: PortfolioSnapshot,
+  limits: RiskLimits,
+): RiskCheck[] {
+  return (Object.keys(CONFIG_KEYS) as RiskLimitId[])
+    .filter(id => limits[id] !== undefined)
+    .map(id => {
+      const riskLimit = limits[id]!;
+      const before = exposure(current, id);
+      const riskMetric = id === 'maxNotionalPerTrade'
+        ? Math.abs(orderNotional(request.side, request.quantity, price))
+        : exposure(projected, id);
+      const label = `${RISK_LIMIT_LABELS[id]} ${formatMetric(id, riskMetric)} of ${formatMetric(id, riskLimit)}`;
+      const reducing = id !== 'maxNotionalPerTrade' && riskMetric < before;
+
+      if (riskMetric > riskLimit) {
+        return reducing
+          ? { limit: id, status: 'warning', reason: `${label}: over the limit, but this order reduces it`, riskMetric, riskLimit }
+          : { limit: id, status: 'rejected', reason: `${label}: over the limit`, riskMetric, riskLimit };
+      }
+      if (utilizationOf(riskMetric, riskLimit) >= WARNING_UTILIZATION && !reducing) {
+        return { limit: id, status: 'warning', reason: `${label}: near the limit`, riskMetric, riskLimit };
+      }
+      return { limit: id, status: 'approved', reason: label, riskMetric, riskLimit };
+    });
+}
+
+/** Rejected if any check rejects, otherwise warning if any warns. */
+export function overallStatus(checks: RiskCheck[]): RiskStatus {
+  if (checks.some(check => check.status === 'rejected')) return 'rejected';
+  if (checks.some(check => check.status === 'warning')) return 'warning';
+  return 'approved';
+}
@@ -0,0 +1,126 @@
+import { DEFAULT_DIVIDEND_YIELD, DEFAULT_RISK_FREE_RATE, impliedVolatilityFromQuote } from './pricing';
+import { strategyPnl } from './payoff';
+import type { OptionLeg, StrategyLeg } from './payoff';
+import { lotsFromFills } from './portfolio';
+import type { BookQuote, PaperFill } from './paperTrading';
+import { yearsToExpiry } from './optionsChain';
+import { DEFAULT_ASSUMED_VOLATILITY } from './strategyLegs';
+
+/**
+ * What-if repricing. A scenario moves every underlying by the same
+ * percentage, every leg's volatility by the same number of vol points, and
+ * the clock forward; P&L is measured against the book's value today.
+ */
+
+export interface Scenario {
+  /** Fractional move in the underlying, e.g. -0.2 for -20%. */
+  spotShift: number;
+  /** Absolute change in volatility, e.g. 0.1 for +10 vol points. */
+  volShift: number;
+  daysForward: number;
+}
+
+export interface NamedScenario extends Scenario {
+  name: string;
+  description: string;
+}
+
+export const STRESS_SCENARIOS: NamedScenario[] = [
+  { name: 'Crash', description: 'Spot −20%, vol +25 pts overnight', spotShift: -0.2, volShift: 0.25, daysForward: 1 },
+  { name: 'Correction', description: 'Spot −10%, vol +10 pts over a week', spotShift: -0.1, volShift: 0.1, daysForward: 7 },
+  { name: 'Melt-up', description: 'Spot +10%, vol −3 pts over a week', spotShift: 0.1, volShift: -0.03, daysForward: 7 },
+  { name: 'Vol crush', description: 'Spot flat, vol −10 pts the day after earnings', spotShift: 0, volShift: -0.1, daysForward: 1 },
+  { name: 'Quiet week', description: 'Spot flat, vol flat, a week of decay', spotShift: 0, volShift: 0, daysForward: 7 },
+];
+
+/** Legs on one underlying, priced off its current spot. */
+export interface ScenarioBook {
+  underlying: string;
+  spot: number;
+  legs: StrategyLeg[];
+}
+
+export function scenarioPnl(books: ScenarioBook[], scenario: Scenario): number {
+  return books.reduce((total, book) => {
+    const shocked = strategyPnl(book.legs, book.spot * (1 + scenario.spotShift), scenario.daysForward, scenario.volShift);
+    // Relative to today's model value, so the grid shows the scenario's effect alone
+    return total + shocked - strategyPnl(book.legs, book.spot, 0);
+  }, 0);
+}
+
+export interface ScenarioGrid {
+  spotShifts: number[];
+  volShifts: number[];
+  /** pnl[volIndex][spotIndex] */
+  pnl: number[][];
+}
+
+// Keeps a fine step over a wide range from producing an unreadable grid
+const MAX_STEPS_PER_SIDE = 12;
+
+/** Symmetric steps from -range to +range, e.g. range 0.2 and step 0.05 gives nine. */
+export function shiftSteps(range: number, step: number): number[] {
+  if (!(range > 0) || !(step > 0)) return [0];
+  const count = Math.min(Math.floor(range / step + 1e-9), MAX_STEPS_PER_SIDE);
+  return Array.from({ length: 2 * count + 1 }, (_, i) => Math.round((i - count) * step * 1e6) / 1e6);
+}
+
+export function scenarioGrid(books: ScenarioBook[], spotShifts: number[], volShifts: number[], daysForward: number): ScenarioGrid {
+  return {
+    spotShifts,
+    volShifts,
+    pnl: volShifts.map(volShift =>
+      spotShifts.map(spotShift => scenarioPnl(books, { spotShift, volShift, daysForward }))),
+  };
+}
+
+/**
+ * The paper account's open positions as legs, entered at today's mark with
+ * the volatility implied by their quotes. Positions on an underlying with no
+ * known price cannot be repriced and are returned as `unpriced`.
+ */
+export function booksFromPaperAccount(
+  fills: PaperFill[],
+  quoteFor: (contract: string) => BookQuote | undefined,
+  spotFor: (underlying: string) => number | undefined,
+  now = new Date(),
+): { books: ScenarioBook[]; unpriced: string[] } {
+  const books = new Map<string, ScenarioBook>();
+  const unpriced: string[] = [];
+
+  lotsFromFills(fills).lots.forEach(lot => {
+    const spot = spotFor(lot.spec.underlying);
+    if (spot === undefined || !(spot > 0)) {
+      unpriced.push(lot.spec.contract);
+      return;
+    }
+    const quote = quoteFor(lot.spec.contract);
+    const timeToExpiry = yearsToExpiry(lot.spec.expiry, now);
+    const iv = quote
+      ? impliedVolatilityFromQuote(quote.bid, quote.ask, {
+        spot,
+        strike: lot.spec.strike,
+        timeToExpiry,
+        riskFreeRate: DEFAULT_RISK_FREE_RATE,
+        dividendYield: DEFAULT_DIVIDEND_YIELD,
+        optionType: lot.spec.optionType,
+      })
+      : NaN;
+    const mark = quote && quote.bid > 0 && quote.ask > 0 ? (quote.bid + quote.ask) / 2 : lot.avgPrice;
+
+    const leg: OptionLeg = {
+      kind: 'option',
+      optionType: lot.spec.optionType,
+      strike: lot.spec.strike,
+      daysToExpiry: timeToExpiry * 365.25,
+      quantity: lot.quantity,
+      entryPrice: mark,
+      volatility: Number.isNaN(iv) ? DEFAULT_ASSUMED_VOLATILITY : iv,
+    };
+    const book = books.get(lot.spec.underlying) ?? { underlying: lot.spec.underlying, spot, legs: [] };
+    book.legs.push(leg);
+    books.set(lot.spec.underlying, book);
+  });
+
+  return { books: [...books.values()], unpriced };
+}
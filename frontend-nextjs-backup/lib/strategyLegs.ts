@@ -0,0 +1,139 @@
+import { DEFAULT_DIVIDEND_YIELD, DEFAULT_RISK_FREE_RATE, delta, price } from './pricing';
+import type { OptionType } from './pricing';
+import type { OptionLeg, StrategyLeg } from './payoff';
+import type { OptionsChainData } from './optionsChain';
+
+/** Volatility assumed for what-if pricing when no chain IV is at hand. */
+export const DEFAULT_ASSUMED_VOLATILITY = 0.2;
+
+const numberParam = (parameters: Record<string, unknown>, key: string, fallback: number): number => {
+  const value = Number(parameters[key]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const optionLeg = (
+  optionType: OptionType,
+  strike: number,
+  daysToExpiry: number,
+  quantity: number,
+  spot: number,
+  volatility: number,
+): OptionLeg => ({
+  kind: 'option',
+  optionType,
+  strike,
+  daysToExpiry,
+  quantity,
+  volatility,
+  entryPrice: price({
+    spot,
+    strike,
+    timeToExpiry: daysToExpiry / 365.25,
+    volatility,
+    riskFreeRate: DEFAULT_RISK_FREE_RATE,
+    dividendYield: DEFAULT_DIVIDEND_YIELD,
+    optionType,
+  }),
+});
+
+/** The listed expiry closest to `daysToExpiry`, or null when no chain has loaded. */
+export function nearestExpiry(chains: readonly OptionsChainData[], daysToExpiry: number): OptionsChainData | null {
+  return chains.reduce<OptionsChainData | null>(
+    (best, chain) =>
+      best === null || Math.abs(chain.daysToExpiry - daysToExpiry) < Math.abs(best.daysToExpiry - daysToExpiry) ? chain : best,
+    null,
+  );
+}
+
+/** Listed strike nearest `spot`; `spot` itself when the chain lists none. */
+export const atmStrike = (spot: number, chain: OptionsChainData): number =>
+  chain.strikes.reduce<number | null>(
+    (best, { strike }) => (best === null || Math.abs(strike - spot) < Math.abs(best - spot) ? strike : best),
+    null,
+  ) ?? spot;
+
+/** Listed strike whose Black-Scholes delta is closest to `targetDelta`. */
+export function strikeForDelta(
+  spot: number,
+  targetDelta: number,
+  chain: OptionsChainData,
+  volatility: number,
+  optionType: OptionType,
+): number {
+  const daysToExpiry = chain.daysToExpiry;
+  let best = atmStrike(spot, chain);
+  let bestDistance = Infinity;
+
+  for (const { strike } of chain.strikes) {
+    const strikeDelta = delta({
+      spot,
+      strike,
+      timeToExpiry: daysToExpiry / 365.25,
+      volatility,
+      riskFreeRate: DEFAULT_RISK_FREE_RATE,
+      dividendYield: DEFAULT_DIVIDEND_YIELD,
+      optionType,
+    });
+    const distance = Math.abs(strikeDelta - targetDelta);
+    if (distance < bestDistance) {
+      best = strike;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The legs a strategy template would open today, at the listed expiry and
+ * strikes nearest the middle of its configured delta and DTE ranges. Unknown
+ * strategy types, and any strategy before a chain has loaded, have no legs.
+ */
+export function legsForStrategy(
+  strategyType: string,
+  parameters: Record<string, unknown>,
+  spot: number,
+  chains: readonly OptionsChainData[],
+  volatility = DEFAULT_ASSUMED_VOLATILITY,
+): StrategyLeg[] {
+  switch (strategyType) {
+    case 'covered-call': {
+      const targetDelta = (numberParam(parameters, 'min_delta', 0.25) + numberParam(parameters, 'max_delta', 0.35)) / 2;
+      const chain = nearestExpiry(chains, (numberParam(parameters, 'min_dte', 30) + numberParam(parameters, 'max_dte', 45)) / 2);
+      if (!chain) return [];
+      const shares = numberParam(parameters, 'lot_size', 100);
+      const strike = strikeForDelta(spot, targetDelta, chain, volatility, 'call');
+      return [
+        { kind: 'stock', quantity: shares, entryPrice: spot },
+        optionLeg('call', strike, chain.daysToExpiry, -shares / 100, spot, volatility),
+      ];
+    }
+    case 'cash-secured-put': {
+      const targetDelta = (numberParam(parameters, 'min_delta', -0.35) + numberParam(parameters, 'max_delta', -0.25)) / 2;
+      const chain = nearestExpiry(chains, (numberParam(parameters, 'min_dte', 30) + numberParam(parameters, 'max_dte', 45)) / 2);
+      if (!chain) return [];
+      const strike = strikeForDelta(spot, targetDelta, chain, volatility, 'put');
+      return [optionLeg('put', strike, chain.daysToExpiry, -1, spot, volatility)];
+    }
+    case 'straddle': {
+      const chain = nearestExpiry(chains, numberParam(parameters, 'target_dte', 30));
+      if (!chain) return [];
+      const strike = atmStrike(spot, chain);
+      return [
+        optionLeg('call', strike, chain.daysToExpiry, 1, spot, volatility),
+        optionLeg('put', strike, chain.daysToExpiry, 1, spot, volatility),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+export const describeLeg = (leg: StrategyLeg): string => {
+  if (leg.kind === 'stock') {
+    return `${leg.quantity > 0 ? 'Long' : 'Short'} ${Math.abs(leg.quantity)} shares @ $${leg.entryPrice.toFixed(2)}`;
+  }
+  const side = leg.quantity > 0 ? 'Long' : 'Short';
+  const type = leg.optionType === 'call' ? 'Call' : 'Put';
+  return `${side} ${Math.abs(leg.quantity)} ${leg.daysToExpiry}D $${leg.strike.toFixed(2)} ${type} @ $${leg.entryPrice.toFixed(2)}`;
+};
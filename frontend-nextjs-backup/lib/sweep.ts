@@ -0,0 +1,207 @@
+import { detectFamily } from './configSchema';
+import type { BacktestConfig, BacktestStrategyType, EquityPoint } from '../services/BacktestService';
+
+/**
+ * Parameter sweeps: a grid over two of the StrategyBuilder quick parameters,
+ * one backtest per cell, scored on a chosen metric.
+ */
+
+/** `dte` is the single days-to-expiry the hub opens positions at. */
+export type SweepParameter = 'min_delta' | 'max_delta' | 'dte';
+
+/** Sweepable parameters with the range a new axis starts from. */
+export const SWEEP_PARAMETERS: { key: SweepParameter; label: string; from: number; to: number; step: number }[] = [
+  { key: 'min_delta', label: 'Min Delta', from: 0.1, to: 0.3, step: 0.05 },
+  { key: 'max_delta', label: 'Max Delta', from: 0.25, to: 0.45, step: 0.05 },
+  { key: 'dte', label: 'DTE', from: 21, to: 49, step: 7 },
+];
+
+export function defaultAxis(parameter: SweepParameter): SweepAxis {
+  const { from, to, step } = SWEEP_PARAMETERS.find(candidate => candidate.key === parameter) ?? SWEEP_PARAMETERS[0];
+  return { parameter, from, to, step };
+}
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  from: number;
+  to: number;
+  step: number;
+}
+
+/** Keeps one sweep to a queue the backtest hub can work through in minutes. */
+export const MAX_SWEEP_CELLS = 100;
+
+export function axisValues(axis: SweepAxis): number[] {
+  if (!(axis.step > 0) || axis.to < axis.from) return [];
+  const count = Math.floor((axis.to - axis.from) / axis.step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((axis.from + i * axis.step) * 1e6) / 1e6);
+}
+
+export type SweepMetric = 'sharpeRatio' | 'totalReturn' | 'maxDrawdown';
+
+export const SWEEP_METRICS: { key: SweepMetric; label: string }[] = [
+  { key: 'sharpeRatio', label: 'Sharpe' },
+  { key: 'totalReturn', label: 'Total Return' },
+  { key: 'maxDrawdown', label: 'Max Drawdown' },
+];
+
+export type SweepMetrics = Record<SweepMetric, number>;
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/** Sharpe (annualized, zero risk-free rate), total return and max drawdown from an equity curve. */
+export function sweepMetrics(curve: EquityPoint[], initialCapital: number): SweepMetrics {
+  const equities = [initialCapital, ...curve.map(point => point.equity)];
+  const returns = equities.slice(1).map((equity, i) => equity / equities[i] - 1);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  equities.forEach(equity => {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.min(maxDrawdown, equity / peak - 1);
+  });
+
+  return {
+    sharpeRatio: returns.length > 1 && variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(TRADING_DAYS_PER_YEAR) : NaN,
+    totalReturn: equities[equities.length - 1] / initialCapital - 1,
+    maxDrawdown,
+  };
+}
+
+export type CellStatus = 'skipped' | 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface SweepCell {
+  x: number;
+  y: number;
+  status: CellStatus;
+  /** Why a cell was skipped or failed. */
+  message?: string;
+  metrics?: SweepMetrics;
+}
+
+const num = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+const HUB_STRATEGIES: Partial<Record<string, BacktestStrategyType>> = {
+  covered_call: 'covered-call',
+  cash_secured_put: 'cash-secured-put',
+};
+
+/** The hub strategy type for a config, or null when the backtest hub cannot run it. */
+export function sweepStrategyType(config: Record<string, unknown> | null): BacktestStrategyType | null {
+  return HUB_STRATEGIES[detectFamily(config) ?? ''] ?? null;
+}
+
+const section = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+/**
+ * The hub config for one cell: the strategy's parameters with the two swept
+ * values substituted, and its `backtest` section for dates, capital and
+ * commission. The hub takes a single DTE; unless it is swept, the middle of
+ * the config's DTE range is used, as the payoff preview does.
+ */
+export function backtestConfigFor(
+  config: Record<string, unknown>,
+  strategyType: BacktestStrategyType,
+  symbol: string,
+  overrides: Partial<Record<SweepParameter, number>>,
+): BacktestConfig | string {
+  const parameters: Record<string, unknown> = { ...section(section(config.strategy).parameters), ...overrides };
+  const backtest = section(config.backtest);
+  const minDelta = num(parameters.min_delta, NaN);
+  const maxDelta = num(parameters.max_delta, NaN);
+  const minDte = num(parameters.min_dte, 30);
+  const maxDte = num(parameters.max_dte, 45);
+  const dte = overrides.dte ?? Math.round((minDte + maxDte) / 2);
+
+  if (!(minDelta < maxDelta)) return 'min_delta must be below max_delta';
+  if (overrides.dte === undefined && minDte > maxDte) return 'min_dte is above max_dte';
+  if (!(dte >= 1)) return 'dte must be at least 1';
+
+  return {
+    strategyType,
+    symbol,
+    initialCapital: num(backtest.initial_capital, 100000),
+    minDelta,
+    maxDelta,
+    dte,
+    commissionPerContract: num(backtest.commission_per_contract, 0.65),
+    startDate: typeof backtest.start_date === 'string' ? backtest.start_date : '2023-01-01',
+    endDate: typeof backtest.end_date === 'string' ? backtest.end_date : '2023-12-31',
+  };
+}
+
+/** Cells row by row (y outer), with invalid combinations already skipped. */
+export function buildSweep(
+  config: Record<string, unknown>,
+  strategyType: BacktestStrategyType,
+  symbol: string,
+  xAxis: SweepAxis,
+  yAxis: SweepAxis,
+): { cells: SweepCell[]; configs: (BacktestConfig | null)[] } {
+  const cells: SweepCell[] = [];
+  const configs: (BacktestConfig | null)[] = [];
+  axisValues(yAxis).forEach(y => {
+    axisValues(xAxis).forEach(x => {
+      const result = backtestConfigFor(config, strategyType, symbol, { [xAxis.parameter]: x, [yAxis.parameter]: y });
+      if (typeof result === 'string') {
+        cells.push({ x, y, status: 'skipped', message: result });
+        configs.push(null);
+      } else {
+        cells.push({ x, y, status: 'queued' });
+        configs.push(result);
+      }
+    });
+  });
+  return { cells, configs };
+}
+
+// Drawdowns are negative, so higher is better for every sweep metric
+export const metricValue = (cell: SweepCell | undefined, metric: SweepMetric) => cell?.metrics?.[metric] ?? NaN;
+
+export interface Robustness {
+  /** Mean of the cell and its completed neighbours. */
+  smoothed: number;
+  /** A local maximum standing more than one grid standard deviation above its neighbourhood. */
+  isolatedPeak: boolean;
+}
+
+/**
+ * Robustness of each cell: a parameter set is only worth trusting if the
+ * sets around it did about as well. Indexed like `cells`.
+ */
+export function robustness(cells: SweepCell[], columns: number, metric: SweepMetric): Robustness[] {
+  const values = cells.map(cell => metricValue(cell, metric));
+  const finite = values.filter(Number.isFinite);
+  const mean = finite.reduce((sum, value) => sum + value, 0) / finite.length;
+  const spread = Math.sqrt(finite.reduce((sum, value) => sum + (value - mean) ** 2, 0) / finite.length);
+
+  return cells.map((_, index) => {
+    const value = values[index];
+    const row = Math.floor(index / columns);
+    const column = index % columns;
+    const neighbours: number[] = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const r = row + dy;
+        const c = column + dx;
+        if ((dx === 0 && dy === 0) || c < 0 || c >= columns || r < 0) continue;
+        const neighbour = values[r * columns + c];
+        if (Number.isFinite(neighbour)) neighbours.push(neighbour);
+      }
+    }
+    if (!Number.isFinite(value)) {
+      return { smoothed: NaN, isolatedPeak: false };
+    }
+    const neighbourMean = neighbours.reduce((sum, v) => sum + v, 0) / neighbours.length;
+    return {
+      smoothed: (value + neighbours.reduce((sum, v) => sum + v, 0)) / (neighbours.length + 1),
+      isolatedPeak: neighbours.length > 0
+        && neighbours.every(neighbour => neighbour < value)
+        && spread > 0
+        && value - neighbourMean > spread,
+    };
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Minimal runtime checks for JSON responses. A validator returns the value
+ * typed as T or throws a ValidationError naming the offending path, e.g.
+ * `response.strikes[3].calls.bid: expected number, got string`.
+ */
+
+export class ValidationError extends Error {
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(path: string, expected: string, actual: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(actual)}`);
+    this.name = 'ValidationError';
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ValidationError(path, 'number', value);
+  return value;
+};
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ValidationError(path, 'string', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'boolean', value);
+  return value;
+};
+
+/** Accepts anything; for payloads the client passes through untouched. */
+export const unknown: Validator<unknown> = value => value;
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new ValidationError(path, 'array', value);
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+export const record = <T>(item: Validator<T>): Validator<Record<string, T>> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new ValidationError(path, 'object', value);
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, `${path}.${key}`)]));
+};
+
+export const nullable = <T>(item: Validator<T>): Validator<T | null> => (value, path) =>
+  value === null ? null : item(value, path);
+
+/** Missing or null reads as undefined. */
+export const optional = <T>(item: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : item(value, path);
+
+type Shape = Record<string, Validator<unknown>>;
+
+/** Checks the listed fields; extra fields are dropped. */
+export const object = <S extends Shape>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new ValidationError(path, 'object', value);
+  const source = value as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [key, validate] of Object.entries(shape)) {
+    const parsed = validate(source[key], `${path}.${key}`);
+    if (parsed !== undefined) result[key] = parsed;
+  }
+  return result as { [K in keyof S]: Infer<S[K]> };
+};
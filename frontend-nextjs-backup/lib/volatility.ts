@@ -0,0 +1,110 @@
+import type { OptionType } from './pricing';
+import type { OptionsChainData } from './optionsChain';
+
+export interface SmilePoint {
+  strike: number;
+  /** Strike / underlying price. */
+  moneyness: number;
+  delta: number;
+  iv: number;
+  optionType: OptionType;
+}
+
+export interface ExpirySmile {
+  expiry: string;
+  daysToExpiry: number;
+  underlyingPrice: number;
+  calls: SmilePoint[];
+  puts: SmilePoint[];
+}
+
+export interface SkewMetrics {
+  expiry: string;
+  daysToExpiry: number;
+  atmIv: number;
+  call25Iv: number;
+  put25Iv: number;
+  /** 25-delta call IV minus 25-delta put IV. */
+  riskReversal25: number;
+  /** Average 25-delta wing IV minus ATM IV. */
+  butterfly25: number;
+}
+
+/** Strike-ordered smile for one expiry, skipping contracts with no solvable IV. */
+export function buildSmile(chain: OptionsChainData): ExpirySmile {
+  const points = (optionType: OptionType): SmilePoint[] =>
+    chain.strikes
+      .map(row => {
+        const quote = optionType === 'call' ? row.calls : row.puts;
+        return {
+          strike: row.strike,
+          moneyness: row.strike / chain.underlyingPrice,
+          delta: quote.delta,
+          iv: quote.iv,
+          optionType,
+        };
+      })
+      .filter(point => Number.isFinite(point.iv) && Number.isFinite(point.delta))
+      .sort((a, b) => a.strike - b.strike);
+
+  return {
+    expiry: chain.expiry,
+    daysToExpiry: chain.daysToExpiry,
+    underlyingPrice: chain.underlyingPrice,
+    calls: points('call'),
+    puts: points('put'),
+  };
+}
+
+function interpolate(points: SmilePoint[], key: 'strike' | 'delta', target: number): number {
+  const sorted = [...points].sort((a, b) => a[key] - b[key]);
+  if (sorted.length === 0 || target < sorted[0][key] || target > sorted[sorted.length - 1][key]) {
+    return NaN;
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    const lower = sorted[i - 1];
+    const upper = sorted[i];
+    if (target <= upper[key]) {
+      const span = upper[key] - lower[key];
+      const weight = span === 0 ? 0 : (target - lower[key]) / span;
+      return lower.iv + weight * (upper.iv - lower.iv);
+    }
+  }
+  return sorted[0].iv;
+}
+
+/** IV at a target delta (0.25 for calls, -0.25 for puts), linear in delta. */
+export function ivAtDelta(points: SmilePoint[], targetDelta: number): number {
+  return interpolate(points, 'delta', targetDelta);
+}
+
+/** IV at a strike, linear in strike. */
+export function ivAtStrike(points: SmilePoint[], strike: number): number {
+  return interpolate(points, 'strike', strike);
+}
+
+/** ATM IV as the average of call and put IV at the underlying price. */
+export function atmIv(smile: ExpirySmile): number {
+  const callIv = ivAtStrike(smile.calls, smile.underlyingPrice);
+  const putIv = ivAtStrike(smile.puts, smile.underlyingPrice);
+  if (Number.isNaN(callIv)) return putIv;
+  if (Number.isNaN(putIv)) return callIv;
+  return (callIv + putIv) / 2;
+}
+
+export function skewMetrics(smile: ExpirySmile): SkewMetrics {
+  const atm = atmIv(smile);
+  const call25Iv = ivAtDelta(smile.calls, 0.25);
+  const put25Iv = ivAtDelta(smile.puts, -0.25);
+
+  return {
+    expiry: smile.expiry,
+    daysToExpiry: smile.daysToExpiry,
+    atmIv: atm,
+    call25Iv,
+    put25Iv,
+    riskReversal25: call25Iv - put25Iv,
+    butterfly25: (call25Iv + put25Iv) / 2 - atm,
+  };
+}
@@ -0,0 +1,296 @@
+import { apiBaseUrl } from '../lib/config';
+import { backoffDelay } from '../lib/backoff';
+import type { BackoffOptions } from '../lib/backoff';
+import { ValidationError, array, boolean, nullable, number, object, optional, record, string, unknown } from '../lib/validate';
+import type { Infer, Validator } from '../lib/validate';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'invalid-response';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  /** Safe to show as-is. */
+  message: string;
+  status?: number;
+}
+
+/** Every client method resolves to one of these; none of them throw. */
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+export interface ApiClientOptions {
+  /** Defaults to the configured API base URL, read on every request. */
+  baseUrl?: string;
+  timeoutMs?: number;
+  /** Retry schedule for GETs; other methods are never retried. */
+  retry?: Partial<BackoffOptions>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const DEFAULT_RETRY: BackoffOptions = {
+  initialDelayMs: 300,
+  maxDelayMs: 3000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: 2,
+};
+
+// Response shapes, camel-cased as ASP.NET Core serializes them
+
+const healthResponse = object({
+  status: string,
+  timestamp: string,
+  service: string,
+});
+
+const stockPriceResponse = object({
+  symbol: string,
+  price: number,
+  timestamp: string,
+  success: boolean,
+});
+
+// Full chain as mock-server and MarketDataController serve it. Greeks in the
+// payload are ignored, the chain re-solves them from each quote.
+const chainContract = object({
+  symbol: optional(string),
+  bid: number,
+  ask: number,
+  bidSize: optional(number),
+  askSize: optional(number),
+  volume: number,
+  openInterest: number,
+});
+
+const optionsChainResponse = object({
+  symbol: string,
+  timestamp: string,
+  underlyingPrice: number,
+  expirations: array(object({
+    expiry: string, // YYYY-MM-DD
+    daysToExpiry: number,
+    cycle: optional(string), // 'weekly' | 'monthly'
+    strikes: array(object({
+      strike: number,
+      calls: chainContract,
+      puts: chainContract,
+    })),
+  })),
+});
+
+// Bars of the history endpoint; `time` is each bar's start in Unix seconds
+const historyResponse = object({
+  symbol: string,
+  interval: number,
+  bars: array(object({
+    time: number,
+    open: number,
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+  })),
+});
+
+const subscriptionResponse = object({
+  message: string,
+  success: boolean,
+});
+
+const strategyTemplatesResponse = record(object({
+  name: string,
+  description: string,
+  template: record(unknown),
+}));
+
+const strategyValidationResponse = object({
+  isValid: boolean,
+  errors: array(string),
+  config: nullable(record(unknown)),
+});
+
+const strategyAnalysisResponse = object({
+  expectedReturn: number,
+  maxRisk: number,
+  breakEvenPoints: array(number),
+  greeks: record(number),
+  probabilityOfProfit: number,
+});
+
+export type HealthResponse = Infer<typeof healthResponse>;
+export type StockPriceResponse = Infer<typeof stockPriceResponse>;
+export type ChainContract = Infer<typeof chainContract>;
+export type OptionsChainResponse = Infer<typeof optionsChainResponse>;
+export type HistoryResponse = Infer<typeof historyResponse>;
+export type SubscriptionResponse = Infer<typeof subscriptionResponse>;
+export type StrategyTemplates = Infer<typeof strategyTemplatesResponse>;
+export type StrategyValidation = Infer<typeof strategyValidationResponse>;
+export type StrategyAnalysis = Infer<typeof strategyAnalysisResponse>;
+
+export interface StrategyAnalysisRequest {
+  strategyType: string;
+  underlyingSymbol: string;
+  underlyingPrice: number;
+  allocation: number;
+  parameters: Record<string, unknown>;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  /** Non-2xx statuses whose body is still a valid response, e.g. 400 from /validate. */
+  acceptStatus?: number[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const failure = (kind: ApiErrorKind, message: string, status?: number): { ok: false; error: ApiError } =>
+  ({ ok: false, error: { kind, message, ...(status === undefined ? {} : { status }) } });
+
+const isRetryable = (error: ApiError) =>
+  error.kind === 'network' || error.kind === 'timeout' || (error.status !== undefined && (error.status >= 500 || error.status === 429));
+
+/** `{ message }` from the controllers, or `title` from ASP.NET problem details. */
+function serverMessage(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) return null;
+  const { message, title } = body as { message?: unknown; title?: unknown };
+  if (typeof message === 'string' && message) return message;
+  if (typeof title === 'string' && title) return title;
+  return null;
+}
+
+/**
+ * Client for the MarketDataController and StrategyController routes. Requests
+ * time out, GETs are retried on network errors, timeouts, 5xx and 429, and
+ * every response body is checked against its expected shape.
+ */
+export default class ApiClient {
+  private configuredBaseUrl?: string;
+  private timeoutMs: number;
+  private retry: BackoffOptions;
+
+  constructor(options: ApiClientOptions = {}) {
+    this.configuredBaseUrl = options.baseUrl;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+  }
+
+  get baseUrl(): string {
+    return this.configuredBaseUrl ?? apiBaseUrl();
+  }
+
+  health(): Promise<ApiResult<HealthResponse>> {
+    return this.request('GET', '/api/marketdata/health', healthResponse);
+  }
+
+  getStockPrice(symbol: string): Promise<ApiResult<StockPriceResponse>> {
+    return this.request('GET', `/api/marketdata/stock-price/${encodeURIComponent(symbol)}`, stockPriceResponse);
+  }
+
+  getOptionsChain(symbol: string): Promise<ApiResult<OptionsChainResponse>> {
+    return this.request('GET', `/api/marketdata/options-chain/${encodeURIComponent(symbol)}`, optionsChainResponse);
+  }
+
+  /** Up to `limit` bars of `interval` seconds that closed by `before` (Unix seconds, default now), oldest first. */
+  getHistory(symbol: string, interval: number, limit: number, before?: number): Promise<ApiResult<HistoryResponse>> {
+    const query = new URLSearchParams({ interval: String(interval), limit: String(limit) });
+    if (before !== undefined) query.set('before', String(before));
+    return this.request('GET', `/api/marketdata/history/${encodeURIComponent(symbol)}?${query}`, historyResponse);
+  }
+
+  subscribe(symbol: string): Promise<ApiResult<SubscriptionResponse>> {
+    return this.request('POST', '/api/marketdata/subscribe', subscriptionResponse, { body: { symbol } });
+  }
+
+  unsubscribe(symbol: string): Promise<ApiResult<SubscriptionResponse>> {
+    return this.request('POST', '/api/marketdata/unsubscribe', subscriptionResponse, { body: { symbol } });
+  }
+
+  getStrategyTemplates(): Promise<ApiResult<StrategyTemplates>> {
+    return this.request('GET', '/api/strategy/templates', strategyTemplatesResponse);
+  }
+
+  /** A config the server cannot parse comes back as a 400 with `isValid: false`, which is a result, not an error. */
+  validateStrategy(strategyType: string, configYaml: string): Promise<ApiResult<StrategyValidation>> {
+    return this.request('POST', '/api/strategy/validate', strategyValidationResponse, {
+      body: { strategyType, configYaml },
+      acceptStatus: [400],
+    });
+  }
+
+  analyzeStrategy(request: StrategyAnalysisRequest): Promise<ApiResult<StrategyAnalysis>> {
+    return this.request('POST', '/api/strategy/analyze', strategyAnalysisResponse, { body: request });
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    validate: Validator<T>,
+    options: RequestOptions = {},
+  ): Promise<ApiResult<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.send(method, path, validate, options);
+      const delay = method === 'GET' && !result.ok && isRetryable(result.error) ? backoffDelay(this.retry, attempt) : null;
+      if (delay === null) {
+        return result;
+      }
+      console.warn(`${method} ${path} failed (${result.ok ? '' : result.error.message}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  private async send<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    validate: Validator<T>,
+    { body, acceptStatus = [] }: RequestOptions,
+  ): Promise<ApiResult<T>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return failure('timeout', `The server did not respond within ${this.timeoutMs / 1000}s`);
+      }
+      console.error(`${method} ${path} failed:`, error);
+      return failure('network', `Could not reach the server at ${this.baseUrl}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    let json: unknown;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      json = undefined;
+    }
+
+    if (!response.ok && !acceptStatus.includes(response.status)) {
+      const message = serverMessage(json) ?? `Request failed with ${response.status} ${response.statusText}`.trim();
+      return failure('http', message, response.status);
+    }
+
+    if (json === undefined) {
+      return failure('invalid-response', 'The server returned a response that is not JSON', response.status);
+    }
+
+    try {
+      return { ok: true, data: validate(json, 'response') };
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      console.error(`Unexpected response from ${method} ${path}:`, error.message, json);
+      return failure('invalid-response', `Unexpected response from the server (${error.message})`, response.status);
+    }
+  }
+}
+
+/** Shared instance for components. */
+export const apiClient = new ApiClient();
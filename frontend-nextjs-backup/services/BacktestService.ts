@@ -0,0 +1,126 @@
+import { HubConnection, HubConnectionBuilder, HubConnectionState, LogLevel } from '@microsoft/signalr';
+import { apiBaseUrl } from '../lib/config';
+import { DEFAULT_BACKOFF, backoffDelay } from '../lib/backoff';
+import type { BackoffOptions } from '../lib/backoff';
+
+export type BacktestStrategyType = 'covered-call' | 'cash-secured-put';
+
+/** What StartBacktest on the backtest hub takes. */
+export interface BacktestConfig {
+  strategyType: BacktestStrategyType;
+  symbol: string;
+  initialCapital: number;
+  minDelta: number;
+  maxDelta: number;
+  dte: number;
+  commissionPerContract: number;
+  /** YYYY-MM-DD */
+  startDate: string;
+  /** YYYY-MM-DD */
+  endDate: string;
+}
+
+export interface EquityPoint {
+  /** Unix seconds. */
+  time: number;
+  equity: number;
+}
+
+export interface BacktestCompleted {
+  runId: string;
+  equity: number;
+  trades: number;
+  pnl: number;
+  equityCurve?: EquityPoint[];
+}
+
+interface BacktestFailed {
+  runId: string;
+  message: string;
+}
+
+export interface BacktestServiceOptions {
+  /** Defaults to the configured API base URL. */
+  baseUrl?: string;
+  backoff?: Partial<BackoffOptions>;
+}
+
+interface PendingRun {
+  resolve: (result: BacktestCompleted) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs backtests on the backtest hub and resolves each with its final result.
+ * Rooms are joined again after a reconnect so results are not missed.
+ */
+export default class BacktestService {
+  private connection: HubConnection;
+  private backoff: BackoffOptions;
+  private pending = new Map<string, PendingRun>();
+  private connecting: Promise<void> | null = null;
+
+  constructor(options: BacktestServiceOptions = {}) {
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+    this.connection = new HubConnectionBuilder()
+      .withUrl(`${options.baseUrl ?? apiBaseUrl()}/hubs/backtest`)
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: context => backoffDelay(this.backoff, context.previousRetryCount),
+      })
+      .configureLogging(LogLevel.Warning)
+      .build();
+
+    this.connection.on('completed', (data: BacktestCompleted) => this.settle(data.runId, pending => pending.resolve(data)));
+    this.connection.on('failed', (data: BacktestFailed) =>
+      this.settle(data.runId, pending => pending.reject(new Error(data.message))));
+    this.connection.onreconnected(() => {
+      void Promise.all([...this.pending.keys()].map(runId => this.connection.invoke('JoinBacktestRoom', runId)))
+        .catch(error => console.error('Error rejoining backtest rooms:', error));
+    });
+    this.connection.onclose(() => {
+      this.pending.forEach(pending => pending.reject(new Error('Backtest connection closed')));
+      this.pending.clear();
+    });
+  }
+
+  /** Starts a run and resolves when it completes; `onStarted` gets the run id as soon as the hub assigns it. */
+  async run(config: BacktestConfig, onStarted?: (runId: string) => void): Promise<BacktestCompleted> {
+    await this.ensureConnected();
+    const runId: string = await this.connection.invoke('StartBacktest', config);
+    onStarted?.(runId);
+    const result = new Promise<BacktestCompleted>((resolve, reject) => this.pending.set(runId, { resolve, reject }));
+    await this.connection.invoke('JoinBacktestRoom', runId);
+    return result;
+  }
+
+  /** Stops a run; its `run()` promise rejects. */
+  async stop(runId: string): Promise<void> {
+    this.settle(runId, pending => pending.reject(new Error('Backtest stopped')));
+    if (this.connection.state === HubConnectionState.Connected) {
+      await this.connection.invoke('StopBacktest', runId);
+      await this.connection.invoke('LeaveBacktestRoom', runId);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await this.connection.stop();
+  }
+
+  private ensureConnected(): Promise<void> {
+    if (this.connection.state === HubConnectionState.Connected) {
+      return Promise.resolve();
+    }
+    this.connecting ??= this.connection.start().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private settle(runId: string, action: (pending: PendingRun) => void): void {
+    const pending = this.pending.get(runId);
+    if (pending) {
+      this.pending.delete(runId);
+      action(pending);
+    }
+  }
+}
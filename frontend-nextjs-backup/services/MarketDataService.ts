@@ -1,4 +1,15 @@
-import { HubConnection, HubConnectionBuilder, LogLevel } from '@microsoft/signalr';
+import { HubConnection, HubConnectionBuilder, HubConnectionState, LogLevel } from '@microsoft/signalr';
+import { apiBaseUrl } from '../lib/config';
+import { DEFAULT_BACKOFF, backoffDelay } from '../lib/backoff';
+import type { BackoffOptions } from '../lib/backoff';
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface MarketDataServiceOptions {
+  /** Defaults to the configured API base URL. */
+  baseUrl?: string;
+  backoff?: Partial<BackoffOptions>;
+}
 
 interface MarketEvent {
   type: string;
@@ -7,157 +18,127 @@ interface MarketEvent {
   [key: string]: unknown;
 }
 
-interface OptionsChainResponse {
-  symbol: string;
-  timestamp: string;
-  strikes: unknown[];
-}
-
-interface SubscriptionResponse {
-  message: string;
-  success: boolean;
-}
-
-interface StrategyValidationResponse {
-  isValid: boolean;
-  errors: string[];
-  config: unknown;
-}
-
-interface StrategyTemplatesResponse {
-  [key: string]: {
-    name: string;
-    description: string;
-    template: unknown;
-  };
-}
-
-interface StrategyAnalysisRequest {
-  strategyType: string;
-  underlyingSymbol: string;
-  underlyingPrice: number;
-  allocation: number;
-  parameters: Record<string, unknown>;
-}
-
-interface StrategyAnalysisResponse {
-  expectedReturn: number;
-  maxRisk: number;
-  breakEvenPoints: number[];
-  greeks: Record<string, number>;
-  probabilityOfProfit: number;
-}
-
-interface StockPriceResponse {
-  symbol: string;
-  price: number;
-  timestamp: string;
-  success: boolean;
-}
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export default class MarketDataService {
   private connection: HubConnection;
-  private baseUrl: string;
-
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
+  private backoff: BackoffOptions;
+  private state: ConnectionState = 'disconnected';
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  // Server-side symbol groups are lost on reconnect, so these are re-subscribed
+  private subscriptions = new Set<string>();
+  private lastMessageTime: number | null = null;
+  private stopped = false;
+
+  constructor(options: MarketDataServiceOptions = {}) {
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
     this.connection = new HubConnectionBuilder()
-      .withUrl(`${baseUrl}/hubs/marketdata`)
-      .withAutomaticReconnect()
+      .withUrl(`${options.baseUrl ?? apiBaseUrl()}/hubs/marketdata`)
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: context => backoffDelay(this.backoff, context.previousRetryCount),
+      })
       .configureLogging(LogLevel.Information)
       .build();
+
+    this.connection.on('MarketEvent', (data: MarketEvent) => this.handleMarketEvent(data));
+    this.connection.onreconnecting(() => this.setState('reconnecting'));
+    this.connection.onreconnected(() => {
+      this.setState('connected');
+      void this.resubscribe();
+    });
+    this.connection.onclose(() => this.setState('disconnected'));
   }
 
-  async connect(): Promise<void> {
-    try {
-      await this.connection.start();
-      console.log('Connected to SignalR hub');
-      
-      // Set up event listeners
-      this.connection.on('MarketEvent', (data: MarketEvent) => {
-        console.log('Market event received:', data);
-        // Handle market data updates here
-        this.handleMarketEvent(data);
-      });
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
 
-    } catch (error) {
-      console.error('Error connecting to SignalR hub:', error);
-      throw error;
+  /** `Date.now()` when the last market event arrived, or null before the first. */
+  get lastMessageAt(): number | null {
+    return this.lastMessageTime;
+  }
+
+  /** Returns a function that removes the listener. */
+  onStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves once connected. A failed start is retried with the same backoff
+   * as automatic reconnects; rejects when that gives up or on disconnect().
+   */
+  async connect(): Promise<void> {
+    this.stopped = false;
+    this.setState('connecting');
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.connection.start();
+        break;
+      } catch (error) {
+        const delay = this.stopped ? null : backoffDelay(this.backoff, attempt);
+        if (delay === null) {
+          console.error('Error connecting to SignalR hub:', error);
+          this.setState('disconnected');
+          throw error;
+        }
+        console.warn(`SignalR hub unavailable, retrying in ${delay}ms`);
+        await sleep(delay);
+        if (this.stopped) {
+          throw new Error('Disconnected while connecting');
+        }
+      }
     }
+
+    console.log('Connected to SignalR hub');
+    this.setState('connected');
+    await this.resubscribe();
   }
 
   async disconnect(): Promise<void> {
-    if (this.connection) {
-      await this.connection.stop();
-    }
+    this.stopped = true;
+    await this.connection.stop();
+    this.setState('disconnected');
   }
 
+  /** Tracks the symbol, subscribing now if connected and again after each reconnect. */
   async subscribeToSymbol(symbol: string): Promise<void> {
-    if (this.connection.state === 'Connected') {
+    this.subscriptions.add(symbol);
+    if (this.connection.state === HubConnectionState.Connected) {
       await this.connection.invoke('SubscribeToSymbol', symbol);
       console.log(`Subscribed to ${symbol}`);
     }
   }
 
   async unsubscribeFromSymbol(symbol: string): Promise<void> {
-    if (this.connection.state === 'Connected') {
+    this.subscriptions.delete(symbol);
+    if (this.connection.state === HubConnectionState.Connected) {
       await this.connection.invoke('UnsubscribeFromSymbol', symbol);
       console.log(`Unsubscribed from ${symbol}`);
     }
   }
 
-  private handleMarketEvent(data: MarketEvent): void {
-    // Emit custom events that components can listen to
-    const event = new CustomEvent('marketEvent', { detail: data });
-    window.dispatchEvent(event);
-  }
-
-  // REST API methods
-  async getOptionsChain(symbol: string): Promise<OptionsChainResponse> {
-    const response = await fetch(`${this.baseUrl}/api/marketdata/options-chain/${symbol}`);
-    return await response.json();
-  }
-
-  async subscribeToMarketData(symbol: string): Promise<SubscriptionResponse> {
-    const response = await fetch(`${this.baseUrl}/api/marketdata/subscribe`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ symbol }),
-    });
-    return await response.json();
-  }
-
-  async validateStrategy(strategyType: string, configYaml: string): Promise<StrategyValidationResponse> {
-    const response = await fetch(`${this.baseUrl}/api/strategy/validate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ strategyType, configYaml }),
-    });
-    return await response.json();
+  private async resubscribe(): Promise<void> {
+    try {
+      await Promise.all([...this.subscriptions].map(symbol => this.connection.invoke('SubscribeToSymbol', symbol)));
+    } catch (error) {
+      console.error('Error resubscribing to symbols:', error);
+    }
   }
 
-  async getStrategyTemplates(): Promise<StrategyTemplatesResponse> {
-    const response = await fetch(`${this.baseUrl}/api/strategy/templates`);
-    return await response.json();
+  private setState(state: ConnectionState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
   }
 
-  async analyzeStrategy(request: StrategyAnalysisRequest): Promise<StrategyAnalysisResponse> {
-    const response = await fetch(`${this.baseUrl}/api/strategy/analyze`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
-    return await response.json();
-  }
-
-  async getStockPrice(symbol: string): Promise<StockPriceResponse> {
-    const response = await fetch(`${this.baseUrl}/api/marketdata/stock-price/${symbol}`);
-    return await response.json();
+  private handleMarketEvent(data: MarketEvent): void {
+    this.lastMessageTime = Date.now();
+    // Emit custom events that components can listen to
+    const event = new CustomEvent('marketEvent', { detail: data });
+    window.dispatchEvent(event);
   }
-}
\ No newline at end of file
+}
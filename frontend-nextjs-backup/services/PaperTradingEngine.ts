@@ -0,0 +1,267 @@
+import {
+  DEFAULT_COMMISSION_PER_CONTRACT,
+  commissionFor,
+  executableFill,
+  isWorking,
+  remainingQuantity,
+  validateOrder,
+} from '../lib/paperTrading';
+import type { BookQuote, OrderRequest, PaperFill, PaperOrder } from '../lib/paperTrading';
+
+export interface PaperTradingOptions {
+  commissionPerContract?: number;
+  /** Keep orders and fills in localStorage across reloads. */
+  persist?: boolean;
+}
+
+interface MarketEvent {
+  type: string;
+  symbol: string;
+  bidPrice?: number;
+  askPrice?: number;
+  bidSize?: number;
+  askSize?: number;
+  /** Trades only. */
+  price?: number;
+}
+
+interface StoredAccount {
+  orders: PaperOrder[];
+  fills: PaperFill[];
+  sequence: number;
+}
+
+const STORAGE_KEY = 'optx.paperAccount';
+
+/**
+ * Client-side paper account. Orders match against the latest quote for their
+ * contract: on submit, and again on every option quote streamed through the
+ * market data hub (`marketEvent` window events). Contracts the hub does not
+ * stream only trade against the chain snapshot the ticket was opened from.
+ */
+export default class PaperTradingEngine {
+  private orderList: PaperOrder[] = [];
+  private fillList: PaperFill[] = [];
+  private quotes = new Map<string, BookQuote>();
+  private lastPrices = new Map<string, number>();
+  private listeners = new Set<() => void>();
+  private sequence = 0;
+  private commissionPerContract: number;
+  private persist: boolean;
+  private handleMarketEvent = (event: Event) => this.onMarketEvent((event as CustomEvent<MarketEvent>).detail);
+
+  constructor(options: PaperTradingOptions = {}) {
+    this.commissionPerContract = options.commissionPerContract ?? DEFAULT_COMMISSION_PER_CONTRACT;
+    this.persist = options.persist ?? true;
+    if (this.persist) {
+      this.load();
+    }
+  }
+
+  /** Newest first; replaced, not mutated, on every change. */
+  get orders(): PaperOrder[] {
+    return this.orderList;
+  }
+
+  get fills(): PaperFill[] {
+    return this.fillList;
+  }
+
+  get commissionRate(): number {
+    return this.commissionPerContract;
+  }
+
+  quote(contract: string): BookQuote | undefined {
+    return this.quotes.get(contract);
+  }
+
+  /** Last traded price of an underlying, for marking positions. */
+  lastPrice(symbol: string): number | undefined {
+    return this.lastPrices.get(symbol);
+  }
+
+  /** Returns a function that removes the listener. Runs on order, fill, quote and price changes. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Starts matching against streamed quotes. */
+  start(): void {
+    window.addEventListener('marketEvent', this.handleMarketEvent);
+  }
+
+  stop(): void {
+    window.removeEventListener('marketEvent', this.handleMarketEvent);
+  }
+
+  /** Uses a snapshot quote (e.g. from the chain) unless a streamed one is already known. */
+  seedQuote(contract: string, quote: BookQuote): void {
+    if (!this.quotes.has(contract)) {
+      this.updateQuote(contract, quote);
+    }
+  }
+
+  /** Uses a snapshot price (e.g. the chain's underlying) unless a streamed trade is already known. */
+  seedPrice(symbol: string, price: number): void {
+    if (!this.lastPrices.has(symbol) && price > 0) {
+      this.lastPrices.set(symbol, price);
+      this.emit();
+    }
+  }
+
+  updateQuote(contract: string, quote: BookQuote): void {
+    this.quotes.set(contract, quote);
+    const touched = this.orderList.some(order => order.spec.contract === contract && isWorking(order));
+    if (touched) {
+      this.orderList = this.orderList.map(order =>
+        order.spec.contract === contract && isWorking(order) ? this.match(order, quote) : order);
+      this.save();
+    }
+    this.emit();
+  }
+
+  submit(request: OrderRequest): PaperOrder {
+    const now = Date.now();
+    const rejection = validateOrder(request);
+    let order: PaperOrder = {
+      ...request,
+      limitPrice: request.type === 'limit' ? request.limitPrice : undefined,
+      orderId: `PAPER-${String(++this.sequence).padStart(6, '0')}`,
+      status: rejection ? 'rejected' : 'accepted',
+      filledQuantity: 0,
+      averagePrice: null,
+      commission: 0,
+      createdAt: now,
+      updatedAt: now,
+      ...(rejection ? { reason: rejection } : {}),
+    };
+
+    if (!rejection) {
+      const quote = this.quotes.get(request.spec.contract);
+      if (quote) {
+        order = this.match(order, quote);
+      } else if (request.tif !== 'gtc') {
+        order = { ...order, status: 'canceled', reason: 'No quote for this contract' };
+      }
+    }
+
+    this.orderList = [order, ...this.orderList];
+    this.save();
+    this.emit();
+    return order;
+  }
+
+  cancel(orderId: string): boolean {
+    const order = this.orderList.find(candidate => candidate.orderId === orderId);
+    if (!order || !isWorking(order)) {
+      return false;
+    }
+    this.replace({ ...order, status: 'canceled', updatedAt: Date.now() });
+    return true;
+  }
+
+  /** Forgets every order and fill. */
+  reset(): void {
+    this.orderList = [];
+    this.fillList = [];
+    this.sequence = 0;
+    this.save();
+    this.emit();
+  }
+
+  /** Applies whatever `quote` allows, then the time-in-force rule to what is left. */
+  private match(order: PaperOrder, quote: BookQuote): PaperOrder {
+    const now = Date.now();
+    const fill = executableFill(order, quote);
+
+    if (order.tif === 'fok' && (!fill || fill.quantity < remainingQuantity(order))) {
+      const available = fill?.quantity ?? 0;
+      return { ...order, status: 'canceled', updatedAt: now, reason: `Fill or kill: ${available} of ${remainingQuantity(order)} available` };
+    }
+
+    let next = order;
+    if (fill) {
+      const filledQuantity = order.filledQuantity + fill.quantity;
+      const commission = commissionFor(fill.quantity, this.commissionPerContract);
+      const averagePrice = ((order.averagePrice ?? 0) * order.filledQuantity + fill.price * fill.quantity) / filledQuantity;
+      next = {
+        ...order,
+        filledQuantity,
+        averagePrice,
+        commission: Math.round((order.commission + commission) * 100) / 100,
+        status: filledQuantity === order.quantity ? 'filled' : 'partially_filled',
+        updatedAt: now,
+      };
+      this.fillList = [{
+        orderId: order.orderId,
+        fillId: `EX${String(this.fillList.length + 1).padStart(8, '0')}`,
+        spec: order.spec,
+        side: order.side,
+        quantity: fill.quantity,
+        price: fill.price,
+        leavesQuantity: order.quantity - filledQuantity,
+        commission,
+        timestamp: now,
+      }, ...this.fillList];
+    }
+
+    if (order.tif === 'ioc' && isWorking(next)) {
+      next = { ...next, status: 'canceled', updatedAt: now, reason: fill ? 'Immediate or cancel: remainder canceled' : 'Immediate or cancel: not marketable' };
+    }
+    return next;
+  }
+
+  private replace(order: PaperOrder): void {
+    this.orderList = this.orderList.map(existing => (existing.orderId === order.orderId ? order : existing));
+    this.save();
+    this.emit();
+  }
+
+  private onMarketEvent(event: MarketEvent | undefined): void {
+    if (event?.type === 'trade' && typeof event.price === 'number') {
+      this.lastPrices.set(event.symbol, event.price);
+      this.emit();
+      return;
+    }
+    if (event?.type !== 'quote' || typeof event.bidPrice !== 'number' || typeof event.askPrice !== 'number') {
+      return;
+    }
+    this.updateQuote(event.symbol, {
+      bid: event.bidPrice,
+      ask: event.askPrice,
+      bidSize: event.bidSize,
+      askSize: event.askSize,
+      receivedAt: Date.now(),
+    });
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw === null) return;
+      const stored = JSON.parse(raw) as Partial<StoredAccount>;
+      this.orderList = Array.isArray(stored.orders) ? stored.orders : [];
+      this.fillList = Array.isArray(stored.fills) ? stored.fills : [];
+      this.sequence = typeof stored.sequence === 'number' ? stored.sequence : this.orderList.length;
+    } catch (error) {
+      console.warn('Ignoring unreadable paper account:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    try {
+      const stored: StoredAccount = { orders: this.orderList, fills: this.fillList, sequence: this.sequence };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('Could not save paper account:', error);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { dataMode } from '../lib/config';
+import { fromChainResponse, generateMockChains, getBasePrice } from '../lib/optionsChain';
+import type { OptionsChainData } from '../lib/optionsChain';
+import { apiClient } from './ApiClient';
+import type { ApiResult } from './ApiClient';
+
+/**
+ * Every listed expiry for `symbol`, nearest first: from the backend, or from
+ * the local generator when the app runs in offline mode.
+ */
+export async function loadOptionChains(symbol: string): Promise<ApiResult<OptionsChainData[]>> {
+  if (dataMode() === 'offline') {
+    return { ok: true, data: generateMockChains(symbol, getBasePrice(symbol)) };
+  }
+  const result = await apiClient.getOptionsChain(symbol);
+  return result.ok ? { ok: true, data: fromChainResponse(result.data) } : result;
+}
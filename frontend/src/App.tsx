@@ -1,92 +1,464 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { TradingChart } from './components/TradingChart';
+import { IndicatorToolbar } from './components/IndicatorToolbar';
+import { VolatilityPanel } from './components/VolatilityPanel';
 import { SignalRService } from './services/signalr';
-import type { MarketData, OptionData } from './services/signalr';
-import type { CandlestickData, LineData } from 'lightweight-charts';
+import type { BacktestConfig, ConnectionState, MarketEvent, OptionData } from './services/signalr';
+import { toUnixSeconds } from './services/marketEvents';
+import { API_BASE_URL, PRICING_RATES } from './services/config';
+import { BAR_INTERVALS, CandleAggregator, mergeBars, updateTail } from './lib/candles';
+import type { Bar, BarInterval, Tick } from './lib/candles';
+import {
+  DEFAULT_BACKTEST_CONFIG,
+  applyBacktestProgress,
+  completeBacktestRun,
+  isBacktestActive,
+  validateBacktestConfig,
+  withStrategyType,
+} from './lib/backtest';
+import type { BacktestRun } from './lib/backtest';
+import { deleteSavedRun, loadSavedRuns, saveRun } from './lib/backtestStore';
+import {
+  applySessionOpen,
+  applyWatchlistEvent,
+  emptyQuote,
+  fetchSessionOpen,
+  loadWatchlist,
+  saveWatchlist,
+} from './lib/watchlist';
+import { loadHistoryPage } from './lib/history';
+import { loadIndicators, saveIndicators } from './lib/indicators';
+import type { IndicatorConfig } from './lib/indicators';
+import { AtmIvTracker, appendIvSample } from './lib/volatility';
+import type { IvSample } from './lib/volatility';
+import type { WatchlistQuote } from './lib/watchlist';
+import { BacktestResults } from './components/BacktestResults';
+import { BacktestComparison } from './components/BacktestComparison';
+import { ConnectionIndicator } from './components/ConnectionIndicator';
+import { Watchlist } from './components/Watchlist';
+import type { LineData, UTCTimestamp } from 'lightweight-charts';
 import * as Tabs from '@radix-ui/react-tabs';
 import { TrendingUp, BarChart3, Settings, Play, Pause } from 'lucide-react';
 
+// Raw trades kept per symbol so bars can be rebuilt when the interval or
+// focused symbol changes
+const MAX_RETAINED_TICKS = 20000;
+
+// Watchlist rows re-render at most this often, however fast quotes arrive
+const QUOTE_FLUSH_MS = 250;
+
+// After a failed history request, scrolling left waits this long before asking again
+const HISTORY_RETRY_MS = 5000;
+
+type HistoryStatus = 'loading' | 'ready' | 'complete' | 'failed';
+
+const HISTORY_NOTES: Record<HistoryStatus, string> = {
+  loading: ' · loading history',
+  ready: '',
+  complete: ' · start of history',
+  failed: ' · history unavailable',
+};
+
+/** History fetched for the chart's symbol and interval; replaced whenever either changes. */
+interface ChartHistory {
+  symbol: string;
+  interval: BarInterval;
+  bars: Bar[];
+  loading: boolean;
+  /** The server has nothing older than the first bar. */
+  complete: boolean;
+  retryAt: number;
+}
+
+const emptyHistory = (symbol: string, interval: BarInterval): ChartHistory =>
+  ({ symbol, interval, bars: [], loading: false, complete: false, retryAt: 0 });
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Empty number inputs read as NaN; show them as blank rather than "NaN"
+const numberInputValue = (value: number) => (Number.isNaN(value) ? '' : value);
+
 interface AppState {
-  marketData: CandlestickData[];
+  /** History joined with live bars. */
+  marketData: Bar[];
+  historyStatus: HistoryStatus;
   optionData: LineData[];
+  impliedVol: IvSample[];
   selectedSymbol: string;
-  isConnected: boolean;
-  backtestRunning: boolean;
+  watchlist: string[];
+  quotes: Record<string, WatchlistQuote>;
+  interval: BarInterval;
+  connectionState: ConnectionState;
+  backtestConfig: BacktestConfig;
+  backtest: BacktestRun | null;
+  savedRuns: BacktestRun[];
+  selectedRunId: string | null;
 }
 
 function App() {
-  const [state, setState] = useState<AppState>({
-    marketData: [],
-    optionData: [],
-    selectedSymbol: 'SPY',
-    isConnected: false,
-    backtestRunning: false,
+  const [state, setState] = useState<AppState>(() => {
+    const watchlist = loadWatchlist();
+    return {
+      marketData: [],
+      historyStatus: 'ready',
+      optionData: [],
+      impliedVol: [],
+      selectedSymbol: watchlist[0] ?? 'SPY',
+      watchlist,
+      quotes: {},
+      interval: '1m',
+      connectionState: 'disconnected',
+      backtestConfig: DEFAULT_BACKTEST_CONFIG,
+      backtest: null,
+      savedRuns: loadSavedRuns(),
+      selectedRunId: null,
+    };
   });
 
-  const [signalRService] = useState(new SignalRService());
+  const [signalRService] = useState(() => new SignalRService());
+  const [resultsView, setResultsView] = useState<'single' | 'compare'>('single');
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(loadIndicators);
+  const selectedSymbolRef = useRef(state.selectedSymbol);
+  const watchlistRef = useRef(state.watchlist);
+  const aggregatorRef = useRef(new CandleAggregator(state.interval));
+  const historyRef = useRef(emptyHistory(state.selectedSymbol, state.interval));
+  const ticksRef = useRef(new Map<string, Tick[]>());
+  const atmIvRef = useRef(new AtmIvTracker(PRICING_RATES));
+  // Quotes are folded in here per event and copied to state on a timer
+  const quotesRef = useRef<Record<string, WatchlistQuote>>({});
+  const quotesDirtyRef = useRef(false);
+  // Watchlist symbols whose session open has been asked for
+  const sessionOpensRef = useRef(new Set<string>());
 
   useEffect(() => {
-    // Initialize SignalR connections
-    const initializeConnections = async () => {
+    // Set by the cleanup, so a connect still in flight from a StrictMode
+    // double mount doesn't open a second hub after disconnect()
+    let cancelled = false;
+
+    // The hubs connect independently; either may be retrying for a long time
+    const connectMarket = async () => {
       try {
-        await signalRService.connectMarketHub('https://localhost:7238');
-        
-        signalRService.onMarketData((data: MarketData) => {
-          const candlestick: CandlestickData = {
-            time: data.time as any,
-            open: data.open,
-            high: data.high,
-            low: data.low,
-            close: data.close,
-          };
-          
-          setState(prev => ({
-            ...prev,
-            marketData: [...prev.marketData.slice(-100), candlestick], // Keep last 100 candles
-          }));
+        signalRService.onMarketStateChange(connectionState => {
+          setState(prev => ({ ...prev, connectionState }));
+        });
+
+        signalRService.onMarketData((event: MarketEvent) => {
+          const time = toUnixSeconds(event.timestampNs);
+          const quotes = quotesRef.current;
+          quotes[event.symbol] = applyWatchlistEvent(quotes[event.symbol] ?? emptyQuote(event.symbol), event, time);
+          quotesDirtyRef.current = true;
+
+          if (event.type !== 'trade') return;
+
+          const tick: Tick = { price: event.price, quantity: event.quantity, time };
+          const ticks = ticksRef.current.get(event.symbol) ?? [];
+          ticks.push(tick);
+          if (ticks.length > MAX_RETAINED_TICKS) {
+            ticks.splice(0, ticks.length - MAX_RETAINED_TICKS);
+          }
+          ticksRef.current.set(event.symbol, ticks);
+
+          if (event.symbol !== selectedSymbolRef.current) return;
+          const bar = aggregatorRef.current.addTick(tick);
+          if (bar) {
+            const history = historyRef.current.bars;
+            const closed = history[history.length - 1];
+            setState(prev => {
+              const marketData = updateTail(prev.marketData, bar, closed);
+              return marketData === prev.marketData ? prev : { ...prev, marketData };
+            });
+          }
         });
 
         signalRService.onOptionData((data: OptionData) => {
+          if (data.underlying !== selectedSymbolRef.current) return;
+
+          const time = toUnixSeconds(data.event.timestampNs);
           const optionPoint: LineData = {
-            time: (Date.now() / 1000) as any,
+            time: Math.floor(time) as UTCTimestamp,
             value: data.price,
           };
-          
-          setState(prev => ({
+
+          const spot = quotesRef.current[data.underlying]?.last;
+          let iv = NaN;
+          if (spot) {
+            atmIvRef.current.update(data, spot, time);
+            iv = atmIvRef.current.atmIv(spot, time);
+          }
+
+          setState(prev => {
+            const last = prev.optionData[prev.optionData.length - 1];
+            const history = last && last.time === optionPoint.time
+              ? prev.optionData.slice(0, -1)
+              : prev.optionData.slice(-100);
+            return {
+              ...prev,
+              optionData: [...history, optionPoint],
+              impliedVol: Number.isNaN(iv) ? prev.impliedVol : appendIvSample(prev.impliedVol, { time: Math.floor(time), iv }),
+            };
+          });
+        });
+
+        // Tracked before connecting, so they are subscribed on every (re)connect
+        for (const symbol of new Set([selectedSymbolRef.current, ...watchlistRef.current])) {
+          await signalRService.subscribeToSymbol(symbol);
+          if (cancelled) return;
+        }
+        await signalRService.connectMarketHub(API_BASE_URL, {
+          binary: import.meta.env.VITE_BINARY_MARKET_DATA === 'true',
+        });
+      } catch (error) {
+        if (!cancelled) console.error('Failed to connect to SignalR:', error);
+      }
+    };
+
+    const connectBacktest = async () => {
+      try {
+        signalRService.onBacktestProgress(update => {
+          setState(prev => (prev.backtest ? { ...prev, backtest: applyBacktestProgress(prev.backtest, update) } : prev));
+        });
+
+        signalRService.onBacktestCompleted(result => {
+          setState(prev => (prev.backtest?.runId === result.runId
+            ? { ...prev, backtest: completeBacktestRun(prev.backtest, result) }
+            : prev));
+        });
+
+        signalRService.onBacktestFailed(failure => {
+          setState(prev => (prev.backtest?.runId === failure.runId ? {
             ...prev,
-            optionData: [...prev.optionData.slice(-100), optionPoint],
-          }));
+            backtest: { ...prev.backtest, status: 'failed', error: failure.message },
+          } : prev));
         });
 
-        setState(prev => ({ ...prev, isConnected: true }));
-        
-        // Subscribe to initial symbol
-        await signalRService.subscribeToSymbol('SPY');
+        await signalRService.connectBacktestHub(API_BASE_URL);
       } catch (error) {
-        console.error('Failed to connect to SignalR:', error);
+        if (!cancelled) console.error('Failed to connect to backtest hub:', error);
       }
     };
 
-    initializeConnections();
+    void connectMarket();
+    void connectBacktest();
 
     return () => {
+      cancelled = true;
       signalRService.disconnect();
     };
   }, [signalRService]);
 
-  const handleSymbolChange = async (symbol: string) => {
-    if (state.isConnected) {
-      await signalRService.unsubscribeFromSymbol(state.selectedSymbol);
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (!quotesDirtyRef.current) return;
+      quotesDirtyRef.current = false;
+      setState(prev => ({ ...prev, quotes: { ...quotesRef.current } }));
+    }, QUOTE_FLUSH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Session opens come from history; until one loads, the first trade stands in
+  useEffect(() => {
+    const seedSessionOpen = async (symbol: string) => {
+      try {
+        const seed = await fetchSessionOpen(symbol);
+        if (!seed || !watchlistRef.current.includes(symbol)) return;
+        quotesRef.current[symbol] = applySessionOpen(quotesRef.current[symbol] ?? emptyQuote(symbol), seed.open, seed.session);
+        quotesDirtyRef.current = true;
+      } catch (error) {
+        console.warn(`No session open from history for ${symbol}:`, error);
+      }
+    };
+
+    state.watchlist.filter(symbol => !sessionOpensRef.current.has(symbol)).forEach(symbol => {
+      sessionOpensRef.current.add(symbol);
+      void seedSessionOpen(symbol);
+    });
+  }, [state.watchlist]);
+
+  // Starts over from live bars alone; history for the new symbol or interval is loaded after
+  const rebuildBars = (symbol: string, interval: BarInterval) => {
+    const aggregator = new CandleAggregator(interval);
+    (ticksRef.current.get(symbol) ?? []).forEach(tick => aggregator.addTick(tick));
+    aggregatorRef.current = aggregator;
+    historyRef.current = emptyHistory(symbol, interval);
+    return [...aggregator.bars];
+  };
+
+  // Loads the latest page of history, or the page before the oldest bar once
+  // there is one. Bars both have are combined.
+  const loadHistory = useCallback(async () => {
+    const history = historyRef.current;
+    if (history.loading || history.complete || Date.now() < history.retryAt) return;
+
+    const before = history.bars[0]?.time;
+    history.loading = true;
+    setState(prev => ({ ...prev, historyStatus: 'loading' }));
+    try {
+      const page = await loadHistoryPage(history.symbol, history.interval, before);
+      // The chart moved to another symbol or interval while this was in flight
+      if (historyRef.current !== history) return;
+      history.bars = mergeBars(page, history.bars);
+      history.complete = before !== undefined && page.length === 0;
+      const marketData = mergeBars(history.bars, aggregatorRef.current.bars);
+      setState(prev => ({ ...prev, marketData, historyStatus: history.complete ? 'complete' : 'ready' }));
+    } catch (error) {
+      console.error(`Failed to load history for ${history.symbol}:`, error);
+      history.retryAt = Date.now() + HISTORY_RETRY_MS;
+      if (historyRef.current === history) {
+        setState(prev => ({ ...prev, historyStatus: 'failed' }));
+      }
+    } finally {
+      history.loading = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [state.selectedSymbol, state.interval, loadHistory]);
+
+  // Subscriptions are tracked while offline and sent once the hub reconnects
+  const subscribe = async (symbol: string) => {
+    try {
       await signalRService.subscribeToSymbol(symbol);
-      setState(prev => ({ 
-        ...prev, 
-        selectedSymbol: symbol,
-        marketData: [],
-        optionData: []
+    } catch (error) {
+      console.error(`Failed to subscribe to ${symbol}:`, error);
+    }
+  };
+
+  // Drop a symbol's feed once neither the watchlist nor the chart uses it
+  const release = async (symbol: string) => {
+    if (watchlistRef.current.includes(symbol) || selectedSymbolRef.current === symbol) return;
+    ticksRef.current.delete(symbol);
+    delete quotesRef.current[symbol];
+    sessionOpensRef.current.delete(symbol);
+    try {
+      await signalRService.unsubscribeFromSymbol(symbol);
+    } catch (error) {
+      console.error(`Failed to unsubscribe from ${symbol}:`, error);
+    }
+  };
+
+  const handleSymbolChange = async (symbol: string) => {
+    const previous = selectedSymbolRef.current;
+    if (symbol === previous) return;
+    selectedSymbolRef.current = symbol;
+    atmIvRef.current.clear();
+    const marketData = rebuildBars(symbol, state.interval);
+    setState(prev => ({ 
+      ...prev, 
+      selectedSymbol: symbol,
+      marketData,
+      optionData: [],
+      impliedVol: []
+    }));
+
+    await subscribe(symbol);
+    await release(previous);
+  };
+
+  const updateIndicators = (configs: IndicatorConfig[]) => {
+    saveIndicators(configs);
+    setIndicators(configs);
+  };
+
+  const updateWatchlist = (watchlist: string[]) => {
+    watchlistRef.current = watchlist;
+    saveWatchlist(watchlist);
+    setState(prev => ({ ...prev, watchlist }));
+  };
+
+  const handleAddSymbol = async (symbol: string) => {
+    updateWatchlist([...watchlistRef.current, symbol]);
+    await subscribe(symbol);
+  };
+
+  const handleRemoveSymbol = async (symbol: string) => {
+    const watchlist = watchlistRef.current.filter(item => item !== symbol);
+    updateWatchlist(watchlist);
+    if (symbol === selectedSymbolRef.current && watchlist.length > 0) {
+      await handleSymbolChange(watchlist[0]);
+    }
+    await release(symbol);
+  };
+
+  const handleIntervalChange = (interval: BarInterval) => {
+    const marketData = rebuildBars(selectedSymbolRef.current, interval);
+    setState(prev => ({ ...prev, interval, marketData }));
+  };
+
+  // Keep completed runs so they can be reopened from the Results tab
+  useEffect(() => {
+    const run = state.backtest;
+    if (run?.status !== 'completed') return;
+    const savedRuns = saveRun(run);
+    setState(prev => ({ ...prev, savedRuns, selectedRunId: run.runId }));
+  }, [state.backtest]);
+
+  const handleDeleteRun = (runId: string) => {
+    const savedRuns = deleteSavedRun(runId);
+    setState(prev => ({ ...prev, savedRuns, selectedRunId: prev.selectedRunId === runId ? null : prev.selectedRunId }));
+  };
+
+  const updateBacktestConfig = (changes: Partial<BacktestConfig>) => {
+    setState(prev => ({ ...prev, backtestConfig: { ...prev.backtestConfig, ...changes } }));
+  };
+
+  const handleStartBacktest = async () => {
+    const config: BacktestConfig = { ...state.backtestConfig, symbol: state.selectedSymbol };
+    setState(prev => ({
+      ...prev,
+      backtest: {
+        runId: '',
+        config,
+        status: 'starting',
+        progress: 0,
+        equity: config.initialCapital,
+        trades: 0,
+        pnl: 0,
+        equityCurve: [],
+        tradeLog: [],
+        startedAt: Date.now(),
+      },
+    }));
+
+    try {
+      const runId = await signalRService.startBacktest(config);
+      setState(prev => (prev.backtest?.status === 'starting'
+        ? { ...prev, backtest: { ...prev.backtest, runId, status: 'running' } }
+        : prev));
+    } catch (error) {
+      console.error('Failed to start backtest:', error);
+      setState(prev => ({
+        ...prev,
+        backtest: prev.backtest && { ...prev.backtest, status: 'failed', error: errorMessage(error) },
       }));
     }
   };
 
+  const handleStopBacktest = async () => {
+    const runId = state.backtest?.runId;
+    if (!runId) return;
+
+    setState(prev => (prev.backtest?.runId === runId
+      ? { ...prev, backtest: { ...prev.backtest, status: 'cancelling' } }
+      : prev));
+
+    try {
+      await signalRService.stopBacktest(runId);
+      setState(prev => (prev.backtest?.runId === runId && prev.backtest.status === 'cancelling'
+        ? { ...prev, backtest: { ...prev.backtest, status: 'cancelled' } }
+        : prev));
+    } catch (error) {
+      console.error('Failed to stop backtest:', error);
+      setState(prev => (prev.backtest?.runId === runId
+        ? { ...prev, backtest: { ...prev.backtest, status: 'failed', error: errorMessage(error) } }
+        : prev));
+    }
+  };
+
+  const backtestActive = isBacktestActive(state.backtest);
+  const backtestErrors = validateBacktestConfig(state.backtestConfig);
+  const { backtestConfig, backtest } = state;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm border-b">
@@ -96,12 +468,10 @@ function App() {
               <TrendingUp className="h-8 w-8 text-blue-600" />
               <h1 className="text-2xl font-bold text-gray-900">Options Trading System</h1>
             </div>
-            <div className="flex items-center space-x-4">
-              <div className={`h-3 w-3 rounded-full ${state.isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
-              <span className="text-sm text-gray-600">
-                {state.isConnected ? 'Connected' : 'Disconnected'}
-              </span>
-            </div>
+            <ConnectionIndicator
+              state={state.connectionState}
+              getLastMessageAt={() => signalRService.lastMessageAt}
+            />
           </div>
         </div>
       </header>
@@ -133,46 +503,74 @@ function App() {
           </Tabs.List>
 
           <Tabs.Content value="chart" className="space-y-6">
+            <Watchlist
+              symbols={state.watchlist}
+              quotes={state.quotes}
+              selectedSymbol={state.selectedSymbol}
+              onSelect={handleSymbolChange}
+              onAdd={handleAddSymbol}
+              onRemove={handleRemoveSymbol}
+            />
+
             <div className="bg-white rounded-lg shadow p-6">
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center space-x-4">
-                  <label className="text-sm font-medium text-gray-700">Symbol:</label>
-                  <select 
-                    value={state.selectedSymbol}
-                    onChange={(e) => handleSymbolChange(e.target.value)}
+                  <span className="text-lg font-semibold text-gray-900">{state.selectedSymbol}</span>
+                  <label className="text-sm font-medium text-gray-700">Interval:</label>
+                  <select
+                    value={state.interval}
+                    onChange={(e) => handleIntervalChange(e.target.value as BarInterval)}
                     className="border border-gray-300 rounded-md px-3 py-1 text-sm"
                   >
-                    <option value="SPY">SPY</option>
-                    <option value="QQQ">QQQ</option>
-                    <option value="IWM">IWM</option>
-                    <option value="AAPL">AAPL</option>
-                    <option value="MSFT">MSFT</option>
+                    {(Object.keys(BAR_INTERVALS) as BarInterval[]).map(interval => (
+                      <option key={interval} value={interval}>{BAR_INTERVALS[interval].label}</option>
+                    ))}
                   </select>
                 </div>
                 <div className="text-sm text-gray-500">
-                  {state.marketData.length} data points
+                  {state.marketData.length} bars{HISTORY_NOTES[state.historyStatus]}
                 </div>
               </div>
-              
+
+              <IndicatorToolbar indicators={indicators} onChange={updateIndicators} />
+
               <TradingChart 
                 data={state.marketData}
+                symbol={state.selectedSymbol}
+                interval={state.interval}
                 optionData={state.optionData}
+                indicators={indicators}
+                onLoadOlder={loadHistory}
                 width={800}
                 height={500}
               />
             </div>
+
+            <VolatilityPanel
+              symbol={state.selectedSymbol}
+              bars={state.marketData}
+              interval={state.interval}
+              samples={state.impliedVol}
+            />
           </Tabs.Content>
 
           <Tabs.Content value="strategies" className="space-y-6">
             <div className="bg-white rounded-lg shadow p-6">
               <h2 className="text-xl font-semibold mb-4">Strategy Configuration</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <fieldset disabled={backtestActive} className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Strategy Type
                     </label>
-                    <select className="w-full border border-gray-300 rounded-md px-3 py-2">
+                    <select
+                      value={backtestConfig.strategyType}
+                      onChange={(e) => setState(prev => ({
+                        ...prev,
+                        backtestConfig: withStrategyType(prev.backtestConfig, e.target.value as BacktestConfig['strategyType']),
+                      }))}
+                      className="w-full border border-gray-300 rounded-md px-3 py-2"
+                    >
                       <option value="covered-call">Covered Call</option>
                       <option value="cash-secured-put">Cash-Secured Put</option>
                     </select>
@@ -183,7 +581,8 @@ function App() {
                     </label>
                     <input 
                       type="number" 
-                      defaultValue={100000}
+                      value={numberInputValue(backtestConfig.initialCapital)}
+                      onChange={(e) => updateBacktestConfig({ initialCapital: e.target.valueAsNumber })}
                       className="w-full border border-gray-300 rounded-md px-3 py-2"
                     />
                   </div>
@@ -194,19 +593,41 @@ function App() {
                     <div className="flex space-x-2">
                       <input 
                         type="number" 
-                        defaultValue={0.15} 
+                        value={numberInputValue(backtestConfig.minDelta)}
+                        onChange={(e) => updateBacktestConfig({ minDelta: e.target.valueAsNumber })}
                         step={0.01}
                         className="flex-1 border border-gray-300 rounded-md px-3 py-2"
                       />
                       <span className="self-center">to</span>
                       <input 
                         type="number" 
-                        defaultValue={0.30} 
+                        value={numberInputValue(backtestConfig.maxDelta)}
+                        onChange={(e) => updateBacktestConfig({ maxDelta: e.target.valueAsNumber })}
                         step={0.01}
                         className="flex-1 border border-gray-300 rounded-md px-3 py-2"
                       />
                     </div>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Date Range
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="date"
+                        value={backtestConfig.startDate}
+                        onChange={(e) => updateBacktestConfig({ startDate: e.target.value })}
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-2"
+                      />
+                      <span className="self-center">to</span>
+                      <input
+                        type="date"
+                        value={backtestConfig.endDate}
+                        onChange={(e) => updateBacktestConfig({ endDate: e.target.value })}
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-2"
+                      />
+                    </div>
+                  </div>
                 </div>
                 <div className="space-y-4">
                   <div>
@@ -215,7 +636,8 @@ function App() {
                     </label>
                     <input 
                       type="number" 
-                      defaultValue={30}
+                      value={numberInputValue(backtestConfig.dte)}
+                      onChange={(e) => updateBacktestConfig({ dte: e.target.valueAsNumber })}
                       className="w-full border border-gray-300 rounded-md px-3 py-2"
                     />
                   </div>
@@ -225,74 +647,106 @@ function App() {
                     </label>
                     <input 
                       type="number" 
-                      defaultValue={0.65} 
+                      value={numberInputValue(backtestConfig.commissionPerContract)}
+                      onChange={(e) => updateBacktestConfig({ commissionPerContract: e.target.valueAsNumber })}
                       step={0.01}
                       className="w-full border border-gray-300 rounded-md px-3 py-2"
                     />
                   </div>
-                  <button 
-                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 flex items-center justify-center space-x-2"
-                    onClick={() => setState(prev => ({ ...prev, backtestRunning: !prev.backtestRunning }))}
+                  {backtestErrors.length > 0 && (
+                    <ul className="text-sm text-red-600 list-disc list-inside">
+                      {backtestErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                </div>
+              </fieldset>
+
+              <div className="mt-6 space-y-4">
+                {backtestActive ? (
+                  <button
+                    className="w-full bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 flex items-center justify-center space-x-2 disabled:opacity-50"
+                    onClick={handleStopBacktest}
+                    disabled={!backtest?.runId || backtest.status === 'cancelling'}
                   >
-                    {state.backtestRunning ? (
-                      <>
-                        <Pause className="h-4 w-4" />
-                        <span>Stop Backtest</span>
-                      </>
-                    ) : (
-                      <>
-                        <Play className="h-4 w-4" />
-                        <span>Run Backtest</span>
-                      </>
-                    )}
+                    <Pause className="h-4 w-4" />
+                    <span>{backtest?.status === 'cancelling' ? 'Stopping...' : 'Stop Backtest'}</span>
                   </button>
-                </div>
+                ) : (
+                  <button
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 flex items-center justify-center space-x-2 disabled:opacity-50"
+                    onClick={handleStartBacktest}
+                    disabled={backtestErrors.length > 0}
+                  >
+                    <Play className="h-4 w-4" />
+                    <span>Run Backtest on {state.selectedSymbol}</span>
+                  </button>
+                )}
+
+                {backtest && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span className="capitalize">{backtest.status}</span>
+                      <span>{backtest.progress.toFixed(1)}%</span>
+                    </div>
+                    <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full transition-all ${
+                          backtest.status === 'failed' ? 'bg-red-500' : backtest.status === 'completed' ? 'bg-green-500' : 'bg-blue-600'
+                        }`}
+                        style={{ width: `${backtest.progress}%` }}
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-600">Equity</div>
+                        <div className="font-medium">${backtest.equity.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Trades</div>
+                        <div className="font-medium">{backtest.trades}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">P&L</div>
+                        <div className={`font-medium ${backtest.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {backtest.pnl >= 0 ? '+' : '-'}${Math.abs(backtest.pnl).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                        </div>
+                      </div>
+                    </div>
+                    {backtest.error && (
+                      <p className="text-sm text-red-600">Backtest failed: {backtest.error}</p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </Tabs.Content>
 
           <Tabs.Content value="results" className="space-y-6">
             <div className="bg-white rounded-lg shadow p-6">
-              <h2 className="text-xl font-semibold mb-4">Backtest Results</h2>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="text-center p-4 bg-gray-50 rounded-lg">
-                  <div className="text-2xl font-bold text-green-600">+12.5%</div>
-                  <div className="text-sm text-gray-600">Total Return</div>
-                </div>
-                <div className="text-center p-4 bg-gray-50 rounded-lg">
-                  <div className="text-2xl font-bold text-blue-600">1.23</div>
-                  <div className="text-sm text-gray-600">Sharpe Ratio</div>
-                </div>
-                <div className="text-center p-4 bg-gray-50 rounded-lg">
-                  <div className="text-2xl font-bold text-red-600">-5.2%</div>
-                  <div className="text-sm text-gray-600">Max Drawdown</div>
-                </div>
-              </div>
-              <div className="mt-6">
-                <h3 className="text-lg font-medium mb-2">Recent Trades</h3>
-                <div className="overflow-x-auto">
-                  <table className="min-w-full table-auto">
-                    <thead>
-                      <tr className="border-b">
-                        <th className="text-left py-2">Date</th>
-                        <th className="text-left py-2">Symbol</th>
-                        <th className="text-left py-2">Type</th>
-                        <th className="text-left py-2">Strike</th>
-                        <th className="text-left py-2">P&L</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      <tr className="border-b">
-                        <td className="py-2">2024-01-15</td>
-                        <td className="py-2">SPY</td>
-                        <td className="py-2">Call</td>
-                        <td className="py-2">$485</td>
-                        <td className="py-2 text-green-600">+$125</td>
-                      </tr>
-                    </tbody>
-                  </table>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">Backtest Results</h2>
+                <div className="flex space-x-1 bg-gray-100 p-1 rounded-md text-sm">
+                  {(['single', 'compare'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setResultsView(view)}
+                      className={`px-3 py-1 rounded ${resultsView === view ? 'bg-white shadow-sm font-medium' : 'text-gray-600'}`}
+                    >
+                      {view === 'single' ? 'Single Run' : 'Compare Runs'}
+                    </button>
+                  ))}
                 </div>
               </div>
+              {resultsView === 'single' ? (
+                <BacktestResults
+                  runs={state.savedRuns}
+                  selectedRunId={state.selectedRunId}
+                  onSelectRun={(runId) => setState(prev => ({ ...prev, selectedRunId: runId }))}
+                  onDeleteRun={handleDeleteRun}
+                />
+              ) : (
+                <BacktestComparison runs={state.savedRuns} />
+              )}
             </div>
           </Tabs.Content>
         </Tabs.Root>
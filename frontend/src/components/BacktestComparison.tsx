@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { PERFORMANCE_METRICS, formatMetric, summarizePerformance } from '../lib/performance';
+import { COMPARISON_COLORS, MAX_COMPARED_RUNS, bestRunIndex, configDifferences, normalizedCurves } from '../lib/comparison';
+import { runLabel } from '../lib/backtest';
+import type { BacktestRun } from '../lib/backtest';
+import type { BacktestConfig } from '../services/signalr';
+
+interface BacktestComparisonProps {
+  runs: BacktestRun[];
+}
+
+const CONFIG_LABELS: Record<keyof BacktestConfig, string> = {
+  strategyType: 'Strategy',
+  symbol: 'Symbol',
+  initialCapital: 'Initial Capital',
+  minDelta: 'Min Delta',
+  maxDelta: 'Max Delta',
+  dte: 'DTE',
+  commissionPerContract: 'Commission / Contract',
+  startDate: 'Start',
+  endDate: 'End',
+};
+
+export const BacktestComparison: React.FC<BacktestComparisonProps> = ({ runs }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => runs.slice(0, 2).map(run => run.runId));
+
+  // Selection order sets the colours; runs deleted since are dropped
+  const selected = useMemo(
+    () => selectedIds.flatMap(id => runs.filter(run => run.runId === id)),
+    [selectedIds, runs],
+  );
+  const summaries = useMemo(
+    () => selected.map(run => summarizePerformance(run.equityCurve, run.tradeLog, run.config.initialCapital)),
+    [selected],
+  );
+  const curves = useMemo(() => normalizedCurves(selected), [selected]);
+  const differences = useMemo(() => configDifferences(selected), [selected]);
+
+  const toggleRun = (runId: string) => {
+    setSelectedIds(prev => prev.includes(runId)
+      ? prev.filter(id => id !== runId)
+      : prev.length < MAX_COMPARED_RUNS ? [...prev, runId] : prev);
+  };
+
+  if (runs.length < 2) {
+    return (
+      <div className="text-center text-gray-500 py-8">
+        Complete at least two backtests to compare them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">
+          Runs to compare <span className="text-gray-500 font-normal">(up to {MAX_COMPARED_RUNS})</span>
+        </h3>
+        <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+          {runs.map(run => {
+            const index = selected.findIndex(candidate => candidate.runId === run.runId);
+            return (
+              <label key={run.runId} className="flex items-center px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={index >= 0}
+                  disabled={index < 0 && selected.length >= MAX_COMPARED_RUNS}
+                  onChange={() => toggleRun(run.runId)}
+                  className="mr-2"
+                />
+                <span
+                  className="inline-block w-3 h-3 rounded-full mr-2"
+                  style={{ backgroundColor: index >= 0 ? COMPARISON_COLORS[index] : 'transparent' }}
+                />
+                <span className="flex-1">{runLabel(run)}</span>
+                <span className="text-xs text-gray-500">{new Date(run.completedAt ?? run.startedAt).toLocaleString()}</span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {selected.length < 2 ? (
+        <div className="text-center text-gray-500 py-8">Pick at least two runs.</div>
+      ) : (
+        <>
+          <div>
+            <h3 className="text-lg font-medium mb-2">Return Since Start</h3>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={curves} margin={{ top: 10, right: 20, bottom: 0, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="day"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(day: number) => `D${day}`}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <YAxis tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`} tick={{ fontSize: 11 }} />
+                  <Tooltip
+                    formatter={(value, name) => [
+                      formatMetric(Number(value), 'percent'),
+                      runLabel(selected.find(run => run.runId === name) ?? selected[0]),
+                    ]}
+                    labelFormatter={(day) => `Day ${day}`}
+                  />
+                  <Legend formatter={(name) => runLabel(selected.find(run => run.runId === name) ?? selected[0])} />
+                  <ReferenceLine y={0} stroke="#9ca3af" strokeDasharray="4 4" />
+                  {selected.map((run, index) => (
+                    <Line
+                      key={run.runId}
+                      type="monotone"
+                      dataKey={run.runId}
+                      stroke={COMPARISON_COLORS[index]}
+                      dot={false}
+                      strokeWidth={2}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-medium mb-2">Metrics</h3>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs text-gray-600">
+                  <th className="px-3 py-2">Metric</th>
+                  {selected.map((run, index) => (
+                    <th key={run.runId} className="px-3 py-2 text-right">
+                      <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: COMPARISON_COLORS[index] }} />
+                      {runLabel(run)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {PERFORMANCE_METRICS.map(metric => {
+                  const best = bestRunIndex(summaries, metric);
+                  return (
+                    <tr key={metric.key} className="border-b border-gray-100">
+                      <td className="px-3 py-2 text-gray-700">{metric.label}</td>
+                      {summaries.map((summary, index) => (
+                        <td
+                          key={selected[index].runId}
+                          className={`px-3 py-2 text-right font-mono ${best === index ? 'bg-green-50 text-green-700 font-semibold' : 'text-gray-900'}`}
+                        >
+                          {formatMetric(summary[metric.key], metric.format)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium mb-2">Config Differences</h3>
+            {differences.length === 0 ? (
+              <p className="text-sm text-gray-500">The selected runs used identical configs.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <tbody>
+                  {differences.map(({ key, values }) => (
+                    <tr key={key} className="border-b border-gray-100">
+                      <td className="px-3 py-2 text-gray-700">{CONFIG_LABELS[key]}</td>
+                      {values.map((value, index) => (
+                        <td key={selected[index].runId} className="px-3 py-2 text-right font-mono">
+                          {String(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
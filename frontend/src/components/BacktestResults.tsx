@@ -0,0 +1,181 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Trash2 } from 'lucide-react';
+import { TradeBlotter } from './TradeBlotter';
+import { TradingChart } from './TradingChart';
+import { PERFORMANCE_METRICS, drawdownSeries, formatMetric, summarizePerformance } from '../lib/performance';
+import type { PerformanceSummary } from '../lib/performance';
+import { runLabel } from '../lib/backtest';
+import { SIGNAL_STYLES, chartSignals, priceBars } from '../lib/signals';
+import type { ChartSignal } from '../lib/signals';
+import type { BacktestRun } from '../lib/backtest';
+
+interface BacktestResultsProps {
+  runs: BacktestRun[];
+  selectedRunId: string | null;
+  onSelectRun: (runId: string) => void;
+  onDeleteRun: (runId: string) => void;
+}
+
+const metricColor = (key: keyof PerformanceSummary, value: number) => {
+  if (Number.isNaN(value)) return 'text-gray-900';
+  if (key === 'maxDrawdown' || key === 'averageLoss') return 'text-red-600';
+  if (key === 'totalReturn' || key === 'annualizedReturn' || key === 'expectancy') {
+    return value >= 0 ? 'text-green-600' : 'text-red-600';
+  }
+  return 'text-gray-900';
+};
+
+const formatAxisDate = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+export const BacktestResults: React.FC<BacktestResultsProps> = ({
+  runs,
+  selectedRunId,
+  onSelectRun,
+  onDeleteRun
+}) => {
+  const [selectedTradeId, setSelectedTradeId] = useState<string | null>(null);
+  const run = runs.find(saved => saved.runId === selectedRunId) ?? runs[0];
+
+  const summary = useMemo(
+    () => (run ? summarizePerformance(run.equityCurve, run.tradeLog, run.config.initialCapital) : null),
+    [run],
+  );
+  const drawdowns = useMemo(() => (run ? drawdownSeries(run.equityCurve, run.config.initialCapital) : []), [run]);
+  const bars = useMemo(() => priceBars(run?.priceHistory ?? []), [run]);
+  const signals = useMemo(
+    () => (run ? chartSignals(run.signals ?? [], bars, new Set(run.tradeLog.map(trade => trade.id))) : []),
+    [run, bars],
+  );
+  const selectSignal = useCallback((placed: ChartSignal) => {
+    if (placed.tradeIds.length > 0) setSelectedTradeId(placed.tradeIds[0]);
+  }, []);
+
+  if (!run || !summary) {
+    return (
+      <div className="text-center text-gray-500 py-8">
+        No completed backtests yet. Run one from the Strategies tab.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <label className="text-sm font-medium text-gray-700">Run:</label>
+        <select
+          value={run.runId}
+          onChange={(e) => onSelectRun(e.target.value)}
+          className="flex-1 border border-gray-300 rounded-md px-3 py-1 text-sm"
+        >
+          {runs.map(saved => (
+            <option key={saved.runId} value={saved.runId}>
+              {new Date(saved.completedAt ?? saved.startedAt).toLocaleString()} — {runLabel(saved)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => onDeleteRun(run.runId)}
+          className="p-2 text-gray-500 hover:text-red-600"
+          title="Delete run"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {PERFORMANCE_METRICS.map(({ key, label, format }) => (
+          <div key={key} className="text-center p-3 bg-gray-50 rounded-lg">
+            <div className={`text-xl font-bold ${metricColor(key, summary[key])}`}>
+              {formatMetric(summary[key], format)}
+            </div>
+            <div className="text-xs text-gray-600">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-medium mb-2">Equity Curve</h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={run.equityCurve} margin={{ top: 10, right: 20, bottom: 0, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatAxisDate} tick={{ fontSize: 11 }} />
+              <YAxis domain={['auto', 'auto']} tickFormatter={(value: number) => `$${(value / 1000).toFixed(0)}k`} tick={{ fontSize: 11 }} />
+              <Tooltip
+                formatter={(value) => [formatMetric(Number(value), 'currency'), 'Equity']}
+                labelFormatter={(time) => formatAxisDate(Number(time))}
+              />
+              <ReferenceLine y={run.config.initialCapital} stroke="#9ca3af" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="equity" stroke="#2563eb" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-medium mb-2">Drawdown</h3>
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={drawdowns} margin={{ top: 10, right: 20, bottom: 0, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatAxisDate} tick={{ fontSize: 11 }} />
+              <YAxis domain={['auto', 0]} tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`} tick={{ fontSize: 11 }} />
+              <Tooltip
+                formatter={(value) => [formatMetric(Number(value), 'percent'), 'Drawdown']}
+                labelFormatter={(time) => formatAxisDate(Number(time))}
+              />
+              <Area type="monotone" dataKey="drawdown" stroke="#dc2626" fill="#fecaca" />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {bars.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-medium">Price &amp; Signals</h3>
+            <div className="flex items-center space-x-3 text-xs text-gray-600">
+              {Object.values(SIGNAL_STYLES).map(style => (
+                <span key={style.label} className="inline-flex items-center">
+                  <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: style.color }} />
+                  {style.label}
+                </span>
+              ))}
+            </div>
+          </div>
+          <TradingChart
+            key={run.runId}
+            data={bars}
+            symbol={run.config.symbol}
+            signals={signals}
+            selectedTradeId={selectedTradeId}
+            onSelectSignal={selectSignal}
+            height={320}
+          />
+          <p className="mt-1 text-xs text-gray-500">Hover a marker for its legs and reason; click it to find the trade below.</p>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-medium mb-2">Trades</h3>
+        <TradeBlotter
+          trades={run.tradeLog}
+          selectedTradeId={selectedTradeId}
+          onSelectTrade={setSelectedTradeId}
+        />
+      </div>
+    </div>
+  );
+};
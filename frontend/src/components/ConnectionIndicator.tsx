@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import type { ConnectionState } from '../services/signalr';
+
+interface ConnectionIndicatorProps {
+  state: ConnectionState;
+  /** Read on every refresh rather than passed as state, since it changes per message. */
+  getLastMessageAt: () => number | null;
+}
+
+const STATE_STYLES: Record<ConnectionState, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Connecting' },
+  connected: { dot: 'bg-green-500', label: 'Connected' },
+  reconnecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Reconnecting' },
+  disconnected: { dot: 'bg-red-500', label: 'Disconnected' },
+};
+
+// A connected feed with nothing for this long is shown as stale
+const STALE_AFTER_MS = 10000;
+
+const formatAge = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+};
+
+export const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({ state, getLastMessageAt }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const lastMessageAt = getLastMessageAt();
+  const age = lastMessageAt === null ? null : Math.max(0, now - lastMessageAt);
+  const stale = state === 'connected' && age !== null && age > STALE_AFTER_MS;
+  const { dot, label } = STATE_STYLES[state];
+
+  return (
+    <div className="flex items-center space-x-2" title={stale ? 'Connected, but no recent market data' : undefined}>
+      <div className={`h-3 w-3 rounded-full ${stale ? 'bg-orange-400' : dot}`} />
+      <span className="text-sm text-gray-600">{label}</span>
+      <span className={`text-xs ${stale ? 'text-orange-600' : 'text-gray-400'}`}>
+        {age === null ? 'no data yet' : `last message ${formatAge(age)}`}
+      </span>
+    </div>
+  );
+};
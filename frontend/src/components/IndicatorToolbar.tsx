@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { INDICATORS, indicatorLabel, newIndicator } from '../lib/indicators';
+import type { IndicatorConfig, IndicatorKind } from '../lib/indicators';
+
+interface IndicatorToolbarProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+export const IndicatorToolbar: React.FC<IndicatorToolbarProps> = ({ indicators, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const addIndicator = (kind: IndicatorKind) => {
+    const config = newIndicator(kind, indicators);
+    onChange([...indicators, config]);
+    if (INDICATORS[kind].params.length > 0) setEditingId(config.id);
+  };
+
+  const updateParam = (id: string, key: string, value: number) => {
+    onChange(indicators.map(config => (config.id === id ? { ...config, params: { ...config.params, [key]: value } } : config)));
+  };
+
+  const removeIndicator = (id: string) => {
+    onChange(indicators.filter(config => config.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const editing = indicators.find(config => config.id === editingId);
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => addIndicator(e.target.value as IndicatorKind)}
+          aria-label="Add indicator"
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+        >
+          <option value="" disabled>Add indicator…</option>
+          {(Object.keys(INDICATORS) as IndicatorKind[]).map(kind => (
+            <option key={kind} value={kind}>{INDICATORS[kind].label}</option>
+          ))}
+        </select>
+        {indicators.map(config => (
+          <span
+            key={config.id}
+            className={`inline-flex items-center rounded-full border text-xs ${
+              config.id === editingId ? 'border-blue-400 bg-blue-50' : 'border-gray-300 bg-gray-50'
+            }`}
+          >
+            <button
+              onClick={() => setEditingId(config.id === editingId ? null : config.id)}
+              disabled={INDICATORS[config.kind].params.length === 0}
+              className="inline-flex items-center pl-2 pr-1 py-0.5 text-gray-700"
+              title={INDICATORS[config.kind].params.length > 0 ? 'Edit parameters' : undefined}
+            >
+              <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: config.color }} />
+              {indicatorLabel(config)}
+            </button>
+            <button
+              onClick={() => removeIndicator(config.id)}
+              className="pr-2 pl-0.5 py-0.5 text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${indicatorLabel(config)}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="flex flex-wrap items-end gap-3 text-xs text-gray-600">
+          <span className="font-medium text-gray-700">{INDICATORS[editing.kind].label}</span>
+          {INDICATORS[editing.kind].params.map(param => (
+            <label key={param.key} className="block">
+              <span className="block mb-0.5">{param.label}</span>
+              <input
+                type="number"
+                min={param.min}
+                step={param.step}
+                value={editing.params[param.key] ?? param.defaultValue}
+                onChange={(e) => {
+                  const parsed = parseFloat(e.target.value);
+                  if (!Number.isNaN(parsed)) updateParam(editing.id, param.key, Math.max(param.min, parsed));
+                }}
+                className="w-16 border border-gray-300 rounded px-2 py-0.5"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
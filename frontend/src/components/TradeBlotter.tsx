@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import type { BacktestTrade } from '../services/signalr';
+
+interface TradeBlotterProps {
+  trades: BacktestTrade[];
+  selectedTradeId?: string | null;
+  onSelectTrade?: (tradeId: string) => void;
+  pageSize?: number;
+}
+
+type SortKey = 'entryTime' | 'exitTime' | 'symbol' | 'optionType' | 'strike' | 'quantity' | 'entryPrice' | 'exitPrice' | 'pnl';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'entryTime', label: 'Opened' },
+  { key: 'exitTime', label: 'Closed' },
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'optionType', label: 'Type' },
+  { key: 'strike', label: 'Strike', numeric: true },
+  { key: 'quantity', label: 'Qty', numeric: true },
+  { key: 'entryPrice', label: 'Entry', numeric: true },
+  { key: 'exitPrice', label: 'Exit', numeric: true },
+  { key: 'pnl', label: 'P&L', numeric: true },
+];
+
+const formatDate = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+const formatType = (type: BacktestTrade['optionType']) => type.charAt(0).toUpperCase() + type.slice(1);
+
+const compareTrades = (a: BacktestTrade, b: BacktestTrade, key: SortKey) => {
+  const [left, right] = [a[key], b[key]];
+  if (left === right) return 0;
+  // Nulls (stock legs have no strike) sort last either way
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return left < right ? -1 : 1;
+};
+
+export const TradeBlotter: React.FC<TradeBlotterProps> = ({
+  trades,
+  selectedTradeId,
+  onSelectTrade,
+  pageSize = 20
+}) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'entryTime', descending: true });
+  const [page, setPage] = useState(0);
+
+  const sorted = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...trades].sort((a, b) => {
+      const order = compareTrades(a, b, sort.key);
+      return (a[sort.key] === null || b[sort.key] === null) ? order : order * direction;
+    });
+  }, [trades, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = sorted.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  // Bring an externally selected trade into view
+  useEffect(() => {
+    if (!selectedTradeId) return;
+    const index = sorted.findIndex(trade => trade.id === selectedTradeId);
+    if (index >= 0) {
+      setPage(Math.floor(index / pageSize));
+    }
+  }, [selectedTradeId, sorted, pageSize]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+    setPage(0);
+  };
+
+  if (trades.length === 0) {
+    return <div className="text-sm text-gray-500 py-4">No trades in this run</div>;
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full table-auto text-sm">
+          <thead>
+            <tr className="border-b">
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  onClick={() => toggleSort(column.key)}
+                  className={`py-2 px-2 cursor-pointer select-none ${column.numeric ? 'text-right' : 'text-left'}`}
+                >
+                  <span className="inline-flex items-center space-x-1">
+                    <span>{column.label}</span>
+                    {sort.key === column.key && (sort.descending
+                      ? <ChevronDown className="h-3 w-3" />
+                      : <ChevronUp className="h-3 w-3" />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(trade => (
+              <tr
+                key={trade.id}
+                onClick={() => onSelectTrade?.(trade.id)}
+                className={`border-b ${onSelectTrade ? 'cursor-pointer hover:bg-gray-50' : ''} ${
+                  trade.id === selectedTradeId ? 'bg-blue-50' : ''
+                }`}
+              >
+                <td className="py-2 px-2">{formatDate(trade.entryTime)}</td>
+                <td className="py-2 px-2">{formatDate(trade.exitTime)}</td>
+                <td className="py-2 px-2">{trade.symbol}</td>
+                <td className="py-2 px-2">{formatType(trade.optionType)}</td>
+                <td className="py-2 px-2 text-right">{trade.strike === null ? '—' : `$${trade.strike}`}</td>
+                <td className="py-2 px-2 text-right">{trade.quantity}</td>
+                <td className="py-2 px-2 text-right">${trade.entryPrice.toFixed(2)}</td>
+                <td className="py-2 px-2 text-right">${trade.exitPrice.toFixed(2)}</td>
+                <td className={`py-2 px-2 text-right ${trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {trade.pnl >= 0 ? '+' : '-'}${Math.abs(trade.pnl).toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between mt-3 text-sm text-gray-600">
+        <span>
+          {currentPage * pageSize + 1}–{Math.min((currentPage + 1) * pageSize, sorted.length)} of {sorted.length} trades
+        </span>
+        <div className="space-x-2">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
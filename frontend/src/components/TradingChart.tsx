@@ -1,24 +1,124 @@
-import React, { useEffect, useRef } from 'react';
-import { createChart } from 'lightweight-charts';
-import type { IChartApi, ISeriesApi, CandlestickData, LineData } from 'lightweight-charts';
+import React, { useEffect, useRef, useState } from 'react';
+import { createChart, createSeriesMarkers, CandlestickSeries, HistogramSeries, LineSeries, LineStyle } from 'lightweight-charts';
+import type {
+  IChartApi,
+  ISeriesApi,
+  ISeriesMarkersPluginApi,
+  HistogramData,
+  LineData,
+  MouseEventParams,
+  SeriesType,
+  Time,
+  UTCTimestamp,
+  WhitespaceData,
+} from 'lightweight-charts';
+import { BAR_INTERVALS } from '../lib/candles';
+import type { Bar, BarInterval } from '../lib/candles';
+import { INDICATORS, IndicatorStream } from '../lib/indicators';
+import type { IndicatorConfig, IndicatorLine, IndicatorPoint } from '../lib/indicators';
+import { SIGNAL_STYLES, describeOrder, signalMarkers } from '../lib/signals';
+import type { ChartSignal } from '../lib/signals';
 
 interface TradingChartProps {
-  data: CandlestickData[];
+  data: Bar[];
+  symbol: string;
+  /** Omitted for daily bars, such as a backtest's price history. */
+  interval?: BarInterval;
   optionData?: LineData[];
+  indicators?: IndicatorConfig[];
+  signals?: ChartSignal[];
+  /** Signals touching this trade are drawn larger. */
+  selectedTradeId?: string | null;
+  onSelectSignal?: (signal: ChartSignal) => void;
+  /** Called as the view nears the first bar, to prepend older history. */
+  onLoadOlder?: () => void;
   width?: number;
   height?: number;
 }
 
-export const TradingChart: React.FC<TradingChartProps> = ({ 
-  data, 
-  optionData, 
-  width = 800, 
-  height = 400 
+const toVolume = (bar: Bar): HistogramData<UTCTimestamp> => ({
+  time: bar.time,
+  value: bar.volume,
+  color: bar.close >= bar.open ? 'rgba(34, 197, 94, 0.4)' : 'rgba(239, 68, 68, 0.4)',
+});
+
+interface RenderedIndicator {
+  stream: IndicatorStream;
+  series: { line: IndicatorLine; api: ISeriesApi<SeriesType> }[];
+}
+
+// Each oscillator pane adds this much to the chart height, so the price pane keeps its size
+const INDICATOR_PANE_HEIGHT = 120;
+
+const NO_INDICATORS: IndicatorConfig[] = [];
+
+const NO_SIGNALS: ChartSignal[] = [];
+
+// Bars left of the view's left edge at which older history is asked for
+const LOAD_OLDER_MARGIN = 20;
+
+const formatSignalTime = (time: number) => new Date(time * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+const toIndicatorData = (
+  point: IndicatorPoint,
+  line: IndicatorLine,
+): LineData<UTCTimestamp> | HistogramData<UTCTimestamp> | WhitespaceData<UTCTimestamp> => {
+  const value = point.values[line.key];
+  if (!Number.isFinite(value)) return { time: point.time };
+  if (line.style === 'histogram') {
+    return { time: point.time, value, color: value >= 0 ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)' };
+  }
+  return { time: point.time, value };
+};
+
+const addIndicatorSeries = (chart: IChartApi, line: IndicatorLine, color: string, paneIndex: number): ISeriesApi<SeriesType> => {
+  const common = { priceLineVisible: false, lastValueVisible: line.style !== 'histogram' };
+  if (line.style === 'histogram') {
+    return chart.addSeries(HistogramSeries, common, paneIndex) as ISeriesApi<SeriesType>;
+  }
+  return chart.addSeries(LineSeries, {
+    ...common,
+    color: line.color ?? color,
+    lineWidth: 1,
+    lineStyle: line.style === 'dashed' ? LineStyle.Dashed : LineStyle.Solid,
+    crosshairMarkerVisible: false,
+  }, paneIndex) as ISeriesApi<SeriesType>;
+};
+
+export const TradingChart: React.FC<TradingChartProps> = ({
+  data,
+  symbol,
+  interval,
+  optionData,
+  indicators = NO_INDICATORS,
+  signals = NO_SIGNALS,
+  selectedTradeId = null,
+  onSelectSignal,
+  onLoadOlder,
+  width = 800,
+  height = 400
 }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const optionSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  // What the candle series currently shows, so a tick into the last bar can
+  // go through series.update() instead of redrawing everything.
+  const renderedRef = useRef<{ key: string; firstTime: number | null; lastTime: number | null }>({
+    key: '',
+    firstTime: null,
+    lastTime: null,
+  });
+  const hasOptionData = optionData !== undefined;
+  const dataRef = useRef<Bar[]>(data);
+  const indicatorsRef = useRef<RenderedIndicator[]>([]);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  // Read by the chart's mouse handlers, which are subscribed once per chart
+  const signalsRef = useRef(signals);
+  const onSelectSignalRef = useRef(onSelectSignal);
+  const onLoadOlderRef = useRef(onLoadOlder);
+  const [hovered, setHovered] = useState<{ signal: ChartSignal; x: number; y: number } | null>(null);
 
   useEffect(() => {
     if (!chartContainerRef.current) return;
@@ -51,7 +151,7 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     chartRef.current = chart;
 
     // Add candlestick series
-    const candlestickSeries = chart.addSeries('Candlestick', {
+    const candlestickSeries = chart.addSeries(CandlestickSeries, {
       upColor: '#22c55e',
       downColor: '#ef4444',
       borderDownColor: '#ef4444',
@@ -61,16 +161,44 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     });
 
     candlestickSeriesRef.current = candlestickSeries;
+    markersRef.current = createSeriesMarkers(candlestickSeries, []);
+
+    // Markers report their id as the hovered object
+    const signalAt = (param: MouseEventParams) =>
+      signalsRef.current.find(placed => placed.id === param.hoveredObjectId);
+    chart.subscribeCrosshairMove(param => {
+      const signal = signalAt(param);
+      setHovered(signal && param.point ? { signal, x: param.point.x, y: param.point.y } : null);
+    });
+    chart.subscribeClick(param => {
+      const signal = signalAt(param);
+      if (signal) onSelectSignalRef.current?.(signal);
+    });
+
+    chart.timeScale().subscribeVisibleLogicalRangeChange(range => {
+      if (range && range.from < LOAD_OLDER_MARGIN) onLoadOlderRef.current?.();
+    });
+
+    // Volume histogram overlaid along the bottom of the price pane
+    const volumeSeries = chart.addSeries(HistogramSeries, {
+      priceFormat: { type: 'volume' },
+      priceScaleId: '',
+    });
+    volumeSeries.priceScale().applyOptions({
+      scaleMargins: { top: 0.8, bottom: 0 },
+    });
+
+    volumeSeriesRef.current = volumeSeries;
+    renderedRef.current = { key: '', firstTime: null, lastTime: null };
 
     // Add option series if data is provided
-    if (optionData) {
-      const optionSeries = chart.addSeries('Line', {
+    if (hasOptionData) {
+      const optionSeries = chart.addSeries(LineSeries, {
         color: '#3b82f6',
         lineWidth: 2,
         priceScaleId: 'right',
       });
       optionSeriesRef.current = optionSeries;
-      optionSeries.setData(optionData);
     }
 
     // Handle resize
@@ -87,14 +215,111 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     return () => {
       window.removeEventListener('resize', handleResize);
       chart.remove();
+      chartRef.current = null;
+      candlestickSeriesRef.current = null;
+      markersRef.current = null;
+      volumeSeriesRef.current = null;
+      optionSeriesRef.current = null;
     };
-  }, [width, height]);
+  }, [width, height, hasOptionData]);
+
+  useEffect(() => {
+    chartRef.current?.applyOptions({
+      timeScale: {
+        timeVisible: interval !== undefined,
+        secondsVisible: interval !== undefined && BAR_INTERVALS[interval].seconds < 60,
+      },
+    });
+  }, [interval]);
 
   useEffect(() => {
-    if (candlestickSeriesRef.current && data.length > 0) {
-      candlestickSeriesRef.current.setData(data);
+    const candles = candlestickSeriesRef.current;
+    const volume = volumeSeriesRef.current;
+    dataRef.current = data;
+    if (!candles || !volume) return;
+
+    const key = `${symbol}:${interval}`;
+    const rendered = renderedRef.current;
+    const first = data[0];
+    const last = data[data.length - 1];
+    const previous = data[data.length - 2];
+
+    // Only the in-progress bar changed, or exactly one bar was appended; older
+    // history prepended in front of the first bar needs a full redraw
+    const incremental =
+      rendered.key === key &&
+      first?.time === rendered.firstTime &&
+      rendered.lastTime !== null &&
+      last !== undefined &&
+      last.time >= rendered.lastTime &&
+      (previous === undefined || previous.time <= rendered.lastTime);
+
+    if (incremental) {
+      candles.update(last);
+      volume.update(toVolume(last));
+      // A new bar closes the one before it, so let the indicators see its final values first
+      const bars = previous !== undefined && previous.time === rendered.lastTime && last.time > previous.time
+        ? [previous, last]
+        : [last];
+      indicatorsRef.current.forEach(({ stream, series }) => {
+        bars.forEach(bar => {
+          const point = stream.update(bar);
+          if (point) series.forEach(({ line, api }) => api.update(toIndicatorData(point, line)));
+        });
+      });
+    } else {
+      candles.setData(data);
+      volume.setData(data.map(toVolume));
+      indicatorsRef.current.forEach(({ stream, series }) => {
+        const points = stream.reset(data);
+        series.forEach(({ line, api }) => api.setData(points.map(point => toIndicatorData(point, line))));
+      });
     }
-  }, [data]);
+
+    renderedRef.current = { key, firstTime: first ? first.time : null, lastTime: last ? last.time : null };
+  }, [data, symbol, interval]);
+
+  // Indicator series are rebuilt whenever the set or a parameter changes; panes are numbered in toolbar order
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    const paneIndicators = indicators.filter(config => INDICATORS[config.kind].placement === 'pane');
+    chart.applyOptions({ height: height + paneIndicators.length * INDICATOR_PANE_HEIGHT });
+
+    const rendered = indicators.map(config => {
+      const definition = INDICATORS[config.kind];
+      const paneIndex = definition.placement === 'pane' ? paneIndicators.indexOf(config) + 1 : 0;
+      const series = definition.lines.map(line => ({ line, api: addIndicatorSeries(chart, line, config.color, paneIndex) }));
+      definition.levels?.forEach(level => {
+        series[series.length - 1].api.createPriceLine({
+          price: level,
+          color: '#9ca3af',
+          lineWidth: 1,
+          lineStyle: LineStyle.Dotted,
+          axisLabelVisible: false,
+        });
+      });
+
+      const stream = new IndicatorStream(config);
+      const points = stream.reset(dataRef.current);
+      series.forEach(({ line, api }) => api.setData(points.map(point => toIndicatorData(point, line))));
+      return { stream, series };
+    });
+    chart.panes().slice(1).forEach(pane => pane.setHeight(INDICATOR_PANE_HEIGHT));
+    indicatorsRef.current = rendered;
+
+    return () => {
+      indicatorsRef.current = [];
+      // The chart itself may already be gone
+      if (chartRef.current !== chart) return;
+      rendered.forEach(({ series }) => series.forEach(({ api }) => chart.removeSeries(api)));
+      for (let index = chart.panes().length - 1; index > 0; index--) {
+        chart.removePane(index);
+      }
+      chart.applyOptions({ height });
+    };
+  }, [indicators, width, height, hasOptionData]);
 
   useEffect(() => {
     if (optionSeriesRef.current && optionData && optionData.length > 0) {
@@ -102,5 +327,36 @@ export const TradingChart: React.FC<TradingChartProps> = ({
     }
   }, [optionData]);
 
-  return <div ref={chartContainerRef} className="trading-chart-container" />;
-};
\ No newline at end of file
+  useEffect(() => {
+    onLoadOlderRef.current = onLoadOlder;
+  }, [onLoadOlder]);
+
+  useEffect(() => {
+    signalsRef.current = signals;
+    onSelectSignalRef.current = onSelectSignal;
+    markersRef.current?.setMarkers(signalMarkers(signals, selectedTradeId));
+  }, [signals, selectedTradeId, onSelectSignal, width, height, hasOptionData]);
+
+  return (
+    <div className="relative">
+      <div ref={chartContainerRef} className="trading-chart-container" />
+      {hovered && (
+        <div
+          className="absolute z-10 pointer-events-none max-w-sm bg-white border border-gray-200 rounded-md shadow-lg p-3 text-xs"
+          style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-semibold" style={{ color: SIGNAL_STYLES[hovered.signal.signal.signalType].color }}>
+              {SIGNAL_STYLES[hovered.signal.signal.signalType].label}
+            </span>
+            <span className="text-gray-500 ml-3">{formatSignalTime(hovered.signal.signal.timestampNs / 1e9)}</span>
+          </div>
+          <ul className="font-mono text-gray-800 space-y-0.5 mb-1">
+            {hovered.signal.signal.orders.map(order => <li key={order.orderId}>{describeOrder(order)}</li>)}
+          </ul>
+          <p className="text-gray-600">{hovered.signal.signal.reason}</p>
+        </div>
+      )}
+    </div>
+  );
+};
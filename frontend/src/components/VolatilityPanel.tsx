@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { BAR_INTERVALS } from '../lib/candles';
+import type { Bar, BarInterval } from '../lib/candles';
+import { DAY_SECONDS, DEFAULT_IVRV_SETTINGS, REALIZED_VOL_METHODS, dailyBarsNeeded, ivRvSeries } from '../lib/volatility';
+import type { IvRvSettings, IvSample, RealizedVolMethod } from '../lib/volatility';
+import { fetchHistory } from '../services/history';
+
+interface VolatilityPanelProps {
+  symbol: string;
+  bars: Bar[];
+  interval: BarInterval;
+  /** ATM implied vol samples for `symbol`. */
+  samples: IvSample[];
+}
+
+const METHODS = Object.keys(REALIZED_VOL_METHODS) as RealizedVolMethod[];
+
+const formatVol = (value: number) => (Number.isFinite(value) ? `${(value * 100).toFixed(1)}%` : '—');
+
+const formatTime = (time: number) =>
+  new Date(time * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// recharts draws gaps for null, not NaN
+const plotted = (value: number) => (Number.isFinite(value) ? value : null);
+
+export const VolatilityPanel: React.FC<VolatilityPanelProps> = ({ symbol, bars, interval, samples }) => {
+  const [settings, setSettings] = useState<IvRvSettings>(DEFAULT_IVRV_SETTINGS);
+  const [daily, setDaily] = useState<{ symbol: string; bars: Bar[]; error?: string } | null>(null);
+  const dailyLimit = dailyBarsNeeded(settings.lookback);
+
+  // Realized vol is measured on daily bars, whatever the chart interval
+  useEffect(() => {
+    let cancelled = false;
+    fetchHistory(symbol, DAY_SECONDS, undefined, dailyLimit)
+      .then(dailyBars => {
+        if (!cancelled) setDaily({ symbol, bars: dailyBars });
+      })
+      .catch((error: Error) => {
+        console.error(`Failed to load daily bars for ${symbol}:`, error);
+        if (!cancelled) setDaily({ symbol, bars: [], error: error.message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, dailyLimit]);
+  const dailyBars = useMemo(() => (daily?.symbol === symbol ? daily.bars : []), [daily, symbol]);
+
+  const series = useMemo(
+    () => ivRvSeries(bars, dailyBars, samples, BAR_INTERVALS[interval].seconds, settings),
+    [bars, dailyBars, samples, interval, settings],
+  );
+  const rows = useMemo(() => series.map(point => ({
+    time: point.time,
+    iv: plotted(point.iv),
+    ...Object.fromEntries(METHODS.map(method => [method, plotted(point.rv[method])])),
+    zScore: plotted(point.zScore),
+    entry: point.signal ? point.zScore : null,
+  })), [series]);
+
+  const latest = series[series.length - 1];
+  const signals = series.filter(point => point.signal).length;
+
+  const update = (changes: Partial<IvRvSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const numberInput = (key: 'lookback' | 'threshold' | 'minIv' | 'maxIv', label: string, step: number, min?: number) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        step={step}
+        min={min}
+        value={settings[key]}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (!Number.isNaN(parsed)) update({ [key]: min === undefined ? parsed : Math.max(min, parsed) });
+        }}
+        className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm"
+      />
+    </div>
+  );
+
+  let status = 'Waiting for bars and option quotes';
+  if (latest && Number.isFinite(latest.zScore)) {
+    if (latest.signal) {
+      status = 'Entry: IV is cheap against realized vol';
+    } else if (latest.zScore <= settings.threshold) {
+      status = `Spread is past the threshold, but IV is outside ${formatVol(settings.minIv)}–${formatVol(settings.maxIv)}`;
+    } else {
+      status = 'No entry';
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Realized vs Implied Volatility - {symbol}</h2>
+        <span className={`text-sm font-medium ${latest?.signal ? 'text-green-700' : 'text-gray-500'}`}>{status}</span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">RV method</label>
+          <select
+            value={settings.method}
+            onChange={(e) => update({ method: e.target.value as RealizedVolMethod })}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            {METHODS.map(method => <option key={method} value={method}>{REALIZED_VOL_METHODS[method].label}</option>)}
+          </select>
+        </div>
+        {numberInput('lookback', 'Lookback (days)', 1, 2)}
+        {numberInput('threshold', 'IV−RV threshold (z)', 0.1)}
+        {numberInput('minIv', 'Min IV', 0.01, 0)}
+        {numberInput('maxIv', 'Max IV', 0.01, 0)}
+      </div>
+      {daily?.symbol === symbol && daily.error && (
+        <p className="text-sm text-red-600">No realized vol without daily bars: {daily.error}</p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <div className="text-gray-500">ATM IV</div>
+          <div className="font-mono text-lg">{formatVol(latest?.iv ?? NaN)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">RV ({REALIZED_VOL_METHODS[settings.method].label})</div>
+          <div className="font-mono text-lg">{formatVol(latest?.rv[settings.method] ?? NaN)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">IV − RV</div>
+          <div className="font-mono text-lg">{formatVol(latest?.spread ?? NaN)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Spread z-score</div>
+          <div className="font-mono text-lg">{Number.isFinite(latest?.zScore) ? latest.zScore.toFixed(2) : '—'}</div>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center text-gray-500 py-8">No bars yet.</div>
+      ) : (
+        <>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 10, right: 20, bottom: 0, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`} tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value, name) => [
+                    formatVol(Number(value)),
+                    name === 'iv' ? 'ATM IV' : REALIZED_VOL_METHODS[name as RealizedVolMethod]?.label ?? name,
+                  ]}
+                  labelFormatter={(time) => formatTime(Number(time))}
+                />
+                <Legend formatter={(name) => (name === 'iv' ? 'ATM IV' : REALIZED_VOL_METHODS[name as RealizedVolMethod]?.label ?? name)} />
+                <Line type="monotone" dataKey="iv" stroke="#111827" strokeWidth={2} dot={false} isAnimationActive={false} />
+                {METHODS.map(method => (
+                  <Line
+                    key={method}
+                    type="monotone"
+                    dataKey={method}
+                    stroke={REALIZED_VOL_METHODS[method].color}
+                    strokeWidth={method === settings.method ? 2 : 1}
+                    strokeOpacity={method === settings.method ? 1 : 0.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 10, right: 20, bottom: 0, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value, name) => [Number(value).toFixed(2), name === 'entry' ? 'Entry' : 'z-score']}
+                  labelFormatter={(time) => formatTime(Number(time))}
+                />
+                <ReferenceLine y={0} stroke="#9ca3af" />
+                <ReferenceLine
+                  y={settings.threshold}
+                  stroke="#dc2626"
+                  strokeDasharray="4 4"
+                  label={{ value: 'Entry threshold', position: 'insideBottomRight', fontSize: 11, fill: '#dc2626' }}
+                />
+                <Line type="monotone" dataKey="zScore" stroke="#2563eb" dot={false} isAnimationActive={false} />
+                <Line dataKey="entry" stroke="none" dot={{ r: 3, fill: '#16a34a', stroke: '#16a34a' }} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-500">
+            {signals} bar{signals === 1 ? '' : 's'} of {series.length} meet the entry rule of the IV vs RV straddle strategy:
+            the spread&apos;s z-score at or below {settings.threshold}, with IV between {formatVol(settings.minIv)} and {formatVol(settings.maxIv)}.
+            Realized vol is measured on the last {settings.lookback} daily bars as of each bar and annualized over
+            {' '}{settings.annualizationFactor} trading days; the z-score runs over the chart bars of as many days. ATM IV is taken from the front expiry.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
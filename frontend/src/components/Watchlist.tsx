@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { emptyQuote, normalizeSymbol, sessionChange } from '../lib/watchlist';
+import type { WatchlistQuote } from '../lib/watchlist';
+
+interface WatchlistProps {
+  symbols: string[];
+  quotes: Record<string, WatchlistQuote>;
+  selectedSymbol: string;
+  onSelect: (symbol: string) => void;
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+}
+
+const formatPrice = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const changeColor = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-500');
+
+export const Watchlist: React.FC<WatchlistProps> = ({
+  symbols,
+  quotes,
+  selectedSymbol,
+  onSelect,
+  onAdd,
+  onRemove
+}) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    const symbol = normalizeSymbol(input);
+    if (!symbol) {
+      setError(`"${input.trim()}" is not a valid symbol`);
+      return;
+    }
+    if (symbols.includes(symbol)) {
+      setError(`${symbol} is already on the watchlist`);
+      return;
+    }
+    onAdd(symbol);
+    setInput('');
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Watchlist</h2>
+        <form onSubmit={handleAdd} className="flex items-center space-x-2">
+          <input
+            value={input}
+            onChange={(e) => { setInput(e.target.value); setError(null); }}
+            placeholder="Add symbol"
+            aria-label="Add symbol"
+            className="border border-gray-300 rounded-md px-3 py-1 text-sm w-32 uppercase"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add</span>
+          </button>
+        </form>
+      </div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {symbols.length === 0 ? (
+        <p className="text-sm text-gray-500">Add a symbol to start streaming quotes.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Symbol</th>
+                <th className="py-2 pr-4 font-medium text-right">Last</th>
+                <th className="py-2 pr-4 font-medium text-right">Bid</th>
+                <th className="py-2 pr-4 font-medium text-right">Ask</th>
+                <th className="py-2 pr-4 font-medium text-right">Mid</th>
+                <th className="py-2 pr-4 font-medium text-right">Spread</th>
+                <th className="py-2 pr-4 font-medium text-right">Chg</th>
+                <th className="py-2 pr-4 font-medium text-right">Chg %</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {symbols.map(symbol => {
+                const quote = quotes[symbol] ?? emptyQuote(symbol);
+                const change = sessionChange(quote);
+                const selected = symbol === selectedSymbol;
+                return (
+                  <tr
+                    key={symbol}
+                    onClick={() => onSelect(symbol)}
+                    className={`border-b last:border-0 cursor-pointer ${selected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className={`py-2 pr-4 font-medium ${selected ? 'text-blue-700' : 'text-gray-900'}`}>{symbol}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatPrice(quote.last)}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatPrice(quote.bid)}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatPrice(quote.ask)}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatPrice(quote.mid)}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatPrice(quote.spread)}</td>
+                    <td className={`py-2 pr-4 text-right tabular-nums ${change ? changeColor(change.change) : 'text-gray-500'}`}>
+                      {change ? `${change.change >= 0 ? '+' : ''}${change.change.toFixed(2)}` : '—'}
+                    </td>
+                    <td className={`py-2 pr-4 text-right tabular-nums ${change ? changeColor(change.change) : 'text-gray-500'}`}>
+                      {change ? `${change.percent >= 0 ? '+' : ''}${change.percent.toFixed(2)}%` : '—'}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onRemove(symbol); }}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Remove ${symbol}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { toUnixSeconds } from '../services/marketEvents';
+import type {
+  BacktestCompleted,
+  BacktestConfig,
+  BacktestProgress,
+  BacktestTrade,
+  EquityPoint,
+  PriceBar,
+  StrategySignal,
+} from '../services/signalr';
+
+export type BacktestStatus = 'starting' | 'running' | 'completed' | 'cancelling' | 'cancelled' | 'failed';
+
+export interface BacktestRun {
+  /** Empty until the hub has accepted the run. */
+  runId: string;
+  config: BacktestConfig;
+  status: BacktestStatus;
+  progress: number;
+  equity: number;
+  trades: number;
+  pnl: number;
+  equityCurve: EquityPoint[];
+  tradeLog: BacktestTrade[];
+  /** Absent when the server sent none. */
+  signals?: StrategySignal[];
+  priceHistory?: PriceBar[];
+  /** Epoch milliseconds. */
+  startedAt: number;
+  /** Epoch milliseconds. */
+  completedAt?: number;
+  error?: string;
+}
+
+// Mirrors the covered call defaults in configs/covered_call.yaml; the hub
+// takes one DTE, so it starts at the low end of min_dte–max_dte
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  strategyType: 'covered-call',
+  symbol: 'SPY',
+  initialCapital: 100000,
+  minDelta: 0.25,
+  maxDelta: 0.35,
+  dte: 30,
+  commissionPerContract: 0.65,
+  startDate: '2023-01-01',
+  endDate: '2023-12-31',
+};
+
+/** Short description of a run for pickers and legends. */
+export const runLabel = (run: BacktestRun) =>
+  `${run.config.symbol} ${run.config.strategyType} ${run.config.minDelta}–${run.config.maxDelta}Δ ${run.config.dte}DTE`;
+
+export const isBacktestActive = (run: BacktestRun | null): boolean =>
+  run !== null && (run.status === 'starting' || run.status === 'running' || run.status === 'cancelling');
+
+/** Form-level checks; the server still has the final say. */
+export function validateBacktestConfig(config: BacktestConfig): string[] {
+  const errors: string[] = [];
+  // Puts are configured with negative deltas, as in the cash-secured-put template
+  const [low, high] = config.strategyType === 'cash-secured-put' ? [-1, 0] : [0, 1];
+
+  if (!(config.initialCapital > 0)) {
+    errors.push('Initial capital must be greater than 0');
+  }
+  if (!(config.minDelta > low && config.minDelta < high && config.maxDelta > low && config.maxDelta < high)) {
+    errors.push(`Delta values must be between ${low} and ${high}`);
+  } else if (config.minDelta >= config.maxDelta) {
+    errors.push('Minimum delta must be less than maximum delta');
+  }
+  if (!Number.isInteger(config.dte) || config.dte < 1) {
+    errors.push('Days to expiration must be a whole number of at least 1');
+  }
+  if (!(config.commissionPerContract >= 0)) {
+    errors.push('Commission cannot be negative');
+  }
+  if (!config.startDate || !config.endDate || config.startDate >= config.endDate) {
+    errors.push('Start date must be before end date');
+  }
+
+  return errors;
+}
+
+/** Apply a progress event to the run it belongs to. */
+export function applyBacktestProgress(run: BacktestRun, update: BacktestProgress): BacktestRun {
+  if (run.runId !== update.runId || !isBacktestActive(run)) {
+    return run;
+  }
+  const time = toUnixSeconds(update.currentTime);
+  const last = run.equityCurve[run.equityCurve.length - 1];
+  const equityCurve = time > 0 && (!last || time >= last.time)
+    ? [...(last?.time === time ? run.equityCurve.slice(0, -1) : run.equityCurve), { time, equity: update.equity }]
+    : run.equityCurve;
+
+  return {
+    ...run,
+    status: run.status === 'cancelling' ? run.status : 'running',
+    progress: Math.min(100, Math.max(run.progress, update.progress)),
+    equity: update.equity,
+    trades: update.trades,
+    pnl: update.pnl,
+    equityCurve,
+  };
+}
+
+/** Final state of a run; the server's curve and trade log win over what progress built up. */
+export function completeBacktestRun(run: BacktestRun, result: BacktestCompleted): BacktestRun {
+  return {
+    ...run,
+    status: 'completed',
+    progress: 100,
+    equity: result.equity,
+    trades: result.trades,
+    pnl: result.pnl,
+    equityCurve: result.equityCurve?.length ? result.equityCurve : run.equityCurve,
+    tradeLog: result.tradeLog ?? run.tradeLog,
+    signals: result.signals ?? run.signals,
+    priceHistory: result.priceHistory ?? run.priceHistory,
+    completedAt: Date.now(),
+  };
+}
+
+/** Switch strategy type, mirroring the delta range when moving between calls and puts. */
+export function withStrategyType(config: BacktestConfig, strategyType: BacktestConfig['strategyType']): BacktestConfig {
+  if (strategyType === config.strategyType) {
+    return config;
+  }
+  return { ...config, strategyType, minDelta: -config.maxDelta, maxDelta: -config.minDelta };
+}
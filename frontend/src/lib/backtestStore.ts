@@ -0,0 +1,40 @@
+import type { BacktestRun } from './backtest';
+
+const STORAGE_KEY = 'optx.backtestRuns';
+const MAX_SAVED_RUNS = 25;
+
+/** Completed runs saved in localStorage, newest first. */
+export function loadSavedRuns(): BacktestRun[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const runs: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(runs) ? (runs as BacktestRun[]).filter(run => typeof run?.runId === 'string') : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable saved backtest runs:', error);
+    return [];
+  }
+}
+
+function writeSavedRuns(runs: BacktestRun[]): BacktestRun[] {
+  let kept = runs.slice(0, MAX_SAVED_RUNS);
+  // Drop the oldest runs until the list fits in the storage quota
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch (error) {
+      console.warn('Backtest storage full, dropping oldest run:', error);
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return kept;
+}
+
+export function saveRun(run: BacktestRun): BacktestRun[] {
+  return writeSavedRuns([run, ...loadSavedRuns().filter(saved => saved.runId !== run.runId)]);
+}
+
+export function deleteSavedRun(runId: string): BacktestRun[] {
+  return writeSavedRuns(loadSavedRuns().filter(run => run.runId !== runId));
+}
@@ -0,0 +1,154 @@
+import type { CandlestickData, UTCTimestamp } from 'lightweight-charts';
+
+export type BarInterval = '1s' | '5s' | '1m' | '5m' | '15m';
+
+export const BAR_INTERVALS: Record<BarInterval, { label: string; seconds: number }> = {
+  '1s': { label: '1 sec', seconds: 1 },
+  '5s': { label: '5 sec', seconds: 5 },
+  '1m': { label: '1 min', seconds: 60 },
+  '5m': { label: '5 min', seconds: 300 },
+  '15m': { label: '15 min', seconds: 900 },
+};
+
+export interface Bar extends CandlestickData<UTCTimestamp> {
+  volume: number;
+}
+
+export interface Tick {
+  price: number;
+  quantity: number;
+  /** Unix time in (fractional) seconds. */
+  time: number;
+}
+
+/**
+ * Builds OHLCV bars from a stream of trade ticks. Bars are keyed by the start
+ * of their interval; a tick past the current bar's end opens a new bar, and
+ * ticks older than the current bar are dropped. Past `maxBars`, the oldest
+ * bars are dropped.
+ */
+export class CandleAggregator {
+  private readonly intervalSeconds: number;
+  private readonly maxBars: number;
+  private history: Bar[] = [];
+  private lastTickTime = 0;
+
+  constructor(interval: BarInterval, maxBars = Infinity) {
+    this.intervalSeconds = BAR_INTERVALS[interval].seconds;
+    this.maxBars = maxBars;
+  }
+
+  get bars(): readonly Bar[] {
+    return this.history;
+  }
+
+  /** Start time of the bar a tick at `time` belongs to. */
+  bucket(time: number): UTCTimestamp {
+    return (Math.floor(time / this.intervalSeconds) * this.intervalSeconds) as UTCTimestamp;
+  }
+
+  /**
+   * Apply a tick. Returns the bar it landed in, or null if the tick is older
+   * than the in-progress bar.
+   */
+  addTick(tick: Tick): Bar | null {
+    const time = this.bucket(tick.time);
+    const current = this.history[this.history.length - 1];
+
+    if (current && time < current.time) {
+      return null;
+    }
+
+    if (current && time === current.time) {
+      const isLatest = tick.time >= this.lastTickTime;
+      const updated: Bar = {
+        ...current,
+        high: Math.max(current.high, tick.price),
+        low: Math.min(current.low, tick.price),
+        close: isLatest ? tick.price : current.close,
+        volume: current.volume + tick.quantity,
+      };
+      this.history[this.history.length - 1] = updated;
+      this.lastTickTime = Math.max(this.lastTickTime, tick.time);
+      return updated;
+    }
+
+    const bar: Bar = {
+      time,
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume: tick.quantity,
+    };
+    this.history.push(bar);
+    if (this.history.length > this.maxBars) {
+      this.history.splice(0, this.history.length - this.maxBars);
+    }
+    this.lastTickTime = tick.time;
+    return bar;
+  }
+
+  reset(): void {
+    this.history = [];
+    this.lastTickTime = 0;
+  }
+}
+
+/**
+ * One bar from two partial views of the same period: `earlier` saw its open,
+ * `later` its close. Volume is the larger of the two, since both may have
+ * counted the same trades.
+ */
+function combineBars(earlier: Bar, later: Bar): Bar {
+  return {
+    time: later.time,
+    open: earlier.open,
+    high: Math.max(earlier.high, later.high),
+    low: Math.min(earlier.low, later.low),
+    close: later.close,
+    volume: Math.max(earlier.volume, later.volume),
+  };
+}
+
+/**
+ * Joins two runs of bars in time order. A period both have is combined, so
+ * history keeps the open of a bar the live feed joined midway and the live
+ * bar keeps moving the close.
+ */
+export function mergeBars(older: readonly Bar[], newer: readonly Bar[]): Bar[] {
+  const merged: Bar[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < older.length || j < newer.length) {
+    const a = older[i];
+    const b = newer[j];
+    if (b === undefined || (a !== undefined && a.time < b.time)) {
+      merged.push(a);
+      i++;
+    } else if (a === undefined || b.time < a.time) {
+      merged.push(b);
+      j++;
+    } else {
+      merged.push(combineBars(a, b));
+      i++;
+      j++;
+    }
+  }
+  return merged;
+}
+
+/**
+ * `bars` with a live bar folded in: it replaces the last bar of the same
+ * period, combined with `closed` (history's bar for that period, if any), or
+ * is appended after it. `bars` itself is returned when the live bar is older
+ * than its last.
+ */
+export function updateTail(bars: Bar[], bar: Bar, closed?: Bar): Bar[] {
+  const last = bars[bars.length - 1];
+  if (last && bar.time < last.time) {
+    return bars;
+  }
+  const next = closed?.time === bar.time ? combineBars(closed, bar) : bar;
+  return last && bar.time === last.time ? [...bars.slice(0, -1), next] : [...bars, next];
+}
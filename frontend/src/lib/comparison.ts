@@ -0,0 +1,63 @@
+import type { BacktestRun } from './backtest';
+import type { MetricDefinition, PerformanceSummary } from './performance';
+import type { BacktestConfig } from '../services/signalr';
+
+const SECONDS_PER_DAY = 86400;
+
+/** Line colours for compared runs, in selection order. */
+export const COMPARISON_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+export const MAX_COMPARED_RUNS = COMPARISON_COLORS.length;
+
+/** One row per elapsed day; each run's return since its start under its runId, when it has a mark that day. */
+export type ComparisonRow = { day: number } & Record<string, number>;
+
+/**
+ * Equity curves on shared axes: days since each run's first mark, and return
+ * on its initial capital. Runs over different date ranges or capital line up
+ * from the same origin.
+ */
+export function normalizedCurves(runs: BacktestRun[]): ComparisonRow[] {
+  const rows = new Map<number, ComparisonRow>();
+  runs.forEach(run => {
+    const start = run.equityCurve[0]?.time;
+    if (start === undefined || !(run.config.initialCapital > 0)) return;
+    run.equityCurve.forEach(point => {
+      const day = Math.round((point.time - start) / SECONDS_PER_DAY);
+      const row = rows.get(day) ?? { day } as ComparisonRow;
+      row[run.runId] = point.equity / run.config.initialCapital - 1;
+      rows.set(day, row);
+    });
+  });
+  return [...rows.values()].sort((a, b) => a.day - b.day);
+}
+
+/** Index of the best run for a metric, or null when the metric has no direction or no run has a value. */
+export function bestRunIndex(summaries: PerformanceSummary[], metric: MetricDefinition): number | null {
+  if (metric.better === null || summaries.length < 2) return null;
+  let best: number | null = null;
+  summaries.forEach((summary, index) => {
+    const value = summary[metric.key];
+    if (Number.isNaN(value)) return;
+    const current = best === null ? NaN : summaries[best][metric.key];
+    if (best === null || (metric.better === 'higher' ? value > current : value < current)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+export interface ConfigDifference {
+  key: keyof BacktestConfig;
+  /** One per run, in the order given. */
+  values: BacktestConfig[keyof BacktestConfig][];
+}
+
+/** Config fields that are not the same across every run. */
+export function configDifferences(runs: BacktestRun[]): ConfigDifference[] {
+  if (runs.length < 2) return [];
+  const keys = Object.keys(runs[0].config) as (keyof BacktestConfig)[];
+  return keys
+    .map(key => ({ key, values: runs.map(run => run.config[key]) }))
+    .filter(({ values }) => values.some(value => value !== values[0]));
+}
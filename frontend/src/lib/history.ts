@@ -0,0 +1,168 @@
+import { BAR_INTERVALS } from './candles';
+import type { Bar, BarInterval } from './candles';
+import { HISTORY_PAGE_SIZE, fetchHistory } from '../services/history';
+
+// Fetched history is kept in IndexedDB, one entry per bar, together with the
+// spans of time each series has been fetched over. A page is served from the
+// cache only when a span covers it, so cached pages never have holes.
+
+const DB_NAME = 'optx-history';
+const DB_VERSION = 1;
+const BARS_STORE = 'bars';
+const SPANS_STORE = 'spans';
+
+/** Fetched bars cover [from, to) in Unix seconds; from is 0 once the start of history was reached. */
+interface Span {
+  from: number;
+  to: number;
+}
+
+interface CachedBar extends Bar {
+  series: string;
+}
+
+interface CachedSpans {
+  series: string;
+  spans: Span[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(BARS_STORE, { keyPath: ['series', 'time'] });
+      request.result.createObjectStore(SPANS_STORE, { keyPath: 'series' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    // Try again on the next page rather than giving up on the cache for good
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+const result = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const seriesKey = (symbol: string, interval: BarInterval) => `${symbol}:${interval}`;
+
+/** Sorted, with overlapping and touching spans joined. */
+function mergeSpans(spans: readonly Span[]): Span[] {
+  const merged: Span[] = [];
+  [...spans].sort((a, b) => a.from - b.from).forEach(span => {
+    const last = merged[merged.length - 1];
+    if (last && span.from <= last.to) {
+      last.to = Math.max(last.to, span.to);
+    } else {
+      merged.push({ ...span });
+    }
+  });
+  return merged;
+}
+
+async function readSpans(series: string): Promise<Span[]> {
+  const db = await openDatabase();
+  const entry = await result<CachedSpans | undefined>(db.transaction(SPANS_STORE).objectStore(SPANS_STORE).get(series));
+  return entry?.spans ?? [];
+}
+
+/** The last `limit` cached bars in [from, before). */
+async function readBars(series: string, from: number, before: number, limit: number): Promise<Bar[]> {
+  const db = await openDatabase();
+  const range = IDBKeyRange.bound([series, from], [series, before], false, true);
+  const rows = await result<CachedBar[]>(db.transaction(BARS_STORE).objectStore(BARS_STORE).getAll(range));
+  return rows.slice(-limit).map(row => ({
+    time: row.time,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+  }));
+}
+
+async function writeBars(series: string, bars: readonly Bar[], span: Span): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([BARS_STORE, SPANS_STORE], 'readwrite');
+  const barStore = transaction.objectStore(BARS_STORE);
+  bars.forEach(bar => barStore.put({ series, ...bar }));
+
+  const spanStore = transaction.objectStore(SPANS_STORE);
+  const existing = spanStore.get(series);
+  existing.onsuccess = () => {
+    const spans = (existing.result as CachedSpans | undefined)?.spans ?? [];
+    spanStore.put({ series, spans: mergeSpans([...spans, span]) });
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Cached bars before `before`, or null when no fetched span reaches back past it. */
+async function cachedPage(series: string, before: number): Promise<Bar[] | null> {
+  try {
+    const span = (await readSpans(series)).find(cached => cached.from < before && before <= cached.to);
+    return span ? await readBars(series, span.from, before, HISTORY_PAGE_SIZE) : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable history cache:', error);
+    return null;
+  }
+}
+
+/** Cached bars up to the end of the latest fetched span, or null when nothing is cached. */
+async function latestCachedPage(series: string): Promise<Bar[] | null> {
+  try {
+    const latest = (await readSpans(series)).at(-1);
+    return latest ? await readBars(series, latest.from, latest.to, HISTORY_PAGE_SIZE) : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable history cache:', error);
+    return null;
+  }
+}
+
+/**
+ * One page of bars, oldest first: the latest closed bars when `before` is
+ * omitted, otherwise those that closed at or before it. Older pages are read
+ * from the cache when it covers them; the latest page always goes to the
+ * server and falls back to the cache only if the request fails. An empty
+ * page means there is no older history.
+ */
+export async function loadHistoryPage(symbol: string, interval: BarInterval, before?: number): Promise<Bar[]> {
+  const series = seriesKey(symbol, interval);
+  const seconds = BAR_INTERVALS[interval].seconds;
+
+  if (before !== undefined) {
+    const cached = await cachedPage(series, before);
+    if (cached) return cached;
+  }
+
+  let bars: Bar[];
+  try {
+    bars = await fetchHistory(symbol, seconds, before);
+  } catch (error) {
+    const cached = before === undefined ? await latestCachedPage(series) : null;
+    if (!cached) throw error;
+    console.warn(`Showing cached history for ${symbol}:`, error);
+    return cached;
+  }
+
+  const last = bars[bars.length - 1];
+  const to = before ?? (last ? last.time + seconds : undefined);
+  if (to !== undefined) {
+    try {
+      await writeBars(series, bars, { from: bars[0]?.time ?? 0, to });
+    } catch (error) {
+      console.warn('Could not cache history:', error);
+    }
+  }
+  return bars;
+}
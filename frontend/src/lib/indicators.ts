@@ -0,0 +1,359 @@
+import type { UTCTimestamp } from 'lightweight-charts';
+import type { Bar } from './candles';
+
+export type IndicatorKind = 'sma' | 'ema' | 'vwap' | 'bollinger' | 'atr' | 'rsi' | 'macd';
+
+/** Overlays share the candle price scale; oscillators get a pane of their own. */
+export type IndicatorPlacement = 'overlay' | 'pane';
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  step: number;
+}
+
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  style: 'line' | 'dashed' | 'histogram';
+  /** Fixed colour; lines without one take the indicator's colour. */
+  color?: string;
+}
+
+export interface IndicatorDefinition {
+  label: string;
+  placement: IndicatorPlacement;
+  params: IndicatorParam[];
+  lines: IndicatorLine[];
+  /** Horizontal guides drawn in the indicator's pane, e.g. RSI 30/70. */
+  levels?: number[];
+}
+
+const period = (defaultValue: number): IndicatorParam =>
+  ({ key: 'period', label: 'Period', defaultValue, min: 1, step: 1 });
+
+export const INDICATORS: Record<IndicatorKind, IndicatorDefinition> = {
+  sma: { label: 'SMA', placement: 'overlay', params: [period(20)], lines: [{ key: 'value', label: 'SMA', style: 'line' }] },
+  ema: { label: 'EMA', placement: 'overlay', params: [period(20)], lines: [{ key: 'value', label: 'EMA', style: 'line' }] },
+  vwap: { label: 'VWAP', placement: 'overlay', params: [], lines: [{ key: 'value', label: 'VWAP', style: 'line' }] },
+  bollinger: {
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [period(20), { key: 'width', label: 'Std devs', defaultValue: 2, min: 0.1, step: 0.1 }],
+    lines: [
+      { key: 'upper', label: 'Upper', style: 'line' },
+      { key: 'middle', label: 'Middle', style: 'dashed' },
+      { key: 'lower', label: 'Lower', style: 'line' },
+    ],
+  },
+  atr: { label: 'ATR', placement: 'pane', params: [period(14)], lines: [{ key: 'value', label: 'ATR', style: 'line' }] },
+  rsi: {
+    label: 'RSI',
+    placement: 'pane',
+    params: [period(14)],
+    lines: [{ key: 'value', label: 'RSI', style: 'line' }],
+    levels: [30, 70],
+  },
+  macd: {
+    label: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, step: 1 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 2, step: 1 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, step: 1 },
+    ],
+    lines: [
+      { key: 'histogram', label: 'Histogram', style: 'histogram' },
+      { key: 'macd', label: 'MACD', style: 'line' },
+      { key: 'signal', label: 'Signal', style: 'line', color: '#f97316' },
+    ],
+    levels: [0],
+  },
+};
+
+/** One indicator on the chart, as the toolbar edits it. */
+export interface IndicatorConfig {
+  id: string;
+  kind: IndicatorKind;
+  params: Record<string, number>;
+  color: string;
+}
+
+export const INDICATOR_COLORS = ['#3b82f6', '#a855f7', '#f59e0b', '#14b8a6', '#ec4899', '#64748b'];
+
+export function defaultParams(kind: IndicatorKind): Record<string, number> {
+  return Object.fromEntries(INDICATORS[kind].params.map(param => [param.key, param.defaultValue]));
+}
+
+/** A new indicator with default parameters and the first colour not already on the chart. */
+export function newIndicator(kind: IndicatorKind, existing: IndicatorConfig[]): IndicatorConfig {
+  const used = new Set(existing.map(config => config.color));
+  const sequence = Math.max(0, ...existing.map(config => Number(config.id.split('-')[1]) || 0)) + 1;
+  return {
+    id: `${kind}-${sequence}`,
+    kind,
+    params: defaultParams(kind),
+    color: INDICATOR_COLORS.find(color => !used.has(color)) ?? INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length],
+  };
+}
+
+/** Short label with parameters, e.g. "BB(20, 2)". */
+export function indicatorLabel(config: IndicatorConfig): string {
+  const { label, params } = INDICATORS[config.kind];
+  const name = config.kind === 'bollinger' ? 'BB' : label;
+  return params.length === 0 ? name : `${name}(${params.map(param => config.params[param.key]).join(', ')})`;
+}
+
+/** Values keyed by line; NaN while the indicator is warming up. */
+export interface IndicatorPoint {
+  time: UTCTimestamp;
+  values: Record<string, number>;
+}
+
+/**
+ * A pure step: the state after a bar, and the indicator's values at it.
+ * States are never mutated, so the in-progress bar can be recomputed from
+ * the state as of the bar before it.
+ */
+type Step<S> = (state: S, bar: Bar) => [S, Record<string, number>];
+
+interface Calculation<S> {
+  initial: S;
+  step: Step<S>;
+}
+
+interface WindowState {
+  window: number[];
+  sum: number;
+}
+
+function pushWindow(state: WindowState, value: number, length: number): WindowState {
+  const window = [...state.window, value];
+  let sum = state.sum + value;
+  if (window.length > length) {
+    sum -= window.shift() as number;
+  }
+  return { window, sum };
+}
+
+interface EmaState {
+  count: number;
+  value: number;
+}
+
+// Seeded with the simple average of the first `length` inputs
+function stepEma(state: EmaState, input: number, length: number): EmaState {
+  const count = state.count + 1;
+  if (count <= length) {
+    return { count, value: (state.value * state.count + input) / count };
+  }
+  const alpha = 2 / (length + 1);
+  return { count, value: state.value + alpha * (input - state.value) };
+}
+
+const emaValue = (state: EmaState, length: number) => (state.count >= length ? state.value : NaN);
+
+const SECONDS_PER_DAY = 86400;
+
+function sma(length: number): Calculation<WindowState> {
+  return {
+    initial: { window: [], sum: 0 },
+    step: (state, bar) => {
+      const next = pushWindow(state, bar.close, length);
+      return [next, { value: next.window.length === length ? next.sum / length : NaN }];
+    },
+  };
+}
+
+function ema(length: number): Calculation<EmaState> {
+  return {
+    initial: { count: 0, value: 0 },
+    step: (state, bar) => {
+      const next = stepEma(state, bar.close, length);
+      return [next, { value: emaValue(next, length) }];
+    },
+  };
+}
+
+// Resets at each UTC day so it tracks the session rather than the whole history
+function vwap(): Calculation<{ day: number; priceVolume: number; volume: number }> {
+  return {
+    initial: { day: -1, priceVolume: 0, volume: 0 },
+    step: (state, bar) => {
+      const day = Math.floor(bar.time / SECONDS_PER_DAY);
+      const base = day === state.day ? state : { day, priceVolume: 0, volume: 0 };
+      const typical = (bar.high + bar.low + bar.close) / 3;
+      const next = { day, priceVolume: base.priceVolume + typical * bar.volume, volume: base.volume + bar.volume };
+      return [next, { value: next.volume > 0 ? next.priceVolume / next.volume : typical }];
+    },
+  };
+}
+
+function bollinger(length: number, width: number): Calculation<WindowState> {
+  return {
+    initial: { window: [], sum: 0 },
+    step: (state, bar) => {
+      const next = pushWindow(state, bar.close, length);
+      if (next.window.length < length) {
+        return [next, { upper: NaN, middle: NaN, lower: NaN }];
+      }
+      const mean = next.sum / length;
+      const deviation = Math.sqrt(next.window.reduce((total, value) => total + (value - mean) ** 2, 0) / length);
+      return [next, { upper: mean + width * deviation, middle: mean, lower: mean - width * deviation }];
+    },
+  };
+}
+
+interface WilderState {
+  previousClose: number | null;
+  count: number;
+  /** Plain average of the inputs for the first `length` of them, smoothed after. */
+  average: number;
+}
+
+// Wilder's smoothing: a plain average over the first `length` inputs, then (avg·(n-1) + x)/n
+function stepWilder(state: WilderState, input: number, close: number, length: number): WilderState {
+  const count = state.count + 1;
+  const average = count <= length
+    ? (state.average * state.count + input) / count
+    : (state.average * (length - 1) + input) / length;
+  return { previousClose: close, count, average };
+}
+
+function atr(length: number): Calculation<WilderState> {
+  return {
+    initial: { previousClose: null, count: 0, average: 0 },
+    step: (state, bar) => {
+      const range = state.previousClose === null
+        ? bar.high - bar.low
+        : Math.max(bar.high - bar.low, Math.abs(bar.high - state.previousClose), Math.abs(bar.low - state.previousClose));
+      const next = stepWilder(state, range, bar.close, length);
+      return [next, { value: next.count >= length ? next.average : NaN }];
+    },
+  };
+}
+
+function rsi(length: number): Calculation<{ gains: WilderState; losses: WilderState }> {
+  const empty: WilderState = { previousClose: null, count: 0, average: 0 };
+  return {
+    initial: { gains: empty, losses: empty },
+    step: (state, bar) => {
+      // The first bar has no change to measure
+      if (state.gains.previousClose === null) {
+        const first = { ...empty, previousClose: bar.close };
+        return [{ gains: first, losses: first }, { value: NaN }];
+      }
+      const change = bar.close - state.gains.previousClose;
+      const gains = stepWilder(state.gains, Math.max(change, 0), bar.close, length);
+      const losses = stepWilder(state.losses, Math.max(-change, 0), bar.close, length);
+      let value = NaN;
+      if (gains.count >= length) {
+        value = losses.average === 0 ? (gains.average === 0 ? 50 : 100) : 100 - 100 / (1 + gains.average / losses.average);
+      }
+      return [{ gains, losses }, { value }];
+    },
+  };
+}
+
+function macd(fast: number, slow: number, signal: number): Calculation<{ fast: EmaState; slow: EmaState; signal: EmaState }> {
+  const empty: EmaState = { count: 0, value: 0 };
+  return {
+    initial: { fast: empty, slow: empty, signal: empty },
+    step: (state, bar) => {
+      const nextFast = stepEma(state.fast, bar.close, fast);
+      const nextSlow = stepEma(state.slow, bar.close, slow);
+      const line = emaValue(nextFast, fast) - emaValue(nextSlow, slow);
+      if (Number.isNaN(line)) {
+        return [{ fast: nextFast, slow: nextSlow, signal: state.signal }, { macd: NaN, signal: NaN, histogram: NaN }];
+      }
+      const nextSignal = stepEma(state.signal, line, signal);
+      const signalValue = emaValue(nextSignal, signal);
+      return [
+        { fast: nextFast, slow: nextSlow, signal: nextSignal },
+        { macd: line, signal: signalValue, histogram: line - signalValue },
+      ];
+    },
+  };
+}
+
+function calculation(config: IndicatorConfig): Calculation<unknown> {
+  const param = (key: string) => {
+    const value = config.params[key];
+    const definition = INDICATORS[config.kind].params.find(candidate => candidate.key === key);
+    const fallback = definition?.defaultValue ?? 1;
+    return Number.isFinite(value) ? Math.max(value, definition?.min ?? 0) : fallback;
+  };
+  const length = (key: string) => Math.round(param(key));
+
+  switch (config.kind) {
+    case 'sma': return sma(length('period')) as Calculation<unknown>;
+    case 'ema': return ema(length('period')) as Calculation<unknown>;
+    case 'vwap': return vwap() as Calculation<unknown>;
+    case 'bollinger': return bollinger(length('period'), param('width')) as Calculation<unknown>;
+    case 'atr': return atr(length('period')) as Calculation<unknown>;
+    case 'rsi': return rsi(length('period')) as Calculation<unknown>;
+    case 'macd': return macd(length('fast'), length('slow'), length('signal')) as Calculation<unknown>;
+  }
+}
+
+/**
+ * Feeds bars to an indicator one at a time, the way CandleAggregator emits
+ * them: a bar with the same time as the last one revises it, a later bar
+ * closes it and starts the next, and an earlier bar is ignored.
+ */
+export class IndicatorStream {
+  private readonly calc: Calculation<unknown>;
+  private committed: unknown;
+  private current: { time: UTCTimestamp; state: unknown } | null = null;
+
+  constructor(config: IndicatorConfig) {
+    this.calc = calculation(config);
+    this.committed = this.calc.initial;
+  }
+
+  /** Values at `bar`, or null when the bar is older than the one in progress. */
+  update(bar: Bar): IndicatorPoint | null {
+    if (this.current && bar.time < this.current.time) return null;
+    if (this.current && bar.time > this.current.time) {
+      this.committed = this.current.state;
+    }
+    const [state, values] = this.calc.step(this.committed, bar);
+    this.current = { time: bar.time, state };
+    return { time: bar.time, values };
+  }
+
+  /** Starts over and returns a point per bar. */
+  reset(bars: readonly Bar[]): IndicatorPoint[] {
+    this.committed = this.calc.initial;
+    this.current = null;
+    return bars.flatMap(bar => this.update(bar) ?? []);
+  }
+}
+
+const STORAGE_KEY = 'optx.indicators';
+
+export function loadIndicators(): IndicatorConfig[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) return [];
+    const configs: unknown = JSON.parse(raw);
+    return Array.isArray(configs)
+      ? configs.filter((config): config is IndicatorConfig =>
+        typeof config?.id === 'string' && typeof config.color === 'string' && Object.hasOwn(INDICATORS, config.kind)
+        && typeof config.params === 'object' && config.params !== null)
+      : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable indicator settings:', error);
+    return [];
+  }
+}
+
+export function saveIndicators(configs: IndicatorConfig[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(configs));
+  } catch (error) {
+    console.warn('Could not save indicator settings:', error);
+  }
+}
@@ -0,0 +1,164 @@
+import type { BacktestTrade, EquityPoint } from '../services/signalr';
+
+const TRADING_DAYS_PER_YEAR = 252;
+const SECONDS_PER_DAY = 86400;
+
+/** The `reporting.metrics` set from the strategy configs, computed from a run's output. */
+export interface PerformanceSummary {
+  totalReturn: number;
+  annualizedReturn: number;
+  annualizedVolatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  /** Longest stretch below a prior peak, in days. */
+  maxDrawdownDays: number;
+  calmarRatio: number;
+  tradeCount: number;
+  winRate: number;
+  profitFactor: number;
+  averageWin: number;
+  averageLoss: number;
+  expectancy: number;
+  avgDaysInTrade: number;
+  totalCommission: number;
+}
+
+export type MetricFormat = 'percent' | 'ratio' | 'currency' | 'count' | 'days';
+
+export interface MetricDefinition {
+  key: keyof PerformanceSummary;
+  label: string;
+  format: MetricFormat;
+  /** Which way is better when comparing runs; null where neither is. */
+  better: 'higher' | 'lower' | null;
+}
+
+export const PERFORMANCE_METRICS: MetricDefinition[] = [
+  { key: 'totalReturn', label: 'Total Return', format: 'percent', better: 'higher' },
+  { key: 'annualizedReturn', label: 'Annualized Return', format: 'percent', better: 'higher' },
+  { key: 'annualizedVolatility', label: 'Volatility', format: 'percent', better: 'lower' },
+  { key: 'sharpeRatio', label: 'Sharpe Ratio', format: 'ratio', better: 'higher' },
+  { key: 'sortinoRatio', label: 'Sortino Ratio', format: 'ratio', better: 'higher' },
+  { key: 'calmarRatio', label: 'Calmar Ratio', format: 'ratio', better: 'higher' },
+  // Drawdowns and losses are negative, so the higher value is the smaller one
+  { key: 'maxDrawdown', label: 'Max Drawdown', format: 'percent', better: 'higher' },
+  { key: 'maxDrawdownDays', label: 'Longest Drawdown', format: 'days', better: 'lower' },
+  { key: 'tradeCount', label: 'Trades', format: 'count', better: null },
+  { key: 'winRate', label: 'Win Rate', format: 'percent', better: 'higher' },
+  { key: 'profitFactor', label: 'Profit Factor', format: 'ratio', better: 'higher' },
+  { key: 'expectancy', label: 'Expectancy', format: 'currency', better: 'higher' },
+  { key: 'averageWin', label: 'Average Win', format: 'currency', better: 'higher' },
+  { key: 'averageLoss', label: 'Average Loss', format: 'currency', better: 'higher' },
+  { key: 'avgDaysInTrade', label: 'Avg Days in Trade', format: 'days', better: null },
+  { key: 'totalCommission', label: 'Commission', format: 'currency', better: 'lower' },
+];
+
+export interface DrawdownPoint {
+  time: number;
+  /** Fraction below the running peak; zero or negative. */
+  drawdown: number;
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : NaN);
+
+const stdDev = (values: number[], center = mean(values)) =>
+  values.length > 1 ? Math.sqrt(values.reduce((sum, v) => sum + (v - center) ** 2, 0) / (values.length - 1)) : NaN;
+
+/** Last mark of each UTC day, so intraday curves give daily returns. */
+export function dailyCloses(curve: EquityPoint[]): EquityPoint[] {
+  const byDay = new Map<number, EquityPoint>();
+  curve.forEach(point => byDay.set(Math.floor(point.time / SECONDS_PER_DAY), point));
+  return [...byDay.values()].sort((a, b) => a.time - b.time);
+}
+
+/** The running peak starts at the initial capital, so a loss on the first mark counts. */
+export function drawdownSeries(curve: EquityPoint[], initialCapital: number): DrawdownPoint[] {
+  let peak = initialCapital;
+  return curve.map(point => {
+    peak = Math.max(peak, point.equity);
+    return { time: point.time, drawdown: peak > 0 ? point.equity / peak - 1 : 0 };
+  });
+}
+
+/**
+ * Summary statistics for a run. Ratios are annualized over 252 trading days
+ * from daily returns; `riskFreeRate` is annual. Metrics that need more data
+ * than the run produced are NaN.
+ */
+export function summarizePerformance(
+  curve: EquityPoint[],
+  trades: BacktestTrade[],
+  initialCapital: number,
+  riskFreeRate = 0,
+): PerformanceSummary {
+  const closes = dailyCloses(curve);
+  const finalEquity = closes.length > 0 ? closes[closes.length - 1].equity : initialCapital;
+  const totalReturn = initialCapital > 0 ? finalEquity / initialCapital - 1 : NaN;
+
+  const equities = [initialCapital, ...closes.map(point => point.equity)];
+  const returns = equities.slice(1).map((equity, i) => equity / equities[i] - 1);
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const excess = returns.map(r => r - dailyRiskFree);
+
+  const annualizedReturn = returns.length > 0
+    ? (1 + totalReturn) ** (TRADING_DAYS_PER_YEAR / returns.length) - 1
+    : NaN;
+  const volatility = stdDev(returns);
+  const downside = Math.sqrt(mean(excess.map(r => Math.min(0, r) ** 2)));
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const drawdowns = drawdownSeries(closes, initialCapital);
+  const maxDrawdown = drawdowns.reduce((worst, point) => Math.min(worst, point.drawdown), 0);
+  let maxDrawdownDays = 0;
+  let underwaterSince: number | null = null;
+  drawdowns.forEach(point => {
+    if (point.drawdown < 0) {
+      underwaterSince ??= point.time;
+      maxDrawdownDays = Math.max(maxDrawdownDays, (point.time - underwaterSince) / SECONDS_PER_DAY);
+    } else {
+      underwaterSince = null;
+    }
+  });
+
+  const wins = trades.filter(trade => trade.pnl > 0);
+  const losses = trades.filter(trade => trade.pnl < 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = -losses.reduce((sum, trade) => sum + trade.pnl, 0);
+
+  return {
+    totalReturn,
+    annualizedReturn,
+    annualizedVolatility: volatility * annualize,
+    sharpeRatio: volatility > 0 ? (mean(excess) / volatility) * annualize : NaN,
+    sortinoRatio: downside > 0 ? (mean(excess) / downside) * annualize : NaN,
+    maxDrawdown,
+    maxDrawdownDays: Math.round(maxDrawdownDays),
+    calmarRatio: maxDrawdown < 0 ? annualizedReturn / -maxDrawdown : NaN,
+    tradeCount: trades.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : NaN,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : NaN,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : NaN,
+    averageLoss: losses.length > 0 ? -grossLoss / losses.length : NaN,
+    expectancy: trades.length > 0 ? (grossProfit - grossLoss) / trades.length : NaN,
+    avgDaysInTrade: mean(trades.map(trade => (trade.exitTime - trade.entryTime) / SECONDS_PER_DAY)),
+    totalCommission: trades.reduce((sum, trade) => sum + trade.commission, 0),
+  };
+}
+
+export const formatMetric = (value: number, format: MetricFormat): string => {
+  if (Number.isNaN(value)) return '—';
+  if (!Number.isFinite(value)) return '∞';
+  switch (format) {
+    case 'percent':
+      return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+    case 'ratio':
+      return value.toFixed(2);
+    case 'currency':
+      return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+    case 'count':
+      return value.toLocaleString();
+    case 'days':
+      return `${value.toFixed(1)}d`;
+  }
+};
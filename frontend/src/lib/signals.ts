@@ -0,0 +1,84 @@
+import type { SeriesMarker, SeriesMarkerShape, UTCTimestamp } from 'lightweight-charts';
+import type { Bar } from './candles';
+import { parseOptionSymbol, toUnixSeconds } from '../services/marketEvents';
+import type { PriceBar, SignalOrder, SignalType, StrategySignal } from '../services/signalr';
+
+export const SIGNAL_STYLES: Record<SignalType, { label: string; color: string; shape: SeriesMarkerShape }> = {
+  ENTRY: { label: 'Entry', color: '#16a34a', shape: 'arrowUp' },
+  EXIT: { label: 'Exit', color: '#dc2626', shape: 'arrowDown' },
+  HEDGE: { label: 'Hedge', color: '#2563eb', shape: 'circle' },
+  ROLL: { label: 'Roll', color: '#9333ea', shape: 'square' },
+  REBALANCE: { label: 'Rebalance', color: '#f59e0b', shape: 'circle' },
+};
+
+/** A strategy signal pinned to the bar it fired in. */
+export interface ChartSignal {
+  /** Marker id, unique within one set of signals. */
+  id: string;
+  time: UTCTimestamp;
+  /** Underlying price at the signal: the close of its bar. */
+  price: number;
+  signal: StrategySignal;
+  /** Trade log entries the signal's orders open or close. */
+  tradeIds: string[];
+}
+
+/** A run's price history in the shape the chart draws; backtests carry no volume. */
+export function priceBars(history: readonly PriceBar[]): Bar[] {
+  return history.map(bar => ({ ...bar, time: bar.time as UTCTimestamp, volume: 0 }));
+}
+
+/**
+ * Places each signal on the last bar at or before it. Signals before the
+ * first bar are left out.
+ */
+export function chartSignals(signals: readonly StrategySignal[], bars: readonly Bar[], tradeIds: ReadonlySet<string>): ChartSignal[] {
+  const placed: ChartSignal[] = [];
+  let barIndex = 0;
+  [...signals]
+    .sort((a, b) => a.timestampNs - b.timestampNs)
+    .forEach((signal, index) => {
+      const time = toUnixSeconds(signal.timestampNs);
+      while (barIndex + 1 < bars.length && bars[barIndex + 1].time <= time) {
+        barIndex++;
+      }
+      const bar = bars[barIndex];
+      if (!bar || bar.time > time) return;
+      placed.push({
+        id: `signal-${index}`,
+        time: bar.time,
+        price: bar.close,
+        signal,
+        tradeIds: signal.orders.map(order => order.orderId).filter(id => tradeIds.has(id)),
+      });
+    });
+  return placed;
+}
+
+/** Markers for the chart; those touching the selected trade are drawn larger. */
+export function signalMarkers(signals: readonly ChartSignal[], selectedTradeId: string | null): SeriesMarker<UTCTimestamp>[] {
+  return signals.map(placed => {
+    const style = SIGNAL_STYLES[placed.signal.signalType];
+    const selected = selectedTradeId !== null && placed.tradeIds.includes(selectedTradeId);
+    return {
+      id: placed.id,
+      time: placed.time,
+      position: 'atPriceMiddle',
+      price: placed.price,
+      shape: style.shape,
+      color: style.color,
+      size: selected ? 2 : 1,
+      text: selected ? style.label : undefined,
+    };
+  });
+}
+
+/** e.g. "Sell 2 SPY 472 Call 2023-02-01 @ $3.36" or "Buy 200 SPY @ $450.00". */
+export function describeOrder(order: SignalOrder): string {
+  const side = order.side === 'BUY' ? 'Buy' : 'Sell';
+  const contract = parseOptionSymbol(order.symbol);
+  const instrument = contract
+    ? `${contract.underlying} ${contract.strike} ${contract.optionType === 'call' ? 'Call' : 'Put'} ${contract.expiry}`
+    : order.symbol;
+  return `${side} ${order.quantity} ${instrument} @ $${order.price.toFixed(2)}`;
+}
@@ -0,0 +1,244 @@
+import type { UTCTimestamp } from 'lightweight-charts';
+import type { Bar } from './candles';
+import { impliedVolatility, yearsToExpiry } from '../../../frontend-nextjs-backup/lib/pricing';
+import type { OptionType } from '../../../frontend-nextjs-backup/lib/pricing';
+import type { PricingRates } from '../services/config';
+import type { OptionData } from '../services/signalr';
+
+/** The `realized_vol.method` values a strategy config can name. */
+export type RealizedVolMethod = 'CLOSE_TO_CLOSE' | 'PARKINSON' | 'GARMAN_KLASS' | 'YANG_ZHANG';
+
+export const REALIZED_VOL_METHODS: Record<RealizedVolMethod, { label: string; color: string }> = {
+  CLOSE_TO_CLOSE: { label: 'Close-to-close', color: '#2563eb' },
+  PARKINSON: { label: 'Parkinson', color: '#16a34a' },
+  GARMAN_KLASS: { label: 'Garman-Klass', color: '#9333ea' },
+  YANG_ZHANG: { label: 'Yang-Zhang', color: '#0891b2' },
+};
+
+export interface IvRvSettings {
+  method: RealizedVolMethod;
+  /** Days in each realized vol window and in the spread's z-score window (the config's lookback_days). */
+  lookback: number;
+  /** Trading days per year. */
+  annualizationFactor: number;
+  /** Entry fires when the spread's z-score is at or below this. */
+  threshold: number;
+  minIv: number;
+  maxIv: number;
+}
+
+/** Defaults from configs/straddle_ivrv.yaml. */
+export const DEFAULT_IVRV_SETTINGS: IvRvSettings = {
+  method: 'CLOSE_TO_CLOSE',
+  lookback: 21,
+  annualizationFactor: 252,
+  threshold: -2,
+  minIv: 0.15,
+  maxIv: 0.5,
+};
+
+export const DAY_SECONDS = 86_400;
+
+// Daily realized vol is drawn over about a quarter of chart history
+const RV_HISTORY_DAYS = 63;
+
+/** Daily bars to fetch so every day of the last quarter has a full `lookback` window. */
+export const dailyBarsNeeded = (lookback: number) => Math.max(2, Math.round(lookback)) + 1 + RV_HISTORY_DAYS;
+
+const sampleVariance = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+};
+
+// Per-bar variance of one window; `prior` is the bar before the window
+function windowVariance(method: RealizedVolMethod, window: Bar[], prior: Bar): number {
+  const n = window.length;
+  const logHL = window.map(bar => Math.log(bar.high / bar.low));
+  const logCO = window.map(bar => Math.log(bar.close / bar.open));
+
+  switch (method) {
+    case 'CLOSE_TO_CLOSE':
+      return sampleVariance(window.map((bar, i) => Math.log(bar.close / (i === 0 ? prior : window[i - 1]).close)));
+    case 'PARKINSON':
+      return logHL.reduce((sum, value) => sum + value * value, 0) / (4 * n * Math.LN2);
+    case 'GARMAN_KLASS':
+      return window.reduce((sum, _, i) => sum + 0.5 * logHL[i] ** 2 - (2 * Math.LN2 - 1) * logCO[i] ** 2, 0) / n;
+    case 'YANG_ZHANG': {
+      // Overnight (open against prior close), open-to-close, and Rogers-Satchell terms
+      const overnight = window.map((bar, i) => Math.log(bar.open / (i === 0 ? prior : window[i - 1]).close));
+      const rogersSatchell = window.reduce((sum, bar) =>
+        sum + Math.log(bar.high / bar.close) * Math.log(bar.high / bar.open)
+          + Math.log(bar.low / bar.close) * Math.log(bar.low / bar.open), 0) / n;
+      const k = 0.34 / (1.34 + (n + 1) / (n - 1));
+      return sampleVariance(overnight) + k * sampleVariance(logCO) + (1 - k) * rogersSatchell;
+    }
+  }
+}
+
+/**
+ * Annualized rolling realized vol, one value per bar. Each window is
+ * `lookback` bars and needs the bar before it, so the first `lookback`
+ * values are NaN.
+ */
+export function realizedVol(bars: readonly Bar[], method: RealizedVolMethod, lookback: number, annualization: number): number[] {
+  const length = Math.max(2, Math.round(lookback));
+  return bars.map((_, index) => {
+    if (index < length) return NaN;
+    const variance = windowVariance(method, bars.slice(index - length + 1, index + 1), bars[index - length]);
+    return variance >= 0 ? Math.sqrt(variance * annualization) : NaN;
+  });
+}
+
+/** ATM implied vol as of a moment, in Unix seconds. */
+export interface IvSample {
+  time: number;
+  iv: number;
+}
+
+// Options stop trading at the 16:00 New York close; 20:00 UTC is close enough here
+const expiryClose = (expiry: string) => new Date(`${expiry}T20:00:00Z`);
+
+interface ContractVol {
+  strike: number;
+  expiry: string;
+  optionType: OptionType;
+  iv: number;
+}
+
+/**
+ * Keeps the latest implied vol of each option contract on one underlying
+ * and reads ATM vol off them: the call and put at the strike nearest spot on
+ * the nearest expiry that has not closed.
+ */
+export class AtmIvTracker {
+  private readonly contracts = new Map<string, ContractVol>();
+  private readonly rates: PricingRates;
+
+  constructor(rates: PricingRates) {
+    this.rates = rates;
+  }
+
+  /** Backs out the contract's vol from its price at `spot`; `time` is Unix seconds. */
+  update(option: OptionData, spot: number, time: number): void {
+    const iv = impliedVolatility(option.price, {
+      spot,
+      strike: option.strike,
+      timeToExpiry: yearsToExpiry(expiryClose(option.expiry), new Date(time * 1000)),
+      riskFreeRate: this.rates.riskFreeRate,
+      dividendYield: this.rates.dividendYield,
+      optionType: option.optionType,
+    });
+    if (Number.isNaN(iv)) {
+      this.contracts.delete(option.symbol);
+      return;
+    }
+    this.contracts.set(option.symbol, { strike: option.strike, expiry: option.expiry, optionType: option.optionType, iv });
+  }
+
+  /** NaN until a live contract has been seen. */
+  atmIv(spot: number, time: number): number {
+    const live = [...this.contracts.values()].filter(contract => yearsToExpiry(expiryClose(contract.expiry), new Date(time * 1000)) > 0);
+    if (live.length === 0) return NaN;
+
+    const expiry = live.reduce((nearest, contract) => (contract.expiry < nearest ? contract.expiry : nearest), live[0].expiry);
+    const front = live.filter(contract => contract.expiry === expiry);
+    const distance = Math.min(...front.map(contract => Math.abs(contract.strike - spot)));
+    const atm = front.filter(contract => Math.abs(contract.strike - spot) === distance);
+    return atm.reduce((sum, contract) => sum + contract.iv, 0) / atm.length;
+  }
+
+  clear(): void {
+    this.contracts.clear();
+  }
+}
+
+export interface IvRvPoint {
+  time: UTCTimestamp;
+  /** ATM implied vol at the bar's close. */
+  iv: number;
+  rv: Record<RealizedVolMethod, number>;
+  /** IV minus realized vol by the configured method. */
+  spread: number;
+  /** The spread against its own mean and deviation over the last `lookback` days of bars. */
+  zScore: number;
+  /** Where the straddle strategy's entry rule would fire. */
+  signal: boolean;
+}
+
+/**
+ * IV, every realized vol estimate and the entry test, one point per bar.
+ * Realized vol comes from `dailyBars`, as of the last day that had closed by
+ * the bar's close.
+ */
+export function ivRvSeries(
+  bars: readonly Bar[],
+  dailyBars: readonly Bar[],
+  samples: readonly IvSample[],
+  intervalSeconds: number,
+  settings: IvRvSettings,
+): IvRvPoint[] {
+  const methods = Object.keys(REALIZED_VOL_METHODS) as RealizedVolMethod[];
+  const rv = Object.fromEntries(methods.map(method =>
+    [method, realizedVol(dailyBars, method, settings.lookback, settings.annualizationFactor)])) as Record<RealizedVolMethod, number[]>;
+
+  // Samples and daily bars are in time order; walk them alongside the bars
+  let sampleIndex = 0;
+  let iv = NaN;
+  let day = -1;
+  // Running sums over the finite spreads of the last `lookback` days
+  const windowSeconds = Math.max(1, settings.lookback) * DAY_SECONDS;
+  const spreads: { time: number; spread: number }[] = [];
+  let first = 0;
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  return bars.map(bar => {
+    while (sampleIndex < samples.length && samples[sampleIndex].time < bar.time + intervalSeconds) {
+      iv = samples[sampleIndex].iv;
+      sampleIndex++;
+    }
+    while (day + 1 < dailyBars.length && dailyBars[day + 1].time + DAY_SECONDS <= bar.time + intervalSeconds) {
+      day++;
+    }
+    const realized = (method: RealizedVolMethod) => (day >= 0 ? rv[method][day] : NaN);
+    const spread = iv - realized(settings.method);
+    if (Number.isFinite(spread)) {
+      spreads.push({ time: bar.time, spread });
+      count++;
+      sum += spread;
+      sumOfSquares += spread * spread;
+    }
+    while (first < spreads.length && spreads[first].time <= bar.time - windowSeconds) {
+      const dropped = spreads[first++].spread;
+      count--;
+      sum -= dropped;
+      sumOfSquares -= dropped * dropped;
+    }
+
+    let zScore = NaN;
+    if (Number.isFinite(spread) && count >= 2) {
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, (sumOfSquares - count * mean * mean) / (count - 1)));
+      zScore = deviation > 0 ? (spread - mean) / deviation : NaN;
+    }
+
+    return {
+      time: bar.time,
+      iv,
+      rv: Object.fromEntries(methods.map(method => [method, realized(method)])) as Record<RealizedVolMethod, number>,
+      spread,
+      zScore,
+      signal: zScore <= settings.threshold && iv >= settings.minIv && iv <= settings.maxIv,
+    };
+  });
+}
+
+const MAX_IV_SAMPLES = 5000;
+
+/** Appends a sample, replacing one from the same second and dropping the oldest past the cap. */
+export function appendIvSample(samples: readonly IvSample[], sample: IvSample): IvSample[] {
+  const last = samples[samples.length - 1];
+  const kept = last && last.time === sample.time ? samples.slice(0, -1) : samples.slice(-(MAX_IV_SAMPLES - 1));
+  return [...kept, sample];
+}
@@ -0,0 +1,172 @@
+import type { MarketEvent } from '../services/signalr';
+import { fetchHistory } from '../services/history';
+
+const STORAGE_KEY = 'optx.watchlist';
+
+export const DEFAULT_WATCHLIST = ['SPY', 'QQQ', 'IWM', 'AAPL', 'MSFT'];
+
+// 1m bars asked for after the opening bell when looking up a session open
+const SESSION_OPEN_BARS = 15;
+
+// Equity and ETF tickers, including class shares such as BRK.B
+const SYMBOL_PATTERN = /^[A-Z]{1,5}(?:\.[A-Z])?$/;
+
+export interface WatchlistQuote {
+  symbol: string;
+  last: number | null;
+  bid: number | null;
+  ask: number | null;
+  mid: number | null;
+  spread: number | null;
+  /**
+   * Open of the current New York session's first 1m history bar at or after
+   * 09:30, or the first trade seen until that has loaded.
+   */
+  open: number | null;
+  /** YYYY-MM-DD in New York of the session `open` belongs to. */
+  session: string | null;
+  volume: number;
+  /** Unix seconds of the latest event. */
+  updatedAt: number | null;
+}
+
+const SESSION_DATE = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+const WALL_CLOCK = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+});
+
+/** New York calendar date of a Unix-seconds time, as YYYY-MM-DD. */
+export const sessionDate = (seconds: number) => SESSION_DATE.format(new Date(seconds * 1000));
+
+/** Unix seconds of the 09:30 New York opening bell on a YYYY-MM-DD session date. */
+export function sessionStart(session: string): number {
+  const [year, month, day] = session.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, 9, 30) / 1000;
+  const parts = Object.fromEntries(
+    WALL_CLOCK.formatToParts(new Date(asUtc * 1000)).map(part => [part.type, Number(part.value)]),
+  );
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000;
+  // New York's offset from UTC at that moment; DST never switches near the bell
+  return asUtc - (wall - asUtc);
+}
+
+/** Upper-cased ticker, or null when the input is not a plausible symbol. */
+export function normalizeSymbol(input: string): string | null {
+  const symbol = input.trim().toUpperCase();
+  return SYMBOL_PATTERN.test(symbol) ? symbol : null;
+}
+
+export function emptyQuote(symbol: string): WatchlistQuote {
+  return {
+    symbol,
+    last: null,
+    bid: null,
+    ask: null,
+    mid: null,
+    spread: null,
+    open: null,
+    session: null,
+    volume: 0,
+    updatedAt: null,
+  };
+}
+
+/**
+ * Fold a trade or quote into a row. A trade on a New York date the row hasn't
+ * seen starts a new session, opening at that trade; volume resets with it.
+ */
+export function applyWatchlistEvent(quote: WatchlistQuote, event: MarketEvent, time: number): WatchlistQuote {
+  if (event.type === 'quote') {
+    return {
+      ...quote,
+      bid: event.bidPrice,
+      ask: event.askPrice,
+      mid: event.mid,
+      spread: event.spread,
+      updatedAt: time,
+    };
+  }
+
+  const session = sessionDate(time);
+  const newSession = session !== quote.session;
+  return {
+    ...quote,
+    last: event.price,
+    open: newSession ? event.price : quote.open,
+    session,
+    volume: (newSession ? 0 : quote.volume) + event.quantity,
+    updatedAt: time,
+  };
+}
+
+/**
+ * Seed a row's open from history. Ignored once trades of a later session
+ * have arrived; volume is kept only when the row is already in that session.
+ */
+export function applySessionOpen(quote: WatchlistQuote, open: number, session: string): WatchlistQuote {
+  if (quote.session !== null && quote.session > session) {
+    return quote;
+  }
+  return { ...quote, open, session, volume: quote.session === session ? quote.volume : 0 };
+}
+
+/**
+ * The open of today's first 1m bar at or after 09:30 New York time, or null
+ * before the bell or when history has no such bar yet. Pre-market bars are
+ * skipped.
+ */
+export async function fetchSessionOpen(symbol: string): Promise<{ open: number; session: string } | null> {
+  const now = Math.floor(Date.now() / 1000);
+  const session = sessionDate(now);
+  const start = sessionStart(session);
+  if (now < start) {
+    return null;
+  }
+  const bars = await fetchHistory(symbol, 60, Math.min(now, start + SESSION_OPEN_BARS * 60), SESSION_OPEN_BARS);
+  const first = bars.find(bar => bar.time >= start);
+  return first ? { open: first.open, session } : null;
+}
+
+/** Change from the session open, in price and percent; null before the first trade. */
+export function sessionChange(quote: WatchlistQuote): { change: number; percent: number } | null {
+  if (quote.last === null || quote.open === null || quote.open === 0) {
+    return null;
+  }
+  const change = quote.last - quote.open;
+  return { change, percent: (change / quote.open) * 100 };
+}
+
+export function loadWatchlist(): string[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) return DEFAULT_WATCHLIST;
+    const symbols: unknown = JSON.parse(raw);
+    return Array.isArray(symbols)
+      ? symbols.filter((symbol): symbol is string => typeof symbol === 'string' && normalizeSymbol(symbol) === symbol)
+      : DEFAULT_WATCHLIST;
+  } catch (error) {
+    console.warn('Ignoring unreadable watchlist:', error);
+    return DEFAULT_WATCHLIST;
+  }
+}
+
+export function saveWatchlist(symbols: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(symbols));
+  } catch (error) {
+    console.warn('Could not save watchlist:', error);
+  }
+}
@@ -0,0 +1,809 @@
+// @generated by protoc-gen-es v2.16.0 with parameter "target=js+dts"
+// @generated from file optx.proto (package optx, syntax proto3)
+/* eslint-disable */
+
+import type { GenEnum, GenFile, GenMessage } from "@bufbuild/protobuf/codegenv2";
+import type { Message } from "@bufbuild/protobuf";
+
+/**
+ * Describes the file optx.proto.
+ */
+export declare const file_optx: GenFile;
+
+/**
+ * Market Data Messages
+ *
+ * @generated from message optx.MarketDataFrame
+ */
+export declare type MarketDataFrame = Message<"optx.MarketDataFrame"> & {
+  /**
+   * @generated from field: uint64 sequence = 1;
+   */
+  sequence: bigint;
+
+  /**
+   * @generated from field: uint64 timestamp_ns = 2;
+   */
+  timestampNs: bigint;
+
+  /**
+   * @generated from field: string symbol = 3;
+   */
+  symbol: string;
+
+  /**
+   * Price * 10000
+   *
+   * @generated from field: int64 price_scaled = 4;
+   */
+  priceScaled: bigint;
+
+  /**
+   * @generated from field: int32 quantity = 5;
+   */
+  quantity: number;
+
+  /**
+   * @generated from field: optx.MarketDataType type = 6;
+   */
+  type: MarketDataType;
+};
+
+/**
+ * Describes the message optx.MarketDataFrame.
+ * Use `create(MarketDataFrameSchema)` to create a new message.
+ */
+export declare const MarketDataFrameSchema: GenMessage<MarketDataFrame>;
+
+/**
+ * @generated from message optx.QuoteUpdate
+ */
+export declare type QuoteUpdate = Message<"optx.QuoteUpdate"> & {
+  /**
+   * @generated from field: uint64 timestamp_ns = 1;
+   */
+  timestampNs: bigint;
+
+  /**
+   * @generated from field: string symbol = 2;
+   */
+  symbol: string;
+
+  /**
+   * @generated from field: int64 bid_price_scaled = 3;
+   */
+  bidPriceScaled: bigint;
+
+  /**
+   * @generated from field: int32 bid_size = 4;
+   */
+  bidSize: number;
+
+  /**
+   * @generated from field: int64 ask_price_scaled = 5;
+   */
+  askPriceScaled: bigint;
+
+  /**
+   * @generated from field: int32 ask_size = 6;
+   */
+  askSize: number;
+};
+
+/**
+ * Describes the message optx.QuoteUpdate.
+ * Use `create(QuoteUpdateSchema)` to create a new message.
+ */
+export declare const QuoteUpdateSchema: GenMessage<QuoteUpdate>;
+
+/**
+ * Order Messages
+ *
+ * @generated from message optx.NewOrder
+ */
+export declare type NewOrder = Message<"optx.NewOrder"> & {
+  /**
+   * @generated from field: string order_id = 1;
+   */
+  orderId: string;
+
+  /**
+   * @generated from field: string symbol = 2;
+   */
+  symbol: string;
+
+  /**
+   * @generated from field: optx.OrderSide side = 3;
+   */
+  side: OrderSide;
+
+  /**
+   * @generated from field: optx.OrderType type = 4;
+   */
+  type: OrderType;
+
+  /**
+   * @generated from field: int32 quantity = 5;
+   */
+  quantity: number;
+
+  /**
+   * For limit orders
+   *
+   * @generated from field: int64 price_scaled = 6;
+   */
+  priceScaled: bigint;
+
+  /**
+   * @generated from field: optx.TimeInForce tif = 7;
+   */
+  tif: TimeInForce;
+
+  /**
+   * @generated from field: uint64 timestamp_ns = 8;
+   */
+  timestampNs: bigint;
+};
+
+/**
+ * Describes the message optx.NewOrder.
+ * Use `create(NewOrderSchema)` to create a new message.
+ */
+export declare const NewOrderSchema: GenMessage<NewOrder>;
+
+/**
+ * @generated from message optx.OrderAck
+ */
+export declare type OrderAck = Message<"optx.OrderAck"> & {
+  /**
+   * @generated from field: string order_id = 1;
+   */
+  orderId: string;
+
+  /**
+   * @generated from field: string exchange_order_id = 2;
+   */
+  exchangeOrderId: string;
+
+  /**
+   * @generated from field: optx.OrderStatus status = 3;
+   */
+  status: OrderStatus;
+
+  /**
+   * @generated from field: uint64 timestamp_ns = 4;
+   */
+  timestampNs: bigint;
+
+  /**
+   * For rejections
+   *
+   * @generated from field: string reason = 5;
+   */
+  reason: string;
+};
+
+/**
+ * Describes the message optx.OrderAck.
+ * Use `create(OrderAckSchema)` to create a new message.
+ */
+export declare const OrderAckSchema: GenMessage<OrderAck>;
+
+/**
+ * @generated from message optx.Fill
+ */
+export declare type Fill = Message<"optx.Fill"> & {
+  /**
+   * @generated from field: string order_id = 1;
+   */
+  orderId: string;
+
+  /**
+   * @generated from field: string exchange_order_id = 2;
+   */
+  exchangeOrderId: string;
+
+  /**
+   * @generated from field: int32 filled_quantity = 3;
+   */
+  filledQuantity: number;
+
+  /**
+   * @generated from field: int64 fill_price_scaled = 4;
+   */
+  fillPriceScaled: bigint;
+
+  /**
+   * @generated from field: int32 leaves_quantity = 5;
+   */
+  leavesQuantity: number;
+
+  /**
+   * @generated from field: uint64 timestamp_ns = 6;
+   */
+  timestampNs: bigint;
+
+  /**
+   * @generated from field: int64 commission_scaled = 7;
+   */
+  commissionScaled: bigint;
+};
+
+/**
+ * Describes the message optx.Fill.
+ * Use `create(FillSchema)` to create a new message.
+ */
+export declare const FillSchema: GenMessage<Fill>;
+
+/**
+ * @generated from message optx.CancelOrder
+ */
+export declare type CancelOrder = Message<"optx.CancelOrder"> & {
+  /**
+   * @generated from field: string order_id = 1;
+   */
+  orderId: string;
+
+  /**
+   * @generated from field: string exchange_order_id = 2;
+   */
+  exchangeOrderId: string;
+
+  /**
+   * @generated from field: uint64 timestamp_ns = 3;
+   */
+  timestampNs: bigint;
+};
+
+/**
+ * Describes the message optx.CancelOrder.
+ * Use `create(CancelOrderSchema)` to create a new message.
+ */
+export declare const CancelOrderSchema: GenMessage<CancelOrder>;
+
+/**
+ * Option Chain Data
+ *
+ * @generated from message optx.OptionContract
+ */
+export declare type OptionContract = Message<"optx.OptionContract"> & {
+  /**
+   * @generated from field: string symbol = 1;
+   */
+  symbol: string;
+
+  /**
+   * @generated from field: string underlying_symbol = 2;
+   */
+  underlyingSymbol: string;
+
+  /**
+   * @generated from field: double strike = 3;
+   */
+  strike: number;
+
+  /**
+   * @generated from field: uint64 expiry_timestamp = 4;
+   */
+  expiryTimestamp: bigint;
+
+  /**
+   * @generated from field: optx.OptionType option_type = 5;
+   */
+  optionType: OptionType;
+
+  /**
+   * @generated from field: int64 bid_price_scaled = 6;
+   */
+  bidPriceScaled: bigint;
+
+  /**
+   * @generated from field: int32 bid_size = 7;
+   */
+  bidSize: number;
+
+  /**
+   * @generated from field: int64 ask_price_scaled = 8;
+   */
+  askPriceScaled: bigint;
+
+  /**
+   * @generated from field: int32 ask_size = 9;
+   */
+  askSize: number;
+
+  /**
+   * @generated from field: double implied_volatility = 10;
+   */
+  impliedVolatility: number;
+
+  /**
+   * @generated from field: double delta = 11;
+   */
+  delta: number;
+
+  /**
+   * @generated from field: double gamma = 12;
+   */
+  gamma: number;
+
+  /**
+   * @generated from field: double theta = 13;
+   */
+  theta: number;
+
+  /**
+   * @generated from field: double vega = 14;
+   */
+  vega: number;
+
+  /**
+   * @generated from field: double rho = 15;
+   */
+  rho: number;
+};
+
+/**
+ * Describes the message optx.OptionContract.
+ * Use `create(OptionContractSchema)` to create a new message.
+ */
+export declare const OptionContractSchema: GenMessage<OptionContract>;
+
+/**
+ * Engine Events
+ *
+ * @generated from message optx.MarketEvent
+ */
+export declare type MarketEvent = Message<"optx.MarketEvent"> & {
+  /**
+   * @generated from field: uint64 timestamp_ns = 1;
+   */
+  timestampNs: bigint;
+
+  /**
+   * @generated from oneof optx.MarketEvent.event
+   */
+  event: {
+    /**
+     * @generated from field: optx.MarketDataFrame market_data = 2;
+     */
+    value: MarketDataFrame;
+    case: "marketData";
+  } | {
+    /**
+     * @generated from field: optx.QuoteUpdate quote = 3;
+     */
+    value: QuoteUpdate;
+    case: "quote";
+  } | {
+    /**
+     * @generated from field: optx.Fill fill = 4;
+     */
+    value: Fill;
+    case: "fill";
+  } | {
+    /**
+     * @generated from field: optx.OrderAck order_ack = 5;
+     */
+    value: OrderAck;
+    case: "orderAck";
+  } | { case: undefined; value?: undefined };
+};
+
+/**
+ * Describes the message optx.MarketEvent.
+ * Use `create(MarketEventSchema)` to create a new message.
+ */
+export declare const MarketEventSchema: GenMessage<MarketEvent>;
+
+/**
+ * @generated from message optx.PortfolioSnapshot
+ */
+export declare type PortfolioSnapshot = Message<"optx.PortfolioSnapshot"> & {
+  /**
+   * @generated from field: uint64 timestamp_ns = 1;
+   */
+  timestampNs: bigint;
+
+  /**
+   * @generated from field: repeated optx.Position positions = 2;
+   */
+  positions: Position[];
+
+  /**
+   * @generated from field: double unrealized_pnl = 3;
+   */
+  unrealizedPnl: number;
+
+  /**
+   * @generated from field: double realized_pnl = 4;
+   */
+  realizedPnl: number;
+
+  /**
+   * @generated from field: double total_pnl = 5;
+   */
+  totalPnl: number;
+
+  /**
+   * @generated from field: double net_delta = 6;
+   */
+  netDelta: number;
+
+  /**
+   * @generated from field: double net_gamma = 7;
+   */
+  netGamma: number;
+
+  /**
+   * @generated from field: double net_theta = 8;
+   */
+  netTheta: number;
+
+  /**
+   * @generated from field: double net_vega = 9;
+   */
+  netVega: number;
+};
+
+/**
+ * Describes the message optx.PortfolioSnapshot.
+ * Use `create(PortfolioSnapshotSchema)` to create a new message.
+ */
+export declare const PortfolioSnapshotSchema: GenMessage<PortfolioSnapshot>;
+
+/**
+ * @generated from message optx.Position
+ */
+export declare type Position = Message<"optx.Position"> & {
+  /**
+   * @generated from field: string symbol = 1;
+   */
+  symbol: string;
+
+  /**
+   * @generated from field: int32 quantity = 2;
+   */
+  quantity: number;
+
+  /**
+   * @generated from field: double avg_price = 3;
+   */
+  avgPrice: number;
+
+  /**
+   * @generated from field: double market_value = 4;
+   */
+  marketValue: number;
+
+  /**
+   * @generated from field: double unrealized_pnl = 5;
+   */
+  unrealizedPnl: number;
+
+  /**
+   * @generated from field: double delta = 6;
+   */
+  delta: number;
+
+  /**
+   * @generated from field: double gamma = 7;
+   */
+  gamma: number;
+
+  /**
+   * @generated from field: double theta = 8;
+   */
+  theta: number;
+
+  /**
+   * @generated from field: double vega = 9;
+   */
+  vega: number;
+};
+
+/**
+ * Describes the message optx.Position.
+ * Use `create(PositionSchema)` to create a new message.
+ */
+export declare const PositionSchema: GenMessage<Position>;
+
+/**
+ * Strategy Messages
+ *
+ * @generated from message optx.StrategySignal
+ */
+export declare type StrategySignal = Message<"optx.StrategySignal"> & {
+  /**
+   * @generated from field: uint64 timestamp_ns = 1;
+   */
+  timestampNs: bigint;
+
+  /**
+   * @generated from field: string strategy_name = 2;
+   */
+  strategyName: string;
+
+  /**
+   * @generated from field: optx.SignalType signal_type = 3;
+   */
+  signalType: SignalType;
+
+  /**
+   * @generated from field: repeated optx.NewOrder orders = 4;
+   */
+  orders: NewOrder[];
+
+  /**
+   * @generated from field: string reason = 5;
+   */
+  reason: string;
+};
+
+/**
+ * Describes the message optx.StrategySignal.
+ * Use `create(StrategySignalSchema)` to create a new message.
+ */
+export declare const StrategySignalSchema: GenMessage<StrategySignal>;
+
+/**
+ * Risk Management
+ *
+ * @generated from message optx.RiskCheck
+ */
+export declare type RiskCheck = Message<"optx.RiskCheck"> & {
+  /**
+   * @generated from field: string order_id = 1;
+   */
+  orderId: string;
+
+  /**
+   * @generated from field: optx.RiskStatus status = 2;
+   */
+  status: RiskStatus;
+
+  /**
+   * @generated from field: string reason = 3;
+   */
+  reason: string;
+
+  /**
+   * @generated from field: double risk_metric = 4;
+   */
+  riskMetric: number;
+
+  /**
+   * @generated from field: double risk_limit = 5;
+   */
+  riskLimit: number;
+};
+
+/**
+ * Describes the message optx.RiskCheck.
+ * Use `create(RiskCheckSchema)` to create a new message.
+ */
+export declare const RiskCheckSchema: GenMessage<RiskCheck>;
+
+/**
+ * @generated from enum optx.MarketDataType
+ */
+export enum MarketDataType {
+  /**
+   * @generated from enum value: TRADE = 0;
+   */
+  TRADE = 0,
+
+  /**
+   * @generated from enum value: BID = 1;
+   */
+  BID = 1,
+
+  /**
+   * @generated from enum value: ASK = 2;
+   */
+  ASK = 2,
+
+  /**
+   * @generated from enum value: QUOTE = 3;
+   */
+  QUOTE = 3,
+}
+
+/**
+ * Describes the enum optx.MarketDataType.
+ */
+export declare const MarketDataTypeSchema: GenEnum<MarketDataType>;
+
+/**
+ * @generated from enum optx.OrderSide
+ */
+export enum OrderSide {
+  /**
+   * @generated from enum value: BUY = 0;
+   */
+  BUY = 0,
+
+  /**
+   * @generated from enum value: SELL = 1;
+   */
+  SELL = 1,
+}
+
+/**
+ * Describes the enum optx.OrderSide.
+ */
+export declare const OrderSideSchema: GenEnum<OrderSide>;
+
+/**
+ * @generated from enum optx.OrderType
+ */
+export enum OrderType {
+  /**
+   * @generated from enum value: MARKET = 0;
+   */
+  MARKET = 0,
+
+  /**
+   * @generated from enum value: LIMIT = 1;
+   */
+  LIMIT = 1,
+}
+
+/**
+ * Describes the enum optx.OrderType.
+ */
+export declare const OrderTypeSchema: GenEnum<OrderType>;
+
+/**
+ * @generated from enum optx.TimeInForce
+ */
+export enum TimeInForce {
+  /**
+   * Good Till Cancel
+   *
+   * @generated from enum value: GTC = 0;
+   */
+  GTC = 0,
+
+  /**
+   * Immediate or Cancel
+   *
+   * @generated from enum value: IOC = 1;
+   */
+  IOC = 1,
+
+  /**
+   * Fill or Kill
+   *
+   * @generated from enum value: FOK = 2;
+   */
+  FOK = 2,
+}
+
+/**
+ * Describes the enum optx.TimeInForce.
+ */
+export declare const TimeInForceSchema: GenEnum<TimeInForce>;
+
+/**
+ * @generated from enum optx.OrderStatus
+ */
+export enum OrderStatus {
+  /**
+   * @generated from enum value: PENDING = 0;
+   */
+  PENDING = 0,
+
+  /**
+   * @generated from enum value: ACCEPTED = 1;
+   */
+  ACCEPTED = 1,
+
+  /**
+   * @generated from enum value: REJECTED = 2;
+   */
+  REJECTED = 2,
+
+  /**
+   * @generated from enum value: FILLED = 3;
+   */
+  FILLED = 3,
+
+  /**
+   * @generated from enum value: PARTIALLY_FILLED = 4;
+   */
+  PARTIALLY_FILLED = 4,
+
+  /**
+   * @generated from enum value: CANCELED = 5;
+   */
+  CANCELED = 5,
+}
+
+/**
+ * Describes the enum optx.OrderStatus.
+ */
+export declare const OrderStatusSchema: GenEnum<OrderStatus>;
+
+/**
+ * @generated from enum optx.OptionType
+ */
+export enum OptionType {
+  /**
+   * @generated from enum value: CALL = 0;
+   */
+  CALL = 0,
+
+  /**
+   * @generated from enum value: PUT = 1;
+   */
+  PUT = 1,
+}
+
+/**
+ * Describes the enum optx.OptionType.
+ */
+export declare const OptionTypeSchema: GenEnum<OptionType>;
+
+/**
+ * @generated from enum optx.SignalType
+ */
+export enum SignalType {
+  /**
+   * @generated from enum value: ENTRY = 0;
+   */
+  ENTRY = 0,
+
+  /**
+   * @generated from enum value: EXIT = 1;
+   */
+  EXIT = 1,
+
+  /**
+   * @generated from enum value: HEDGE = 2;
+   */
+  HEDGE = 2,
+
+  /**
+   * @generated from enum value: ROLL = 3;
+   */
+  ROLL = 3,
+
+  /**
+   * @generated from enum value: REBALANCE = 4;
+   */
+  REBALANCE = 4,
+}
+
+/**
+ * Describes the enum optx.SignalType.
+ */
+export declare const SignalTypeSchema: GenEnum<SignalType>;
+
+/**
+ * @generated from enum optx.RiskStatus
+ */
+export enum RiskStatus {
+  /**
+   * Prefixed so REJECTED does not clash with OrderStatus; generators strip it
+   *
+   * @generated from enum value: RISK_STATUS_APPROVED = 0;
+   */
+  APPROVED = 0,
+
+  /**
+   * @generated from enum value: RISK_STATUS_REJECTED = 1;
+   */
+  REJECTED = 1,
+
+  /**
+   * @generated from enum value: RISK_STATUS_WARNING = 2;
+   */
+  WARNING = 2,
+}
+
+/**
+ * Describes the enum optx.RiskStatus.
+ */
+export declare const RiskStatusSchema: GenEnum<RiskStatus>;
+
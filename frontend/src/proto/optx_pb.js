@@ -0,0 +1,192 @@
+// @generated by protoc-gen-es v2.16.0 with parameter "target=js+dts"
+// @generated from file optx.proto (package optx, syntax proto3)
+/* eslint-disable */
+
+import { enumDesc, fileDesc, messageDesc, tsEnum } from "@bufbuild/protobuf/codegenv2";
+
+/**
+ * Describes the file optx.proto.
+ */
+export const file_optx = /*@__PURE__*/
+  fileDesc("CgpvcHR4LnByb3RvEgRvcHR4IpUBCg9NYXJrZXREYXRhRnJhbWUSEAoIc2VxdWVuY2UYASABKAQSFAoMdGltZXN0YW1wX25zGAIgASgEEg4KBnN5bWJvbBgDIAEoCRIUCgxwcmljZV9zY2FsZWQYBCABKAMSEAoIcXVhbnRpdHkYBSABKAUSIgoEdHlwZRgGIAEoDjIULm9wdHguTWFya2V0RGF0YVR5cGUiiwEKC1F1b3RlVXBkYXRlEhQKDHRpbWVzdGFtcF9ucxgBIAEoBBIOCgZzeW1ib2wYAiABKAkSGAoQYmlkX3ByaWNlX3NjYWxlZBgDIAEoAxIQCghiaWRfc2l6ZRgEIAEoBRIYChBhc2tfcHJpY2Vfc2NhbGVkGAUgASgDEhAKCGFza19zaXplGAYgASgFIsgBCghOZXdPcmRlchIQCghvcmRlcl9pZBgBIAEoCRIOCgZzeW1ib2wYAiABKAkSHQoEc2lkZRgDIAEoDjIPLm9wdHguT3JkZXJTaWRlEh0KBHR5cGUYBCABKA4yDy5vcHR4Lk9yZGVyVHlwZRIQCghxdWFudGl0eRgFIAEoBRIUCgxwcmljZV9zY2FsZWQYBiABKAMSHgoDdGlmGAcgASgOMhEub3B0eC5UaW1lSW5Gb3JjZRIUCgx0aW1lc3RhbXBfbnMYCCABKAQigAEKCE9yZGVyQWNrEhAKCG9yZGVyX2lkGAEgASgJEhkKEWV4Y2hhbmdlX29yZGVyX2lkGAIgASgJEiEKBnN0YXR1cxgDIAEoDjIRLm9wdHguT3JkZXJTdGF0dXMSFAoMdGltZXN0YW1wX25zGAQgASgEEg4KBnJlYXNvbhgFIAEoCSKxAQoERmlsbBIQCghvcmRlcl9pZBgBIAEoCRIZChFleGNoYW5nZV9vcmRlcl9pZBgCIAEoCRIXCg9maWxsZWRfcXVhbnRpdHkYAyABKAUSGQoRZmlsbF9wcmljZV9zY2FsZWQYBCABKAMSFwoPbGVhdmVzX3F1YW50aXR5GAUgASgFEhQKDHRpbWVzdGFtcF9ucxgGIAEoBBIZChFjb21taXNzaW9uX3NjYWxlZBgHIAEoAyJQCgtDYW5jZWxPcmRlchIQCghvcmRlcl9pZBgBIAEoCRIZChFleGNoYW5nZV9vcmRlcl9pZBgCIAEoCRIUCgx0aW1lc3RhbXBfbnMYAyABKAQiyAIKDk9wdGlvbkNvbnRyYWN0Eg4KBnN5bWJvbBgBIAEoCRIZChF1bmRlcmx5aW5nX3N5bWJvbBgCIAEoCRIOCgZzdHJpa2UYAyABKAESGAoQZXhwaXJ5X3RpbWVzdGFtcBgEIAEoBBIlCgtvcHRpb25fdHlwZRgFIAEoDjIQLm9wdHguT3B0aW9uVHlwZRIYChBiaWRfcHJpY2Vfc2NhbGVkGAYgASgDEhAKCGJpZF9zaXplGAcgASgFEhgKEGFza19wcmljZV9zY2FsZWQYCCABKAMSEAoIYXNrX3NpemUYCSABKAUSGgoSaW1wbGllZF92b2xhdGlsaXR5GAogASgBEg0KBWRlbHRhGAsgASgBEg0KBWdhbW1hGAwgASgBEg0KBXRoZXRhGA0gASgBEgwKBHZlZ2EYDiABKAESCwoDcmhvGA8gASgBIr8BCgtNYXJrZXRFdmVudBIUCgx0aW1lc3RhbXBfbnMYASABKAQSLAoLbWFya2V0X2RhdGEYAiABKAsyFS5vcHR4Lk1hcmtldERhdGFGcmFtZUgAEiIKBXF1b3RlGAMgASgLMhEub3B0eC5RdW90ZVVwZGF0ZUgAEhoKBGZpbGwYBCABKAsyCi5vcHR4LkZpbGxIABIjCglvcmRlcl9hY2sYBSABKAsyDi5vcHR4Lk9yZGVyQWNrSABCBwoFZXZlbnQi2AEKEVBvcnRmb2xpb1NuYXBzaG90EhQKDHRpbWVzdGFtcF9ucxgBIAEoBBIhCglwb3NpdGlvbnMYAiADKAsyDi5vcHR4LlBvc2l0aW9uEhYKDnVucmVhbGl6ZWRfcG5sGAMgASgBEhQKDHJlYWxpemVkX3BubBgEIAEoARIRCgl0b3RhbF9wbmwYBSABKAESEQoJbmV0X2RlbHRhGAYgASgBEhEKCW5ldF9nYW1tYRgHIAEoARIRCgluZXRfdGhldGEYCCABKAESEAoIbmV0X3ZlZ2EYCSABKAEiqAEKCFBvc2l0aW9uEg4KBnN5bWJvbBgBIAEoCRIQCghxdWFudGl0eRgCIAEoBRIRCglhdmdfcHJpY2UYAyABKAESFAoMbWFya2V0X3ZhbHVlGAQgASgBEhYKDnVucmVhbGl6ZWRfcG5sGAUgASgBEg0KBWRlbHRhGAYgASgBEg0KBWdhbW1hGAcgASgBEg0KBXRoZXRhGAggASgBEgwKBHZlZ2EYCSABKAEilAEKDlN0cmF0ZWd5U2lnbmFsEhQKDHRpbWVzdGFtcF9ucxgBIAEoBBIVCg1zdHJhdGVneV9uYW1lGAIgASgJEiUKC3NpZ25hbF90eXBlGAMgASgOMhAub3B0eC5TaWduYWxUeXBlEh4KBm9yZGVycxgEIAMoCzIOLm9wdHguTmV3T3JkZXISDgoGcmVhc29uGAUgASgJIngKCVJpc2tDaGVjaxIQCghvcmRlcl9pZBgBIAEoCRIgCgZzdGF0dXMYAiABKA4yEC5vcHR4LlJpc2tTdGF0dXMSDgoGcmVhc29uGAMgASgJEhMKC3Jpc2tfbWV0cmljGAQgASgBEhIKCnJpc2tfbGltaXQYBSABKAEqOAoOTWFya2V0RGF0YVR5cGUSCQoFVFJBREUQABIHCgNCSUQQARIHCgNBU0sQAhIJCgVRVU9URRADKh4KCU9yZGVyU2lkZRIHCgNCVVkQABIICgRTRUxMEAEqIgoJT3JkZXJUeXBlEgoKBk1BUktFVBAAEgkKBUxJTUlUEAEqKAoLVGltZUluRm9yY2USBwoDR1RDEAASBwoDSU9DEAESBwoDRk9LEAIqZgoLT3JkZXJTdGF0dXMSCwoHUEVORElORxAAEgwKCEFDQ0VQVEVEEAESDAoIUkVKRUNURUQQAhIKCgZGSUxMRUQQAxIUChBQQVJUSUFMTFlfRklMTEVEEAQSDAoIQ0FOQ0VMRUQQBSofCgpPcHRpb25UeXBlEggKBENBTEwQABIHCgNQVVQQASpFCgpTaWduYWxUeXBlEgkKBUVOVFJZEAASCAoERVhJVBABEgkKBUhFREdFEAISCAoEUk9MTBADEg0KCVJFQkFMQU5DRRAEKlkKClJpc2tTdGF0dXMSGAoUUklTS19TVEFUVVNfQVBQUk9WRUQQABIYChRSSVNLX1NUQVRVU19SRUpFQ1RFRBABEhcKE1JJU0tfU1RBVFVTX1dBUk5JTkcQAkISqgIPT3B0eC5XaXJlLlByb3RvYgZwcm90bzM");
+
+/**
+ * Describes the message optx.MarketDataFrame.
+ * Use `create(MarketDataFrameSchema)` to create a new message.
+ */
+export const MarketDataFrameSchema = /*@__PURE__*/
+  messageDesc(file_optx, 0);
+
+/**
+ * Describes the message optx.QuoteUpdate.
+ * Use `create(QuoteUpdateSchema)` to create a new message.
+ */
+export const QuoteUpdateSchema = /*@__PURE__*/
+  messageDesc(file_optx, 1);
+
+/**
+ * Describes the message optx.NewOrder.
+ * Use `create(NewOrderSchema)` to create a new message.
+ */
+export const NewOrderSchema = /*@__PURE__*/
+  messageDesc(file_optx, 2);
+
+/**
+ * Describes the message optx.OrderAck.
+ * Use `create(OrderAckSchema)` to create a new message.
+ */
+export const OrderAckSchema = /*@__PURE__*/
+  messageDesc(file_optx, 3);
+
+/**
+ * Describes the message optx.Fill.
+ * Use `create(FillSchema)` to create a new message.
+ */
+export const FillSchema = /*@__PURE__*/
+  messageDesc(file_optx, 4);
+
+/**
+ * Describes the message optx.CancelOrder.
+ * Use `create(CancelOrderSchema)` to create a new message.
+ */
+export const CancelOrderSchema = /*@__PURE__*/
+  messageDesc(file_optx, 5);
+
+/**
+ * Describes the message optx.OptionContract.
+ * Use `create(OptionContractSchema)` to create a new message.
+ */
+export const OptionContractSchema = /*@__PURE__*/
+  messageDesc(file_optx, 6);
+
+/**
+ * Describes the message optx.MarketEvent.
+ * Use `create(MarketEventSchema)` to create a new message.
+ */
+export const MarketEventSchema = /*@__PURE__*/
+  messageDesc(file_optx, 7);
+
+/**
+ * Describes the message optx.PortfolioSnapshot.
+ * Use `create(PortfolioSnapshotSchema)` to create a new message.
+ */
+export const PortfolioSnapshotSchema = /*@__PURE__*/
+  messageDesc(file_optx, 8);
+
+/**
+ * Describes the message optx.Position.
+ * Use `create(PositionSchema)` to create a new message.
+ */
+export const PositionSchema = /*@__PURE__*/
+  messageDesc(file_optx, 9);
+
+/**
+ * Describes the message optx.StrategySignal.
+ * Use `create(StrategySignalSchema)` to create a new message.
+ */
+export const StrategySignalSchema = /*@__PURE__*/
+  messageDesc(file_optx, 10);
+
+/**
+ * Describes the message optx.RiskCheck.
+ * Use `create(RiskCheckSchema)` to create a new message.
+ */
+export const RiskCheckSchema = /*@__PURE__*/
+  messageDesc(file_optx, 11);
+
+/**
+ * Describes the enum optx.MarketDataType.
+ */
+export const MarketDataTypeSchema = /*@__PURE__*/
+  enumDesc(file_optx, 0);
+
+/**
+ * @generated from enum optx.MarketDataType
+ */
+export const MarketDataType = /*@__PURE__*/
+  tsEnum(MarketDataTypeSchema);
+
+/**
+ * Describes the enum optx.OrderSide.
+ */
+export const OrderSideSchema = /*@__PURE__*/
+  enumDesc(file_optx, 1);
+
+/**
+ * @generated from enum optx.OrderSide
+ */
+export const OrderSide = /*@__PURE__*/
+  tsEnum(OrderSideSchema);
+
+/**
+ * Describes the enum optx.OrderType.
+ */
+export const OrderTypeSchema = /*@__PURE__*/
+  enumDesc(file_optx, 2);
+
+/**
+ * @generated from enum optx.OrderType
+ */
+export const OrderType = /*@__PURE__*/
+  tsEnum(OrderTypeSchema);
+
+/**
+ * Describes the enum optx.TimeInForce.
+ */
+export const TimeInForceSchema = /*@__PURE__*/
+  enumDesc(file_optx, 3);
+
+/**
+ * @generated from enum optx.TimeInForce
+ */
+export const TimeInForce = /*@__PURE__*/
+  tsEnum(TimeInForceSchema);
+
+/**
+ * Describes the enum optx.OrderStatus.
+ */
+export const OrderStatusSchema = /*@__PURE__*/
+  enumDesc(file_optx, 4);
+
+/**
+ * @generated from enum optx.OrderStatus
+ */
+export const OrderStatus = /*@__PURE__*/
+  tsEnum(OrderStatusSchema);
+
+/**
+ * Describes the enum optx.OptionType.
+ */
+export const OptionTypeSchema = /*@__PURE__*/
+  enumDesc(file_optx, 5);
+
+/**
+ * @generated from enum optx.OptionType
+ */
+export const OptionType = /*@__PURE__*/
+  tsEnum(OptionTypeSchema);
+
+/**
+ * Describes the enum optx.SignalType.
+ */
+export const SignalTypeSchema = /*@__PURE__*/
+  enumDesc(file_optx, 6);
+
+/**
+ * @generated from enum optx.SignalType
+ */
+export const SignalType = /*@__PURE__*/
+  tsEnum(SignalTypeSchema);
+
+/**
+ * Describes the enum optx.RiskStatus.
+ */
+export const RiskStatusSchema = /*@__PURE__*/
+  enumDesc(file_optx, 7);
+
+/**
+ * @generated from enum optx.RiskStatus
+ */
+export const RiskStatus = /*@__PURE__*/
+  tsEnum(RiskStatusSchema);
+
@@ -0,0 +1,31 @@
+import { DEFAULT_DIVIDEND_YIELD, DEFAULT_RISK_FREE_RATE } from '../../../frontend-nextjs-backup/lib/pricing';
+
+/**
+ * Base URL of the Optx.Web host. VITE_API_BASE_URL is inlined at build time;
+ * `window.__OPTX_CONFIG__ = { apiBaseUrl: '...' }`, defined before the app
+ * loads, overrides it without rebuilding. Pricing rates are overridden the
+ * same way.
+ */
+
+declare global {
+  interface Window {
+    __OPTX_CONFIG__?: { apiBaseUrl?: string; riskFreeRate?: number; dividendYield?: number };
+  }
+}
+
+const DEFAULT_API_BASE_URL = 'https://localhost:7238';
+
+export const API_BASE_URL = (
+  window.__OPTX_CONFIG__?.apiBaseUrl || import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL
+).replace(/\/+$/, '');
+
+/** Continuous rates option quotes are priced with, e.g. to back out implied vol. */
+export interface PricingRates {
+  riskFreeRate: number;
+  dividendYield: number;
+}
+
+export const PRICING_RATES: PricingRates = {
+  riskFreeRate: window.__OPTX_CONFIG__?.riskFreeRate ?? DEFAULT_RISK_FREE_RATE,
+  dividendYield: window.__OPTX_CONFIG__?.dividendYield ?? DEFAULT_DIVIDEND_YIELD,
+};
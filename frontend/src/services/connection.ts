@@ -0,0 +1,146 @@
+import * as signalR from '@microsoft/signalr';
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Fraction of each delay randomized, so clients don't retry in lockstep. */
+  jitter: number;
+  /** Consecutive failed attempts before giving up; null retries forever. */
+  maxAttempts: number | null;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: null,
+};
+
+/** Delay before retry number `attempt` (0-based), or null to give up. */
+export function backoffDelay(options: BackoffOptions, attempt: number): number | null {
+  if (options.maxAttempts !== null && attempt >= options.maxAttempts) {
+    return null;
+  }
+  const delay = Math.min(options.maxDelayMs, options.initialDelayMs * options.multiplier ** attempt);
+  return Math.round(delay * (1 - options.jitter + 2 * options.jitter * Math.random()));
+}
+
+class BackoffRetryPolicy implements signalR.IRetryPolicy {
+  private readonly options: BackoffOptions;
+
+  constructor(options: BackoffOptions) {
+    this.options = options;
+  }
+
+  nextRetryDelayInMilliseconds(context: signalR.RetryContext): number | null {
+    return backoffDelay(this.options, context.previousRetryCount);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A hub connection with an explicit state machine. SignalR's automatic
+ * reconnect covers dropped connections; the initial start is retried here
+ * with the same backoff. Server-side group membership does not survive a
+ * reconnect, so `onConnected` handlers run on every transition to
+ * connected to re-join groups.
+ */
+export class ManagedHubConnection {
+  readonly connection: signalR.HubConnection;
+  private readonly name: string;
+  private readonly backoff: BackoffOptions;
+  private currentState: ConnectionState = 'disconnected';
+  private stateListeners: ((state: ConnectionState) => void)[] = [];
+  private connectedHandlers: (() => Promise<void>)[] = [];
+  private stopped = false;
+
+  constructor(name: string, builder: signalR.HubConnectionBuilder, backoff: BackoffOptions) {
+    this.name = name;
+    this.backoff = backoff;
+    this.connection = builder.withAutomaticReconnect(new BackoffRetryPolicy(backoff)).build();
+
+    this.connection.onreconnecting(error => {
+      console.warn(`${this.name} connection lost, reconnecting:`, error);
+      this.setState('reconnecting');
+    });
+    this.connection.onreconnected(() => {
+      void this.handleConnected();
+    });
+    this.connection.onclose(error => {
+      if (error) {
+        console.error(`${this.name} connection closed:`, error);
+      }
+      this.setState('disconnected');
+    });
+  }
+
+  get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  get isConnected(): boolean {
+    return this.currentState === 'connected';
+  }
+
+  onStateChange(listener: (state: ConnectionState) => void): void {
+    this.stateListeners.push(listener);
+  }
+
+  onConnected(handler: () => Promise<void>): void {
+    this.connectedHandlers.push(handler);
+  }
+
+  /** Resolves once connected; rejects when the backoff gives up or stop() is called. */
+  async start(): Promise<void> {
+    this.stopped = false;
+    this.setState('connecting');
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.connection.start();
+        break;
+      } catch (error) {
+        const delay = this.stopped ? null : backoffDelay(this.backoff, attempt);
+        if (delay === null) {
+          this.setState('disconnected');
+          throw error;
+        }
+        console.warn(`${this.name} connection failed, retrying in ${delay}ms:`, error);
+        await sleep(delay);
+        if (this.stopped) {
+          throw new Error(`${this.name} connection stopped`);
+        }
+      }
+    }
+
+    await this.handleConnected();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.connection.stop();
+    this.setState('disconnected');
+  }
+
+  private async handleConnected(): Promise<void> {
+    this.setState('connected');
+    for (const handler of this.connectedHandlers) {
+      try {
+        await handler();
+      } catch (error) {
+        console.error(`${this.name} resubscription failed:`, error);
+      }
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
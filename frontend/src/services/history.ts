@@ -0,0 +1,62 @@
+import type { UTCTimestamp } from 'lightweight-charts';
+import { API_BASE_URL } from './config';
+import { ValidationError, array, number, object, optional, string } from '../../../frontend-nextjs-backup/lib/validate';
+import type { Bar } from '../lib/candles';
+
+/** Bars asked for per request when paging back through history. */
+export const HISTORY_PAGE_SIZE = 500;
+
+const HISTORY_TIMEOUT_MS = 10_000;
+
+const historyBar = object({ time: number, open: number, high: number, low: number, close: number, volume: number });
+const historyResponse = object({ bars: array(historyBar) });
+const errorResponse = object({ message: optional(string) });
+
+/**
+ * Bars of `intervalSeconds` that closed at or before `before` (Unix seconds;
+ * the server's clock when omitted), oldest first, from MarketDataController.
+ * Throws on network errors, timeouts, error statuses and malformed bodies.
+ */
+export async function fetchHistory(
+  symbol: string,
+  intervalSeconds: number,
+  before?: number,
+  limit = HISTORY_PAGE_SIZE,
+): Promise<Bar[]> {
+  const query = new URLSearchParams({ interval: String(intervalSeconds), limit: String(limit) });
+  if (before !== undefined) {
+    query.set('before', String(before));
+  }
+
+  const signal = AbortSignal.timeout(HISTORY_TIMEOUT_MS);
+  let response: Response;
+  let json: unknown;
+  try {
+    response = await fetch(`${API_BASE_URL}/api/marketdata/history/${encodeURIComponent(symbol)}?${query}`, { signal });
+    json = await response.json().catch(() => undefined);
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error(`History request for ${symbol} timed out after ${HISTORY_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    let message: string | undefined;
+    try {
+      message = errorResponse(json, 'response').message;
+    } catch {
+      message = undefined;
+    }
+    throw new Error(message ?? `History request for ${symbol} failed with status ${response.status}`);
+  }
+
+  let body;
+  try {
+    body = historyResponse(json, 'response');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new Error(`Unexpected history response for ${symbol} (${error.message})`);
+  }
+  return body.bars.map(bar => ({ ...bar, time: bar.time as UTCTimestamp }));
+}
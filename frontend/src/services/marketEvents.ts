@@ -0,0 +1,141 @@
+// Decoding for the `MarketEvent` payloads sent by MarketDataBroadcastService.
+// The server declares the fields in PascalCase but SignalR's JSON protocol
+// camel-cases them by default, so both spellings are accepted here.
+
+export type MarketEventType = 'trade' | 'quote';
+
+interface MarketEventBase {
+  symbol: string;
+  timestampNs: number;
+}
+
+export interface TradeEvent extends MarketEventBase {
+  type: 'trade';
+  price: number;
+  quantity: number;
+  dataType: string;
+}
+
+export interface QuoteEvent extends MarketEventBase {
+  type: 'quote';
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
+  mid: number;
+  spread: number;
+}
+
+export type MarketEvent = TradeEvent | QuoteEvent;
+
+export interface OptionContract {
+  underlying: string;
+  expiry: string;
+  optionType: 'call' | 'put';
+  strike: number;
+}
+
+const OCC_SYMBOL = /^(?:O:)?([A-Z.]{1,6})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+type RawEvent = Record<string, unknown>;
+
+function readField(raw: RawEvent, name: string): unknown {
+  if (name in raw) {
+    return raw[name];
+  }
+  const camel = name.charAt(0).toLowerCase() + name.slice(1);
+  return raw[camel];
+}
+
+function readNumber(raw: RawEvent, name: string): number {
+  const value = readField(raw, name);
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new Error(`MarketEvent field '${name}' is not a number`);
+  }
+  return parsed;
+}
+
+function readString(raw: RawEvent, name: string): string {
+  const value = readField(raw, name);
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`MarketEvent field '${name}' is not a string`);
+  }
+  return value;
+}
+
+/**
+ * Decode a raw hub payload into a typed market event. Returns null for
+ * event types the client does not understand (fills, acks) and throws when
+ * a known event type is missing required fields.
+ */
+export function decodeMarketEvent(payload: unknown): MarketEvent | null {
+  if (typeof payload !== 'object' || payload === null) {
+    throw new Error('MarketEvent payload is not an object');
+  }
+
+  const raw = payload as RawEvent;
+  const type = String(readField(raw, 'Type') ?? '').toLowerCase();
+  const symbol = readString(raw, 'Symbol');
+  const timestampNs = readNumber(raw, 'Timestamp');
+
+  switch (type) {
+    case 'trade':
+      return {
+        type: 'trade',
+        symbol,
+        timestampNs,
+        price: readNumber(raw, 'Price'),
+        quantity: readNumber(raw, 'Quantity'),
+        dataType: String(readField(raw, 'DataType') ?? 'Trade'),
+      };
+    case 'quote': {
+      const bidPrice = readNumber(raw, 'BidPrice');
+      const askPrice = readNumber(raw, 'AskPrice');
+      const mid = readField(raw, 'Mid');
+      const spread = readField(raw, 'Spread');
+      return {
+        type: 'quote',
+        symbol,
+        timestampNs,
+        bidPrice,
+        bidSize: readNumber(raw, 'BidSize'),
+        askPrice,
+        askSize: readNumber(raw, 'AskSize'),
+        mid: typeof mid === 'number' ? mid : (bidPrice + askPrice) / 2,
+        spread: typeof spread === 'number' ? spread : askPrice - bidPrice,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse an OCC option symbol such as `SPY251121C00090000` (optionally with
+ * Polygon's `O:` prefix). Returns null for plain equity symbols.
+ */
+export function parseOptionSymbol(symbol: string): OptionContract | null {
+  const match = OCC_SYMBOL.exec(symbol);
+  if (!match) {
+    return null;
+  }
+
+  const [, underlying, yy, mm, dd, right, strike] = match;
+  return {
+    underlying,
+    expiry: `20${yy}-${mm}-${dd}`,
+    optionType: right === 'C' ? 'call' : 'put',
+    strike: parseInt(strike, 10) / 1000,
+  };
+}
+
+/** Price of an event: last trade price, or the quote midpoint. */
+export function eventPrice(event: MarketEvent): number {
+  return event.type === 'trade' ? event.price : event.mid;
+}
+
+/** Nanosecond hub timestamps as Unix seconds, which is what the chart uses. */
+export function toUnixSeconds(timestampNs: number): number {
+  return timestampNs / 1e9;
+}
@@ -0,0 +1,291 @@
+// Decoding for protobuf payloads defined in proto/optx.proto. The message
+// types in ../proto are generated (`npm run proto`); this module turns them
+// into the plain shapes the UI uses, converting `*_scaled` integer prices
+// (price × 10000) back to decimals. The payloads are written by the C#
+// ProtoMapper: MarketFrame on the market hub's binary mode, and the engine
+// frames on the strategy hub.
+
+import { fromBinary } from '@bufbuild/protobuf';
+import type { DescMessage, MessageShape } from '@bufbuild/protobuf';
+import { base64Decode } from '@bufbuild/protobuf/wire';
+import {
+  FillSchema,
+  MarketDataType,
+  MarketEventSchema,
+  OrderAckSchema,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  PortfolioSnapshotSchema,
+  RiskCheckSchema,
+  RiskStatus,
+  StrategySignalSchema,
+  TimeInForce,
+} from '../proto/optx_pb';
+import type { Fill, MarketDataFrame, NewOrder, Position, QuoteUpdate, SignalType } from '../proto/optx_pb';
+import type { MarketEvent, QuoteEvent, TradeEvent } from './marketEvents';
+
+export const PRICE_SCALE = 10_000;
+
+const SCALE = BigInt(PRICE_SCALE);
+const MAX_EXACT = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * A `*_scaled` field as a decimal price. Within the safe-integer range a
+ * single division is correctly rounded, so 1234567n comes back as exactly
+ * 123.4567; beyond it the whole part is split off first to keep the
+ * fraction.
+ */
+export function fromScaled(value: bigint): number {
+  if (value <= MAX_EXACT && value >= -MAX_EXACT) {
+    return Number(value) / PRICE_SCALE;
+  }
+  return Number(value / SCALE) + Number(value % SCALE) / PRICE_SCALE;
+}
+
+/** Protobuf bytes, either raw or as a base64 string as JSON carries them. */
+export function decodeMessage<Desc extends DescMessage>(schema: Desc, payload: unknown): MessageShape<Desc> {
+  if (payload instanceof Uint8Array) {
+    return fromBinary(schema, payload);
+  }
+  if (typeof payload === 'string') {
+    return fromBinary(schema, base64Decode(payload));
+  }
+  throw new Error(`${schema.typeName} payload is not binary`);
+}
+
+export interface FillReport {
+  orderId: string;
+  exchangeOrderId: string;
+  filledQuantity: number;
+  fillPrice: number;
+  leavesQuantity: number;
+  timestampNs: number;
+  commission: number;
+}
+
+export interface OrderRequest {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  quantity: number;
+  /** Null for market orders. */
+  price: number | null;
+  timeInForce: 'GTC' | 'IOC' | 'FOK';
+  timestampNs: number;
+}
+
+export interface OrderAckReport {
+  orderId: string;
+  exchangeOrderId: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'filled' | 'partially_filled' | 'canceled';
+  timestampNs: number;
+  /** Why the order was rejected; empty otherwise. */
+  reason: string;
+}
+
+export interface PositionReport {
+  symbol: string;
+  quantity: number;
+  avgPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+}
+
+export interface PortfolioSnapshotReport {
+  timestampNs: number;
+  positions: PositionReport[];
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+  netDelta: number;
+  netGamma: number;
+  netTheta: number;
+  netVega: number;
+}
+
+export interface RiskCheckReport {
+  orderId: string;
+  status: 'approved' | 'rejected' | 'warning';
+  reason: string;
+  riskMetric: number;
+  riskLimit: number;
+}
+
+export interface StrategySignalReport {
+  timestampNs: number;
+  strategyName: string;
+  signalType: SignalType;
+  orders: OrderRequest[];
+  reason: string;
+}
+
+// Same names as Optx.Core's MarketDataType, which the JSON feed sends as DataType
+const DATA_TYPE_NAMES: Record<MarketDataType, string> = {
+  [MarketDataType.TRADE]: 'Trade',
+  [MarketDataType.BID]: 'Bid',
+  [MarketDataType.ASK]: 'Ask',
+  [MarketDataType.QUOTE]: 'Quote',
+};
+
+const ORDER_STATUSES: Record<OrderStatus, OrderAckReport['status']> = {
+  [OrderStatus.PENDING]: 'pending',
+  [OrderStatus.ACCEPTED]: 'accepted',
+  [OrderStatus.REJECTED]: 'rejected',
+  [OrderStatus.FILLED]: 'filled',
+  [OrderStatus.PARTIALLY_FILLED]: 'partially_filled',
+  [OrderStatus.CANCELED]: 'canceled',
+};
+
+const RISK_STATUSES: Record<RiskStatus, RiskCheckReport['status']> = {
+  [RiskStatus.APPROVED]: 'approved',
+  [RiskStatus.REJECTED]: 'rejected',
+  [RiskStatus.WARNING]: 'warning',
+};
+
+const TIME_IN_FORCE: Record<TimeInForce, OrderRequest['timeInForce']> = {
+  [TimeInForce.GTC]: 'GTC',
+  [TimeInForce.IOC]: 'IOC',
+  [TimeInForce.FOK]: 'FOK',
+};
+
+function toTradeEvent(frame: MarketDataFrame): TradeEvent {
+  return {
+    type: 'trade',
+    symbol: frame.symbol,
+    timestampNs: Number(frame.timestampNs),
+    price: fromScaled(frame.priceScaled),
+    quantity: frame.quantity,
+    dataType: DATA_TYPE_NAMES[frame.type] ?? 'Trade',
+  };
+}
+
+function toQuoteEvent(quote: QuoteUpdate): QuoteEvent {
+  const bidPrice = fromScaled(quote.bidPriceScaled);
+  const askPrice = fromScaled(quote.askPriceScaled);
+  return {
+    type: 'quote',
+    symbol: quote.symbol,
+    timestampNs: Number(quote.timestampNs),
+    bidPrice,
+    bidSize: quote.bidSize,
+    askPrice,
+    askSize: quote.askSize,
+    // Mid and spread from the scaled integers, so they carry no float error
+    mid: fromScaled(quote.bidPriceScaled + quote.askPriceScaled) / 2,
+    spread: fromScaled(quote.askPriceScaled - quote.bidPriceScaled),
+  };
+}
+
+/**
+ * Decode an `optx.MarketEvent` into the same event shape as the JSON feed.
+ * Returns null for fills and acks, like decodeMarketEvent; decodeFill and
+ * decodeOrderAck read those messages on their own.
+ */
+export function decodeMarketFrame(payload: unknown): MarketEvent | null {
+  const { event } = decodeMessage(MarketEventSchema, payload);
+  switch (event.case) {
+    case 'marketData':
+      return toTradeEvent(event.value);
+    case 'quote':
+      return toQuoteEvent(event.value);
+    default:
+      return null;
+  }
+}
+
+export function toFillReport(fill: Fill): FillReport {
+  return {
+    orderId: fill.orderId,
+    exchangeOrderId: fill.exchangeOrderId,
+    filledQuantity: fill.filledQuantity,
+    fillPrice: fromScaled(fill.fillPriceScaled),
+    leavesQuantity: fill.leavesQuantity,
+    timestampNs: Number(fill.timestampNs),
+    commission: fromScaled(fill.commissionScaled),
+  };
+}
+
+export function toOrderRequest(order: NewOrder): OrderRequest {
+  const type = order.type === OrderType.LIMIT ? 'limit' : 'market';
+  return {
+    orderId: order.orderId,
+    symbol: order.symbol,
+    side: order.side === OrderSide.SELL ? 'sell' : 'buy',
+    type,
+    quantity: order.quantity,
+    price: type === 'limit' ? fromScaled(order.priceScaled) : null,
+    timeInForce: TIME_IN_FORCE[order.tif] ?? 'GTC',
+    timestampNs: Number(order.timestampNs),
+  };
+}
+
+export function decodeFill(payload: unknown): FillReport {
+  return toFillReport(decodeMessage(FillSchema, payload));
+}
+
+export function decodeStrategySignal(payload: unknown): StrategySignalReport {
+  const signal = decodeMessage(StrategySignalSchema, payload);
+  return {
+    timestampNs: Number(signal.timestampNs),
+    strategyName: signal.strategyName,
+    signalType: signal.signalType,
+    orders: signal.orders.map(toOrderRequest),
+    reason: signal.reason,
+  };
+}
+
+export function decodeOrderAck(payload: unknown): OrderAckReport {
+  const ack = decodeMessage(OrderAckSchema, payload);
+  return {
+    orderId: ack.orderId,
+    exchangeOrderId: ack.exchangeOrderId,
+    status: ORDER_STATUSES[ack.status] ?? 'pending',
+    timestampNs: Number(ack.timestampNs),
+    reason: ack.reason,
+  };
+}
+
+// Position and portfolio figures are doubles on the wire, not scaled integers
+const toPositionReport = (position: Position): PositionReport => ({
+  symbol: position.symbol,
+  quantity: position.quantity,
+  avgPrice: position.avgPrice,
+  marketValue: position.marketValue,
+  unrealizedPnl: position.unrealizedPnl,
+  delta: position.delta,
+  gamma: position.gamma,
+  theta: position.theta,
+  vega: position.vega,
+});
+
+export function decodePortfolioSnapshot(payload: unknown): PortfolioSnapshotReport {
+  const snapshot = decodeMessage(PortfolioSnapshotSchema, payload);
+  return {
+    timestampNs: Number(snapshot.timestampNs),
+    positions: snapshot.positions.map(toPositionReport),
+    unrealizedPnl: snapshot.unrealizedPnl,
+    realizedPnl: snapshot.realizedPnl,
+    totalPnl: snapshot.totalPnl,
+    netDelta: snapshot.netDelta,
+    netGamma: snapshot.netGamma,
+    netTheta: snapshot.netTheta,
+    netVega: snapshot.netVega,
+  };
+}
+
+export function decodeRiskCheck(payload: unknown): RiskCheckReport {
+  const check = decodeMessage(RiskCheckSchema, payload);
+  return {
+    orderId: check.orderId,
+    status: RISK_STATUSES[check.status] ?? 'approved',
+    reason: check.reason,
+    riskMetric: check.riskMetric,
+    riskLimit: check.riskLimit,
+  };
+}
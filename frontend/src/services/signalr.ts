@@ -1,113 +1,462 @@
 import * as signalR from '@microsoft/signalr';
+import { MessagePackHubProtocol } from '@microsoft/signalr-protocol-msgpack';
+import { decodeMarketEvent, eventPrice, parseOptionSymbol } from './marketEvents';
+import type { MarketEvent } from './marketEvents';
+import {
+  decodeFill,
+  decodeMarketFrame,
+  decodeOrderAck,
+  decodePortfolioSnapshot,
+  decodeRiskCheck,
+  decodeStrategySignal,
+} from './protoFrames';
+import type {
+  FillReport,
+  OrderAckReport,
+  PortfolioSnapshotReport,
+  RiskCheckReport,
+  StrategySignalReport,
+} from './protoFrames';
+import { DEFAULT_BACKOFF, ManagedHubConnection } from './connection';
+import type { BackoffOptions, ConnectionState } from './connection';
 
-export interface MarketData {
-  symbol: string;
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
+export type { MarketEvent, TradeEvent, QuoteEvent } from './marketEvents';
+export type { BackoffOptions, ConnectionState } from './connection';
+export type {
+  FillReport,
+  OrderAckReport,
+  PortfolioSnapshotReport,
+  RiskCheckReport,
+  StrategySignalReport,
+} from './protoFrames';
 
 export interface OptionData {
   symbol: string;
+  underlying: string;
   strike: number;
   expiry: string;
   optionType: 'call' | 'put';
   price: number;
-  delta: number;
-  gamma: number;
-  theta: number;
-  vega: number;
-  rho: number;
-  impliedVolatility: number;
+  event: MarketEvent;
+}
+
+export interface MarketHubOptions {
+  /**
+   * Connect with the MessagePack hub protocol and subscribe to `MarketFrame`
+   * payloads: protobuf-encoded `optx.MarketEvent` messages from
+   * proto/optx.proto, delivered the same way as JSON events.
+   */
+  binary?: boolean;
+  backoff?: Partial<BackoffOptions>;
+}
+
+export interface StrategyHubOptions {
+  backoff?: Partial<BackoffOptions>;
+}
+
+export interface BacktestHubOptions {
+  backoff?: Partial<BackoffOptions>;
+}
+
+export type BacktestStrategyType = 'covered-call' | 'cash-secured-put';
+
+export interface BacktestConfig {
+  strategyType: BacktestStrategyType;
+  symbol: string;
+  initialCapital: number;
+  minDelta: number;
+  maxDelta: number;
+  dte: number;
+  commissionPerContract: number;
+  /** YYYY-MM-DD */
+  startDate: string;
+  /** YYYY-MM-DD */
+  endDate: string;
 }
 
 export interface BacktestProgress {
   runId: string;
+  /** Percent of events processed, 0-100. */
   progress: number;
+  /** Engine clock, nanoseconds since the epoch. */
   currentTime: number;
   equity: number;
   trades: number;
   pnl: number;
 }
 
+export interface EquityPoint {
+  /** Unix seconds. */
+  time: number;
+  equity: number;
+}
+
+export interface BacktestTrade {
+  id: string;
+  symbol: string;
+  optionType: 'call' | 'put' | 'stock';
+  strike: number | null;
+  /** Contracts or shares; negative for short. */
+  quantity: number;
+  /** Unix seconds. */
+  entryTime: number;
+  /** Unix seconds. */
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  commission: number;
+  /** Net of commission. */
+  pnl: number;
+}
+
+export type SignalType = 'ENTRY' | 'EXIT' | 'HEDGE' | 'ROLL' | 'REBALANCE';
+
+/** `NewOrder` from proto/optx.proto with a decimal price, as the JSON hub sends it. */
+export interface SignalOrder {
+  /** For option legs, the id of the trade log entry the order opens or closes. */
+  orderId: string;
+  /** Underlying ticker or OCC option symbol. */
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  /** Fill price. */
+  price: number;
+  timestampNs: number;
+}
+
+/** `StrategySignal` from proto/optx.proto. */
+export interface StrategySignal {
+  timestampNs: number;
+  strategyName: string;
+  signalType: SignalType;
+  orders: SignalOrder[];
+  reason: string;
+}
+
+/** A bar of the underlying the run traded; `time` is Unix seconds. */
+export interface PriceBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface BacktestCompleted {
+  runId: string;
+  equity: number;
+  trades: number;
+  pnl: number;
+  /** Daily (or finer) marks; progress updates are used when omitted. */
+  equityCurve?: EquityPoint[];
+  tradeLog?: BacktestTrade[];
+  signals?: StrategySignal[];
+  priceHistory?: PriceBar[];
+}
+
+export interface BacktestFailed {
+  runId: string;
+  message: string;
+}
+
+interface SymbolMethods {
+  subscribe: string;
+  unsubscribe: string;
+}
+
+const JSON_SYMBOL_METHODS: SymbolMethods = { subscribe: 'SubscribeToSymbol', unsubscribe: 'UnsubscribeFromSymbol' };
+
+// Binary clients join the symbols' frame groups instead of the JSON ones
+const FRAME_SYMBOL_METHODS: SymbolMethods = {
+  subscribe: 'SubscribeToSymbolFrames',
+  unsubscribe: 'UnsubscribeFromSymbolFrames',
+};
+
 export class SignalRService {
-  private marketConnection: signalR.HubConnection | null = null;
-  private backtestConnection: signalR.HubConnection | null = null;
+  private marketHub: ManagedHubConnection | null = null;
+  private backtestHub: ManagedHubConnection | null = null;
+  private strategyHub: ManagedHubConnection | null = null;
+  private binaryMarketData = false;
+  // Re-subscribed / re-joined whenever a hub (re)connects
+  private readonly subscriptions = new Set<string>();
+  private readonly activeRuns = new Set<string>();
+  private readonly strategyRooms = new Set<string>();
+  private lastMessageTime: number | null = null;
+  private marketStateCallbacks: ((state: ConnectionState) => void)[] = [];
+  private marketDataCallbacks: ((data: MarketEvent) => void)[] = [];
+  private optionDataCallbacks: ((data: OptionData) => void)[] = [];
+  private backtestProgressCallbacks: ((data: BacktestProgress) => void)[] = [];
+  private backtestCompletedCallbacks: ((data: BacktestCompleted) => void)[] = [];
+  private backtestFailedCallbacks: ((data: BacktestFailed) => void)[] = [];
+  private fillCallbacks: ((data: FillReport) => void)[] = [];
+  private orderAckCallbacks: ((data: OrderAckReport) => void)[] = [];
+  private portfolioCallbacks: ((data: PortfolioSnapshotReport) => void)[] = [];
+  private riskCheckCallbacks: ((data: RiskCheckReport) => void)[] = [];
+  private strategySignalCallbacks: ((data: StrategySignalReport) => void)[] = [];
+
+  /** Resolves once connected; keeps retrying with backoff until then. */
+  async connectMarketHub(url: string, options: MarketHubOptions = {}): Promise<void> {
+    const builder = new signalR.HubConnectionBuilder().withUrl(url + '/hubs/marketdata');
+    if (options.binary) {
+      builder.withHubProtocol(new MessagePackHubProtocol());
+    }
+    const hub = new ManagedHubConnection(
+      options.binary ? 'Market Hub (binary)' : 'Market Hub',
+      builder,
+      { ...DEFAULT_BACKOFF, ...options.backoff },
+    );
+    // A hub left over from an earlier connect would keep delivering events
+    void this.marketHub?.stop();
+    this.marketHub = hub;
+    this.binaryMarketData = options.binary ?? false;
 
-  async connectMarketHub(url: string): Promise<void> {
-    this.marketConnection = new signalR.HubConnectionBuilder()
-      .withUrl(url + '/markethub')
-      .withAutomaticReconnect()
-      .build();
+    hub.onStateChange(state => this.marketStateCallbacks.forEach(callback => callback(state)));
+    hub.onConnected(() => this.resubscribe(hub));
+    hub.connection.on('MarketEvent', (payload: unknown) => this.dispatchMarketEvent(payload, decodeMarketEvent));
+    hub.connection.on('MarketFrame', (payload: unknown) => this.dispatchMarketEvent(payload, decodeMarketFrame));
 
-    await this.marketConnection.start();
-    console.log('Connected to Market Hub');
+    await hub.start();
   }
 
-  async connectBacktestHub(url: string): Promise<void> {
-    this.backtestConnection = new signalR.HubConnectionBuilder()
-      .withUrl(url + '/backtest')
-      .withAutomaticReconnect()
-      .build();
+  async connectBacktestHub(url: string, options: BacktestHubOptions = {}): Promise<void> {
+    const builder = new signalR.HubConnectionBuilder().withUrl(url + '/hubs/backtest');
+    const hub = new ManagedHubConnection('Backtest Hub', builder, { ...DEFAULT_BACKOFF, ...options.backoff });
+    void this.backtestHub?.stop();
+    this.backtestHub = hub;
 
-    await this.backtestConnection.start();
-    console.log('Connected to Backtest Hub');
+    hub.onConnected(() => this.rejoinBacktestRooms(hub));
+    hub.connection.on('progress', (data: BacktestProgress) =>
+      this.backtestProgressCallbacks.forEach(callback => callback(data)));
+    hub.connection.on('completed', (data: BacktestCompleted) => {
+      this.activeRuns.delete(data.runId);
+      this.backtestCompletedCallbacks.forEach(callback => callback(data));
+    });
+    hub.connection.on('failed', (data: BacktestFailed) => {
+      this.activeRuns.delete(data.runId);
+      this.backtestFailedCallbacks.forEach(callback => callback(data));
+    });
+
+    await hub.start();
   }
 
-  onMarketData(callback: (data: MarketData) => void): void {
-    if (this.marketConnection) {
-      this.marketConnection.on('marketData', callback);
-    }
+  /**
+   * Engine output for strategies: fills, order acks, portfolio snapshots,
+   * risk checks and signals, sent as protobuf frames over MessagePack to the
+   * rooms joined with joinStrategyRoom.
+   */
+  async connectStrategyHub(url: string, options: StrategyHubOptions = {}): Promise<void> {
+    const builder = new signalR.HubConnectionBuilder()
+      .withUrl(url + '/hubs/strategy')
+      .withHubProtocol(new MessagePackHubProtocol());
+    const hub = new ManagedHubConnection('Strategy Hub', builder, { ...DEFAULT_BACKOFF, ...options.backoff });
+    void this.strategyHub?.stop();
+    this.strategyHub = hub;
+
+    hub.onConnected(() => this.rejoinStrategyRooms(hub));
+    hub.connection.on('FillFrame', (payload: unknown) =>
+      this.dispatchFrame('FillFrame', payload, decodeFill, this.fillCallbacks));
+    hub.connection.on('OrderAckFrame', (payload: unknown) =>
+      this.dispatchFrame('OrderAckFrame', payload, decodeOrderAck, this.orderAckCallbacks));
+    hub.connection.on('PortfolioFrame', (payload: unknown) =>
+      this.dispatchFrame('PortfolioFrame', payload, decodePortfolioSnapshot, this.portfolioCallbacks));
+    hub.connection.on('RiskCheckFrame', (payload: unknown) =>
+      this.dispatchFrame('RiskCheckFrame', payload, decodeRiskCheck, this.riskCheckCallbacks));
+    hub.connection.on('StrategySignalFrame', (payload: unknown) =>
+      this.dispatchFrame('StrategySignalFrame', payload, decodeStrategySignal, this.strategySignalCallbacks));
+
+    await hub.start();
+  }
+
+  get marketState(): ConnectionState {
+    return this.marketHub?.state ?? 'disconnected';
+  }
+
+  /** `Date.now()` when the last market event arrived, or null before the first. */
+  get lastMessageAt(): number | null {
+    return this.lastMessageTime;
+  }
+
+  onMarketStateChange(callback: (state: ConnectionState) => void): void {
+    this.marketStateCallbacks.push(callback);
   }
 
+  /** Trades and quotes for subscribed underlyings. */
+  onMarketData(callback: (data: MarketEvent) => void): void {
+    this.marketDataCallbacks.push(callback);
+  }
+
+  /** Trades and quotes for option contracts on subscribed underlyings. */
   onOptionData(callback: (data: OptionData) => void): void {
-    if (this.marketConnection) {
-      this.marketConnection.on('optionData', callback);
-    }
+    this.optionDataCallbacks.push(callback);
   }
 
   onBacktestProgress(callback: (data: BacktestProgress) => void): void {
-    if (this.backtestConnection) {
-      this.backtestConnection.on('progress', callback);
-    }
+    this.backtestProgressCallbacks.push(callback);
+  }
+
+  onBacktestCompleted(callback: (data: BacktestCompleted) => void): void {
+    this.backtestCompletedCallbacks.push(callback);
+  }
+
+  onBacktestFailed(callback: (data: BacktestFailed) => void): void {
+    this.backtestFailedCallbacks.push(callback);
+  }
+
+  onFill(callback: (data: FillReport) => void): void {
+    this.fillCallbacks.push(callback);
+  }
+
+  onOrderAck(callback: (data: OrderAckReport) => void): void {
+    this.orderAckCallbacks.push(callback);
+  }
+
+  onPortfolioSnapshot(callback: (data: PortfolioSnapshotReport) => void): void {
+    this.portfolioCallbacks.push(callback);
+  }
+
+  onRiskCheck(callback: (data: RiskCheckReport) => void): void {
+    this.riskCheckCallbacks.push(callback);
+  }
+
+  onStrategySignal(callback: (data: StrategySignalReport) => void): void {
+    this.strategySignalCallbacks.push(callback);
   }
 
+  /**
+   * Tracks the symbol and subscribes now if connected; tracked symbols are
+   * subscribed again after every reconnect.
+   */
   async subscribeToSymbol(symbol: string): Promise<void> {
-    if (this.marketConnection) {
-      await this.marketConnection.invoke('SubscribeToSymbol', symbol);
+    this.subscriptions.add(symbol);
+    if (this.marketHub?.isConnected) {
+      await this.marketHub.connection.invoke(this.symbolMethods.subscribe, symbol);
     }
   }
 
   async unsubscribeFromSymbol(symbol: string): Promise<void> {
-    if (this.marketConnection) {
-      await this.marketConnection.invoke('UnsubscribeFromSymbol', symbol);
+    this.subscriptions.delete(symbol);
+    if (this.marketHub?.isConnected) {
+      await this.marketHub.connection.invoke(this.symbolMethods.unsubscribe, symbol);
     }
   }
 
-  async startBacktest(config: any): Promise<string> {
-    if (this.backtestConnection) {
-      return await this.backtestConnection.invoke('StartBacktest', config);
+  /** Starts a run and joins its room so progress for it is delivered here. */
+  async startBacktest(config: BacktestConfig): Promise<string> {
+    if (!this.backtestHub?.isConnected) {
+      throw new Error('Backtest connection not established');
     }
-    throw new Error('Backtest connection not established');
+    const runId: string = await this.backtestHub.connection.invoke('StartBacktest', config);
+    this.activeRuns.add(runId);
+    await this.backtestHub.connection.invoke('JoinBacktestRoom', runId);
+    return runId;
   }
 
   async stopBacktest(runId: string): Promise<void> {
-    if (this.backtestConnection) {
-      await this.backtestConnection.invoke('StopBacktest', runId);
+    if (!this.backtestHub?.isConnected) {
+      throw new Error('Backtest connection not established');
+    }
+    await this.backtestHub.connection.invoke('StopBacktest', runId);
+    this.activeRuns.delete(runId);
+    await this.backtestHub.connection.invoke('LeaveBacktestRoom', runId);
+  }
+
+  /** Joins now if connected; joined rooms are joined again after every reconnect. */
+  async joinStrategyRoom(strategyId: string): Promise<void> {
+    this.strategyRooms.add(strategyId);
+    if (this.strategyHub?.isConnected) {
+      await this.strategyHub.connection.invoke('JoinStrategyRoom', strategyId);
+    }
+  }
+
+  async leaveStrategyRoom(strategyId: string): Promise<void> {
+    this.strategyRooms.delete(strategyId);
+    if (this.strategyHub?.isConnected) {
+      await this.strategyHub.connection.invoke('LeaveStrategyRoom', strategyId);
     }
   }
 
   disconnect(): void {
-    if (this.marketConnection) {
-      this.marketConnection.stop();
-      this.marketConnection = null;
+    if (this.marketHub) {
+      void this.marketHub.stop();
+      this.marketHub = null;
     }
-    if (this.backtestConnection) {
-      this.backtestConnection.stop();
-      this.backtestConnection = null;
+    if (this.backtestHub) {
+      void this.backtestHub.stop();
+      this.backtestHub = null;
     }
+    if (this.strategyHub) {
+      void this.strategyHub.stop();
+      this.strategyHub = null;
+    }
+    this.subscriptions.clear();
+    this.activeRuns.clear();
+    this.strategyRooms.clear();
+    this.lastMessageTime = null;
+    this.marketStateCallbacks = [];
+    this.marketDataCallbacks = [];
+    this.optionDataCallbacks = [];
+    this.backtestProgressCallbacks = [];
+    this.backtestCompletedCallbacks = [];
+    this.backtestFailedCallbacks = [];
+    this.fillCallbacks = [];
+    this.orderAckCallbacks = [];
+    this.portfolioCallbacks = [];
+    this.riskCheckCallbacks = [];
+    this.strategySignalCallbacks = [];
+  }
+
+  private get symbolMethods(): SymbolMethods {
+    return this.binaryMarketData ? FRAME_SYMBOL_METHODS : JSON_SYMBOL_METHODS;
+  }
+
+  private async resubscribe(hub: ManagedHubConnection): Promise<void> {
+    await Promise.all([...this.subscriptions].map(symbol => hub.connection.invoke(this.symbolMethods.subscribe, symbol)));
+  }
+
+  private async rejoinBacktestRooms(hub: ManagedHubConnection): Promise<void> {
+    await Promise.all([...this.activeRuns].map(runId => hub.connection.invoke('JoinBacktestRoom', runId)));
   }
-}
\ No newline at end of file
+
+  private async rejoinStrategyRooms(hub: ManagedHubConnection): Promise<void> {
+    await Promise.all([...this.strategyRooms].map(strategyId => hub.connection.invoke('JoinStrategyRoom', strategyId)));
+  }
+
+  private dispatchFrame<T>(name: string, payload: unknown, decode: (payload: unknown) => T, callbacks: ((data: T) => void)[]): void {
+    let report: T;
+    try {
+      report = decode(payload);
+    } catch (error) {
+      console.warn(`Dropping malformed ${name}:`, error);
+      return;
+    }
+    callbacks.forEach(callback => callback(report));
+  }
+
+  private dispatchMarketEvent(payload: unknown, decode: (payload: unknown) => MarketEvent | null): void {
+    this.lastMessageTime = Date.now();
+    let event: MarketEvent | null;
+    try {
+      event = decode(payload);
+    } catch (error) {
+      console.warn('Dropping malformed MarketEvent:', error, payload);
+      return;
+    }
+    if (!event) {
+      return;
+    }
+
+    const contract = parseOptionSymbol(event.symbol);
+    if (!contract) {
+      this.marketDataCallbacks.forEach(callback => callback(event));
+      return;
+    }
+
+    const optionData: OptionData = {
+      symbol: event.symbol,
+      ...contract,
+      price: eventPrice(event),
+      event,
+    };
+    this.optionDataCallbacks.forEach(callback => callback(optionData));
+  }
+}
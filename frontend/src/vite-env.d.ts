@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Optx.Web host serving the SignalR hubs; defaults to https://localhost:7238. */
+  readonly VITE_API_BASE_URL?: string;
+  /** 'true' to stream market data as protobuf frames over MessagePack. */
+  readonly VITE_BINARY_MARKET_DATA?: string;
+}
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Option pricing and response validation are shared with the Next.js app
+    fs: { allow: ['.', '../frontend-nextjs-backup/lib/pricing', '../frontend-nextjs-backup/lib/validate.ts'] },
+  },
 })
@@ -0,0 +1,308 @@
+import { randomUUID } from 'node:crypto';
+import { SeededRandom, deriveSeed } from './random.js';
+import { UnderlyingGenerator, basePrice, occSymbol, strikeIncrement } from './generators.js';
+import { priceOption } from './pricing.js';
+import type { OptionType } from './pricing.js';
+
+/** What the frontend sends to StartBacktest. */
+export interface BacktestConfig {
+  strategyType: 'covered-call' | 'cash-secured-put';
+  symbol: string;
+  initialCapital: number;
+  minDelta: number;
+  maxDelta: number;
+  dte: number;
+  commissionPerContract: number;
+  startDate: string;
+  endDate: string;
+}
+
+interface Trade {
+  id: string;
+  symbol: string;
+  optionType: OptionType;
+  strike: number;
+  quantity: number;
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  commission: number;
+  pnl: number;
+}
+
+/** NewOrder from proto/optx.proto with a decimal price, as the JSON hub sends it. */
+interface SignalOrder {
+  /** For option legs, the id of the trade log entry the order opens or closes. */
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  timestampNs: number;
+}
+
+/** StrategySignal from proto/optx.proto. */
+interface StrategySignal {
+  timestampNs: number;
+  strategyName: string;
+  signalType: 'ENTRY' | 'EXIT' | 'HEDGE' | 'ROLL' | 'REBALANCE';
+  orders: SignalOrder[];
+  reason: string;
+}
+
+interface PriceBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface OpenOption {
+  optionType: OptionType;
+  strike: number;
+  contracts: number;
+  premium: number;
+  openedAt: number;
+  expiresAt: number;
+}
+
+export interface BacktestEvents {
+  progress: (payload: object) => void;
+  completed: (payload: object) => void;
+  failed: (payload: object) => void;
+}
+
+const SECONDS_PER_DAY = 86400;
+const ASSUMED_VOLATILITY = 0.2;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function tradingDays(startDate: string, endDate: string): number[] {
+  const days: number[] = [];
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  for (let time = Date.parse(`${startDate}T00:00:00Z`); time <= end; time += SECONDS_PER_DAY * 1000) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      // Mark at the 16:00 New York close
+      days.push(time / 1000 + 20 * 3600);
+    }
+  }
+  return days;
+}
+
+function strikeForDelta(spot: number, targetDelta: number, years: number, optionType: OptionType): number {
+  const increment = strikeIncrement(spot);
+  let best = Math.round(spot / increment) * increment;
+  let bestDistance = Infinity;
+  for (let strike = Math.ceil((spot * 0.7) / increment) * increment; strike <= spot * 1.3; strike += increment) {
+    const { delta } = priceOption(spot, strike, years, ASSUMED_VOLATILITY, optionType).greeks;
+    if (Math.abs(delta - targetDelta) < bestDistance) {
+      best = strike;
+      bestDistance = Math.abs(delta - targetDelta);
+    }
+  }
+  return round2(best);
+}
+
+export function validateConfig(config: BacktestConfig): string | null {
+  if (config.strategyType !== 'covered-call' && config.strategyType !== 'cash-secured-put') {
+    return `Unknown strategy type: ${config.strategyType}`;
+  }
+  if (!(config.initialCapital > 0)) return 'Initial capital must be positive';
+  if (!(config.dte >= 1)) return 'DTE must be at least 1';
+  if (tradingDays(config.startDate, config.endDate).length < 2) return 'Date range has no trading days';
+  return null;
+}
+
+/**
+ * A daily covered-call or cash-secured-put simulation on a seeded GBM path.
+ * Not the C# engine, just plausible equity and trades for the UI.
+ */
+export class BacktestRun {
+  readonly runId = randomUUID();
+  private readonly days: number[];
+  private readonly random: SeededRandom;
+  private readonly underlying: UnderlyingGenerator;
+  private readonly equityCurve: { time: number; equity: number }[] = [];
+  private readonly trades: Trade[] = [];
+  private readonly signals: StrategySignal[] = [];
+  private readonly priceHistory: PriceBar[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private dayIndex = 0;
+  private cash: number;
+  private shares = 0;
+  private option: OpenOption | null = null;
+
+  constructor(private readonly config: BacktestConfig, seed: number, private readonly events: BacktestEvents) {
+    this.days = tradingDays(config.startDate, config.endDate);
+    this.random = new SeededRandom(deriveSeed(seed, JSON.stringify(config)));
+    this.underlying = new UnderlyingGenerator(basePrice(config.symbol), this.random, { timeStep: SECONDS_PER_DAY * 365.25 / 252 });
+    this.cash = config.initialCapital;
+  }
+
+  start(stepMs: number): void {
+    this.timer = setInterval(() => {
+      try {
+        this.step();
+      } catch (error) {
+        this.stop();
+        this.events.failed({ runId: this.runId, message: error instanceof Error ? error.message : String(error) });
+      }
+    }, stepMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private step(): void {
+    const time = this.days[this.dayIndex];
+    const spot = this.dayIndex === 0 ? this.underlying.currentPrice : this.underlying.next();
+
+    // The path is daily, so each bar runs from the previous close to today's
+    const close = round2(spot);
+    const open = this.priceHistory[this.priceHistory.length - 1]?.close ?? close;
+    this.priceHistory.push({ time, open, high: Math.max(open, close), low: Math.min(open, close), close });
+
+    const closed = this.option && time >= this.option.expiresAt ? this.settle(time, spot) : null;
+    const opened = this.option ? null : this.open(time, spot);
+    this.recordSignal(time, closed, opened);
+
+    const equity = this.markToMarket(time, spot);
+    this.equityCurve.push({ time, equity: round2(equity) });
+    this.dayIndex++;
+
+    const progress = {
+      runId: this.runId,
+      progress: (this.dayIndex / this.days.length) * 100,
+      currentTime: time * 1_000_000_000,
+      equity: round2(equity),
+      trades: this.trades.length,
+      pnl: round2(equity - this.config.initialCapital),
+    };
+    this.events.progress(progress);
+
+    if (this.dayIndex >= this.days.length) {
+      this.stop();
+      this.events.completed({
+        runId: this.runId,
+        equity: progress.equity,
+        trades: progress.trades,
+        pnl: progress.pnl,
+        equityCurve: this.equityCurve,
+        tradeLog: this.trades,
+        signals: this.signals,
+        priceHistory: this.priceHistory,
+      });
+    }
+  }
+
+  /** Writes the next option; returns the orders it took, or null when capital allows no contract. */
+  private open(time: number, spot: number): SignalOrder[] | null {
+    const { strategyType, minDelta, maxDelta, dte, commissionPerContract } = this.config;
+    const optionType: OptionType = strategyType === 'covered-call' ? 'call' : 'put';
+    const years = dte / 365.25;
+    const strike = strikeForDelta(spot, (minDelta + maxDelta) / 2, years, optionType);
+
+    const orders: SignalOrder[] = [];
+    let contracts: number;
+    if (optionType === 'call') {
+      if (this.shares === 0) {
+        this.shares = Math.floor((this.cash * 0.95) / (spot * 100)) * 100;
+        this.cash -= this.shares * spot;
+        if (this.shares > 0) {
+          orders.push(this.order(`${this.runId}-stock-${time}`, this.config.symbol, 'BUY', this.shares, spot, time));
+        }
+      }
+      contracts = this.shares / 100;
+    } else {
+      contracts = Math.floor(this.cash / (strike * 100));
+    }
+    if (contracts < 1) return null;
+
+    const { price } = priceOption(spot, strike, years, ASSUMED_VOLATILITY * (0.9 + 0.2 * this.random.next()), optionType);
+    const premium = round2(price);
+    this.cash += premium * contracts * 100 - commissionPerContract * contracts;
+    this.option = { optionType, strike, contracts, premium, openedAt: time, expiresAt: time + dte * SECONDS_PER_DAY };
+    // Only one option is open at a time, so it becomes the next trade settled
+    orders.push(this.order(`${this.runId}-${this.trades.length + 1}`, this.optionSymbol(this.option), 'SELL', contracts, premium, time));
+    return orders;
+  }
+
+  private settle(time: number, spot: number): Trade {
+    const option = this.option!;
+    const intrinsic = option.optionType === 'call' ? Math.max(0, spot - option.strike) : Math.max(0, option.strike - spot);
+    this.cash -= intrinsic * option.contracts * 100;
+
+    const commission = this.config.commissionPerContract * option.contracts;
+    const trade: Trade = {
+      id: `${this.runId}-${this.trades.length + 1}`,
+      symbol: this.config.symbol,
+      optionType: option.optionType,
+      strike: option.strike,
+      quantity: -option.contracts,
+      entryTime: option.openedAt,
+      exitTime: time,
+      entryPrice: option.premium,
+      exitPrice: round2(intrinsic),
+      commission,
+      pnl: round2((option.premium - intrinsic) * option.contracts * 100 - commission),
+    };
+    this.trades.push(trade);
+    this.option = null;
+    return trade;
+  }
+
+  private recordSignal(time: number, closed: Trade | null, opened: SignalOrder[] | null): void {
+    if (!closed && !opened) return;
+
+    const orders = [...(opened ?? [])];
+    const written = opened?.[opened.length - 1];
+    const parts: string[] = [];
+    if (closed) {
+      const expired = `${closed.strike} ${closed.optionType} expired ${closed.exitPrice > 0 ? `$${closed.exitPrice.toFixed(2)} in the money` : 'worthless'}`;
+      parts.push(expired);
+      orders.unshift(this.order(closed.id, this.optionSymbol({ ...closed, expiresAt: closed.entryTime + this.config.dte * SECONDS_PER_DAY }), 'BUY', -closed.quantity, closed.exitPrice, time));
+    }
+    if (opened && written && this.option) {
+      const { minDelta, maxDelta, dte } = this.config;
+      const target = ((minDelta + maxDelta) / 2).toFixed(2);
+      const shares = opened.length > 1 ? `bought ${opened[0].quantity} shares at $${opened[0].price.toFixed(2)}, ` : '';
+      parts.push(`${shares}wrote ${written.quantity} ${dte}-DTE ${this.option.strike} ${this.option.optionType}s near ${target} delta for $${written.price.toFixed(2)}`);
+    } else if (closed) {
+      parts.push('not enough capital to write another');
+    }
+
+    const reason = parts.join('; ');
+    this.signals.push({
+      timestampNs: time * 1_000_000_000,
+      strategyName: this.config.strategyType,
+      signalType: closed && opened ? 'ROLL' : closed ? 'EXIT' : 'ENTRY',
+      orders,
+      reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+    });
+  }
+
+  private order(orderId: string, symbol: string, side: SignalOrder['side'], quantity: number, price: number, time: number): SignalOrder {
+    return { orderId, symbol, side, quantity, price: round2(price), timestampNs: time * 1_000_000_000 };
+  }
+
+  private optionSymbol(option: { optionType: OptionType; strike: number; expiresAt: number }): string {
+    return occSymbol(this.config.symbol, new Date(option.expiresAt * 1000).toISOString().slice(0, 10), option.optionType, option.strike);
+  }
+
+  private markToMarket(time: number, spot: number): number {
+    let value = this.cash + this.shares * spot;
+    if (this.option) {
+      const years = Math.max(0, this.option.expiresAt - time) / SECONDS_PER_DAY / 365.25;
+      const { price } = priceOption(spot, this.option.strike, years, ASSUMED_VOLATILITY, this.option.optionType);
+      value -= price * this.option.contracts * 100;
+    }
+    return value;
+  }
+}
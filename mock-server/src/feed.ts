@@ -0,0 +1,167 @@
+import { SeededRandom, deriveSeed } from './random.js';
+import { UnderlyingGenerator, basePrice, listExpirations, occSymbol, strikeIncrement, surfaceVolatility } from './generators.js';
+import { priceOption } from './pricing.js';
+import type { OptionType } from './pricing.js';
+
+export interface TradePayload {
+  type: 'trade';
+  symbol: string;
+  timestamp: number;
+  price: number;
+  quantity: number;
+  dataType: 'Trade';
+}
+
+export interface QuotePayload {
+  type: 'quote';
+  symbol: string;
+  timestamp: number;
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
+  mid: number;
+  spread: number;
+}
+
+export type MarketEventPayload = TradePayload | QuotePayload;
+
+export interface FeedOptions {
+  seed: number;
+  /** Milliseconds between ticks per symbol. */
+  tickMs: number;
+  /** Option quotes go out every this many underlying ticks. */
+  optionEvery: number;
+}
+
+interface SymbolState {
+  generator: UnderlyingGenerator;
+  random: SeededRandom;
+  ticks: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Streams synthetic trades and quotes, shaped like the camel-cased
+ * MarketEvent payloads from MarketDataBroadcastService. Each symbol has its
+ * own generator seeded from the feed seed, so a symbol's path is the same on
+ * every run regardless of what else is subscribed.
+ */
+export class MarketFeed {
+  private readonly symbols = new Map<string, SymbolState>();
+  private readonly active = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly options: FeedOptions,
+    private readonly publish: (underlying: string, event: MarketEventPayload) => void,
+  ) {}
+
+  /** Latest price; creates the symbol's generator without streaming it. */
+  price(symbol: string): number {
+    return this.state(symbol).generator.currentPrice;
+  }
+
+  track(symbol: string): void {
+    this.state(symbol);
+    this.active.add(symbol);
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), this.options.tickMs);
+    }
+  }
+
+  /** Stop streaming a symbol. Its path pauses and resumes where it left off. */
+  untrack(symbol: string): void {
+    this.active.delete(symbol);
+    if (this.active.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private state(symbol: string): SymbolState {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      const random = new SeededRandom(deriveSeed(this.options.seed, symbol));
+      state = {
+        generator: new UnderlyingGenerator(basePrice(symbol), random, { timeStep: this.options.tickMs / 1000 }),
+        random,
+        ticks: 0,
+      };
+      this.symbols.set(symbol, state);
+    }
+    return state;
+  }
+
+  private tick(): void {
+    const timestamp = Date.now() * 1_000_000;
+    this.active.forEach(symbol => {
+      const state = this.state(symbol);
+      const price = round2(state.generator.next());
+      state.ticks++;
+
+      this.publish(symbol, {
+        type: 'trade',
+        symbol,
+        timestamp,
+        price,
+        quantity: 100 * state.random.nextInt(1, 10),
+        dataType: 'Trade',
+      });
+
+      const halfSpread = 0.01 * state.random.nextInt(1, 3);
+      this.publish(symbol, quote(symbol, timestamp, price - halfSpread, price + halfSpread, state.random));
+
+      if (state.ticks % this.options.optionEvery === 0) {
+        this.publishOptions(symbol, price, timestamp, state.random);
+      }
+    });
+  }
+
+  // Near-the-money contracts on the front two expiries
+  private publishOptions(underlying: string, spot: number, timestamp: number, random: SeededRandom): void {
+    const now = new Date();
+    const increment = strikeIncrement(spot);
+    const atm = Math.round(spot / increment) * increment;
+
+    listExpirations(now).slice(0, 2).forEach(({ date }) => {
+      const expiry = date.toISOString().slice(0, 10);
+      const years = Math.max(date.getTime() + 20 * 3_600_000 - now.getTime(), 0) / 86_400_000 / 365.25;
+
+      for (let i = -2; i <= 2; i++) {
+        const strike = round2(atm + i * increment);
+        (['call', 'put'] as OptionType[]).forEach(optionType => {
+          const volatility = surfaceVolatility(0.2, spot, strike, years);
+          const { price } = priceOption(spot, strike, years, volatility, optionType);
+          const halfSpread = Math.max(0.01, price * 0.025);
+          const symbol = occSymbol(underlying, expiry, optionType, strike);
+          this.publish(underlying, quote(symbol, timestamp, Math.max(0.01, price - halfSpread), price + halfSpread, random));
+        });
+      }
+    });
+  }
+}
+
+function quote(symbol: string, timestamp: number, bid: number, ask: number, random: SeededRandom): QuotePayload {
+  const bidPrice = round2(bid);
+  const askPrice = Math.max(round2(ask), bidPrice + 0.01);
+  return {
+    type: 'quote',
+    symbol,
+    timestamp,
+    bidPrice,
+    bidSize: random.nextInt(1, 50),
+    askPrice: round2(askPrice),
+    askSize: random.nextInt(1, 50),
+    mid: round2((bidPrice + askPrice) / 2),
+    spread: round2(askPrice - bidPrice),
+  };
+}
@@ -0,0 +1,294 @@
+import { SeededRandom, deriveSeed } from './random.js';
+import { priceOption } from './pricing.js';
+import type { Greeks, OptionType } from './pricing.js';
+
+const MS_PER_DAY = 86_400_000;
+
+/** Starting prices; anything else starts at 100. */
+export const BASE_PRICES: Record<string, number> = {
+  SPY: 450,
+  QQQ: 380,
+  IWM: 195,
+  AAPL: 190,
+  MSFT: 410,
+  TSLA: 250,
+  NVDA: 900,
+  GLD: 185,
+  TLT: 95,
+};
+
+export const basePrice = (symbol: string) => BASE_PRICES[symbol] ?? 100;
+
+export interface UnderlyingOptions {
+  drift?: number;
+  volatility?: number;
+  /** Seconds between steps. */
+  timeStep?: number;
+  /** Expected jumps per year. */
+  jumpIntensity?: number;
+  jumpMean?: number;
+  jumpStdDev?: number;
+}
+
+/**
+ * Geometric Brownian motion with optional jumps; the same step as
+ * Optx.Data.Generators.UnderlyingGenerator.GenerateNext.
+ */
+export class UnderlyingGenerator {
+  private readonly drift: number;
+  private readonly volatility: number;
+  private readonly dt: number;
+  private readonly jumpIntensity: number;
+  private readonly jumpMean: number;
+  private readonly jumpStdDev: number;
+  private price: number;
+
+  constructor(initialPrice: number, private readonly random: SeededRandom, options: UnderlyingOptions = {}) {
+    if (initialPrice <= 0) {
+      throw new Error('Initial price must be positive');
+    }
+    this.price = initialPrice;
+    this.drift = options.drift ?? 0.05;
+    this.volatility = options.volatility ?? 0.2;
+    this.dt = (options.timeStep ?? 1) / 86400 / 365.25;
+    this.jumpIntensity = options.jumpIntensity ?? 0;
+    this.jumpMean = options.jumpMean ?? 0;
+    this.jumpStdDev = options.jumpStdDev ?? 0.1;
+  }
+
+  get currentPrice(): number {
+    return this.price;
+  }
+
+  next(): number {
+    const dW = this.random.nextGaussian() * Math.sqrt(this.dt);
+    const diffusion = (this.drift - 0.5 * this.volatility * this.volatility) * this.dt + this.volatility * dW;
+
+    let jump = 0;
+    if (this.jumpIntensity > 0 && this.random.next() < this.jumpIntensity * this.dt) {
+      jump = this.jumpMean + this.jumpStdDev * this.random.nextGaussian();
+    }
+
+    this.price *= Math.exp(diffusion + jump);
+    return this.price;
+  }
+}
+
+export interface ContractQuote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+  last: number;
+  volume: number;
+  openInterest: number;
+  iv: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+export interface ChainStrike {
+  strike: number;
+  calls: ContractQuote;
+  puts: ContractQuote;
+}
+
+export interface ChainExpiration {
+  /** YYYY-MM-DD */
+  expiry: string;
+  daysToExpiry: number;
+  /** 'weekly' | 'monthly' */
+  cycle: string;
+  strikes: ChainStrike[];
+}
+
+export const strikeIncrement = (spot: number) => (spot < 25 ? 0.5 : spot < 500 ? 1 : 5);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/** OCC-style contract symbol, e.g. SPY251121C00450000. */
+export function occSymbol(underlying: string, expiry: string, optionType: OptionType, strike: number): string {
+  const date = expiry.slice(2).replace(/-/g, '');
+  const strikeCode = String(Math.round(strike * 1000)).padStart(8, '0');
+  return `${underlying}${date}${optionType === 'call' ? 'C' : 'P'}${strikeCode}`;
+}
+
+const thirdFriday = (year: number, month: number) => {
+  const first = new Date(Date.UTC(year, month, 1));
+  const offset = (5 - first.getUTCDay() + 7) % 7;
+  return new Date(Date.UTC(year, month, 1 + offset + 14));
+};
+
+/** The next four weekly Friday expiries plus six monthly (third Friday) ones. */
+export function listExpirations(now: Date): { date: Date; cycle: string }[] {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const expirations = new Map<string, { date: Date; cycle: string }>();
+
+  const friday = new Date(today);
+  friday.setUTCDate(today.getUTCDate() + ((5 - today.getUTCDay() + 7) % 7 || 7));
+  for (let week = 0; week < 4; week++) {
+    const date = new Date(friday.getTime() + week * 7 * MS_PER_DAY);
+    expirations.set(isoDate(date), { date, cycle: 'weekly' });
+  }
+
+  for (let month = 0, found = 0; found < 6; month++) {
+    const date = thirdFriday(today.getUTCFullYear(), today.getUTCMonth() + month);
+    if (date > today) {
+      expirations.set(isoDate(date), { date, cycle: 'monthly' });
+      found++;
+    }
+  }
+
+  return [...expirations.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/** Skewed smile with a term structure: puts rich, short expiries a little higher. */
+export function surfaceVolatility(baseVol: number, spot: number, strike: number, years: number): number {
+  const logMoneyness = Math.log(strike / spot);
+  const atm = baseVol + 0.03 * Math.exp(-4 * years);
+  const skew = -0.25 / Math.sqrt(Math.max(years, 1 / 52));
+  return Math.max(0.05, atm + skew * logMoneyness * 0.1 + 0.8 * logMoneyness * logMoneyness);
+}
+
+// Optx.Data.Generators.SpreadModel, with moneyness measured against spot
+function spreadFor(theoretical: number, greeks: Greeks, moneyness: number): number {
+  let spread = 0.05 * theoretical + 0.1 * Math.abs(greeks.vega) * 0.01;
+  const atmDistance = Math.abs(moneyness - 1);
+  if (atmDistance < 0.1) {
+    spread += 0.02 * Math.abs(greeks.theta);
+  }
+  if (atmDistance > 0.2) {
+    spread *= 1 + atmDistance;
+  }
+  return Math.max(0.01, spread);
+}
+
+function quoteContract(
+  underlying: string,
+  expiry: string,
+  spot: number,
+  strike: number,
+  years: number,
+  volatility: number,
+  optionType: OptionType,
+  random: SeededRandom,
+): ContractQuote {
+  const { price, greeks } = priceOption(spot, strike, years, volatility, optionType);
+  const moneyness = strike / spot;
+  const spread = spreadFor(price, greeks, moneyness);
+  const bid = Math.max(0.01, price - spread / 2);
+  const ask = Math.max(bid + 0.01, price + spread / 2);
+  const liquidity = Math.exp(-Math.abs(moneyness - 1) * 20);
+  const size = () => Math.max(1, Math.min(1000, Math.floor(liquidity * (0.5 + random.next()) * 100)));
+
+  return {
+    symbol: occSymbol(underlying, expiry, optionType, strike),
+    bid: round2(bid),
+    ask: round2(ask),
+    bidSize: size(),
+    askSize: size(),
+    last: round2(bid + (ask - bid) * random.next()),
+    volume: Math.floor(liquidity * 5000 * random.next()),
+    openInterest: Math.floor(liquidity * 40000 * (0.2 + random.next())),
+    iv: volatility,
+    ...greeks,
+  };
+}
+
+/**
+ * A full chain for `underlying` at `spot`. Sizes, volume and open interest
+ * come from a generator seeded by symbol and expiry, so the same spot gives
+ * the same chain.
+ */
+export function generateChain(underlying: string, spot: number, now: Date, seed: number, baseVol = 0.2): ChainExpiration[] {
+  const increment = strikeIncrement(spot);
+  const atm = Math.round(spot / increment) * increment;
+  const halfWidth = Math.min(40, Math.ceil((spot * 0.12) / increment));
+
+  return listExpirations(now).map(({ date, cycle }) => {
+    const expiry = isoDate(date);
+    // Options stop trading at the 16:00 New York close; 20:00 UTC is close enough here
+    const expiresAt = date.getTime() + 20 * 3_600_000;
+    const years = Math.max(expiresAt - now.getTime(), 0) / MS_PER_DAY / 365.25;
+    const random = new SeededRandom(deriveSeed(seed, underlying, expiry));
+
+    const strikes: ChainStrike[] = [];
+    for (let i = -halfWidth; i <= halfWidth; i++) {
+      const strike = round2(atm + i * increment);
+      if (strike <= 0) continue;
+      const volatility = surfaceVolatility(baseVol, spot, strike, years);
+      strikes.push({
+        strike,
+        calls: quoteContract(underlying, expiry, spot, strike, years, volatility, 'call', random),
+        puts: quoteContract(underlying, expiry, spot, strike, years, volatility, 'put', random),
+      });
+    }
+
+    return {
+      expiry,
+      daysToExpiry: Math.max(0, Math.round((date.getTime() - now.getTime()) / MS_PER_DAY)),
+      cycle,
+      strikes,
+    };
+  });
+}
+
+/** One OHLCV bar of the history endpoint; `time` is its start in Unix seconds. */
+export interface HistoryBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Cycles (period in seconds, amplitude in log price) the history path is built from
+const HISTORY_CYCLES: [number, number][] = [[900, 0.001], [5400, 0.002], [86_400, 0.004], [7 * 86_400, 0.01]];
+
+/**
+ * Price as a fixed function of time around the symbol's base price, so every
+ * page of history, and every refetch of one, agrees with the others.
+ */
+function historyPath(symbol: string, seed: number): (time: number) => number {
+  const random = new SeededRandom(deriveSeed(seed, symbol, 'history'));
+  const phases = HISTORY_CYCLES.map(() => random.next() * 2 * Math.PI);
+  const base = basePrice(symbol);
+  return time => {
+    const cycles = HISTORY_CYCLES.reduce(
+      (sum, [period, amplitude], i) => sum + amplitude * Math.sin((2 * Math.PI * time) / period + phases[i]), 0);
+    const noise = new SeededRandom(deriveSeed(seed, symbol, String(time))).nextGaussian(0, 0.0005);
+    return base * Math.exp(cycles + noise);
+  };
+}
+
+/**
+ * The `limit` bars of `intervalSeconds` that closed at or before `before`
+ * (Unix seconds), oldest first. Each bar opens at the previous bar's close.
+ */
+export function generateHistory(symbol: string, intervalSeconds: number, before: number, limit: number, seed: number): HistoryBar[] {
+  const price = historyPath(symbol, seed);
+  const last = Math.floor(before / intervalSeconds) * intervalSeconds - intervalSeconds;
+  const bars: HistoryBar[] = [];
+  for (let i = limit - 1; i >= 0; i--) {
+    const time = last - i * intervalSeconds;
+    // Open, three points inside the bar, and close
+    const points = [0, 1, 2, 3, 4].map(k => round2(price(time + (k * intervalSeconds) / 4)));
+    const random = new SeededRandom(deriveSeed(seed, symbol, 'volume', String(time)));
+    bars.push({
+      time,
+      open: points[0],
+      high: Math.max(...points),
+      low: Math.min(...points),
+      close: points[4],
+      volume: random.nextInt(20, 200) * intervalSeconds,
+    });
+  }
+  return bars;
+}
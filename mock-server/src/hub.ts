@@ -0,0 +1,227 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer } from 'ws';
+import type { RawData, WebSocket } from 'ws';
+
+/**
+ * Just enough of the ASP.NET Core SignalR server for @microsoft/signalr:
+ * negotiate (version 1), WebSockets transport, JSON hub protocol with
+ * invocations, completions, pings and groups. No long polling, SSE or
+ * MessagePack.
+ */
+
+const RECORD_SEPARATOR = '\u001e';
+const PING_INTERVAL_MS = 15_000;
+
+const enum MessageType {
+  Invocation = 1,
+  StreamItem = 2,
+  Completion = 3,
+  StreamInvocation = 4,
+  CancelInvocation = 5,
+  Ping = 6,
+  Close = 7,
+}
+
+interface HubMessage {
+  type: MessageType;
+  invocationId?: string;
+  target?: string;
+  arguments?: unknown[];
+}
+
+export class HubConnection {
+  readonly groups = new Set<string>();
+  private handshakeDone = false;
+
+  constructor(readonly id: string, private readonly socket: WebSocket) {}
+
+  get isOpen(): boolean {
+    return this.handshakeDone && this.socket.readyState === this.socket.OPEN;
+  }
+
+  send(target: string, ...args: unknown[]): void {
+    this.write({ type: MessageType.Invocation, target, arguments: args });
+  }
+
+  /** @internal */
+  write(message: object): void {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message) + RECORD_SEPARATOR);
+    }
+  }
+
+  /** @internal */
+  completeHandshake(): void {
+    this.handshakeDone = true;
+    this.socket.send('{}' + RECORD_SEPARATOR);
+  }
+
+  /** @internal */
+  get awaitingHandshake(): boolean {
+    return !this.handshakeDone;
+  }
+
+  close(error?: string, allowReconnect = false): void {
+    this.write({ type: MessageType.Close, ...(error ? { error } : {}), ...(allowReconnect ? { allowReconnect } : {}) });
+    this.socket.close();
+  }
+}
+
+export type HubMethod = (connection: HubConnection, ...args: unknown[]) => unknown;
+export type DisconnectHandler = (connection: HubConnection, groups: string[]) => void;
+
+export class Hub {
+  private readonly connections = new Map<string, HubConnection>();
+  private readonly pending = new Map<string, string>();
+  private readonly groups = new Map<string, Set<HubConnection>>();
+  private readonly sockets = new WebSocketServer({ noServer: true });
+  private readonly onDisconnectHandlers: DisconnectHandler[] = [];
+
+  constructor(readonly path: string, private readonly methods: Record<string, HubMethod>) {}
+
+  /** Runs after the connection has been removed from `groups`, the groups it was in. */
+  onDisconnected(handler: DisconnectHandler): void {
+    this.onDisconnectHandlers.push(handler);
+  }
+
+  addToGroup(connection: HubConnection, group: string): void {
+    connection.groups.add(group);
+    if (!this.groups.has(group)) {
+      this.groups.set(group, new Set());
+    }
+    this.groups.get(group)!.add(connection);
+  }
+
+  removeFromGroup(connection: HubConnection, group: string): void {
+    connection.groups.delete(group);
+    const members = this.groups.get(group);
+    members?.delete(connection);
+    if (members?.size === 0) {
+      this.groups.delete(group);
+    }
+  }
+
+  groupSize(group: string): number {
+    return this.groups.get(group)?.size ?? 0;
+  }
+
+  sendToGroup(group: string, target: string, ...args: unknown[]): void {
+    this.groups.get(group)?.forEach(connection => connection.send(target, ...args));
+  }
+
+  /** Closes every connection on shutdown; clients with automatic reconnect will retry. */
+  closeAll(): void {
+    this.connections.forEach(connection => connection.close('Server shutting down', true));
+    this.sockets.close();
+  }
+
+  /** POST {path}/negotiate */
+  handleNegotiate(_request: IncomingMessage, response: ServerResponse): void {
+    const connectionId = randomUUID();
+    const connectionToken = randomUUID();
+    this.pending.set(connectionToken, connectionId);
+
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({
+      negotiateVersion: 1,
+      connectionId,
+      connectionToken,
+      availableTransports: [{ transport: 'WebSockets', transferFormats: ['Text'] }],
+    }));
+  }
+
+  /** HTTP upgrade on {path}?id={connectionToken} */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const token = new URL(request.url ?? '', 'http://localhost').searchParams.get('id');
+    const connectionId = token ? this.pending.get(token) : undefined;
+    if (!token || !connectionId) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    this.pending.delete(token);
+
+    this.sockets.handleUpgrade(request, socket, head, ws => this.accept(connectionId, ws));
+  }
+
+  private accept(connectionId: string, socket: WebSocket): void {
+    const connection = new HubConnection(connectionId, socket);
+    this.connections.set(connectionId, connection);
+
+    const ping = setInterval(() => connection.write({ type: MessageType.Ping }), PING_INTERVAL_MS);
+
+    socket.on('message', (data: RawData) => {
+      data.toString().split(RECORD_SEPARATOR).filter(Boolean).forEach(frame => this.receive(connection, frame));
+    });
+
+    socket.on('close', () => {
+      clearInterval(ping);
+      this.connections.delete(connectionId);
+      const groups = [...connection.groups];
+      groups.forEach(group => this.removeFromGroup(connection, group));
+      this.onDisconnectHandlers.forEach(handler => handler(connection, groups));
+    });
+  }
+
+  private receive(connection: HubConnection, frame: string): void {
+    let message: HubMessage & { protocol?: string };
+    try {
+      message = JSON.parse(frame);
+    } catch {
+      connection.close('Malformed message');
+      return;
+    }
+
+    if (connection.awaitingHandshake) {
+      if (message.protocol !== 'json') {
+        connection.write({ error: `Requested protocol '${message.protocol}' is not available.` });
+        connection.close();
+        return;
+      }
+      connection.completeHandshake();
+      return;
+    }
+
+    switch (message.type) {
+      case MessageType.Invocation:
+        void this.invoke(connection, message);
+        break;
+      case MessageType.Close:
+        connection.close();
+        break;
+      default:
+        // Pings need no reply; streaming is not supported
+        break;
+    }
+  }
+
+  private async invoke(connection: HubConnection, message: HubMessage): Promise<void> {
+    const method = message.target ? this.methods[message.target] : undefined;
+    const { invocationId } = message;
+
+    if (!method) {
+      if (invocationId) {
+        connection.write({
+          type: MessageType.Completion,
+          invocationId,
+          error: `Failed to invoke '${message.target}' due to an error on the server. HubException: Method does not exist.`,
+        });
+      }
+      return;
+    }
+
+    try {
+      const result = await method(connection, ...(message.arguments ?? []));
+      if (invocationId) {
+        connection.write({ type: MessageType.Completion, invocationId, ...(result === undefined ? {} : { result }) });
+      }
+    } catch (error) {
+      console.error(`[${this.path}] ${message.target} failed:`, error);
+      if (invocationId) {
+        const reason = error instanceof Error ? error.message : String(error);
+        connection.write({ type: MessageType.Completion, invocationId, error: `An unexpected error occurred invoking '${message.target}' on the server. ${reason}` });
+      }
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { Hub } from './hub.js';
+import { MarketFeed } from './feed.js';
+import { BacktestRun, validateConfig } from './backtest.js';
+import type { BacktestConfig } from './backtest.js';
+import { handleRest, setCorsHeaders } from './routes.js';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.PORT ?? '5002' },
+    seed: { type: 'string', default: process.env.SEED },
+    'tick-ms': { type: 'string', default: process.env.TICK_MS ?? '250' },
+    'backtest-step-ms': { type: 'string', default: process.env.BACKTEST_STEP_MS ?? '20' },
+  },
+});
+
+const port = Number(args.port);
+const seed = args.seed !== undefined ? Number(args.seed) : Math.floor(Math.random() * 2 ** 31);
+const tickMs = Number(args['tick-ms']);
+const backtestStepMs = Number(args['backtest-step-ms']);
+
+const symbolGroup = (symbol: string) => `symbol_${symbol}`;
+const backtestGroup = (runId: string) => `backtest_${runId}`;
+
+const feed = new MarketFeed({ seed, tickMs, optionEvery: 4 }, (underlying, event) => {
+  marketHub.sendToGroup(symbolGroup(underlying), 'MarketEvent', event);
+});
+
+const marketHub = new Hub('/hubs/marketdata', {
+  SubscribeToSymbol: (connection, symbol) => {
+    const name = String(symbol).toUpperCase();
+    marketHub.addToGroup(connection, symbolGroup(name));
+    feed.track(name);
+  },
+  UnsubscribeFromSymbol: (connection, symbol) => {
+    const name = String(symbol).toUpperCase();
+    marketHub.removeFromGroup(connection, symbolGroup(name));
+    if (marketHub.groupSize(symbolGroup(name)) === 0) {
+      feed.untrack(name);
+    }
+  },
+});
+
+marketHub.onDisconnected((_connection, groups) => {
+  groups
+    .filter(group => group.startsWith('symbol_') && marketHub.groupSize(group) === 0)
+    .forEach(group => feed.untrack(group.slice('symbol_'.length)));
+});
+
+const strategyHub = new Hub('/hubs/strategy', {
+  JoinStrategyRoom: (connection, strategyId) => {
+    strategyHub.addToGroup(connection, `strategy_${strategyId}`);
+  },
+  LeaveStrategyRoom: (connection, strategyId) => {
+    strategyHub.removeFromGroup(connection, `strategy_${strategyId}`);
+  },
+});
+
+const runs = new Map<string, BacktestRun>();
+
+// StartBacktest and StopBacktest are what the frontend calls; the .NET hub
+// only has the room methods so far.
+const backtestHub = new Hub('/hubs/backtest', {
+  JoinBacktestRoom: (connection, runId) => {
+    backtestHub.addToGroup(connection, backtestGroup(String(runId)));
+  },
+  LeaveBacktestRoom: (connection, runId) => {
+    backtestHub.removeFromGroup(connection, backtestGroup(String(runId)));
+  },
+  StartBacktest: (connection, config) => {
+    const error = validateConfig(config as BacktestConfig);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const run = new BacktestRun(config as BacktestConfig, seed, {
+      progress: payload => backtestHub.sendToGroup(backtestGroup(run.runId), 'progress', payload),
+      completed: payload => {
+        backtestHub.sendToGroup(backtestGroup(run.runId), 'completed', payload);
+        runs.delete(run.runId);
+      },
+      failed: payload => {
+        backtestHub.sendToGroup(backtestGroup(run.runId), 'failed', payload);
+        runs.delete(run.runId);
+      },
+    });
+    runs.set(run.runId, run);
+    backtestHub.addToGroup(connection, backtestGroup(run.runId));
+    run.start(backtestStepMs);
+    return run.runId;
+  },
+  StopBacktest: (_connection, runId) => {
+    runs.get(String(runId))?.stop();
+    runs.delete(String(runId));
+  },
+});
+
+const hubs = [marketHub, strategyHub, backtestHub];
+const hubFor = (pathname: string) => hubs.find(hub => pathname === hub.path || pathname === `${hub.path}/negotiate`);
+
+const server = createServer((request, response) => {
+  setCorsHeaders(request, response);
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  const hub = hubFor(pathname);
+  if (hub && request.method === 'POST' && pathname.endsWith('/negotiate')) {
+    hub.handleNegotiate(request, response);
+    return;
+  }
+
+  handleRest({ feed, seed }, request, response)
+    .then(handled => {
+      if (!handled) {
+        response.writeHead(404, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ message: `No route for ${request.method} ${pathname}`, success: false }));
+      }
+    })
+    .catch(error => {
+      console.error('Request failed:', error);
+      if (!response.headersSent) {
+        response.writeHead(500);
+      }
+      response.end();
+    });
+});
+
+server.on('upgrade', (request, socket, head) => {
+  const hub = hubFor(new URL(request.url ?? '/', 'http://localhost').pathname);
+  if (hub) {
+    hub.handleUpgrade(request, socket, head);
+  } else {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock Optx server on http://localhost:${port} (seed ${seed}, ${tickMs}ms ticks)`);
+});
+
+const shutdown = () => {
+  feed.stop();
+  runs.forEach(run => run.stop());
+  // Upgraded sockets would otherwise keep server.close() waiting
+  hubs.forEach(hub => hub.closeAll());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,85 @@
+export type OptionType = 'call' | 'put';
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  /** Per calendar day. */
+  theta: number;
+  /** Per 1% change in volatility. */
+  vega: number;
+  /** Per 1% change in rates. */
+  rho: number;
+}
+
+export const RISK_FREE_RATE = 0.05;
+export const DIVIDEND_YIELD = 0.01;
+
+// Abramowitz-Stegun 7.1.26, matching Optx.Pricing.BlackScholes
+export function normalCdf(x: number): number {
+  const a1 = 0.254829592;
+  const a2 = -0.284496736;
+  const a3 = 1.421413741;
+  const a4 = -1.453152027;
+  const a5 = 1.061405429;
+  const p = 0.3275911;
+
+  const sign = x < 0 ? -1 : 1;
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + p * z);
+  const y = 1 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-z * z);
+  return 0.5 * (1 + sign * y);
+}
+
+const normalPdf = (x: number) => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+/** Black-Scholes-Merton price and Greeks with continuous dividend yield. */
+export function priceOption(
+  spot: number,
+  strike: number,
+  years: number,
+  volatility: number,
+  optionType: OptionType,
+  rate = RISK_FREE_RATE,
+  dividend = DIVIDEND_YIELD,
+): { price: number; greeks: Greeks } {
+  if (years <= 0 || volatility <= 0) {
+    const intrinsic = optionType === 'call' ? Math.max(0, spot - strike) : Math.max(0, strike - spot);
+    const delta = intrinsic > 0 ? (optionType === 'call' ? 1 : -1) : 0;
+    return { price: intrinsic, greeks: { delta, gamma: 0, theta: 0, vega: 0, rho: 0 } };
+  }
+
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate - dividend + 0.5 * volatility * volatility) * years) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discount = Math.exp(-rate * years);
+  const dividendDiscount = Math.exp(-dividend * years);
+  const pdf = normalPdf(d1);
+
+  const gamma = (dividendDiscount * pdf) / (spot * volatility * sqrtT);
+  const vega = (spot * dividendDiscount * pdf * sqrtT) / 100;
+  const decay = -(spot * dividendDiscount * pdf * volatility) / (2 * sqrtT);
+
+  if (optionType === 'call') {
+    return {
+      price: spot * dividendDiscount * normalCdf(d1) - strike * discount * normalCdf(d2),
+      greeks: {
+        delta: dividendDiscount * normalCdf(d1),
+        gamma,
+        theta: (decay - rate * strike * discount * normalCdf(d2) + dividend * spot * dividendDiscount * normalCdf(d1)) / 365.25,
+        vega,
+        rho: (strike * years * discount * normalCdf(d2)) / 100,
+      },
+    };
+  }
+
+  return {
+    price: strike * discount * normalCdf(-d2) - spot * dividendDiscount * normalCdf(-d1),
+    greeks: {
+      delta: -dividendDiscount * normalCdf(-d1),
+      gamma,
+      theta: (decay + rate * strike * discount * normalCdf(-d2) - dividend * spot * dividendDiscount * normalCdf(-d1)) / 365.25,
+      vega,
+      rho: -(strike * years * discount * normalCdf(-d2)) / 100,
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Small seedable PRNG (mulberry32) so synthetic feeds replay identically for
+ * the same seed. Not suitable for anything security related.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Standard normal via Box-Muller, as in the C# RandomExtensions.NextGaussian. */
+  nextGaussian(mean = 0, stdDev = 1): number {
+    const u1 = 1 - this.next();
+    const u2 = 1 - this.next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  nextInt(min: number, maxExclusive: number): number {
+    return min + Math.floor(this.next() * (maxExclusive - min));
+  }
+}
+
+/** Derive a per-stream seed, e.g. one per symbol, from the server seed. */
+export function deriveSeed(seed: number, ...parts: string[]): number {
+  let hash = (seed ^ 0x811c9dc5) >>> 0;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      hash = Math.imul(hash ^ part.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    hash = Math.imul(hash ^ 0x2f, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,265 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { parse as parseYaml } from 'yaml';
+import { generateChain, generateHistory } from './generators.js';
+import type { MarketFeed } from './feed.js';
+
+/**
+ * REST routes of MarketDataController and StrategyController. Response
+ * shapes follow the .NET host (camel-cased); the options chain adds the
+ * expirations and per-contract fields the real controller does not have yet.
+ */
+
+export interface RouteContext {
+  feed: MarketFeed;
+  seed: number;
+}
+
+type Handler = (context: RouteContext, params: string[], body: unknown, query: URLSearchParams) => [number, unknown];
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const STRATEGY_TEMPLATES = {
+  'covered-call': {
+    name: 'Covered Call',
+    description: 'Sell covered calls against long underlying positions',
+    template: {
+      strategy: {
+        name: 'CoveredCall',
+        description: 'Sell covered calls against long underlying positions',
+        parameters: {
+          min_delta: 0.25,
+          max_delta: 0.35,
+          min_dte: 30,
+          max_dte: 45,
+          roll_at_pnl_percent: 50.0,
+          roll_at_dte: 21,
+          lot_size: 100,
+          max_positions: 10,
+        },
+      },
+      risk: { max_portfolio_delta: 1000, max_single_position: 10000, max_daily_loss: 5000 },
+      execution: { order_type: 'LIMIT', price_improvement: 0.01, timeout_seconds: 30 },
+    },
+  },
+  'cash-secured-put': {
+    name: 'Cash Secured Put',
+    description: 'Sell cash-secured puts on underlyings',
+    template: {
+      strategy: {
+        name: 'CashSecuredPut',
+        description: 'Sell cash-secured puts on underlyings',
+        parameters: {
+          min_delta: -0.35,
+          max_delta: -0.25,
+          min_dte: 30,
+          max_dte: 45,
+          cash_requirement_multiplier: 1.0,
+          max_positions: 5,
+        },
+      },
+    },
+  },
+  'straddle': {
+    name: 'Long Straddle',
+    description: 'Buy call and put with same strike and expiry',
+    template: {
+      strategy: {
+        name: 'LongStraddle',
+        description: 'Buy call and put with same strike and expiry',
+        parameters: {
+          target_dte: 30,
+          min_implied_volatility: 0.20,
+          max_implied_volatility: 0.80,
+          profit_target_percent: 100.0,
+        },
+      },
+    },
+  },
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+// StrategyController.ValidateCoveredCallConfig; cash-secured puts pass as-is there too
+function validateStrategy(config: Record<string, unknown>, strategyType: string): string[] {
+  if (!('strategy' in config)) {
+    return ["Strategy configuration must contain a 'strategy' section"];
+  }
+
+  switch (strategyType.toLowerCase()) {
+    case 'covered-call': {
+      const parameters = asRecord(asRecord(config.strategy)?.parameters);
+      if (!parameters) {
+        return ['Strategy must contain parameters section'];
+      }
+      const errors: string[] = [];
+      if ('min_delta' in parameters && 'max_delta' in parameters) {
+        const [minDelta, maxDelta] = [Number(parameters.min_delta), Number(parameters.max_delta)];
+        if (minDelta <= 0 || minDelta >= 1 || maxDelta <= 0 || maxDelta >= 1) {
+          errors.push('Delta values must be between 0 and 1');
+        }
+        if (minDelta >= maxDelta) {
+          errors.push('min_delta must be less than max_delta');
+        }
+      }
+      if ('min_dte' in parameters && 'max_dte' in parameters) {
+        const [minDte, maxDte] = [Math.round(Number(parameters.min_dte)), Math.round(Number(parameters.max_dte))];
+        if (minDte <= 0 || maxDte <= 0) {
+          errors.push('DTE values must be positive');
+        }
+        if (minDte >= maxDte) {
+          errors.push('min_dte must be less than max_dte');
+        }
+      }
+      return errors;
+    }
+    case 'cash-secured-put':
+      return [];
+    default:
+      return [`Unknown strategy type: ${strategyType}`];
+  }
+}
+
+const requireSymbol = (body: unknown): string => {
+  const symbol = asRecord(body)?.symbol;
+  if (typeof symbol !== 'string' || !symbol) {
+    throw new HttpError(400, 'symbol is required');
+  }
+  return symbol.toUpperCase();
+};
+
+// Same bounds as MarketDataController.GetHistory
+const MAX_HISTORY_BARS = 5000;
+
+const integerParam = (query: URLSearchParams, name: string, fallback: number): number => {
+  const raw = query.get(name);
+  const value = raw === null ? fallback : Number(raw);
+  if (!Number.isInteger(value)) {
+    throw new HttpError(400, `${name} must be an integer`);
+  }
+  return value;
+};
+
+const ROUTES: [string, RegExp, Handler][] = [
+  ['GET', /^\/api\/marketdata\/health$/i, () =>
+    [200, { status: 'Healthy', timestamp: new Date().toISOString(), service: 'Market Data API (mock)' }]],
+
+  ['POST', /^\/api\/marketdata\/subscribe$/i, (_context, _params, body) => {
+    const symbol = requireSymbol(body);
+    return [200, { message: `Subscribed to ${symbol}`, success: true }];
+  }],
+
+  ['POST', /^\/api\/marketdata\/unsubscribe$/i, (_context, _params, body) => {
+    const symbol = requireSymbol(body);
+    return [200, { message: `Unsubscribed from ${symbol}`, success: true }];
+  }],
+
+  ['GET', /^\/api\/marketdata\/stock-price\/([^/]+)$/i, ({ feed }, [symbol]) =>
+    [200, { symbol, price: Math.round(feed.price(symbol.toUpperCase()) * 100) / 100, timestamp: new Date().toISOString(), success: true }]],
+
+  ['GET', /^\/api\/marketdata\/history\/([^/]+)$/i, ({ seed }, [symbol], _body, query) => {
+    const interval = integerParam(query, 'interval', 60);
+    const before = integerParam(query, 'before', Math.floor(Date.now() / 1000));
+    const limit = integerParam(query, 'limit', 500);
+    if (interval <= 0 || limit <= 0 || limit > MAX_HISTORY_BARS) {
+      throw new HttpError(400, `interval must be positive and limit between 1 and ${MAX_HISTORY_BARS}`);
+    }
+    const underlying = symbol.toUpperCase();
+    return [200, { symbol: underlying, interval, bars: generateHistory(underlying, interval, before, limit, seed), success: true }];
+  }],
+
+  ['GET', /^\/api\/marketdata\/options-chain\/([^/]+)$/i, ({ feed, seed }, [symbol]) => {
+    const underlying = symbol.toUpperCase();
+    const underlyingPrice = Math.round(feed.price(underlying) * 100) / 100;
+    const now = new Date();
+    const expirations = generateChain(underlying, underlyingPrice, now, seed);
+    return [200, {
+      symbol: underlying,
+      timestamp: now.toISOString(),
+      underlyingPrice,
+      expirations,
+      // Front expiry at the top level, as the .NET mock returns it
+      strikes: expirations[0]?.strikes ?? [],
+    }];
+  }],
+
+  ['GET', /^\/api\/strategy\/templates$/i, () => [200, STRATEGY_TEMPLATES]],
+
+  ['POST', /^\/api\/strategy\/validate$/i, (_context, _params, body) => {
+    const request = asRecord(body);
+    const strategyType = String(request?.strategyType ?? '');
+    let config: Record<string, unknown> | null;
+    try {
+      config = asRecord(parseYaml(String(request?.configYaml ?? '')));
+    } catch (error) {
+      return [400, { isValid: false, errors: [error instanceof Error ? error.message : String(error)], config: null }];
+    }
+    const errors = validateStrategy(config ?? {}, strategyType);
+    return [200, { isValid: errors.length === 0, errors, config }];
+  }],
+
+  ['POST', /^\/api\/strategy\/analyze$/i, (_context, _params, body) => {
+    const request = asRecord(body);
+    const underlyingPrice = Number(request?.underlyingPrice ?? 0);
+    const allocation = Number(request?.allocation ?? 0);
+    // Same placeholder numbers as StrategyController.AnalyzeStrategy
+    return [200, {
+      expectedReturn: 0.12,
+      maxRisk: allocation * 0.5,
+      breakEvenPoints: [underlyingPrice * 0.95, underlyingPrice * 1.05],
+      greeks: { delta: 0, gamma: 0, theta: 0, vega: 0 },
+      probabilityOfProfit: 0.65,
+    }];
+  }],
+];
+
+export function setCorsHeaders(request: IncomingMessage, response: ServerResponse): void {
+  response.setHeader('Access-Control-Allow-Origin', request.headers.origin ?? '*');
+  response.setHeader('Access-Control-Allow-Credentials', 'true');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', request.headers['access-control-request-headers'] ?? 'Content-Type');
+  response.setHeader('Vary', 'Origin');
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+/** Returns false when no route matches, so the caller can try hubs. */
+export async function handleRest(context: RouteContext, request: IncomingMessage, response: ServerResponse): Promise<boolean> {
+  // ASP.NET routes are case-insensitive, hence the `i` flags above
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const path = url.pathname.replace(/(.)\/$/, '$1');
+  const route = ROUTES.find(([method, pattern]) => method === request.method && pattern.test(path));
+  if (!route) {
+    return false;
+  }
+
+  let status: number;
+  let payload: unknown;
+  try {
+    const params = route[1].exec(path)!.slice(1).map(decodeURIComponent);
+    [status, payload] = route[2](context, params, request.method === 'POST' ? await readBody(request) : null, url.searchParams);
+  } catch (error) {
+    status = error instanceof HttpError ? error.status : 500;
+    payload = { message: error instanceof Error ? error.message : String(error), success: false };
+  }
+
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(payload));
+  return true;
+}
@@ -1,7 +1,11 @@
+using System.Globalization;
 using Microsoft.AspNetCore.Mvc;
 using Optx.Web.Services;
 using Optx.Core.Types;
 using Optx.Core.Events;
+using Optx.Data.Generators;
+using Optx.Pricing;
+using Optx.Web.Models;
 
 namespace Optx.Web.Controllers;
 
@@ -9,12 +13,25 @@ namespace Optx.Web.Controllers;
 [Route("api/[controller]")]
 public class MarketDataController : ControllerBase
 {
+    // Largest page of bars one request can ask for
+    private const int MaxHistoryBars = 5000;
+    private const int SessionSeconds = 23_400;
+    private const double ChainBaseVolatility = 0.2;
+    // Strikes listed within this fraction of the stock price, and expiries per chain
+    private const decimal ChainStrikeRange = 0.12m;
+    private const int MaxChainExpirations = 10;
+
     private readonly IMarketDataService _marketDataService;
+    private readonly IHistoricalDataService _historicalDataService;
     private readonly ILogger<MarketDataController> _logger;
 
-    public MarketDataController(IMarketDataService marketDataService, ILogger<MarketDataController> logger)
+    public MarketDataController(
+        IMarketDataService marketDataService,
+        IHistoricalDataService historicalDataService,
+        ILogger<MarketDataController> logger)
     {
         _marketDataService = marketDataService;
+        _historicalDataService = historicalDataService;
         _logger = logger;
     }
 
@@ -92,25 +109,182 @@ public class MarketDataController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// OHLCV bars of <paramref name="interval"/> seconds that closed at or before
+    /// <paramref name="before"/> (Unix seconds, default now), oldest first. Bars are
+    /// Polygon's aggregates at that size. Polygon caps the base aggregates one request
+    /// reads, so a page of coarse bars may come back short; paging back with
+    /// <paramref name="before"/> picks up the rest.
+    /// </summary>
+    [HttpGet("history/{symbol}")]
+    public async Task<IActionResult> GetHistory(
+        string symbol,
+        [FromQuery] int interval = 60,
+        [FromQuery] long? before = null,
+        [FromQuery] int limit = 500,
+        CancellationToken cancellationToken = default)
+    {
+        if (interval <= 0 || limit <= 0 || limit > MaxHistoryBars)
+        {
+            return BadRequest(new { Message = $"interval must be positive and limit between 1 and {MaxHistoryBars}", Success = false });
+        }
+
+        try
+        {
+            var end = before ?? DateTimeOffset.UtcNow.ToUnixTimeSeconds();
+            var toDate = DateTimeOffset.FromUnixTimeSeconds(end).UtcDateTime.Date;
+            var (timespan, multiplier) = AggregateSize(interval);
+            // Enough calendar days to span `limit` bars of regular sessions, plus a long weekend
+            var tradingDays = timespan == "day"
+                ? limit * multiplier
+                : (int)Math.Ceiling((double)limit * interval / SessionSeconds);
+            var fromDate = toDate.AddDays(-(tradingDays * 7 / 5 + 3));
+
+            var request = new HistoricalDataRequest
+            {
+                Symbol = symbol.ToUpperInvariant(),
+                FromDate = fromDate,
+                ToDate = toDate,
+                Multiplier = multiplier,
+                Timespan = timespan,
+                // Newest first, so the request limit cuts off the oldest aggregates
+                Sort = "desc"
+            };
+
+            var aggregates = await _historicalDataService.GetStockAggregatesAsync(request, cancellationToken);
+            var bars = aggregates
+                .Select(aggregate => new HistoricalBar(
+                    aggregate.Timestamp / 1000,
+                    aggregate.Open,
+                    aggregate.High,
+                    aggregate.Low,
+                    aggregate.Close,
+                    (long)aggregate.Volume))
+                .Where(bar => bar.Time + interval <= end)
+                .OrderBy(bar => bar.Time)
+                .TakeLast(limit)
+                .ToList();
+
+            return Ok(new
+            {
+                Symbol = request.Symbol,
+                Interval = interval,
+                Bars = bars,
+                Success = true
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting history for {Symbol}", symbol);
+            return BadRequest(new { Message = ex.Message, Success = false });
+        }
+    }
+
+    /// <summary>
+    /// Listed expiries for <paramref name="symbol"/>, nearest first, in the shape
+    /// mock-server serves. Expiries and strikes within <see cref="ChainStrikeRange"/>
+    /// of the stock price come from Polygon's contract reference, volume and open
+    /// interest from its chain snapshot. Bid, ask and Greeks are synthetic, priced
+    /// around the current stock price by <see cref="OptionsChainGenerator"/>.
+    /// </summary>
     [HttpGet("options-chain/{symbol}")]
-    public async Task<IActionResult> GetOptionsChain(string symbol)
+    public async Task<IActionResult> GetOptionsChain(string symbol, CancellationToken cancellationToken = default)
     {
         try
         {
-            // This would typically query a database or cache
-            // For now, return a mock response structure
-            var optionsChain = new
+            var underlying = symbol.ToUpperInvariant();
+            var price = await _marketDataService.GetCurrentStockPriceAsync(underlying);
+            if (!price.HasValue || price.Value <= 0m)
             {
-                Symbol = symbol,
-                Timestamp = DateTime.UtcNow,
-                Strikes = new[]
-                {
-                    new { Strike = 100m, Calls = new { Bid = 5.0m, Ask = 5.2m, IV = 0.25, Delta = 0.5, Gamma = 0.02 }, Puts = new { Bid = 3.0m, Ask = 3.2m, IV = 0.26, Delta = -0.5, Gamma = 0.02 } },
-                    new { Strike = 105m, Calls = new { Bid = 3.5m, Ask = 3.7m, IV = 0.24, Delta = 0.4, Gamma = 0.025 }, Puts = new { Bid = 5.5m, Ask = 5.7m, IV = 0.25, Delta = -0.6, Gamma = 0.025 } }
-                }
+                return NotFound(new { Message = $"Stock price not found for {underlying}", Success = false });
+            }
+
+            var minStrike = Math.Round(price.Value * (1 - ChainStrikeRange), 2);
+            var maxStrike = Math.Round(price.Value * (1 + ChainStrikeRange), 2);
+            var contractsRequest = new OptionsContractsRequest
+            {
+                UnderlyingTicker = underlying,
+                MinStrikePrice = minStrike,
+                MaxStrikePrice = maxStrike,
+                Sort = "expiration_date",
+                Order = "asc"
             };
+            var contracts = await _historicalDataService.GetOptionsContractsAsync(contractsRequest, cancellationToken);
+
+            // Adjusted contracts, left after splits and mergers, are not part of the chain
+            var listed = contracts
+                .Where(contract => contract.SharesPerContract == 100)
+                .GroupBy(contract => contract.ExpirationDate)
+                .Select(group => (
+                    Date: DateTime.ParseExact(group.Key, "yyyy-MM-dd", CultureInfo.InvariantCulture),
+                    Contracts: group.ToList()))
+                .OrderBy(expiration => expiration.Date)
+                .ToList();
+            // A full page may end partway through its last expiry
+            if (contracts.Count >= contractsRequest.Limit && listed.Count > 1)
+            {
+                listed.RemoveAt(listed.Count - 1);
+            }
+            listed = listed.Take(MaxChainExpirations).ToList();
+            if (listed.Count == 0)
+            {
+                return NotFound(new { Message = $"No listed options found for {underlying}", Success = false });
+            }
+
+            var snapshots = await _historicalDataService.GetOptionsSnapshotAsync(new OptionsSnapshotRequest
+            {
+                UnderlyingTicker = underlying,
+                MaxExpirationDate = listed[^1].Date,
+                MinStrikePrice = minStrike,
+                MaxStrikePrice = maxStrike
+            }, cancellationToken);
+            var activity = snapshots
+                .GroupBy(snapshot => OccSymbol(snapshot.Details.Ticker))
+                .ToDictionary(group => group.Key, group => group.First());
+
+            var spot = (double)price.Value;
+            var now = DateTime.UtcNow;
+            var generator = new OptionsChainGenerator(ChainSurface(spot));
+
+            var expirations = listed
+                .Select(expiration =>
+                {
+                    // Options stop trading at the 16:00 New York close; 20:00 UTC is close enough here
+                    var expiresAt = expiration.Date.AddHours(20);
+                    var quotes = expiration.Contracts
+                        .Select(contract => generator.GenerateQuote(ToOptionContract(contract, underlying, expiresAt), spot, now))
+                        .OfType<OptionQuote>()
+                        .ToList();
+                    return new
+                    {
+                        Expiry = expiration.Date.ToString("yyyy-MM-dd"),
+                        DaysToExpiry = Math.Max(0, (int)Math.Round((expiration.Date - now).TotalDays)),
+                        Cycle = IsMonthlyExpiry(expiration.Date) ? "monthly" : "weekly",
+                        // A strike is listed only when both sides are listed and could be priced
+                        Strikes = quotes
+                            .GroupBy(quote => quote.Contract.Strike)
+                            .Where(group => group.Any(quote => quote.Contract.IsCall) && group.Any(quote => quote.Contract.IsPut))
+                            .OrderBy(group => group.Key)
+                            .Select(group => new
+                            {
+                                Strike = group.Key,
+                                Calls = ChainContract(group.First(quote => quote.Contract.OptionType == OptionType.Call), activity),
+                                Puts = ChainContract(group.First(quote => quote.Contract.OptionType == OptionType.Put), activity)
+                            })
+                            .ToList()
+                    };
+                })
+                .Where(expiration => expiration.Strikes.Count > 0)
+                .ToList();
 
-            return Ok(optionsChain);
+            return Ok(new
+            {
+                Symbol = underlying,
+                Timestamp = now,
+                UnderlyingPrice = price.Value,
+                Expirations = expirations,
+                Success = true
+            });
         }
         catch (Exception ex)
         {
@@ -118,6 +292,84 @@ public class MarketDataController : ControllerBase
             return BadRequest(new { Message = ex.Message, Success = false });
         }
     }
+
+    // Polygon prefixes option tickers with "O:"; clients use the bare OCC symbol
+    private static string OccSymbol(string ticker) => ticker.StartsWith("O:") ? ticker[2..] : ticker;
+
+    private static OptionContract ToOptionContract(PolygonOptionsContract contract, string underlying, DateTime expiresAt) =>
+        new(
+            OccSymbol(contract.Ticker).AsMemory(),
+            underlying.AsMemory(),
+            contract.StrikePrice,
+            expiresAt,
+            contract.ContractType == "put" ? OptionType.Put : OptionType.Call);
+
+    // Standard monthlies expire on the third Friday; anything else is a weekly
+    private static bool IsMonthlyExpiry(DateTime date) =>
+        date.DayOfWeek == DayOfWeek.Friday && date.Day is >= 15 and <= 21;
+
+    /// <summary>
+    /// Skewed smile with a term structure around <paramref name="spot"/>, matching
+    /// mock-server's surface: puts rich, short expiries a little higher.
+    /// </summary>
+    private static VolatilitySurface ChainSurface(double spot)
+    {
+        // Starts at a day: below its first expiry the surface stretches that expiry's variance
+        var expiries = new[] { 1.0 / 365, 1.0 / 52, 1.0 / 12, 0.25, 0.5, 1.0 };
+        var strikes = Enumerable.Range(0, 17).Select(i => spot * (0.6 + 0.05 * i)).ToArray();
+        var volatilities = new double[expiries.Length, strikes.Length];
+
+        for (var i = 0; i < expiries.Length; i++)
+        {
+            var atm = ChainBaseVolatility + 0.03 * Math.Exp(-4 * expiries[i]);
+            var skew = -0.25 / Math.Sqrt(Math.Max(expiries[i], 1.0 / 52));
+            for (var j = 0; j < strikes.Length; j++)
+            {
+                var logMoneyness = Math.Log(strikes[j] / spot);
+                volatilities[i, j] = Math.Max(0.05, atm + skew * logMoneyness * 0.1 + 0.8 * logMoneyness * logMoneyness);
+            }
+        }
+
+        return new VolatilitySurface(expiries, strikes, volatilities);
+    }
+
+    private static object ChainContract(OptionQuote quote, IReadOnlyDictionary<string, PolygonOptionSnapshot> activity)
+    {
+        var symbol = quote.Contract.Symbol.ToString();
+        // Contracts missing from the snapshot have not traded or been reported
+        activity.TryGetValue(symbol, out var snapshot);
+        var bid = Math.Round(quote.BidPrice, 2);
+        return new
+        {
+            Symbol = symbol,
+            Bid = bid,
+            // Rounding must not cross or lock the market
+            Ask = Math.Max(bid + 0.01m, Math.Round(quote.AskPrice, 2)),
+            quote.BidSize,
+            quote.AskSize,
+            Volume = (long)(snapshot?.Day?.Volume ?? 0m),
+            OpenInterest = snapshot?.OpenInterest ?? 0,
+            IV = quote.ImpliedVolatility,
+            quote.Greeks.Delta,
+            quote.Greeks.Gamma,
+            quote.Greeks.Theta,
+            quote.Greeks.Vega
+        };
+    }
+
+    // Polygon timespan and multiplier for bars of `interval` seconds, in the largest unit that divides it
+    private static (string Timespan, int Multiplier) AggregateSize(int interval) => interval switch
+    {
+        _ when interval % 86_400 == 0 => ("day", interval / 86_400),
+        _ when interval % 3_600 == 0 => ("hour", interval / 3_600),
+        _ when interval % 60 == 0 => ("minute", interval / 60),
+        _ => ("second", interval)
+    };
 }
 
-public record SubscriptionRequest(string Symbol);
\ No newline at end of file
+public record SubscriptionRequest(string Symbol);
+
+/// <summary>
+/// One OHLCV bar; <see cref="Time"/> is the bar's start in Unix seconds.
+/// </summary>
+public record HistoricalBar(long Time, decimal Open, decimal High, decimal Low, decimal Close, long Volume);
\ No newline at end of file
@@ -31,6 +31,25 @@ public class MarketDataHub : Hub
         _logger.LogInformation("Client {ConnectionId} unsubscribed from {Symbol}", Context.ConnectionId, symbol);
     }
 
+    /// <summary>
+    /// Like SubscribeToSymbol, but events arrive as protobuf MarketFrame
+    /// payloads instead of JSON MarketEvent objects
+    /// </summary>
+    public async Task SubscribeToSymbolFrames(string symbol)
+    {
+        await Groups.AddToGroupAsync(Context.ConnectionId, $"frames_{symbol}");
+        await _marketDataService.SubscribeToSymbolAsync(symbol);
+
+        _logger.LogInformation("Client {ConnectionId} subscribed to {Symbol} frames", Context.ConnectionId, symbol);
+    }
+
+    public async Task UnsubscribeFromSymbolFrames(string symbol)
+    {
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, $"frames_{symbol}");
+
+        _logger.LogInformation("Client {ConnectionId} unsubscribed from {Symbol} frames", Context.ConnectionId, symbol);
+    }
+
     public override async Task OnDisconnectedAsync(Exception? exception)
     {
         _logger.LogInformation("Client {ConnectionId} disconnected", Context.ConnectionId);
@@ -105,6 +105,43 @@ public class PolygonOptionsContract
     public List<object>? AdditionalUnderlyings { get; set; }
 }
 
+public class PolygonOptionsSnapshotResponse
+{
+    [JsonPropertyName("status")]
+    public string Status { get; set; } = string.Empty;
+
+    [JsonPropertyName("request_id")]
+    public string RequestId { get; set; } = string.Empty;
+
+    [JsonPropertyName("results")]
+    public List<PolygonOptionSnapshot> Results { get; set; } = new();
+
+    [JsonPropertyName("next_url")]
+    public string? NextUrl { get; set; }
+}
+
+/// <summary>
+/// One contract of Polygon's option chain snapshot; only the fields the chain
+/// endpoint reports are mapped
+/// </summary>
+public class PolygonOptionSnapshot
+{
+    [JsonPropertyName("details")]
+    public PolygonOptionsContract Details { get; set; } = new();
+
+    [JsonPropertyName("day")]
+    public PolygonOptionSnapshotDay? Day { get; set; }
+
+    [JsonPropertyName("open_interest")]
+    public long OpenInterest { get; set; }
+}
+
+public class PolygonOptionSnapshotDay
+{
+    [JsonPropertyName("volume")]
+    public decimal Volume { get; set; }
+}
+
 public class PolygonQuotesResponse
 {
     [JsonPropertyName("status")]
@@ -220,9 +257,23 @@ public class OptionsContractsRequest
     public string? ContractType { get; set; } // call, put
     public DateTime? ExpirationDate { get; set; }
     public decimal? StrikePrice { get; set; }
+    public decimal? MinStrikePrice { get; set; }
+    public decimal? MaxStrikePrice { get; set; }
     public bool Expired { get; set; } = false;
     public DateTime? AsOf { get; set; } // Point in time for contracts as of this date
     public string Sort { get; set; } = "ticker";
     public string Order { get; set; } = "asc";
     public int Limit { get; set; } = 1000;
-}
\ No newline at end of file
+}
+/// <summary>
+/// Option chain snapshot request parameters
+/// </summary>
+public class OptionsSnapshotRequest
+{
+    public string UnderlyingTicker { get; set; } = string.Empty;
+    public DateTime? MaxExpirationDate { get; set; }
+    public decimal? MinStrikePrice { get; set; }
+    public decimal? MaxStrikePrice { get; set; }
+    public int Limit { get; set; } = 250;
+    public int MaxPages { get; set; } = 4;
+}
@@ -9,8 +9,8 @@ builder.Services.AddControllers();
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen();
 
-// Add SignalR
-builder.Services.AddSignalR();
+// Add SignalR; MessagePack is for clients that take protobuf frames
+builder.Services.AddSignalR().AddMessagePackProtocol();
 
 // Add CORS for development
 builder.Services.AddCors(options =>
@@ -31,6 +31,7 @@ builder.Services.AddHttpClient();
 // Add market data services
 builder.Services.AddSingleton<IMarketDataService, PolygonMarketDataService>();
 builder.Services.AddHostedService<MarketDataBroadcastService>();
+builder.Services.AddSingleton<IStrategyFrameBroadcaster, StrategyFrameBroadcaster>();
 
 // Add historical data services
 builder.Services.AddSingleton<IHistoricalDataService, PolygonHistoricalDataService>();
@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.SignalR;
 using Optx.Core.Events;
 using Optx.Web.Hubs;
+using Optx.Wire.Mappers;
+using Google.Protobuf;
 using System.Threading.Channels;
 
 namespace Optx.Web.Services;
@@ -90,6 +92,11 @@ public class MarketDataBroadcastService : BackgroundService
                 // Also broadcast to general market data feed
                 await _hubContext.Clients.Group("market_feed")
                     .SendAsync("MarketEvent", eventData, cancellationToken);
+
+                // Clients on the MessagePack protocol take the same event as a protobuf optx.MarketEvent
+                var frame = ProtoMapper.ToProto(marketEvent).ToByteArray();
+                await _hubContext.Clients.Group($"frames_{symbol}")
+                    .SendAsync("MarketFrame", frame, cancellationToken);
             }
         }
         catch (Exception ex)
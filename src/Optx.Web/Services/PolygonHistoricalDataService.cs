@@ -9,10 +9,12 @@ namespace Optx.Web.Services;
 public interface IHistoricalDataService
 {
     Task<List<MarketTick>> GetHistoricalStockDataAsync(HistoricalDataRequest request, CancellationToken cancellationToken = default);
+    Task<List<PolygonAggregate>> GetStockAggregatesAsync(HistoricalDataRequest request, CancellationToken cancellationToken = default);
     Task<List<MarketTick>> GetHistoricalOptionsDataAsync(HistoricalDataRequest request, CancellationToken cancellationToken = default);
     Task<List<QuoteUpdate>> GetHistoricalOptionsQuotesAsync(string optionsTicker, DateTime from, DateTime to, CancellationToken cancellationToken = default);
     Task<List<PolygonOptionsContract>> GetOptionsContractsAsync(OptionsContractsRequest request, CancellationToken cancellationToken = default);
     Task<List<PolygonOptionsContract>> GetOptionsChainAsync(string underlyingTicker, DateTime expirationDate, CancellationToken cancellationToken = default);
+    Task<List<PolygonOptionSnapshot>> GetOptionsSnapshotAsync(OptionsSnapshotRequest request, CancellationToken cancellationToken = default);
 }
 
 public class PolygonHistoricalDataService : IHistoricalDataService, IDisposable
@@ -71,6 +73,28 @@ public class PolygonHistoricalDataService : IHistoricalDataService, IDisposable
         return ticks;
     }
 
+    /// <summary>
+    /// Polygon's OHLCV aggregates as returned, in the request's sort order
+    /// </summary>
+    public async Task<List<PolygonAggregate>> GetStockAggregatesAsync(
+        HistoricalDataRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        _logger.LogInformation("Fetching {Multiplier} {Timespan} aggregates for {Symbol} from {From} to {To}",
+            request.Multiplier, request.Timespan, request.Symbol, request.FromDate, request.ToDate);
+
+        var url = BuildAggregatesUrl(request);
+        var response = await MakeRateLimitedRequestAsync<PolygonAggregatesResponse>(url, cancellationToken);
+
+        if (response?.Results == null)
+        {
+            _logger.LogWarning("No results returned for {Symbol}", request.Symbol);
+            return new List<PolygonAggregate>();
+        }
+
+        return response.Results;
+    }
+
     public async Task<List<MarketTick>> GetHistoricalOptionsDataAsync(
         HistoricalDataRequest request,
         CancellationToken cancellationToken = default)
@@ -178,6 +202,12 @@ public class PolygonHistoricalDataService : IHistoricalDataService, IDisposable
         if (request.StrikePrice.HasValue)
             queryParams.Add($"strike_price={request.StrikePrice.Value}");
 
+        if (request.MinStrikePrice.HasValue)
+            queryParams.Add($"strike_price.gte={request.MinStrikePrice.Value}");
+
+        if (request.MaxStrikePrice.HasValue)
+            queryParams.Add($"strike_price.lte={request.MaxStrikePrice.Value}");
+
         if (request.AsOf.HasValue)
             queryParams.Add($"as_of={request.AsOf.Value:yyyy-MM-dd}");
 
@@ -215,6 +245,53 @@ public class PolygonHistoricalDataService : IHistoricalDataService, IDisposable
         return await GetOptionsContractsAsync(request, cancellationToken);
     }
 
+    /// <summary>
+    /// Day volume and open interest per contract, from Polygon's option chain
+    /// snapshot. Follows next_url for at most <see cref="OptionsSnapshotRequest.MaxPages"/> pages.
+    /// </summary>
+    public async Task<List<PolygonOptionSnapshot>> GetOptionsSnapshotAsync(
+        OptionsSnapshotRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        _logger.LogInformation("Fetching options snapshot for {UnderlyingTicker}", request.UnderlyingTicker);
+
+        var apiKey = GetApiKey();
+        var baseUrl = _configuration["Polygon:RestApiUrl"] ?? "https://api.polygon.io";
+
+        var queryParams = new List<string>
+        {
+            $"limit={request.Limit}",
+            $"apikey={apiKey}"
+        };
+
+        if (request.MaxExpirationDate.HasValue)
+            queryParams.Add($"expiration_date.lte={request.MaxExpirationDate.Value:yyyy-MM-dd}");
+
+        if (request.MinStrikePrice.HasValue)
+            queryParams.Add($"strike_price.gte={request.MinStrikePrice.Value}");
+
+        if (request.MaxStrikePrice.HasValue)
+            queryParams.Add($"strike_price.lte={request.MaxStrikePrice.Value}");
+
+        string? url = $"{baseUrl}/v3/snapshot/options/{request.UnderlyingTicker}?{string.Join("&", queryParams)}";
+        var snapshots = new List<PolygonOptionSnapshot>();
+
+        for (var page = 0; page < request.MaxPages && url != null; page++)
+        {
+            var response = await MakeRateLimitedRequestAsync<PolygonOptionsSnapshotResponse>(url, cancellationToken);
+            if (response?.Results == null)
+                break;
+
+            snapshots.AddRange(response.Results);
+            // next_url carries the cursor but not the key
+            url = string.IsNullOrEmpty(response.NextUrl) ? null : $"{response.NextUrl}&apikey={apiKey}";
+        }
+
+        _logger.LogInformation("Retrieved {Count} option snapshots for {UnderlyingTicker}",
+            snapshots.Count, request.UnderlyingTicker);
+        return snapshots;
+    }
+
     private string BuildAggregatesUrl(HistoricalDataRequest request)
     {
         var apiKey = GetApiKey();
@@ -0,0 +1,53 @@
+using Google.Protobuf;
+using Microsoft.AspNetCore.SignalR;
+using Optx.Core.Events;
+using Optx.Core.Types;
+using Optx.Web.Hubs;
+using Optx.Wire.Mappers;
+
+namespace Optx.Web.Services;
+
+/// <summary>
+/// Publishes engine output for a strategy to its strategy hub room as
+/// protobuf frames; clients connect with the MessagePack protocol.
+/// </summary>
+public interface IStrategyFrameBroadcaster
+{
+    Task SendFillAsync(string strategyId, Fill fill, CancellationToken cancellationToken = default);
+    Task SendOrderAckAsync(string strategyId, OrderAck ack, CancellationToken cancellationToken = default);
+    Task SendPortfolioAsync(string strategyId, PortfolioState portfolio, CancellationToken cancellationToken = default);
+    Task SendRiskCheckAsync(string strategyId, Order order, bool approved, string reason, CancellationToken cancellationToken = default);
+    Task SendSignalAsync(string strategyId, string strategyName, Wire.Proto.SignalType signalType, IEnumerable<Order> orders, string reason, ulong timestampNs, CancellationToken cancellationToken = default);
+}
+
+public class StrategyFrameBroadcaster : IStrategyFrameBroadcaster
+{
+    private readonly IHubContext<StrategyHub> _hubContext;
+
+    public StrategyFrameBroadcaster(IHubContext<StrategyHub> hubContext)
+    {
+        _hubContext = hubContext;
+    }
+
+    public Task SendFillAsync(string strategyId, Fill fill, CancellationToken cancellationToken = default) =>
+        SendAsync(strategyId, "FillFrame", ProtoMapper.ToProto(fill), cancellationToken);
+
+    public Task SendOrderAckAsync(string strategyId, OrderAck ack, CancellationToken cancellationToken = default) =>
+        SendAsync(strategyId, "OrderAckFrame", ProtoMapper.ToProto(ack), cancellationToken);
+
+    public Task SendPortfolioAsync(string strategyId, PortfolioState portfolio, CancellationToken cancellationToken = default) =>
+        SendAsync(strategyId, "PortfolioFrame", ProtoMapper.ToProto(portfolio), cancellationToken);
+
+    public Task SendRiskCheckAsync(string strategyId, Order order, bool approved, string reason, CancellationToken cancellationToken = default) =>
+        SendAsync(strategyId, "RiskCheckFrame", ProtoMapper.ToRiskCheck(order, approved, reason), cancellationToken);
+
+    public Task SendSignalAsync(string strategyId, string strategyName, Wire.Proto.SignalType signalType, IEnumerable<Order> orders, string reason, ulong timestampNs, CancellationToken cancellationToken = default) =>
+        SendAsync(
+            strategyId,
+            "StrategySignalFrame",
+            ProtoMapper.ToStrategySignal(timestampNs, strategyName, signalType, orders, reason),
+            cancellationToken);
+
+    private Task SendAsync(string strategyId, string method, IMessage message, CancellationToken cancellationToken) =>
+        _hubContext.Clients.Group($"strategy_{strategyId}").SendAsync(method, message.ToByteArray(), cancellationToken);
+}
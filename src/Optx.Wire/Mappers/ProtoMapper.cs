@@ -1,9 +1,167 @@
+using Optx.Core.Events;
+using Optx.Core.Types;
+
 namespace Optx.Wire.Mappers;
 
 /// <summary>
-/// High-performance mappers between protobuf messages and internal types
-/// Note: Implementation pending protobuf code generation setup
+/// Mappers from internal types to the protobuf messages in proto/optx.proto.
+/// Prices go out as *_scaled integers (price * 10000); enums share their
+/// numeric values with the Optx.Core enums.
 /// </summary>
 public static class ProtoMapper
 {
-}
\ No newline at end of file
+    private const decimal PriceScale = 10000m;
+
+    private static long ToScaled(decimal price) => (long)decimal.Round(price * PriceScale);
+
+    /// <summary>
+    /// Map a market event; every event type has a case in the oneof
+    /// </summary>
+    public static Proto.MarketEvent ToProto(in MarketEvent marketEvent)
+    {
+        var message = new Proto.MarketEvent { TimestampNs = marketEvent.GetTimestamp() };
+        switch (marketEvent.Type)
+        {
+            case MarketEventType.MarketData:
+                message.MarketData = ToProto(marketEvent.AsMarketTick());
+                break;
+            case MarketEventType.Quote:
+                message.Quote = ToProto(marketEvent.AsQuoteUpdate());
+                break;
+            case MarketEventType.Fill:
+                message.Fill = ToProto(marketEvent.AsFill());
+                break;
+            case MarketEventType.OrderAck:
+                message.OrderAck = ToProto(marketEvent.AsOrderAck());
+                break;
+        }
+        return message;
+    }
+
+    public static Proto.MarketDataFrame ToProto(in MarketTick tick, ulong sequence = 0) => new()
+    {
+        Sequence = sequence,
+        TimestampNs = tick.TimestampNs,
+        Symbol = tick.Symbol.ToString(),
+        PriceScaled = ToScaled(tick.Price),
+        Quantity = tick.Quantity,
+        Type = (Proto.MarketDataType)tick.Type
+    };
+
+    public static Proto.QuoteUpdate ToProto(in QuoteUpdate quote) => new()
+    {
+        TimestampNs = quote.TimestampNs,
+        Symbol = quote.Symbol.ToString(),
+        BidPriceScaled = ToScaled(quote.BidPrice),
+        BidSize = quote.BidSize,
+        AskPriceScaled = ToScaled(quote.AskPrice),
+        AskSize = quote.AskSize
+    };
+
+    public static Proto.Fill ToProto(in Fill fill) => new()
+    {
+        OrderId = fill.OrderId,
+        ExchangeOrderId = fill.ExchangeOrderId,
+        FilledQuantity = fill.FilledQuantity,
+        FillPriceScaled = ToScaled(fill.FillPrice),
+        LeavesQuantity = fill.LeavesQuantity,
+        TimestampNs = fill.TimestampNs,
+        CommissionScaled = ToScaled(fill.Commission)
+    };
+
+    public static Proto.OrderAck ToProto(in OrderAck ack) => new()
+    {
+        OrderId = ack.OrderId,
+        ExchangeOrderId = ack.ExchangeOrderId,
+        Status = (Proto.OrderStatus)ack.Status,
+        TimestampNs = ack.TimestampNs,
+        Reason = ack.Reason ?? string.Empty
+    };
+
+    public static Proto.NewOrder ToProto(in Order order) => new()
+    {
+        OrderId = order.OrderId,
+        Symbol = order.Symbol.ToString(),
+        Side = (Proto.OrderSide)order.Side,
+        Type = (Proto.OrderType)order.Type,
+        Quantity = order.Quantity,
+        PriceScaled = order.Type == OrderType.Limit ? ToScaled(order.Price) : 0,
+        Tif = (Proto.TimeInForce)order.TimeInForce,
+        TimestampNs = order.TimestampNs
+    };
+
+    /// <summary>
+    /// Map a portfolio snapshot; position Greeks are per position, not per contract
+    /// </summary>
+    public static Proto.PortfolioSnapshot ToProto(in PortfolioState portfolio)
+    {
+        var snapshot = new Proto.PortfolioSnapshot
+        {
+            TimestampNs = portfolio.TimestampNs,
+            UnrealizedPnl = (double)portfolio.UnrealizedPnL,
+            RealizedPnl = (double)portfolio.RealizedPnL,
+            TotalPnl = (double)portfolio.GetTotalPnL(),
+            NetDelta = portfolio.NetGreeks.Delta,
+            NetGamma = portfolio.NetGreeks.Gamma,
+            NetTheta = portfolio.NetGreeks.Theta,
+            NetVega = portfolio.NetGreeks.Vega
+        };
+
+        foreach (var position in portfolio.Positions.Span)
+        {
+            var greeks = position.GetPortfolioGreeks();
+            snapshot.Positions.Add(new Proto.Position
+            {
+                Symbol = position.Symbol.ToString(),
+                Quantity = position.Quantity,
+                AvgPrice = (double)position.AveragePrice,
+                MarketValue = (double)position.GetMarketValue(),
+                UnrealizedPnl = (double)position.GetUnrealizedPnL(),
+                Delta = greeks.Delta,
+                Gamma = greeks.Gamma,
+                Theta = greeks.Theta,
+                Vega = greeks.Vega
+            });
+        }
+
+        return snapshot;
+    }
+
+    public static Proto.StrategySignal ToStrategySignal(
+        ulong timestampNs,
+        string strategyName,
+        Proto.SignalType signalType,
+        IEnumerable<Order> orders,
+        string reason)
+    {
+        var signal = new Proto.StrategySignal
+        {
+            TimestampNs = timestampNs,
+            StrategyName = strategyName,
+            SignalType = signalType,
+            Reason = reason
+        };
+        foreach (var order in orders)
+        {
+            signal.Orders.Add(ToProto(order));
+        }
+        return signal;
+    }
+
+    /// <summary>
+    /// Map the outcome of <see cref="Optx.Core.Interfaces.IRiskChecks.Approve"/>
+    /// </summary>
+    public static Proto.RiskCheck ToRiskCheck(
+        in Order order,
+        bool approved,
+        string reason,
+        double riskMetric = 0,
+        double riskLimit = 0) => new()
+    {
+        OrderId = order.OrderId,
+        Status = approved ? Proto.RiskStatus.Approved : Proto.RiskStatus.Rejected,
+        Reason = reason,
+        RiskMetric = riskMetric,
+        RiskLimit = riskLimit
+    };
+}